@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "WebhookSigningSecret" (
+    "id" SERIAL NOT NULL,
+    "companyId" INTEGER NOT NULL,
+    "secretCiphertext" TEXT NOT NULL,
+    "secretIv" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WebhookSigningSecret_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookSigningSecret_companyId_key" ON "WebhookSigningSecret"("companyId");
+
+-- AddForeignKey
+ALTER TABLE "WebhookSigningSecret" ADD CONSTRAINT "WebhookSigningSecret_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- Track the last applied event per resident and event family for stale/out-of-order detection.
+CREATE TABLE "ResidentEventWatermark" (
+  "id" SERIAL NOT NULL,
+  "companyId" INTEGER NOT NULL,
+  "residentId" INTEGER NOT NULL,
+  "eventFamily" TEXT NOT NULL,
+  "lastEventMessageDate" TIMESTAMP(3) NOT NULL,
+  "lastEventMessageId" TEXT NOT NULL,
+  "lastEventType" TEXT NOT NULL,
+  "lastLeaveId" INTEGER,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "ResidentEventWatermark_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "ResidentEventWatermark_companyId_residentId_eventFamily_key"
+ON "ResidentEventWatermark"("companyId", "residentId", "eventFamily");
+
+ALTER TABLE "ResidentEventWatermark"
+ADD CONSTRAINT "ResidentEventWatermark_companyId_fkey"
+FOREIGN KEY ("companyId") REFERENCES "Company"("id")
+ON DELETE RESTRICT ON UPDATE CASCADE;
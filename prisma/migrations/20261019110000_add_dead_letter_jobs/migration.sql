@@ -0,0 +1,28 @@
+-- Dead-lettered process-alis-event jobs (exhausted retries) for inspection and re-drive.
+CREATE TABLE "DeadLetterJob" (
+  "id" SERIAL NOT NULL,
+  "companyId" INTEGER NOT NULL,
+  "queueName" TEXT NOT NULL,
+  "jobId" TEXT NOT NULL,
+  "eventType" TEXT NOT NULL,
+  "eventMessageId" TEXT NOT NULL,
+  "jobData" JSONB NOT NULL,
+  "lastError" TEXT NOT NULL,
+  "attemptsMade" INTEGER NOT NULL,
+  "issueHistory" JSONB NOT NULL,
+  "status" TEXT NOT NULL,
+  "redriveCount" INTEGER NOT NULL DEFAULT 0,
+  "deadLetteredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "resolvedAt" TIMESTAMP(3),
+
+  CONSTRAINT "DeadLetterJob_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "DeadLetterJob_queueName_jobId_key" ON "DeadLetterJob"("queueName", "jobId");
+CREATE INDEX "DeadLetterJob_status_deadLetteredAt_idx" ON "DeadLetterJob"("status", "deadLetteredAt");
+CREATE INDEX "DeadLetterJob_companyId_eventType_idx" ON "DeadLetterJob"("companyId", "eventType");
+
+ALTER TABLE "DeadLetterJob"
+ADD CONSTRAINT "DeadLetterJob_companyId_fkey"
+FOREIGN KEY ("companyId") REFERENCES "Company"("id")
+ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- Operator-requested retries of retryable EventProcessingIssues.
+ALTER TABLE "EventProcessingIssue" ADD COLUMN "retryRequestedAt" TIMESTAMP(3);
+ALTER TABLE "EventProcessingIssue" ADD COLUMN "retryJobId" TEXT;
@@ -0,0 +1,5 @@
+-- Result of the last check of stored ALIS credentials against ALIS.
+ALTER TABLE "AlisCredential" ADD COLUMN "lastVerifiedAt" TIMESTAMP(3);
+ALTER TABLE "AlisCredential" ADD COLUMN "lastVerificationStatus" TEXT;
+ALTER TABLE "AlisCredential" ADD COLUMN "lastVerificationError" TEXT;
+ALTER TABLE "AlisCredential" ADD COLUMN "failingSince" TIMESTAMP(3);
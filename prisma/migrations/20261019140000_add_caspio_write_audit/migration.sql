@@ -0,0 +1,32 @@
+-- Audit trail of every insert/update the integration sends to Caspio.
+CREATE TABLE "CaspioWriteAudit" (
+  "id" SERIAL NOT NULL,
+  "companyId" INTEGER,
+  "residentId" INTEGER,
+  "tableName" TEXT NOT NULL,
+  "operation" TEXT NOT NULL,
+  "keyFilter" JSONB,
+  "patch" JSONB NOT NULL,
+  "priorValues" JSONB,
+  "resultId" TEXT,
+  "status" TEXT NOT NULL,
+  "error" TEXT,
+  "source" TEXT NOT NULL,
+  "eventMessageId" TEXT,
+  "eventType" TEXT,
+  "backfillJobId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "CaspioWriteAudit_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "CaspioWriteAudit_residentId_createdAt_idx" ON "CaspioWriteAudit"("residentId", "createdAt");
+CREATE INDEX "CaspioWriteAudit_tableName_createdAt_idx" ON "CaspioWriteAudit"("tableName", "createdAt");
+CREATE INDEX "CaspioWriteAudit_eventMessageId_idx" ON "CaspioWriteAudit"("eventMessageId");
+CREATE INDEX "CaspioWriteAudit_backfillJobId_idx" ON "CaspioWriteAudit"("backfillJobId");
+CREATE INDEX "CaspioWriteAudit_createdAt_idx" ON "CaspioWriteAudit"("createdAt");
+
+ALTER TABLE "CaspioWriteAudit"
+ADD CONSTRAINT "CaspioWriteAudit_companyId_fkey"
+FOREIGN KEY ("companyId") REFERENCES "Company"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "CaspioColumnMapping" (
+    "id" SERIAL NOT NULL,
+    "companyId" INTEGER NOT NULL,
+    "config" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CaspioColumnMapping_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CaspioColumnMapping_companyId_key" ON "CaspioColumnMapping"("companyId");
+
+-- AddForeignKey
+ALTER TABLE "CaspioColumnMapping" ADD CONSTRAINT "CaspioColumnMapping_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
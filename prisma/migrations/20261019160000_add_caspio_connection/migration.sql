@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "CaspioConnection" (
+    "id" SERIAL NOT NULL,
+    "companyId" INTEGER NOT NULL,
+    "baseUrl" TEXT NOT NULL,
+    "tokenUrl" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "clientSecretCiphertext" TEXT NOT NULL,
+    "clientSecretIv" TEXT NOT NULL,
+    "patientTableName" TEXT,
+    "communityTableName" TEXT,
+    "serviceTableName" TEXT,
+    "offPremHistoryTableName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CaspioConnection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CaspioConnection_companyId_key" ON "CaspioConnection"("companyId");
+
+-- AddForeignKey
+ALTER TABLE "CaspioConnection" ADD CONSTRAINT "CaspioConnection_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "EventLog" ADD COLUMN     "leaveId" INTEGER,
+ADD COLUMN     "residentId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "EventLog_companyId_eventType_residentId_idx" ON "EventLog"("companyId", "eventType", "residentId");
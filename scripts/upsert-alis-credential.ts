@@ -1,6 +1,7 @@
 import 'dotenv/config';
 
 import crypto from 'crypto';
+import axios from 'axios';
 import { PrismaClient } from '@prisma/client';
 
 function readArg(name: string): string | undefined {
@@ -16,13 +17,43 @@ function readArg(name: string): string | undefined {
   return undefined;
 }
 
+type Verification = { status: 'ok'; checkedAt: Date };
+
+/** Same check as the admin API: ALIS must accept the credentials for GET /communities. */
+async function verifyCredentials(username: string, password: string): Promise<Verification> {
+  const baseURL = process.env.ALIS_API_BASE;
+  if (!baseURL) {
+    throw new Error('ALIS_API_BASE is required for --verify.');
+  }
+
+  const checkedAt = new Date();
+  try {
+    await axios.get('/v1/integration/communities', {
+      baseURL,
+      auth: { username, password },
+      headers: { Accept: 'application/json' },
+      timeout: Number(process.env.REQUEST_TIMEOUT_MS ?? 15000),
+    });
+  } catch (error) {
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      status === 401 || status === 403
+        ? `ALIS rejected the credentials (${status}); nothing was stored.`
+        : `Could not verify the credentials against ALIS: ${message}; nothing was stored.`,
+    );
+  }
+  return { status: 'ok', checkedAt };
+}
+
 async function main(): Promise<void> {
   const companyKey = readArg('companyKey');
   const username = readArg('username');
   const password = readArg('password');
+  const verify = process.argv.includes('--verify');
 
   if (!companyKey || !username || !password) {
-    throw new Error('Usage: --companyKey <key> --username <user> --password <pass>');
+    throw new Error('Usage: --companyKey <key> --username <user> --password <pass> [--verify]');
   }
 
   const masterKey = process.env.ALIS_CREDENTIALS_MASTER_KEY;
@@ -41,6 +72,14 @@ async function main(): Promise<void> {
   const authTag = cipher.getAuthTag();
   const ciphertext = `${encrypted.toString('base64')}.${authTag.toString('base64')}`;
 
+  const verification = verify ? await verifyCredentials(username, password) : null;
+  const verificationFields = {
+    lastVerifiedAt: verification?.checkedAt ?? null,
+    lastVerificationStatus: verification?.status ?? null,
+    lastVerificationError: null,
+    failingSince: null,
+  };
+
   let prisma: PrismaClient | null = null;
   try {
     prisma = new PrismaClient();
@@ -59,11 +98,13 @@ async function main(): Promise<void> {
         username,
         passwordCiphertext: ciphertext,
         passwordIv: iv.toString('base64'),
+        ...verificationFields,
       },
       update: {
         username,
         passwordCiphertext: ciphertext,
         passwordIv: iv.toString('base64'),
+        ...verificationFields,
       },
     });
 
@@ -73,6 +114,7 @@ async function main(): Promise<void> {
           success: true,
           companyId: record.companyId,
           username: record.username,
+          verification: verification?.status ?? 'skipped',
         },
         null,
         2,
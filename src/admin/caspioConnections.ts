@@ -0,0 +1,166 @@
+import type { CaspioConnection } from '@prisma/client';
+import { z } from 'zod';
+
+import { prisma } from '../db/prisma.js';
+import type { CaspioTableNames } from '../integrations/caspio/caspioConnection.js';
+import {
+  caspioConnectionKeyFor,
+  caspioTableNamesFor,
+  forgetCompanyCaspioClient,
+} from '../integrations/caspio/companyCaspioClient.js';
+import { discardSharedCaspioToken } from '../integrations/caspio/tokenStore.js';
+import { encryptSecret } from '../security/credentials.js';
+
+/**
+ * Per-company Caspio connections.
+ *
+ * A company with a stored connection has its events and backfills written to that Caspio account
+ * (see integrations/caspio/companyCaspioClient.ts); every other company uses the `CASPIO_*` env
+ * vars. The client secret is stored encrypted and never returned.
+ */
+
+export class CaspioConnectionError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly issues?: Array<{ path: string; message: string }>,
+  ) {
+    super(message);
+    this.name = 'CaspioConnectionError';
+  }
+}
+
+const TableNameSchema = z
+  .string()
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, { message: 'Invalid Caspio table name' });
+
+const CaspioConnectionInputSchema = z
+  .object({
+    baseUrl: z.string().url(),
+    /** Defaults to `<baseUrl>/oauth/token`. */
+    tokenUrl: z.string().url().optional(),
+    clientId: z.string().trim().min(1),
+    clientSecret: z.string().min(1),
+    /** Tables left out use the env table names. */
+    tables: z
+      .object({
+        patient: TableNameSchema.optional(),
+        community: TableNameSchema.optional(),
+        service: TableNameSchema.optional(),
+        offPremHistory: TableNameSchema.optional(),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict();
+
+export type CaspioConnectionInput = z.input<typeof CaspioConnectionInputSchema>;
+
+export type CaspioConnectionSummary = {
+  baseUrl: string;
+  tokenUrl: string;
+  clientId: string;
+  /** Table names written to, with the env defaults filled in. */
+  tables: CaspioTableNames;
+  updatedAt: Date;
+};
+
+export type CaspioConnectionRecord = {
+  companyId: number;
+  companyKey: string;
+  /** Null when the company uses the env connection. */
+  connection: CaspioConnectionSummary | null;
+};
+
+async function findCompanyOrThrow(companyKey: string): Promise<{ id: number; companyKey: string }> {
+  const company = await prisma.company.findUnique({
+    where: { companyKey },
+  });
+
+  if (!company) {
+    throw new CaspioConnectionError(`Company not found for key '${companyKey}'.`, 404);
+  }
+
+  return company;
+}
+
+function toSummary(record: CaspioConnection): CaspioConnectionSummary {
+  return {
+    baseUrl: record.baseUrl,
+    tokenUrl: record.tokenUrl,
+    clientId: record.clientId,
+    tables: caspioTableNamesFor(record),
+    updatedAt: record.updatedAt,
+  };
+}
+
+export async function getCaspioConnection(companyKey: string): Promise<CaspioConnectionRecord> {
+  const company = await findCompanyOrThrow(companyKey);
+  const record = await prisma.caspioConnection.findUnique({
+    where: { companyId: company.id },
+  });
+
+  return {
+    companyId: company.id,
+    companyKey: company.companyKey,
+    connection: record ? toSummary(record) : null,
+  };
+}
+
+/** Validate and store (or replace) a company's connection. */
+export async function upsertCaspioConnection(
+  companyKey: string,
+  input: unknown,
+): Promise<CaspioConnectionRecord> {
+  const parsed = CaspioConnectionInputSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new CaspioConnectionError(
+      'Invalid Caspio connection',
+      400,
+      parsed.error.issues.map((issue) => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      })),
+    );
+  }
+
+  const company = await findCompanyOrThrow(companyKey);
+  const { baseUrl, tokenUrl, clientId, clientSecret, tables } = parsed.data;
+  const encrypted = encryptSecret(clientSecret);
+  const fields = {
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    tokenUrl: tokenUrl ?? `${baseUrl.replace(/\/+$/, '')}/oauth/token`,
+    clientId,
+    clientSecretCiphertext: encrypted.ciphertext,
+    clientSecretIv: encrypted.iv,
+    patientTableName: tables.patient ?? null,
+    communityTableName: tables.community ?? null,
+    serviceTableName: tables.service ?? null,
+    offPremHistoryTableName: tables.offPremHistory ?? null,
+  };
+
+  const record = await prisma.caspioConnection.upsert({
+    where: { companyId: company.id },
+    create: { companyId: company.id, ...fields },
+    update: fields,
+  });
+  forgetCompanyCaspioClient(company.id);
+  // A token minted for the previous account or client must not be handed to the new one.
+  await discardSharedCaspioToken(caspioConnectionKeyFor(company.id));
+
+  return {
+    companyId: company.id,
+    companyKey: company.companyKey,
+    connection: toSummary(record),
+  };
+}
+
+export async function removeCaspioConnection(companyKey: string): Promise<boolean> {
+  const company = await findCompanyOrThrow(companyKey);
+  const result = await prisma.caspioConnection.deleteMany({
+    where: { companyId: company.id },
+  });
+  forgetCompanyCaspioClient(company.id);
+  await discardSharedCaspioToken(caspioConnectionKeyFor(company.id));
+  return result.count > 0;
+}
@@ -1,39 +1,216 @@
+import type { AlisCredential } from '@prisma/client';
+
+import { logger } from '../config/logger.js';
 import { prisma } from '../db/prisma.js';
-import { encryptSecret } from '../security/credentials.js';
+import { recordEventIssue } from '../domains/eventIssues.js';
+import {
+  AlisApiError,
+  createAlisClient,
+  type AlisCredentials,
+} from '../integrations/alisClient.js';
+import { decryptSecret, encryptSecret } from '../security/credentials.js';
+
+export class AlisCredentialError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly verification?: AlisCredentialVerification,
+  ) {
+    super(message);
+    this.name = 'AlisCredentialError';
+  }
+}
 
 export type UpsertAlisCredentialInput = {
   companyKey: string;
   username: string;
   password: string;
+  /** Test the credentials against ALIS first; nothing is stored if ALIS does not accept them. */
+  verify?: boolean;
+};
+
+/**
+ * `invalid` means ALIS rejected the credentials (401/403); `error` means the check could not reach
+ * a verdict (ALIS down, timeout), which says nothing about the credentials.
+ */
+export type AlisCredentialVerificationStatus = 'ok' | 'invalid' | 'error';
+
+export type AlisCredentialVerification = {
+  status: AlisCredentialVerificationStatus;
+  checkedAt: Date;
+  error: string | null;
+};
+
+export type AlisCredentialCheckSummary = {
+  checked: number;
+  ok: number;
+  invalid: number;
+  error: number;
+  /** Companies whose credentials were rejected by this check after passing before. */
+  newlyFailing: string[];
 };
 
-export async function upsertAlisCredential(
-  input: UpsertAlisCredentialInput,
-): Promise<{ companyId: number; username: string }> {
+/** Calls `getCommunities`, the cheapest endpoint every ALIS integration user can read. */
+export async function verifyAlisCredentials(
+  credentials: AlisCredentials,
+  budgetKey?: string,
+): Promise<AlisCredentialVerification> {
+  const checkedAt = new Date();
+  try {
+    await createAlisClient(credentials, { budgetKey }).getCommunities();
+    return { status: 'ok', checkedAt, error: null };
+  } catch (error) {
+    const status = error instanceof AlisApiError ? error.status : undefined;
+    return {
+      status: status === 401 || status === 403 ? 'invalid' : 'error',
+      checkedAt,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function verificationFields(verification: AlisCredentialVerification | null) {
+  return {
+    lastVerifiedAt: verification?.checkedAt ?? null,
+    lastVerificationStatus: verification?.status ?? null,
+    lastVerificationError: verification?.error ?? null,
+  };
+}
+
+export async function upsertAlisCredential(input: UpsertAlisCredentialInput): Promise<{
+  companyId: number;
+  username: string;
+  verification: AlisCredentialVerification | null;
+}> {
   const company = await prisma.company.findUnique({
     where: { companyKey: input.companyKey },
   });
 
   if (!company) {
-    throw new Error(`Company not found for key '${input.companyKey}'.`);
+    throw new AlisCredentialError(`Company not found for key '${input.companyKey}'.`, 404);
+  }
+
+  let verification: AlisCredentialVerification | null = null;
+  if (input.verify) {
+    verification = await verifyAlisCredentials(
+      { username: input.username, password: input.password },
+      input.companyKey,
+    );
+    if (verification.status === 'invalid') {
+      throw new AlisCredentialError(
+        `ALIS rejected the credentials for '${input.companyKey}': ${verification.error}`,
+        422,
+        verification,
+      );
+    }
+    if (verification.status === 'error') {
+      throw new AlisCredentialError(
+        `Could not verify the credentials for '${input.companyKey}' against ALIS: ${verification.error}`,
+        502,
+        verification,
+      );
+    }
   }
 
   const encrypted = encryptSecret(input.password);
+  // New credentials start unverified unless checked above; an old result no longer applies.
+  const fields = {
+    username: input.username,
+    passwordCiphertext: encrypted.ciphertext,
+    passwordIv: encrypted.iv,
+    ...verificationFields(verification),
+    failingSince: null,
+  };
 
   const record = await prisma.alisCredential.upsert({
     where: { companyId: company.id },
-    create: {
-      companyId: company.id,
-      username: input.username,
-      passwordCiphertext: encrypted.ciphertext,
-      passwordIv: encrypted.iv,
-    },
-    update: {
-      username: input.username,
-      passwordCiphertext: encrypted.ciphertext,
-      passwordIv: encrypted.iv,
-    },
+    create: { companyId: company.id, ...fields },
+    update: fields,
   });
 
-  return { companyId: record.companyId, username: record.username };
+  return { companyId: record.companyId, username: record.username, verification };
+}
+
+async function checkStoredCredential(
+  credential: AlisCredential & { company: { companyKey: string } },
+): Promise<{ verification: AlisCredentialVerification; newlyFailing: boolean }> {
+  const companyKey = credential.company.companyKey;
+  let verification: AlisCredentialVerification;
+  try {
+    verification = await verifyAlisCredentials(
+      {
+        username: credential.username,
+        password: decryptSecret(credential.passwordCiphertext, credential.passwordIv),
+      },
+      companyKey,
+    );
+  } catch (error) {
+    // A password that no longer decrypts is as unusable as one ALIS rejects.
+    verification = {
+      status: 'invalid',
+      checkedAt: new Date(),
+      error: `Failed to decrypt ALIS credentials: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  // An unreachable ALIS keeps the previous verdict; only the error and check time change.
+  const failingSince =
+    verification.status === 'invalid'
+      ? (credential.failingSince ?? verification.checkedAt)
+      : verification.status === 'ok'
+        ? null
+        : credential.failingSince;
+  const newlyFailing = verification.status === 'invalid' && !credential.failingSince;
+
+  await prisma.alisCredential.update({
+    where: { id: credential.id },
+    data: { ...verificationFields(verification), failingSince },
+  });
+
+  if (newlyFailing) {
+    logger.error(
+      { companyKey, companyId: credential.companyId, error: verification.error },
+      'alis_credential_started_failing',
+    );
+    await recordEventIssue({
+      companyId: credential.companyId,
+      eventType: 'alis.credentials',
+      eventMessageId: `alis-credential-check-${credential.companyId}-${verification.checkedAt.toISOString()}`,
+      stage: 'alis_credentials',
+      severity: 'error',
+      message: `Stored ALIS credentials for '${companyKey}' are being rejected by ALIS`,
+      details: { username: credential.username, error: verification.error },
+      retryable: false,
+    });
+  }
+
+  return { verification, newlyFailing };
+}
+
+/**
+ * Re-check every stored credential and flag the ones ALIS started rejecting. Each credential is
+ * flagged once per outage: `failingSince` stays set until a check passes again.
+ */
+export async function checkStoredAlisCredentials(): Promise<AlisCredentialCheckSummary> {
+  const credentials = await prisma.alisCredential.findMany({
+    include: { company: { select: { companyKey: true } } },
+    orderBy: { companyId: 'asc' },
+  });
+
+  const summary: AlisCredentialCheckSummary = {
+    checked: 0,
+    ok: 0,
+    invalid: 0,
+    error: 0,
+    newlyFailing: [],
+  };
+
+  for (const credential of credentials) {
+    const { verification, newlyFailing } = await checkStoredCredential(credential);
+    summary.checked += 1;
+    summary[verification.status] += 1;
+    if (newlyFailing) summary.newlyFailing.push(credential.company.companyKey);
+  }
+
+  return summary;
 }
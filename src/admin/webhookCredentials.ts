@@ -0,0 +1,206 @@
+import { prisma } from '../db/prisma.js';
+import { decryptSecret, encryptSecret } from '../security/credentials.js';
+import { generateSecret, hashPassword } from '../security/passwordHash.js';
+
+export class WebhookCredentialError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = 'WebhookCredentialError';
+  }
+}
+
+export type IssueWebhookCredentialInput = {
+  companyKey: string;
+  username?: string;
+  password?: string;
+};
+
+export type RotateWebhookCredentialInput = IssueWebhookCredentialInput;
+
+/**
+ * Plaintext password is only ever returned from issue/rotate; the database keeps the hash.
+ */
+export type IssuedWebhookCredential = {
+  companyId: number;
+  companyKey: string;
+  username: string;
+  password: string;
+  updatedAt: Date;
+};
+
+export type WebhookCredentialRecord = {
+  companyId: number;
+  companyKey: string;
+  username: string;
+  passwordHash: string;
+};
+
+export type WebhookSigningSecretRecord = {
+  companyId: number;
+  companyKey: string;
+  secret: string;
+};
+
+async function findCompanyOrThrow(companyKey: string): Promise<{ id: number; companyKey: string }> {
+  const company = await prisma.company.findUnique({
+    where: { companyKey },
+  });
+
+  if (!company) {
+    throw new WebhookCredentialError(`Company not found for key '${companyKey}'.`, 404);
+  }
+
+  return company;
+}
+
+function defaultUsername(companyKey: string): string {
+  return `alis-${companyKey}`;
+}
+
+export async function issueWebhookCredential(
+  input: IssueWebhookCredentialInput,
+): Promise<IssuedWebhookCredential> {
+  const company = await findCompanyOrThrow(input.companyKey);
+
+  const existing = await prisma.credential.findUnique({
+    where: { companyId: company.id },
+  });
+  if (existing) {
+    throw new WebhookCredentialError(
+      `Webhook credential already issued for '${company.companyKey}'; rotate it instead.`,
+      409,
+    );
+  }
+
+  const username = input.username ?? defaultUsername(company.companyKey);
+  const password = input.password ?? generateSecret();
+
+  const record = await prisma.credential.create({
+    data: {
+      companyId: company.id,
+      username,
+      passwordHash: await hashPassword(password),
+    },
+  });
+
+  return {
+    companyId: company.id,
+    companyKey: company.companyKey,
+    username: record.username,
+    password,
+    updatedAt: record.updatedAt,
+  };
+}
+
+export async function rotateWebhookCredential(
+  input: RotateWebhookCredentialInput,
+): Promise<IssuedWebhookCredential> {
+  const company = await findCompanyOrThrow(input.companyKey);
+
+  const existing = await prisma.credential.findUnique({
+    where: { companyId: company.id },
+  });
+  if (!existing) {
+    throw new WebhookCredentialError(
+      `No webhook credential issued for '${company.companyKey}'.`,
+      404,
+    );
+  }
+
+  const password = input.password ?? generateSecret();
+
+  const record = await prisma.credential.update({
+    where: { companyId: company.id },
+    data: {
+      username: input.username ?? existing.username,
+      passwordHash: await hashPassword(password),
+    },
+  });
+
+  return {
+    companyId: company.id,
+    companyKey: company.companyKey,
+    username: record.username,
+    password,
+    updatedAt: record.updatedAt,
+  };
+}
+
+export async function findWebhookCredentialByCompanyKey(
+  companyKey: string,
+): Promise<WebhookCredentialRecord | null> {
+  const record = await prisma.credential.findFirst({
+    where: { company: { companyKey } },
+    include: { company: true },
+  });
+
+  if (!record) {
+    return null;
+  }
+
+  return {
+    companyId: record.companyId,
+    companyKey: record.company.companyKey,
+    username: record.username,
+    passwordHash: record.passwordHash,
+  };
+}
+
+/**
+ * Set (or replace) the HMAC signing secret for a company. Once set, every webhook for
+ * the company must carry a valid signature. Stored encrypted because verification needs
+ * the plaintext.
+ */
+export async function setWebhookSigningSecret(input: {
+  companyKey: string;
+  secret?: string;
+}): Promise<WebhookSigningSecretRecord> {
+  const company = await findCompanyOrThrow(input.companyKey);
+  const secret = input.secret ?? generateSecret(32);
+  const encrypted = encryptSecret(secret);
+
+  await prisma.webhookSigningSecret.upsert({
+    where: { companyId: company.id },
+    create: {
+      companyId: company.id,
+      secretCiphertext: encrypted.ciphertext,
+      secretIv: encrypted.iv,
+    },
+    update: {
+      secretCiphertext: encrypted.ciphertext,
+      secretIv: encrypted.iv,
+    },
+  });
+
+  return { companyId: company.id, companyKey: company.companyKey, secret };
+}
+
+export async function removeWebhookSigningSecret(companyKey: string): Promise<boolean> {
+  const company = await findCompanyOrThrow(companyKey);
+  const result = await prisma.webhookSigningSecret.deleteMany({
+    where: { companyId: company.id },
+  });
+  return result.count > 0;
+}
+
+export async function findWebhookSigningSecretByCompanyKey(
+  companyKey: string,
+): Promise<WebhookSigningSecretRecord | null> {
+  const record = await prisma.webhookSigningSecret.findFirst({
+    where: { company: { companyKey } },
+    include: { company: true },
+  });
+
+  if (!record) {
+    return null;
+  }
+
+  return {
+    companyId: record.companyId,
+    companyKey: record.company.companyKey,
+    secret: decryptSecret(record.secretCiphertext, record.secretIv),
+  };
+}
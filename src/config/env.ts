@@ -21,8 +21,25 @@ const EnvSchema = z
     ALIS_TEST_USERNAME: z.string(),
     ALIS_TEST_PASSWORD: z.string(),
     ALIS_CREDENTIALS_MASTER_KEY: z.string(),
+    // Attempts per ALIS call on 429/5xx/timeouts (Retry-After is honored, capped by the max delay)
+    ALIS_RETRY_MAX: z.coerce.number().default(3),
+    ALIS_RETRY_MAX_DELAY_MS: z.coerce.number().default(30000),
+    // ALIS requests per second per company, shared through Redis (0 disables the budget)
+    ALIS_REQUEST_BUDGET_PER_SECOND: z.coerce.number().default(10),
+    // How often the worker re-checks stored ALIS credentials (0 disables the scheduled check)
+    ALIS_CREDENTIAL_CHECK_INTERVAL_MINUTES: z.coerce.number().default(60),
     WEBHOOK_BASIC_USER: z.string(),
     WEBHOOK_BASIC_PASS: z.string(),
+    // Accept the global WEBHOOK_BASIC_USER/PASS pair for companies not yet issued their own credential
+    WEBHOOK_GLOBAL_AUTH_FALLBACK: z
+      .union([z.string(), z.boolean()])
+      .default('true')
+      .transform((val) => {
+        if (typeof val === 'boolean') return val;
+        return val.toLowerCase() === 'true';
+      }),
+    // Max age (and clock skew) accepted for X-Alis-Timestamp on signed webhooks
+    WEBHOOK_SIGNATURE_TOLERANCE_SECONDS: z.coerce.number().default(300),
     CASPIO_BASE_URL: z.string().url().default('https://c3aca270.caspio.com'),
     CASPIO_TOKEN_URL: z.string().url().default('https://c3aca270.caspio.com/oauth/token'),
     CASPIO_CLIENT_ID: z.string(),
@@ -33,12 +50,24 @@ const EnvSchema = z
     CASPIO_OFF_PREM_HISTORY_TABLE_NAME: z.string().default('PatientOffPremHistory_API'),
     CASPIO_TIMEOUT_MS: z.coerce.number().default(10000),
     CASPIO_RETRY_MAX: z.coerce.number().default(3),
+    // Caspio requests per second across all processes, shared through Redis (0 disables the budget)
+    CASPIO_REQUEST_BUDGET_PER_SECOND: z.coerce.number().default(10),
+    CASPIO_REQUEST_BUDGET_BURST: z.coerce.number().default(20),
+    // Part of the burst that backfills may not use, kept free for live events
+    CASPIO_REQUEST_BUDGET_LIVE_RESERVE: z.coerce.number().default(5),
     // Legacy vars (deprecated, kept for backward compatibility)
     CASPIO_TABLE_ENDPOINT: z.string().url().optional(),
     CASPIO_SCOPE: z.string().default('resources:all'),
     IP_ALLOWLIST: z.string().optional(),
     WORKER_CONCURRENCY: z.coerce.number().default(5),
     REQUEST_TIMEOUT_MS: z.coerce.number().default(15000),
+    // Per-resident ordering: lock TTL must exceed the slowest single event job
+    RESIDENT_EVENT_LOCK_TTL_MS: z.coerce.number().default(300000),
+    RESIDENT_EVENT_WAIT_DELAY_MS: z.coerce.number().default(1000),
+    // Delay before re-checking an out-of-order event (e.g. leave_end waiting for leave_start)
+    EVENT_DEFER_DELAY_MS: z.coerce.number().default(30000),
+    // Default throttle for admin event replays (events enqueued per second)
+    EVENT_REPLAY_RATE_PER_SECOND: z.coerce.number().default(5),
   })
   .transform((values) => ({
     ...values,
@@ -2,6 +2,23 @@ import type { OpenAPIV3 } from 'openapi-types';
 
 import { env } from '../config/env.js';
 
+const caspioTableColumnMappingSchema: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  properties: {
+    rename: {
+      type: 'object',
+      additionalProperties: { type: 'string' },
+      description: 'Integration column -> company column',
+    },
+    drop: { type: 'array', items: { type: 'string' }, description: 'Integration columns' },
+    defaults: {
+      type: 'object',
+      additionalProperties: {},
+      description: 'Company column -> value written when the record leaves it empty',
+    },
+  },
+};
+
 const webhookSchema: OpenAPIV3.SchemaObject = {
   type: 'object',
   required: ['CompanyKey', 'EventType', 'EventMessageId', 'EventMessageDate'],
@@ -70,26 +87,36 @@ export const openApiDocument: OpenAPIV3.Document = {
     '/health/deps': {
       get: {
         summary: 'Dependency health',
-        description: 'Checks downstream dependencies (ALIS API, database, Redis).',
+        description:
+          'Checks downstream dependencies (ALIS API, database, Redis) and whether the Caspio tables ' +
+          'of every connection still have the columns the mapper reads and writes (cached). ' +
+          'caspioSchema is the worst status across connections; a mismatch or unreachable Caspio ' +
+          'reports the service as degraded without failing the probe. The tables and columns are ' +
+          'listed under GET /admin/caspio/schema.',
         responses: {
           '200': {
-            description: 'Dependencies reachable.',
+            description: 'Dependencies reachable; degraded when a Caspio schema check failed.',
             content: {
               'application/json': {
                 schema: {
                   type: 'object',
                   properties: {
-                    status: { type: 'string', example: 'ok' },
+                    status: { type: 'string', enum: ['ok', 'degraded'], example: 'ok' },
                     alis: { type: 'string', example: 'ok' },
                     database: { type: 'string', example: 'ok' },
                     redis: { type: 'string', example: 'ok' },
+                    caspioSchema: {
+                      type: 'string',
+                      enum: ['ok', 'mismatch', 'error'],
+                      example: 'ok',
+                    },
                   },
                 },
               },
             },
           },
           '503': {
-            description: 'One or more dependencies unavailable.',
+            description: 'ALIS, the database or Redis unavailable.',
           },
         },
       },
@@ -98,7 +125,12 @@ export const openApiDocument: OpenAPIV3.Document = {
       post: {
         summary: 'ALIS webhook endpoint',
         description:
-          'Receives ALIS events, enqueues processing jobs, and ensures idempotent handling by EventMessageId.',
+          'Receives ALIS events, enqueues processing jobs, and ensures idempotent handling by EventMessageId. ' +
+          'BasicAuth must match the per-company webhook credential for the payload CompanyKey; ' +
+          'the global credential pair is accepted while WEBHOOK_GLOBAL_AUTH_FALLBACK is enabled, ' +
+          'for companies that have no credential of their own. ' +
+          'Companies with a signing secret must also send X-Alis-Timestamp (unix seconds) and ' +
+          'X-Alis-Signature (sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">).',
         security: [{ basicAuth: [] }],
         requestBody: {
           required: true,
@@ -115,7 +147,10 @@ export const openApiDocument: OpenAPIV3.Document = {
           '200': {
             description: 'Duplicate event received and acknowledged.',
           },
-          '401': { description: 'Basic authentication failed.' },
+          '401': {
+            description:
+              'Basic authentication failed, or signature verification failed (response includes reason).',
+          },
           '403': { description: 'Request IP is not in allowlist.' },
           '400': { description: 'Validation error.' },
         },
@@ -394,6 +429,28 @@ export const openApiDocument: OpenAPIV3.Document = {
             description: 'Number of residents per page (default: 50)',
             schema: { type: 'integer', example: 50 },
           },
+          {
+            name: 'status',
+            in: 'query',
+            required: false,
+            description: 'Filter by resident status (e.g., "CurrentResident")',
+            schema: { type: 'string', example: 'CurrentResident' },
+          },
+          {
+            name: 'all',
+            in: 'query',
+            required: false,
+            description:
+              'When "true", read every page from `page` on and return a `pagination` summary',
+            schema: { type: 'boolean', example: false },
+          },
+          {
+            name: 'maxPages',
+            in: 'query',
+            required: false,
+            description: 'Page limit for all=true (default: 20, max: 100)',
+            schema: { type: 'integer', example: 20 },
+          },
         ],
         responses: {
           '200': {
@@ -759,93 +816,60 @@ export const openApiDocument: OpenAPIV3.Document = {
         },
       },
     },
-    '/admin/residents/{residentId}/push-to-caspio': {
-      post: {
-        summary: 'Push Resident Data to Caspio',
+    '/admin/caspio/schema': {
+      get: {
+        summary: 'Caspio table schema check',
         description:
-          'Fetches complete resident data from ALIS API and pushes it directly to Caspio. ' +
-          'This endpoint retrieves all resident information (basic info, insurance, room assignments, diagnoses/allergies, contacts, community) ' +
-          'and synchronizes it with Caspio using the same mapping logic as webhook events. ' +
-          'Community information is fetched when available and mapped to CommunityName and Community_Address fields in Caspio. ' +
-          'Useful for testing Caspio integration, manual data synchronization, and verifying Caspio push functionality. ' +
-          'Returns the Caspio operation result (insert or update) and the Caspio record ID if available.',
+          'Compares the Caspio patient, community, service and off-prem history table definitions with the ' +
+          'columns the mapper reads and writes, for the env connection or a company connection. ' +
+          'Results are cached per connection for 10 minutes (1 minute after a failed check).',
         security: [{ basicAuth: [] }],
-        tags: ['Admin'],
         parameters: [
           {
-            name: 'residentId',
-            in: 'path',
-            required: true,
-            description: 'The ALIS resident ID to push to Caspio',
-            schema: { type: 'integer', example: 69227 },
+            name: 'refresh',
+            in: 'query',
+            required: false,
+            schema: { type: 'boolean' },
+            description: 'Re-read the table definitions instead of using the cached result.',
+          },
+          {
+            name: 'companyKey',
+            in: 'query',
+            required: false,
+            schema: { type: 'string' },
+            description: "Check the company's own Caspio connection instead of the env connection.",
           },
         ],
         responses: {
           '200': {
-            description: 'Successfully pushed resident data to Caspio.',
+            description: 'Schema comparison per table.',
             content: {
               'application/json': {
                 schema: {
                   type: 'object',
                   properties: {
-                    success: { type: 'boolean', example: true },
-                    residentId: { type: 'integer', example: 69227 },
-                    timestamp: { type: 'string', format: 'date-time' },
-                    caspio: {
-                      type: 'object',
-                      properties: {
-                        action: {
-                          type: 'string',
-                          enum: ['insert', 'update'],
-                          example: 'update',
-                          description: 'Whether the record was inserted (new) or updated (existing)',
-                        },
-                        id: {
-                          type: 'string',
-                          nullable: true,
-                          example: '12345',
-                          description: 'Caspio record ID if available',
+                    success: { type: 'boolean' },
+                    connection: { type: 'string', example: 'default' },
+                    status: { type: 'string', enum: ['ok', 'mismatch', 'error'] },
+                    checkedAt: { type: 'string', format: 'date-time' },
+                    tables: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          table: {
+                            type: 'string',
+                            enum: ['patient', 'community', 'service', 'offPremHistory'],
+                          },
+                          tableName: { type: 'string', example: 'CarePatientTable_API' },
+                          status: { type: 'string', enum: ['ok', 'mismatch', 'error'] },
+                          missingColumns: { type: 'array', items: { type: 'string' } },
+                          readOnlyColumns: { type: 'array', items: { type: 'string' } },
+                          unmappedColumns: { type: 'array', items: { type: 'string' } },
+                          error: { type: 'string' },
                         },
                       },
                     },
-                    data: {
-                      type: 'object',
-                      properties: {
-                        insuranceCount: { type: 'integer', example: 2 },
-                        roomAssignmentsCount: { type: 'integer', example: 1 },
-                        diagnosesAndAllergiesCount: { type: 'integer', example: 5 },
-                        contactsCount: { type: 'integer', example: 2 },
-                      },
-                    },
-                  },
-                },
-                example: {
-                  success: true,
-                  residentId: 69227,
-                  timestamp: '2025-12-02T15:30:00.000Z',
-                  caspio: {
-                    action: 'update',
-                    id: '12345',
-                  },
-                  data: {
-                    insuranceCount: 2,
-                    roomAssignmentsCount: 1,
-                    diagnosesAndAllergiesCount: 5,
-                    contactsCount: 2,
-                  },
-                },
-              },
-            },
-          },
-          '400': {
-            description: 'Invalid residentId parameter.',
-            content: {
-              'application/json': {
-                schema: {
-                  type: 'object',
-                  properties: {
-                    success: { type: 'boolean', example: false },
-                    error: { type: 'string', example: 'Invalid residentId parameter' },
                     timestamp: { type: 'string', format: 'date-time' },
                   },
                 },
@@ -853,235 +877,524 @@ export const openApiDocument: OpenAPIV3.Document = {
             },
           },
           '401': { description: 'Basic authentication failed.' },
-          '404': {
-            description: 'Resident not found in ALIS API.',
-            content: {
-              'application/json': {
-                schema: {
-                  type: 'object',
-                  properties: {
-                    success: { type: 'boolean', example: false },
-                    error: { type: 'string', example: 'ALIS API endpoint not found (404)' },
-                    timestamp: { type: 'string', format: 'date-time' },
-                    residentId: { type: 'integer', example: 69227 },
-                  },
-                },
-              },
-            },
-          },
-          '500': {
-            description: 'ALIS API error, Caspio API error, or internal server error.',
+          '404': { description: 'Company not found.' },
+          '500': { description: 'Internal server error.' },
+        },
+      },
+    },
+    '/admin/caspio/requests': {
+      get: {
+        summary: 'Caspio request metrics',
+        description:
+          'Request counts per Caspio connection and table across all processes (live vs. bulk, throttled, retried, failed, skipped as unchanged), ' +
+          'and the shared request budget they draw from.',
+        security: [{ basicAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Counters per table.',
             content: {
               'application/json': {
                 schema: {
                   type: 'object',
                   properties: {
-                    success: { type: 'boolean', example: false },
-                    error: {
-                      type: 'string',
-                      example: 'Caspio API error: Invalid record data',
+                    success: { type: 'boolean' },
+                    budget: {
+                      type: 'object',
+                      properties: {
+                        perSecond: { type: 'number', example: 10 },
+                        burst: { type: 'number', example: 20 },
+                        liveReserve: { type: 'number', example: 5 },
+                      },
                     },
-                    timestamp: { type: 'string', format: 'date-time' },
-                    residentId: { type: 'integer', example: 69227 },
-                    caspioStatus: {
-                      type: 'integer',
-                      nullable: true,
-                      example: 400,
-                      description: 'HTTP status code from Caspio API if available',
+                    tables: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          connection: {
+                            type: 'string',
+                            example: 'default',
+                            description: 'default for the env connection, company-<id> otherwise.',
+                          },
+                          table: { type: 'string', example: 'CarePatientTable_API' },
+                          requests: { type: 'integer' },
+                          liveRequests: { type: 'integer' },
+                          bulkRequests: { type: 'integer' },
+                          throttledRequests: { type: 'integer' },
+                          throttleWaitMs: { type: 'integer' },
+                          retries: { type: 'integer' },
+                          failures: { type: 'integer' },
+                          unchangedUpdates: {
+                            type: 'integer',
+                            description: 'Updates skipped because the row already held the values.',
+                          },
+                        },
+                      },
                     },
+                    timestamp: { type: 'string', format: 'date-time' },
                   },
                 },
               },
             },
           },
+          '401': { description: 'Basic authentication failed.' },
+          '500': { description: 'Redis error or internal server error.' },
         },
       },
     },
-    '/admin/webhook-events': {
+    '/admin/caspio/writes': {
       get: {
-        summary: 'View Received Webhook Events',
+        summary: 'Caspio write audit',
         description:
-          'Lists all webhook events received from ALIS with filtering options. ' +
-          'Useful for monitoring webhook delivery, debugging event processing, and verifying event payloads.',
+          'Inserts and updates the integration sent to Caspio, newest first, with the key filter, ' +
+          'patch, prior values (when the row was fetched first), result id and the webhook event, ' +
+          'backfill job or admin push that caused them. SSN and insurance numbers are redacted.',
         security: [{ basicAuth: [] }],
-        tags: ['Admin', 'Webhooks'],
         parameters: [
           {
-            name: 'limit',
+            name: 'residentId',
             in: 'query',
             required: false,
-            description: 'Maximum number of events to return (default: 50)',
-            schema: { type: 'integer', example: 50 },
+            description: 'ALIS resident id',
+            schema: { type: 'integer', example: 12345 },
           },
           {
-            name: 'status',
+            name: 'table',
             in: 'query',
             required: false,
-            description: 'Filter by event status (received, queued, processed, failed, ignored)',
-            schema: {
-              type: 'string',
-              enum: ['received', 'queued', 'processed', 'failed', 'ignored'],
-              example: 'processed',
-            },
+            description: 'Caspio table name',
+            schema: { type: 'string', example: 'CarePatientTable_API' },
           },
           {
-            name: 'eventType',
+            name: 'eventMessageId',
             in: 'query',
             required: false,
-            description: 'Filter by event type (e.g., residents.move_in)',
-            schema: { type: 'string', example: 'residents.move_in' },
+            description: 'Writes made while processing this webhook event',
+            schema: { type: 'string' },
+          },
+          {
+            name: 'backfillJobId',
+            in: 'query',
+            required: false,
+            description: 'Writes made by this resident backfill job',
+            schema: { type: 'string' },
+          },
+          {
+            name: 'from',
+            in: 'query',
+            required: false,
+            description: 'Earliest write time (ISO 8601)',
+            schema: { type: 'string', format: 'date-time' },
+          },
+          {
+            name: 'to',
+            in: 'query',
+            required: false,
+            description: 'Latest write time (ISO 8601)',
+            schema: { type: 'string', format: 'date-time' },
+          },
+          {
+            name: 'limit',
+            in: 'query',
+            required: false,
+            description: 'Maximum rows to return (default: 100, max: 500)',
+            schema: { type: 'integer', example: 100 },
           },
         ],
         responses: {
           '200': {
-            description: 'Successfully retrieved webhook events.',
+            description: 'Matching writes.',
             content: {
               'application/json': {
                 schema: {
                   type: 'object',
                   properties: {
-                    success: { type: 'boolean', example: true },
-                    count: { type: 'integer', example: 10 },
-                    timestamp: { type: 'string', format: 'date-time' },
-                    filters: {
-                      type: 'object',
-                      properties: {
-                        status: { type: 'string' },
-                        eventType: { type: 'string' },
-                        limit: { type: 'integer' },
-                      },
-                    },
-                    summary: {
-                      type: 'array',
-                      items: {
-                        type: 'object',
-                        properties: {
-                          status: { type: 'string' },
-                          count: { type: 'integer' },
-                        },
-                      },
-                    },
-                    events: {
+                    success: { type: 'boolean' },
+                    totalCount: { type: 'integer' },
+                    count: { type: 'integer' },
+                    writes: {
                       type: 'array',
                       items: {
                         type: 'object',
                         properties: {
                           id: { type: 'integer' },
-                          eventMessageId: { type: 'string' },
-                          eventType: { type: 'string' },
-                          status: { type: 'string' },
-                          companyKey: { type: 'string' },
-                          communityId: { type: 'integer', nullable: true },
-                          receivedAt: { type: 'string', format: 'date-time' },
-                          processedAt: { type: 'string', format: 'date-time', nullable: true },
+                          companyId: { type: 'integer', nullable: true },
+                          residentId: { type: 'integer', nullable: true },
+                          tableName: { type: 'string', example: 'CarePatientTable_API' },
+                          operation: { type: 'string', enum: ['insert', 'update'] },
+                          keyFilter: {
+                            type: 'array',
+                            nullable: true,
+                            items: {
+                              type: 'object',
+                              properties: {
+                                field: { type: 'string', example: 'PatientNumber' },
+                                value: { example: '12345' },
+                              },
+                            },
+                          },
+                          patch: { type: 'object' },
+                          priorValues: { type: 'object', nullable: true },
+                          resultId: { type: 'string', nullable: true },
+                          status: { type: 'string', enum: ['succeeded', 'failed'] },
                           error: { type: 'string', nullable: true },
-                          payload: { type: 'object' },
+                          source: {
+                            type: 'string',
+                            enum: ['event', 'backfill', 'admin', 'unknown'],
+                          },
+                          eventMessageId: { type: 'string', nullable: true },
+                          eventType: { type: 'string', nullable: true },
+                          backfillJobId: { type: 'string', nullable: true },
+                          createdAt: { type: 'string', format: 'date-time' },
                         },
                       },
                     },
+                    timestamp: { type: 'string', format: 'date-time' },
                   },
                 },
-                example: {
-                  success: true,
-                  count: 2,
-                  timestamp: '2025-11-13T10:00:00.000Z',
-                  filters: { limit: 50 },
-                  summary: [
-                    { status: 'processed', count: 15 },
-                    { status: 'queued', count: 3 },
-                  ],
-                  events: [
-                    {
-                      id: 1,
-                      eventMessageId: 'evt_123',
-                      eventType: 'residents.move_in',
-                      status: 'processed',
-                      companyKey: 'appstoresandbox',
-                      communityId: 123,
-                      receivedAt: '2025-11-13T09:00:00.000Z',
-                      processedAt: '2025-11-13T09:00:05.000Z',
-                      error: null,
-                      payload: {
-                        CompanyKey: 'appstoresandbox',
-                        EventType: 'residents.move_in',
-                        EventMessageId: 'evt_123',
-                        NotificationData: { ResidentId: 456 },
+              },
+            },
+          },
+          '400': { description: 'residentId is not an integer.' },
+          '401': { description: 'Basic authentication failed.' },
+          '500': { description: 'Database error or internal server error.' },
+        },
+      },
+    },
+    '/admin/caspio/column-mappings/{companyKey}': {
+      get: {
+        summary: 'Get Caspio Column Mapping',
+        description:
+          "The company's Caspio column mapping, or null when it writes the default column names.",
+        security: [{ basicAuth: [] }],
+        parameters: [
+          {
+            name: 'companyKey',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          '200': { description: 'Mapping (null when none is set) and when it was last changed.' },
+          '400': { description: 'The stored mapping no longer validates; issues are listed.' },
+          '401': { description: 'Basic authentication failed.' },
+          '404': { description: 'Company not found.' },
+        },
+      },
+      put: {
+        summary: 'Set Caspio Column Mapping',
+        description:
+          "Validates and stores how the columns the integration writes map onto the company's " +
+          'Caspio app, per table (patient, community, service, offPremHistory). Renames and drops ' +
+          'name integration columns; defaults name company columns and fill values an insert ' +
+          'leaves empty. Lookup columns (such as PatientNumber and CUID) cannot be renamed or ' +
+          'dropped. Workers use the new mapping within a minute.',
+        security: [{ basicAuth: [] }],
+        parameters: [
+          {
+            name: 'companyKey',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  patient: caspioTableColumnMappingSchema,
+                  community: caspioTableColumnMappingSchema,
+                  service: caspioTableColumnMappingSchema,
+                  offPremHistory: caspioTableColumnMappingSchema,
+                },
+              },
+              example: {
+                patient: {
+                  rename: { RoomNumber: 'Room', PatientPhoneNumber: 'Phone' },
+                  drop: ['PatientSSN'],
+                  defaults: { Status: 'Active' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Mapping stored; response includes it with defaults filled in.' },
+          '400': { description: 'Invalid mapping; issues lists each problem with its path.' },
+          '401': { description: 'Basic authentication failed.' },
+          '404': { description: 'Company not found.' },
+        },
+      },
+      delete: {
+        summary: 'Remove Caspio Column Mapping',
+        description: 'Goes back to writing the default Caspio column names for the company.',
+        security: [{ basicAuth: [] }],
+        parameters: [
+          {
+            name: 'companyKey',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          '200': { description: 'Mapping removed (removed=false if none was set).' },
+          '401': { description: 'Basic authentication failed.' },
+          '404': { description: 'Company not found.' },
+        },
+      },
+    },
+    '/admin/caspio/column-mappings/{companyKey}/preview': {
+      get: {
+        summary: 'Preview Caspio Column Mapping',
+        description:
+          'Fetches a resident from ALIS with the company credentials and returns the community, ' +
+          'patient and service records a push would build, before (mapped) and after (written) ' +
+          'the company column mapping. Nothing is read from or written to Caspio, so community ' +
+          'enrichment is not applied. SSNs are redacted.',
+        security: [{ basicAuth: [] }],
+        parameters: [
+          {
+            name: 'companyKey',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+          },
+          {
+            name: 'residentId',
+            in: 'query',
+            required: true,
+            description: 'ALIS resident id to preview',
+            schema: { type: 'integer', example: 12345 },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Records per table before and after the mapping.',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    companyKey: { type: 'string' },
+                    residentId: { type: 'integer' },
+                    mapping: { type: 'object', nullable: true },
+                    tables: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          table: {
+                            type: 'string',
+                            enum: ['community', 'patient', 'service'],
+                          },
+                          tableName: { type: 'string' },
+                          mapped: { type: 'object' },
+                          written: { type: 'object' },
+                        },
                       },
                     },
-                  ],
+                    timestamp: { type: 'string', format: 'date-time' },
+                  },
                 },
               },
             },
           },
+          '400': { description: 'Missing or invalid residentId.' },
           '401': { description: 'Basic authentication failed.' },
-          '500': { description: 'Database error or internal server error.' },
+          '404': { description: 'Company or ALIS resident not found.' },
+          '500': { description: 'ALIS or internal server error.' },
         },
       },
     },
-    '/admin/webhook-events/{eventMessageId}': {
+    '/admin/caspio/connections/{companyKey}': {
       get: {
-        summary: 'Get Webhook Event Details',
+        summary: 'Get Caspio Connection',
         description:
-          'Retrieves detailed information about a specific webhook event by its EventMessageId. ' +
-          'Useful for debugging specific events and viewing complete payload data.',
+          "The Caspio account the company's residents are written to, without the client " +
+          'secret, or null when the company uses the CASPIO_* env connection.',
         security: [{ basicAuth: [] }],
-        tags: ['Admin', 'Webhooks'],
         parameters: [
           {
-            name: 'eventMessageId',
+            name: 'companyKey',
             in: 'path',
             required: true,
-            description: 'The unique EventMessageId from ALIS',
-            schema: { type: 'string', example: 'evt_123' },
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          '200': { description: 'Connection (null when none is set), with table names resolved.' },
+          '401': { description: 'Basic authentication failed.' },
+          '404': { description: 'Company not found.' },
+        },
+      },
+      put: {
+        summary: 'Set Caspio Connection',
+        description:
+          "Stores (or replaces) the company's Caspio account: base URL, OAuth client and table " +
+          'names. The client secret is encrypted at rest and never returned. tokenUrl defaults ' +
+          'to <baseUrl>/oauth/token and tables left out use the env table names. Webhook events ' +
+          'and backfills for the company switch to it within a minute.',
+        security: [{ basicAuth: [] }],
+        parameters: [
+          {
+            name: 'companyKey',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['baseUrl', 'clientId', 'clientSecret'],
+                properties: {
+                  baseUrl: { type: 'string', format: 'uri' },
+                  tokenUrl: { type: 'string', format: 'uri' },
+                  clientId: { type: 'string' },
+                  clientSecret: { type: 'string' },
+                  tables: {
+                    type: 'object',
+                    properties: {
+                      patient: { type: 'string' },
+                      community: { type: 'string' },
+                      service: { type: 'string' },
+                      offPremHistory: { type: 'string' },
+                    },
+                  },
+                },
+              },
+              example: {
+                baseUrl: 'https://acme.caspio.com',
+                clientId: 'acme-client-id',
+                clientSecret: 'acme-client-secret',
+                tables: { patient: 'AcmePatientTable_API' },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Connection stored; response includes it without the secret.' },
+          '400': { description: 'Invalid connection; issues lists each problem with its path.' },
+          '401': { description: 'Basic authentication failed.' },
+          '404': { description: 'Company not found.' },
+        },
+      },
+      delete: {
+        summary: 'Remove Caspio Connection',
+        description: 'Goes back to writing the company to the CASPIO_* env connection.',
+        security: [{ basicAuth: [] }],
+        parameters: [
+          {
+            name: 'companyKey',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          '200': { description: 'Connection removed (removed=false if none was set).' },
+          '401': { description: 'Basic authentication failed.' },
+          '404': { description: 'Company not found.' },
+        },
+      },
+    },
+    '/admin/residents/{residentId}/push-to-caspio': {
+      post: {
+        summary: 'Push Resident Data to Caspio',
+        description:
+          'Fetches complete resident data from ALIS API and pushes it directly to Caspio. ' +
+          'This endpoint retrieves all resident information (basic info, insurance, room assignments, diagnoses/allergies, contacts, community) ' +
+          'and synchronizes it with Caspio using the same mapping logic as webhook events. ' +
+          'Community information is fetched when available and mapped to CommunityName and Community_Address fields in Caspio. ' +
+          'Useful for testing Caspio integration, manual data synchronization, and verifying Caspio push functionality. ' +
+          'Returns the Caspio operation result (insert or update) and the Caspio record ID if available.',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin'],
+        parameters: [
+          {
+            name: 'residentId',
+            in: 'path',
+            required: true,
+            description: 'The ALIS resident ID to push to Caspio',
+            schema: { type: 'integer', example: 69227 },
           },
         ],
         responses: {
           '200': {
-            description: 'Successfully retrieved event details.',
+            description: 'Successfully pushed resident data to Caspio.',
             content: {
               'application/json': {
                 schema: {
                   type: 'object',
                   properties: {
                     success: { type: 'boolean', example: true },
+                    residentId: { type: 'integer', example: 69227 },
                     timestamp: { type: 'string', format: 'date-time' },
-                    event: {
+                    caspio: {
                       type: 'object',
                       properties: {
-                        id: { type: 'integer' },
-                        eventMessageId: { type: 'string' },
-                        eventType: { type: 'string' },
-                        status: { type: 'string' },
-                        company: {
-                          type: 'object',
-                          properties: {
-                            id: { type: 'integer' },
-                            companyKey: { type: 'string' },
-                            createdAt: { type: 'string', format: 'date-time' },
-                          },
+                        action: {
+                          type: 'string',
+                          enum: ['insert', 'update', 'unchanged'],
+                          example: 'update',
+                          description:
+                            'Whether the record was inserted (new), updated (existing) or left as is (existing row already matched)',
                         },
-                        communityId: { type: 'integer', nullable: true },
-                        receivedAt: { type: 'string', format: 'date-time' },
-                        processedAt: { type: 'string', format: 'date-time', nullable: true },
-                        error: { type: 'string', nullable: true },
-                        payload: { type: 'object' },
+                        id: {
+                          type: 'string',
+                          nullable: true,
+                          example: '12345',
+                          description: 'Caspio record ID if available',
+                        },
+                      },
+                    },
+                    data: {
+                      type: 'object',
+                      properties: {
+                        insuranceCount: { type: 'integer', example: 2 },
+                        roomAssignmentsCount: { type: 'integer', example: 1 },
+                        diagnosesAndAllergiesCount: { type: 'integer', example: 5 },
+                        contactsCount: { type: 'integer', example: 2 },
                       },
                     },
                   },
                 },
+                example: {
+                  success: true,
+                  residentId: 69227,
+                  timestamp: '2025-12-02T15:30:00.000Z',
+                  caspio: {
+                    action: 'update',
+                    id: '12345',
+                  },
+                  data: {
+                    insuranceCount: 2,
+                    roomAssignmentsCount: 1,
+                    diagnosesAndAllergiesCount: 5,
+                    contactsCount: 2,
+                  },
+                },
               },
             },
           },
-          '404': {
-            description: 'Event not found.',
+          '400': {
+            description: 'Invalid residentId parameter.',
             content: {
               'application/json': {
                 schema: {
                   type: 'object',
                   properties: {
                     success: { type: 'boolean', example: false },
-                    error: { type: 'string', example: 'Event not found' },
-                    eventMessageId: { type: 'string' },
+                    error: { type: 'string', example: 'Invalid residentId parameter' },
                     timestamp: { type: 'string', format: 'date-time' },
                   },
                 },
@@ -1089,7 +1402,660 @@ export const openApiDocument: OpenAPIV3.Document = {
             },
           },
           '401': { description: 'Basic authentication failed.' },
-          '500': { description: 'Database error or internal server error.' },
+          '404': {
+            description: 'Resident not found in ALIS API.',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', example: false },
+                    error: { type: 'string', example: 'ALIS API endpoint not found (404)' },
+                    timestamp: { type: 'string', format: 'date-time' },
+                    residentId: { type: 'integer', example: 69227 },
+                  },
+                },
+              },
+            },
+          },
+          '500': {
+            description: 'ALIS API error, Caspio API error, or internal server error.',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', example: false },
+                    error: {
+                      type: 'string',
+                      example: 'Caspio API error: Invalid record data',
+                    },
+                    timestamp: { type: 'string', format: 'date-time' },
+                    residentId: { type: 'integer', example: 69227 },
+                    caspioStatus: {
+                      type: 'integer',
+                      nullable: true,
+                      example: 400,
+                      description: 'HTTP status code from Caspio API if available',
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/admin/webhook-events': {
+      get: {
+        summary: 'View Received Webhook Events',
+        description:
+          'Lists all webhook events received from ALIS with filtering options. ' +
+          'Useful for monitoring webhook delivery, debugging event processing, and verifying event payloads.',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin', 'Webhooks'],
+        parameters: [
+          {
+            name: 'limit',
+            in: 'query',
+            required: false,
+            description: 'Maximum number of events to return (default: 50)',
+            schema: { type: 'integer', example: 50 },
+          },
+          {
+            name: 'status',
+            in: 'query',
+            required: false,
+            description: 'Filter by event status (received, queued, processed, failed, ignored)',
+            schema: {
+              type: 'string',
+              enum: ['received', 'queued', 'processed', 'failed', 'ignored'],
+              example: 'processed',
+            },
+          },
+          {
+            name: 'eventType',
+            in: 'query',
+            required: false,
+            description: 'Filter by event type (e.g., residents.move_in)',
+            schema: { type: 'string', example: 'residents.move_in' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Successfully retrieved webhook events.',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', example: true },
+                    count: { type: 'integer', example: 10 },
+                    timestamp: { type: 'string', format: 'date-time' },
+                    filters: {
+                      type: 'object',
+                      properties: {
+                        status: { type: 'string' },
+                        eventType: { type: 'string' },
+                        limit: { type: 'integer' },
+                      },
+                    },
+                    summary: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          status: { type: 'string' },
+                          count: { type: 'integer' },
+                        },
+                      },
+                    },
+                    events: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          id: { type: 'integer' },
+                          eventMessageId: { type: 'string' },
+                          eventType: { type: 'string' },
+                          status: { type: 'string' },
+                          companyKey: { type: 'string' },
+                          communityId: { type: 'integer', nullable: true },
+                          receivedAt: { type: 'string', format: 'date-time' },
+                          processedAt: { type: 'string', format: 'date-time', nullable: true },
+                          error: { type: 'string', nullable: true },
+                          payload: { type: 'object' },
+                        },
+                      },
+                    },
+                  },
+                },
+                example: {
+                  success: true,
+                  count: 2,
+                  timestamp: '2025-11-13T10:00:00.000Z',
+                  filters: { limit: 50 },
+                  summary: [
+                    { status: 'processed', count: 15 },
+                    { status: 'queued', count: 3 },
+                  ],
+                  events: [
+                    {
+                      id: 1,
+                      eventMessageId: 'evt_123',
+                      eventType: 'residents.move_in',
+                      status: 'processed',
+                      companyKey: 'appstoresandbox',
+                      communityId: 123,
+                      receivedAt: '2025-11-13T09:00:00.000Z',
+                      processedAt: '2025-11-13T09:00:05.000Z',
+                      error: null,
+                      payload: {
+                        CompanyKey: 'appstoresandbox',
+                        EventType: 'residents.move_in',
+                        EventMessageId: 'evt_123',
+                        NotificationData: { ResidentId: 456 },
+                      },
+                    },
+                  ],
+                },
+              },
+            },
+          },
+          '401': { description: 'Basic authentication failed.' },
+          '500': { description: 'Database error or internal server error.' },
+        },
+      },
+    },
+    '/admin/webhook-events/{eventMessageId}': {
+      get: {
+        summary: 'Get Webhook Event Details',
+        description:
+          'Retrieves detailed information about a specific webhook event by its EventMessageId. ' +
+          'Useful for debugging specific events and viewing complete payload data.',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin', 'Webhooks'],
+        parameters: [
+          {
+            name: 'eventMessageId',
+            in: 'path',
+            required: true,
+            description: 'The unique EventMessageId from ALIS',
+            schema: { type: 'string', example: 'evt_123' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Successfully retrieved event details.',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', example: true },
+                    timestamp: { type: 'string', format: 'date-time' },
+                    event: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'integer' },
+                        eventMessageId: { type: 'string' },
+                        eventType: { type: 'string' },
+                        status: { type: 'string' },
+                        company: {
+                          type: 'object',
+                          properties: {
+                            id: { type: 'integer' },
+                            companyKey: { type: 'string' },
+                            createdAt: { type: 'string', format: 'date-time' },
+                          },
+                        },
+                        communityId: { type: 'integer', nullable: true },
+                        receivedAt: { type: 'string', format: 'date-time' },
+                        processedAt: { type: 'string', format: 'date-time', nullable: true },
+                        error: { type: 'string', nullable: true },
+                        payload: { type: 'object' },
+                      },
+                    },
+                    caspioWrites: {
+                      type: 'object',
+                      description: 'Caspio writes made while processing this event.',
+                      properties: {
+                        totalCount: { type: 'integer' },
+                        recent: {
+                          type: 'array',
+                          description:
+                            'Up to 20 newest entries, shaped as in /admin/caspio/writes.',
+                          items: { type: 'object' },
+                        },
+                        href: {
+                          type: 'string',
+                          example: '/admin/caspio/writes?eventMessageId=evt_123',
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '404': {
+            description: 'Event not found.',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', example: false },
+                    error: { type: 'string', example: 'Event not found' },
+                    eventMessageId: { type: 'string' },
+                    timestamp: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+            },
+          },
+          '401': { description: 'Basic authentication failed.' },
+          '500': { description: 'Database error or internal server error.' },
+        },
+      },
+    },
+    '/admin/webhook-credentials': {
+      post: {
+        summary: 'Issue Per-Company Webhook Credential',
+        description:
+          'Issues a BasicAuth credential that ALIS must use when posting events for the given CompanyKey. ' +
+          'Only a scrypt hash is stored; the plaintext password is returned once in this response. ' +
+          'Returns 409 if the company already has a credential (use the rotate endpoint instead).',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin', 'Webhooks'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['companyKey'],
+                properties: {
+                  companyKey: { type: 'string', example: 'appstoresandbox' },
+                  username: {
+                    type: 'string',
+                    description: 'BasicAuth username (default: alis-<companyKey>)',
+                  },
+                  password: {
+                    type: 'string',
+                    description: 'BasicAuth password (default: randomly generated)',
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Credential issued.',
+            content: {
+              'application/json': {
+                example: {
+                  success: true,
+                  companyId: 1,
+                  companyKey: 'appstoresandbox',
+                  username: 'alis-appstoresandbox',
+                  password: 'q3Jx6n0m4b7V1c9Z2k8L5p0w',
+                  timestamp: '2025-11-13T10:30:00.000Z',
+                },
+              },
+            },
+          },
+          '400': { description: 'Missing companyKey or invalid username/password.' },
+          '401': { description: 'Basic authentication failed.' },
+          '404': { description: 'Company not found.' },
+          '409': { description: 'Credential already issued for this company.' },
+        },
+      },
+    },
+    '/admin/webhook-credentials/{companyKey}/rotate': {
+      post: {
+        summary: 'Rotate Per-Company Webhook Credential',
+        description:
+          'Replaces the password (and optionally the username) of an existing per-company webhook credential. ' +
+          'The previous password stops working immediately.',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin', 'Webhooks'],
+        parameters: [
+          {
+            name: 'companyKey',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
+        requestBody: {
+          required: false,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  username: { type: 'string', description: 'New username (default: unchanged)' },
+                  password: {
+                    type: 'string',
+                    description: 'New password (default: randomly generated)',
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Credential rotated; response includes the new password.' },
+          '400': { description: 'Invalid username/password.' },
+          '401': { description: 'Basic authentication failed.' },
+          '404': { description: 'Company or credential not found.' },
+        },
+      },
+    },
+    '/admin/webhook-credentials/{companyKey}/signing-secret': {
+      put: {
+        summary: 'Set Webhook Signing Secret',
+        description:
+          'Sets or rotates the HMAC-SHA256 secret used to sign webhooks for the company. ' +
+          'Once set, requests without a valid signature or with a timestamp outside ' +
+          'WEBHOOK_SIGNATURE_TOLERANCE_SECONDS are rejected with 401. The secret is returned once.',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin', 'Webhooks'],
+        parameters: [
+          {
+            name: 'companyKey',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
+        requestBody: {
+          required: false,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  secret: { type: 'string', description: 'Secret (default: randomly generated)' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Signing secret set; response includes the secret.' },
+          '400': { description: 'Invalid secret.' },
+          '401': { description: 'Basic authentication failed.' },
+          '404': { description: 'Company not found.' },
+        },
+      },
+      delete: {
+        summary: 'Remove Webhook Signing Secret',
+        description: 'Stops requiring signatures for the company.',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin', 'Webhooks'],
+        parameters: [
+          {
+            name: 'companyKey',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          '200': { description: 'Signing secret removed (removed=false if none was set).' },
+          '401': { description: 'Basic authentication failed.' },
+          '404': { description: 'Company not found.' },
+        },
+      },
+    },
+    '/admin/event-issues/{id}/retry': {
+      post: {
+        summary: 'Retry Event Issue',
+        description:
+          'Rebuilds the process-alis-event job from the linked EventLog payload and enqueues it ' +
+          'under a new job id. The issue is resolved once the event reaches processed.',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin', 'Webhooks'],
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: {
+          '200': { description: 'Event re-enqueued.' },
+          '401': { description: 'Basic authentication failed.' },
+          '404': { description: 'Issue not found.' },
+          '409': {
+            description:
+              'Issue is not retryable, already resolved, has no EventLog, or the event still ' +
+              'has a pending job.',
+          },
+          '422': { description: 'Stored EventLog payload is not a valid ALIS event.' },
+        },
+      },
+    },
+    '/admin/event-issues/retry': {
+      post: {
+        summary: 'Bulk Retry Event Issues',
+        description:
+          'Retries unresolved retryable issues, one job per event. Requires companyKey, ' +
+          'eventType, stage or ids (or all=true).',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin', 'Webhooks'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  companyKey: { type: 'string' },
+                  eventType: { type: 'string' },
+                  stage: { type: 'string', example: 'caspio_processing' },
+                  ids: { type: 'array', items: { type: 'integer' } },
+                  all: { type: 'boolean', description: 'Required when no other filter is given' },
+                  limit: { type: 'integer', default: 100, maximum: 500 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Per-event results.' },
+          '400': { description: 'Missing or invalid filter.' },
+          '401': { description: 'Basic authentication failed.' },
+        },
+      },
+    },
+    '/admin/event-replays': {
+      post: {
+        summary: 'Replay Webhook Events',
+        description:
+          'Re-enqueues stored EventLog entries matching the filters page by page, each page in ' +
+          'EventMessageDate order, throttled to ratePerSecond. With dryRun only the count and a ' +
+          'sample are returned. receivedFrom/receivedTo bound when the webhook received the event, ' +
+          'not its EventMessageDate. Requires at least one filter (or all=true).',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin', 'Webhooks'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  companyKey: { type: 'string' },
+                  eventType: { type: 'string', example: 'residents.move_in' },
+                  status: {
+                    oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+                    example: ['processed', 'failed'],
+                  },
+                  communityId: { type: 'integer' },
+                  receivedFrom: { type: 'string', format: 'date-time' },
+                  receivedTo: { type: 'string', format: 'date-time' },
+                  dryRun: { type: 'boolean', default: false },
+                  ratePerSecond: { type: 'number', default: 5, maximum: 50 },
+                  all: { type: 'boolean', description: 'Required when no other filter is given' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Dry-run preview, or the queued replay job id.' },
+          '400': { description: 'Missing or invalid filter.' },
+          '401': { description: 'Basic authentication failed.' },
+        },
+      },
+    },
+    '/admin/event-replays/jobs/{jobId}': {
+      get: {
+        summary: 'Event Replay Progress',
+        description: 'State and progress (enqueued, skipped, failed) of a replay job.',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin', 'Webhooks'],
+        parameters: [{ name: 'jobId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '200': { description: 'Replay job state and progress.' },
+          '401': { description: 'Basic authentication failed.' },
+          '404': { description: 'Job not found.' },
+        },
+      },
+    },
+    '/admin/dead-letters': {
+      get: {
+        summary: 'List Dead-Lettered Event Jobs',
+        description:
+          'Lists process-alis-event jobs that exhausted their retries, newest first. ' +
+          'Defaults to status=dead (not yet re-driven or discarded).',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin', 'Webhooks'],
+        parameters: [
+          { name: 'companyKey', in: 'query', required: false, schema: { type: 'string' } },
+          { name: 'eventType', in: 'query', required: false, schema: { type: 'string' } },
+          {
+            name: 'status',
+            in: 'query',
+            required: false,
+            schema: { type: 'string', enum: ['dead', 'redriven', 'discarded'] },
+          },
+          {
+            name: 'limit',
+            in: 'query',
+            required: false,
+            schema: { type: 'integer', default: 50, maximum: 500 },
+          },
+        ],
+        responses: {
+          '200': { description: 'Dead-lettered jobs.' },
+          '400': { description: 'Invalid filter.' },
+          '401': { description: 'Basic authentication failed.' },
+        },
+      },
+    },
+    '/admin/dead-letters/{id}': {
+      get: {
+        summary: 'Inspect Dead-Lettered Event Job',
+        description: 'Returns the job data, last error and issue history of one dead-lettered job.',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin', 'Webhooks'],
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: {
+          '200': { description: 'Dead-lettered job.' },
+          '401': { description: 'Basic authentication failed.' },
+          '404': { description: 'Dead-lettered job not found.' },
+        },
+      },
+    },
+    '/admin/dead-letters/{id}/redrive': {
+      post: {
+        summary: 'Re-drive Dead-Lettered Event Job',
+        description:
+          'Re-enqueues the job under its original jobId with a fresh attempt budget and marks ' +
+          'the EventLog entry queued.',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin', 'Webhooks'],
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: {
+          '200': { description: 'Job re-enqueued.' },
+          '401': { description: 'Basic authentication failed.' },
+          '404': { description: 'Dead-lettered job not found.' },
+          '409': { description: 'Job was already re-driven or discarded.' },
+        },
+      },
+    },
+    '/admin/dead-letters/{id}/discard': {
+      post: {
+        summary: 'Discard Dead-Lettered Event Job',
+        description: 'Removes the failed job from the queue; the dead-letter row is kept as discarded.',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin', 'Webhooks'],
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: {
+          '200': { description: 'Job discarded.' },
+          '401': { description: 'Basic authentication failed.' },
+          '404': { description: 'Dead-lettered job not found.' },
+          '409': { description: 'Job was already re-driven or discarded.' },
+        },
+      },
+    },
+    '/admin/dead-letters/redrive': {
+      post: {
+        summary: 'Bulk Re-drive Dead-Lettered Event Jobs',
+        description:
+          'Re-drives every matching dead job, one at a time. Requires companyKey, eventType or ' +
+          'ids (or all=true).',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin', 'Webhooks'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  companyKey: { type: 'string' },
+                  eventType: { type: 'string' },
+                  ids: { type: 'array', items: { type: 'integer' } },
+                  all: { type: 'boolean', description: 'Required when no other filter is given' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Per-job results.' },
+          '400': { description: 'Missing or invalid filter.' },
+          '401': { description: 'Basic authentication failed.' },
+        },
+      },
+    },
+    '/admin/dead-letters/discard': {
+      post: {
+        summary: 'Bulk Discard Dead-Lettered Event Jobs',
+        description:
+          'Discards every matching dead job. Requires companyKey, eventType or ids (or all=true).',
+        security: [{ basicAuth: [] }],
+        tags: ['Admin', 'Webhooks'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  companyKey: { type: 'string' },
+                  eventType: { type: 'string' },
+                  ids: { type: 'array', items: { type: 'integer' } },
+                  all: { type: 'boolean', description: 'Required when no other filter is given' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Per-job results.' },
+          '400': { description: 'Missing or invalid filter.' },
+          '401': { description: 'Basic authentication failed.' },
         },
       },
     },
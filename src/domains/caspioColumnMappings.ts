@@ -0,0 +1,154 @@
+import type { Prisma } from '@prisma/client';
+
+import { logger } from '../config/logger.js';
+import { prisma } from '../db/prisma.js';
+import {
+  CaspioColumnMappingSchema,
+  type CaspioColumnMapping,
+} from '../integrations/caspio/caspioColumnMapping.js';
+
+/**
+ * Stored per-company Caspio column mappings (see `applyCaspioColumnMapping`).
+ *
+ * The workers load a company's mapping once per event or backfill job and pass it along in the
+ * Caspio write origin. Loads are cached for a minute, so a change made through the admin API
+ * reaches a separate worker process within that time.
+ */
+
+const COLUMN_MAPPING_CACHE_TTL_MS = 60 * 1000;
+
+export class CaspioColumnMappingError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly issues?: Array<{ path: string; message: string }>,
+  ) {
+    super(message);
+    this.name = 'CaspioColumnMappingError';
+  }
+}
+
+export type CaspioColumnMappingRecord = {
+  companyId: number;
+  companyKey: string;
+  /** Null when the company writes the integration's own column names. */
+  mapping: CaspioColumnMapping | null;
+  updatedAt: Date | null;
+};
+
+const cachedMappings = new Map<
+  number,
+  { mapping: CaspioColumnMapping | null; expiresAt: number }
+>();
+
+async function findCompanyOrThrow(companyKey: string): Promise<{ id: number; companyKey: string }> {
+  const company = await prisma.company.findUnique({
+    where: { companyKey },
+  });
+
+  if (!company) {
+    throw new CaspioColumnMappingError(`Company not found for key '${companyKey}'.`, 404);
+  }
+
+  return company;
+}
+
+export function parseCaspioColumnMapping(input: unknown): CaspioColumnMapping {
+  const parsed = CaspioColumnMappingSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new CaspioColumnMappingError(
+      'Invalid Caspio column mapping',
+      400,
+      parsed.error.issues.map((issue) => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      })),
+    );
+  }
+  return parsed.data;
+}
+
+export async function getCaspioColumnMapping(
+  companyKey: string,
+): Promise<CaspioColumnMappingRecord> {
+  const company = await findCompanyOrThrow(companyKey);
+  const record = await prisma.caspioColumnMapping.findUnique({
+    where: { companyId: company.id },
+  });
+
+  return {
+    companyId: company.id,
+    companyKey: company.companyKey,
+    mapping: record ? parseCaspioColumnMapping(record.config) : null,
+    updatedAt: record?.updatedAt ?? null,
+  };
+}
+
+/** Validate and store (or replace) a company's mapping. */
+export async function setCaspioColumnMapping(
+  companyKey: string,
+  input: unknown,
+): Promise<CaspioColumnMappingRecord> {
+  const mapping = parseCaspioColumnMapping(input);
+  const company = await findCompanyOrThrow(companyKey);
+  const config = mapping as Prisma.InputJsonValue;
+
+  const record = await prisma.caspioColumnMapping.upsert({
+    where: { companyId: company.id },
+    create: { companyId: company.id, config },
+    update: { config },
+  });
+  cachedMappings.delete(company.id);
+
+  return {
+    companyId: company.id,
+    companyKey: company.companyKey,
+    mapping,
+    updatedAt: record.updatedAt,
+  };
+}
+
+export async function removeCaspioColumnMapping(companyKey: string): Promise<boolean> {
+  const company = await findCompanyOrThrow(companyKey);
+  const result = await prisma.caspioColumnMapping.deleteMany({
+    where: { companyId: company.id },
+  });
+  cachedMappings.delete(company.id);
+  return result.count > 0;
+}
+
+/**
+ * The mapping to write a company's records with. A stored mapping that no longer validates (a
+ * column it names was removed from the mapper) throws rather than writing to the wrong columns.
+ */
+export async function loadCaspioColumnMapping(
+  companyId: number,
+): Promise<CaspioColumnMapping | null> {
+  const cached = cachedMappings.get(companyId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.mapping;
+  }
+
+  const record = await prisma.caspioColumnMapping.findUnique({
+    where: { companyId },
+  });
+
+  let mapping: CaspioColumnMapping | null = null;
+  if (record) {
+    try {
+      mapping = parseCaspioColumnMapping(record.config);
+    } catch (error) {
+      logger.error(
+        {
+          companyId,
+          issues: error instanceof CaspioColumnMappingError ? error.issues : undefined,
+        },
+        'caspio_column_mapping_invalid',
+      );
+      throw error;
+    }
+  }
+
+  cachedMappings.set(companyId, { mapping, expiresAt: Date.now() + COLUMN_MAPPING_CACHE_TTL_MS });
+  return mapping;
+}
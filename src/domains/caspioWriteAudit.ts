@@ -0,0 +1,179 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { Prisma, type CaspioWriteAudit } from '@prisma/client';
+
+import { logger } from '../config/logger.js';
+import { prisma } from '../db/prisma.js';
+import type { CaspioColumnMapping } from '../integrations/caspio/caspioColumnMapping.js';
+import { redactForLogs } from '../integrations/caspio/caspioMapper.js';
+
+/**
+ * Audit trail of the writes the integration sends to Caspio.
+ *
+ * Every `insertRecord` / `updateRecordById` call (including the ones `upsertByFields` makes)
+ * records one CaspioWriteAudit row. What triggered the write — a webhook event, a backfill job
+ * or an admin push — is carried in async context by `runWithCaspioWriteOrigin`, so the Caspio
+ * client does not need it passed through every handler. SSN and insurance numbers are redacted
+ * the same way as in logs.
+ */
+
+export type CaspioWriteSource = 'event' | 'backfill' | 'admin';
+
+export type CaspioWriteOrigin = {
+  source: CaspioWriteSource;
+  companyId?: number | null;
+  /** ALIS resident id the write is for. */
+  residentId?: number | null;
+  eventMessageId?: string;
+  eventType?: string;
+  backfillJobId?: string;
+  /** The company's Caspio column mapping, applied to every write and read made for this origin. */
+  columnMapping?: CaspioColumnMapping | null;
+};
+
+export type CaspioWriteFilter = Array<{ field: string; value: string | number | boolean }>;
+
+/** What the caller knows about the write beyond the patch itself. */
+export type CaspioWriteAuditDetails = {
+  /** The lookup an upsert matched on; a direct update is keyed by its PK_ID. */
+  keyFilter?: CaspioWriteFilter;
+  /** The row as fetched before the write; only the patched columns are kept. */
+  priorRecord?: unknown;
+};
+
+export type RecordCaspioWriteInput = CaspioWriteAuditDetails & {
+  tableName: string;
+  operation: 'insert' | 'update';
+  patch: Record<string, unknown>;
+  resultId?: string | null;
+  error?: unknown;
+};
+
+export type CaspioWriteAuditQuery = {
+  residentId?: number;
+  tableName?: string;
+  eventMessageId?: string;
+  backfillJobId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+};
+
+const DEFAULT_AUDIT_LIMIT = 100;
+const MAX_AUDIT_LIMIT = 500;
+
+const originContext = new AsyncLocalStorage<CaspioWriteOrigin>();
+
+/** Run `operation` with every Caspio write inside it attributed to `origin`. */
+export function runWithCaspioWriteOrigin<T>(
+  origin: CaspioWriteOrigin,
+  operation: () => Promise<T>,
+): Promise<T> {
+  return originContext.run(origin, operation);
+}
+
+export function currentCaspioWriteOrigin(): CaspioWriteOrigin | undefined {
+  return originContext.getStore();
+}
+
+/** Record one Caspio write. Never throws: a failed audit insert is logged and the write stands. */
+export async function recordCaspioWrite(input: RecordCaspioWriteInput): Promise<void> {
+  if (process.env.NODE_ENV === 'test' && process.env.DATABASE_URL?.startsWith('file:')) {
+    return;
+  }
+
+  const origin = currentCaspioWriteOrigin();
+
+  try {
+    await prisma.caspioWriteAudit.create({
+      data: {
+        companyId: origin?.companyId ?? null,
+        residentId: origin?.residentId ?? null,
+        tableName: input.tableName,
+        operation: input.operation,
+        keyFilter: input.keyFilter ? toJsonValue(input.keyFilter) : Prisma.JsonNull,
+        patch: toJsonValue(redactForLogs(input.patch)),
+        priorValues: input.priorRecord
+          ? toJsonValue(redactForLogs(pickPatchedColumns(input.priorRecord, input.patch)))
+          : Prisma.JsonNull,
+        resultId: input.resultId ?? null,
+        status: input.error === undefined ? 'succeeded' : 'failed',
+        error:
+          input.error === undefined
+            ? null
+            : input.error instanceof Error
+              ? input.error.message
+              : String(input.error),
+        source: origin?.source ?? 'unknown',
+        eventMessageId: origin?.eventMessageId ?? null,
+        eventType: origin?.eventType ?? null,
+        backfillJobId: origin?.backfillJobId ?? null,
+      },
+    });
+  } catch (auditError) {
+    logger.error(
+      {
+        tableName: input.tableName,
+        operation: input.operation,
+        eventMessageId: origin?.eventMessageId,
+        error: auditError instanceof Error ? auditError.message : String(auditError),
+      },
+      'caspio_write_audit_record_failed',
+    );
+  }
+}
+
+/** Audit rows matching the query, newest first. */
+export async function findCaspioWriteAudits(
+  query: CaspioWriteAuditQuery,
+): Promise<{ totalCount: number; writes: CaspioWriteAudit[] }> {
+  const limit = Math.min(
+    Math.max(1, Math.floor(query.limit ?? DEFAULT_AUDIT_LIMIT)),
+    MAX_AUDIT_LIMIT,
+  );
+  const where: Prisma.CaspioWriteAuditWhereInput = {
+    ...(query.residentId !== undefined ? { residentId: query.residentId } : {}),
+    ...(query.tableName ? { tableName: query.tableName } : {}),
+    ...(query.eventMessageId ? { eventMessageId: query.eventMessageId } : {}),
+    ...(query.backfillJobId ? { backfillJobId: query.backfillJobId } : {}),
+    ...(query.from || query.to
+      ? {
+          createdAt: {
+            ...(query.from ? { gte: query.from } : {}),
+            ...(query.to ? { lte: query.to } : {}),
+          },
+        }
+      : {}),
+  };
+
+  const [totalCount, writes] = await Promise.all([
+    prisma.caspioWriteAudit.count({ where }),
+    prisma.caspioWriteAudit.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit,
+    }),
+  ]);
+
+  return { totalCount, writes };
+}
+
+function pickPatchedColumns(
+  priorRecord: unknown,
+  patch: Record<string, unknown>,
+): Record<string, unknown> {
+  if (!priorRecord || typeof priorRecord !== 'object') {
+    return {};
+  }
+  const prior = priorRecord as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.keys(patch).map((column) => [
+      column,
+      prior[column] === undefined ? null : prior[column],
+    ]),
+  );
+}
+
+function toJsonValue(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value ?? null)) as Prisma.InputJsonValue;
+}
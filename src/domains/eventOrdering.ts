@@ -0,0 +1,213 @@
+import type { ResidentEventWatermark } from '@prisma/client';
+
+import { prisma } from '../db/prisma.js';
+
+/**
+ * Events that touch the same Caspio state share a family; ordering is only compared
+ * within a family (a newer contact update must not make an older move-in look stale).
+ */
+export type EventFamily = 'lifecycle' | 'profile' | 'room' | 'leave' | 'contact';
+
+/**
+ * What to do with an event that is older than the last applied event of its family.
+ * - skip: drop it; applying it would regress state
+ * - reconcile: ignore the stale payload and resync the resident from a fresh ALIS fetch
+ * - defer: retry later, waiting for the event it depends on
+ */
+export type StaleEventPolicy = 'skip' | 'reconcile' | 'defer';
+
+export type EventOrderingDecision = 'apply' | 'skip' | 'reconcile' | 'defer';
+
+export type EventOrderingReason =
+  | 'in_order'
+  | 'first_event_for_family'
+  | 'stale'
+  | 'awaiting_leave_start'
+  | 'leave_start_never_arrived';
+
+export type EventOrderingEvaluation = {
+  decision: EventOrderingDecision;
+  reason: EventOrderingReason;
+  family: EventFamily;
+  policy: StaleEventPolicy;
+  watermark: Pick<
+    ResidentEventWatermark,
+    'lastEventMessageDate' | 'lastEventMessageId' | 'lastEventType' | 'lastLeaveId'
+  > | null;
+};
+
+type EventOrderingRule = {
+  family: EventFamily;
+  stalePolicy: StaleEventPolicy;
+};
+
+export const EVENT_ORDERING_RULES: Record<string, EventOrderingRule> = {
+  'residents.move_in': { family: 'lifecycle', stalePolicy: 'skip' },
+  'residents.move_out': { family: 'lifecycle', stalePolicy: 'skip' },
+  'residents.created': { family: 'profile', stalePolicy: 'reconcile' },
+  'residents.basic_info_updated': { family: 'profile', stalePolicy: 'reconcile' },
+  'residents.health_profile_updated': { family: 'profile', stalePolicy: 'reconcile' },
+  'residents.move_in_out_info_updated': { family: 'profile', stalePolicy: 'reconcile' },
+  'resident.room_assigned': { family: 'room', stalePolicy: 'reconcile' },
+  'resident.room_changed': { family: 'room', stalePolicy: 'reconcile' },
+  'resident.room_unassigned': { family: 'room', stalePolicy: 'reconcile' },
+  'residents.leave_start': { family: 'leave', stalePolicy: 'skip' },
+  'residents.leave_end': { family: 'leave', stalePolicy: 'skip' },
+  'residents.leave_cancelled': { family: 'leave', stalePolicy: 'skip' },
+  'resident.contact.created': { family: 'contact', stalePolicy: 'reconcile' },
+  'resident.contact.updated': { family: 'contact', stalePolicy: 'reconcile' },
+  'resident.contact.deleted': { family: 'contact', stalePolicy: 'reconcile' },
+};
+
+/** How many times a leave_end waits for its leave_start before being applied anyway. */
+export const MAX_LEAVE_END_DEFERRALS = 5;
+
+/** How long after it was received an unprocessed leave_start still counts as on its way. */
+export const LEAVE_START_IN_FLIGHT_WINDOW_MS = 15 * 60 * 1000;
+
+export type EventOrderingInput = {
+  companyId: number;
+  residentId: number;
+  eventType: string;
+  eventMessageId: string;
+  eventMessageDate: string;
+  leaveId?: number;
+  deferCount?: number;
+};
+
+export function getEventOrderingRule(eventType: string): EventOrderingRule | undefined {
+  return EVENT_ORDERING_RULES[eventType];
+}
+
+function parseEventMessageDate(value: string): Date | null {
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+export async function evaluateEventOrdering(
+  input: EventOrderingInput,
+): Promise<EventOrderingEvaluation | null> {
+  const rule = getEventOrderingRule(input.eventType);
+  const eventDate = parseEventMessageDate(input.eventMessageDate);
+  if (!rule || !eventDate) {
+    return null;
+  }
+
+  const watermark = await prisma.residentEventWatermark.findUnique({
+    where: {
+      companyId_residentId_eventFamily: {
+        companyId: input.companyId,
+        residentId: input.residentId,
+        eventFamily: rule.family,
+      },
+    },
+  });
+
+  const base = {
+    family: rule.family,
+    policy: rule.stalePolicy,
+    watermark: watermark
+      ? {
+          lastEventMessageDate: watermark.lastEventMessageDate,
+          lastEventMessageId: watermark.lastEventMessageId,
+          lastEventType: watermark.lastEventType,
+          lastLeaveId: watermark.lastLeaveId,
+        }
+      : null,
+  };
+
+  if (
+    watermark &&
+    watermark.lastEventMessageId !== input.eventMessageId &&
+    eventDate.getTime() < watermark.lastEventMessageDate.getTime()
+  ) {
+    return { ...base, decision: rule.stalePolicy, reason: 'stale' };
+  }
+
+  // A leave_end whose leave_start was received but not applied yet overtook it. Without such a
+  // leave_start (e.g. a leave that began before this service tracked it) there is nothing to wait
+  // for.
+  if (input.eventType === 'residents.leave_end' && input.leaveId !== undefined) {
+    const startApplied =
+      watermark?.lastEventType === 'residents.leave_start' &&
+      watermark.lastLeaveId === input.leaveId;
+    if (!startApplied) {
+      const deferCount = input.deferCount ?? 0;
+      if (deferCount < MAX_LEAVE_END_DEFERRALS && (await isLeaveStartInFlight(input))) {
+        return { ...base, policy: 'defer', decision: 'defer', reason: 'awaiting_leave_start' };
+      }
+      if (deferCount > 0) {
+        return { ...base, policy: 'defer', decision: 'apply', reason: 'leave_start_never_arrived' };
+      }
+    }
+  }
+
+  return {
+    ...base,
+    decision: 'apply',
+    reason: watermark ? 'in_order' : 'first_event_for_family',
+  };
+}
+
+/**
+ * Whether a leave_start for the same resident and leave was received recently and is still
+ * waiting to be processed (not yet queued, queued, or behind other events of the resident).
+ */
+async function isLeaveStartInFlight(input: EventOrderingInput): Promise<boolean> {
+  const pending = await prisma.eventLog.findFirst({
+    where: {
+      companyId: input.companyId,
+      eventType: 'residents.leave_start',
+      residentId: input.residentId,
+      leaveId: input.leaveId,
+      status: { in: ['received', 'queued'] },
+      receivedAt: { gte: new Date(Date.now() - LEAVE_START_IN_FLIGHT_WINDOW_MS) },
+    },
+    select: { id: true },
+  });
+
+  return pending !== null;
+}
+
+/**
+ * Move the family watermark forward. Never moves it backwards, so reconciling or
+ * replaying an old event cannot make newer events look stale.
+ */
+export async function recordAppliedEvent(input: EventOrderingInput): Promise<void> {
+  const rule = getEventOrderingRule(input.eventType);
+  const eventDate = parseEventMessageDate(input.eventMessageDate);
+  if (!rule || !eventDate) {
+    return;
+  }
+
+  const where = {
+    companyId_residentId_eventFamily: {
+      companyId: input.companyId,
+      residentId: input.residentId,
+      eventFamily: rule.family,
+    },
+  };
+  const data = {
+    lastEventMessageDate: eventDate,
+    lastEventMessageId: input.eventMessageId,
+    lastEventType: input.eventType,
+    lastLeaveId: input.leaveId ?? null,
+  };
+
+  const existing = await prisma.residentEventWatermark.findUnique({ where });
+  if (!existing) {
+    await prisma.residentEventWatermark.create({
+      data: {
+        companyId: input.companyId,
+        residentId: input.residentId,
+        eventFamily: rule.family,
+        ...data,
+      },
+    });
+    return;
+  }
+
+  if (eventDate.getTime() >= existing.lastEventMessageDate.getTime()) {
+    await prisma.residentEventWatermark.update({ where, data });
+  }
+}
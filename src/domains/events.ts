@@ -2,6 +2,7 @@ import type { EventLog, Company } from '@prisma/client';
 
 import { prisma } from '../db/prisma.js';
 import { logger } from '../config/logger.js';
+import { getNotificationLeaveId, parseAlisNotificationEvent } from '../webhook/schemas.js';
 import type { AlisEvent } from '../webhook/schemas.js';
 
 export type RecordedEvent = {
@@ -39,6 +40,7 @@ export async function recordIncomingEvent(event: AlisEvent): Promise<RecordedEve
     return { eventLog: existing, company, isDuplicate: true };
   }
 
+  const typed = parseAlisNotificationEvent(event);
   const created = await prisma.eventLog.create({
     data: {
       companyId: company.id,
@@ -46,6 +48,8 @@ export async function recordIncomingEvent(event: AlisEvent): Promise<RecordedEve
       eventType: EventType,
       eventMessageId: EventMessageId,
       payload: event,
+      residentId: typed.success ? typed.data.NotificationData.ResidentId : null,
+      leaveId: typed.success ? (getNotificationLeaveId(typed.data) ?? null) : null,
       status: 'received',
     },
   });
@@ -98,6 +102,18 @@ export async function markEventProcessed(identity: EventIdentity): Promise<void>
       error: null,
     },
   });
+
+  // Issues an operator retried are settled by the event finally going through.
+  await prisma.eventProcessingIssue.updateMany({
+    where: {
+      companyId: identity.companyId,
+      eventType: identity.eventType,
+      eventMessageId: identity.eventMessageId,
+      retryRequestedAt: { not: null },
+      resolvedAt: null,
+    },
+    data: { resolvedAt: new Date() },
+  });
 }
 
 export async function markEventFailed(identity: EventIdentity, error: unknown): Promise<void> {
@@ -8,6 +8,7 @@ import fs from 'fs';
 import { logger } from '../config/logger.js';
 
 import { router } from './routes.js';
+import type { RawBodyRequest } from './middleware/verifyWebhookSignature.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -23,6 +24,10 @@ export function createApp() {
   app.use(
     express.json({
       limit: '1mb',
+      // Keep the exact bytes for webhook HMAC verification
+      verify: (req, _res, buf) => {
+        (req as RawBodyRequest).rawBody = buf;
+      },
     }),
   );
 
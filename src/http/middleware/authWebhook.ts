@@ -4,35 +4,117 @@ import ipaddr from 'ipaddr.js';
 
 import { env } from '../../config/env.js';
 import { logger } from '../../config/logger.js';
-
-export function authWebhook(
+import { findWebhookCredentialByCompanyKey } from '../../admin/webhookCredentials.js';
+import { generateSecret, hashPassword, verifyPassword } from '../../security/passwordHash.js';
+
+export type WebhookPrincipal =
+  | { kind: 'company'; companyId: number; companyKey: string; username: string }
+  | { kind: 'global'; username: string };
+
+/**
+ * Webhook authentication middleware
+ * - Enforces the IP allowlist
+ * - Validates BasicAuth against the per-company `Credential` for the payload `CompanyKey`
+ * - Falls back to the global WEBHOOK_BASIC_USER/PASS pair while WEBHOOK_GLOBAL_AUTH_FALLBACK is on,
+ *   but only for companies that have no credential of their own
+ * - Exposes the authenticated principal on `res.locals.webhookPrincipal`
+ */
+export async function authWebhook(
   req: Request,
   res: Response,
   next: NextFunction,
-): Response | void {
+): Promise<Response | void> {
   if (!isIpAllowed(req)) {
     logger.warn({ ip: extractRemoteIp(req) }, 'webhook_request_blocked_ip');
     return res.status(403).json({ error: 'Forbidden' });
   }
 
   const credentials = basicAuth(req);
+  const companyKey = extractCompanyKey(req);
 
-  if (
-    !credentials ||
-    credentials.name !== env.WEBHOOK_BASIC_USER ||
-    credentials.pass !== env.WEBHOOK_BASIC_PASS
-  ) {
+  let principal: WebhookPrincipal | null = null;
+  try {
+    principal = credentials ? await resolvePrincipal(credentials, companyKey) : null;
+  } catch (error) {
+    return next(error);
+  }
+
+  if (!principal) {
     logger.warn(
-      { event: 'webhook_auth_failed', ip: extractRemoteIp(req) },
+      {
+        event: 'webhook_auth_failed',
+        ip: extractRemoteIp(req),
+        companyKey,
+        username: credentials?.name ?? null,
+      },
       'webhook_basic_auth_failed',
     );
     res.set('WWW-Authenticate', 'Basic realm="ALIS Webhook"');
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
+  if (principal.kind === 'global' && companyKey) {
+    logger.info({ companyKey }, 'webhook_authenticated_with_global_credentials');
+  }
+
+  res.locals.webhookPrincipal = principal;
   return next();
 }
 
+async function resolvePrincipal(
+  credentials: basicAuth.BasicAuthResult,
+  companyKey: string | null,
+): Promise<WebhookPrincipal | null> {
+  const companyCredential = companyKey ? await findWebhookCredentialByCompanyKey(companyKey) : null;
+  const matchedCredential =
+    companyCredential?.username === credentials.name ? companyCredential : null;
+
+  // Run scrypt even without a matching username so the response time does not reveal it.
+  const passwordMatches = await verifyPassword(
+    credentials.pass,
+    matchedCredential?.passwordHash ?? (await getDummyPasswordHash()),
+  );
+  if (matchedCredential && passwordMatches) {
+    return {
+      kind: 'company',
+      companyId: matchedCredential.companyId,
+      companyKey: matchedCredential.companyKey,
+      username: matchedCredential.username,
+    };
+  }
+
+  if (
+    env.WEBHOOK_GLOBAL_AUTH_FALLBACK &&
+    credentials.name === env.WEBHOOK_BASIC_USER &&
+    credentials.pass === env.WEBHOOK_BASIC_PASS
+  ) {
+    // Once a company has its own credential, the shared pair must not keep working for it.
+    if (companyCredential) {
+      logger.warn(
+        { companyKey: companyCredential.companyKey },
+        'webhook_global_credentials_rejected_for_company_credential',
+      );
+      return null;
+    }
+    return { kind: 'global', username: credentials.name };
+  }
+
+  return null;
+}
+
+let dummyPasswordHash: Promise<string> | null = null;
+
+/** A hash of a random secret, compared against when there is no credential to check. */
+function getDummyPasswordHash(): Promise<string> {
+  dummyPasswordHash ??= hashPassword(generateSecret());
+  return dummyPasswordHash;
+}
+
+function extractCompanyKey(req: Request): string | null {
+  const value: unknown = req.body?.CompanyKey;
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
 function isIpAllowed(req: Request): boolean {
   if (!env.ipAllowlist.length) {
     return true;
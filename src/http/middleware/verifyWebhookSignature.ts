@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+
+import type { NextFunction, Request, Response } from 'express';
+
+import { env } from '../../config/env.js';
+import { logger } from '../../config/logger.js';
+import { findWebhookSigningSecretByCompanyKey } from '../../admin/webhookCredentials.js';
+import { recordEventIssue } from '../../domains/eventIssues.js';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-alis-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-alis-timestamp';
+
+const SIGNATURE_PREFIX = 'sha256=';
+
+/**
+ * Request with the exact bytes received, captured by `express.json({ verify })` in createApp.
+ */
+export type RawBodyRequest = Request & { rawBody?: Buffer };
+
+export type WebhookSignatureFailureReason =
+  | 'missing_signature'
+  | 'missing_timestamp'
+  | 'invalid_timestamp'
+  | 'stale_timestamp'
+  | 'missing_raw_body'
+  | 'signature_mismatch';
+
+/**
+ * Compute the hex HMAC-SHA256 of `<timestamp>.<rawBody>`; ALIS sends it as `sha256=<hex>`.
+ */
+export function computeWebhookSignature(
+  secret: string,
+  timestamp: string,
+  rawBody: Buffer | string,
+): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.`).update(rawBody).digest('hex');
+}
+
+/**
+ * Webhook signature middleware (runs after authWebhook)
+ * - Only enforced for companies with a WebhookSigningSecret; others pass through
+ * - Rejects stale or future timestamps outside WEBHOOK_SIGNATURE_TOLERANCE_SECONDS
+ * - Records a `webhook_signature` EventProcessingIssue with the failure reason
+ */
+export async function verifyWebhookSignature(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<Response | void> {
+  const companyKey: unknown = req.body?.CompanyKey;
+  if (typeof companyKey !== 'string' || !companyKey) {
+    return next();
+  }
+
+  let signingSecret: Awaited<ReturnType<typeof findWebhookSigningSecretByCompanyKey>>;
+  try {
+    signingSecret = await findWebhookSigningSecretByCompanyKey(companyKey);
+  } catch (error) {
+    return next(error);
+  }
+
+  if (!signingSecret) {
+    return next();
+  }
+
+  const failure = checkSignature(req as RawBodyRequest, signingSecret.secret);
+  if (!failure) {
+    return next();
+  }
+
+  logger.warn(
+    { companyKey, reason: failure, ip: req.ip ?? null },
+    'webhook_signature_verification_failed',
+  );
+
+  await recordEventIssue({
+    companyId: signingSecret.companyId,
+    eventType: typeof req.body?.EventType === 'string' ? req.body.EventType : 'unknown',
+    eventMessageId:
+      typeof req.body?.EventMessageId === 'string' ? req.body.EventMessageId : 'unknown',
+    communityId: typeof req.body?.CommunityId === 'number' ? req.body.CommunityId : null,
+    stage: 'webhook_signature',
+    severity: 'error',
+    message: `Webhook signature verification failed: ${failure}`,
+    details: {
+      reason: failure,
+      ip: req.ip ?? null,
+      timestamp: req.get(WEBHOOK_TIMESTAMP_HEADER) ?? null,
+      toleranceSeconds: env.WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+    },
+    retryable: false,
+  });
+
+  return res.status(401).json({ error: 'Unauthorized', reason: failure });
+}
+
+function checkSignature(req: RawBodyRequest, secret: string): WebhookSignatureFailureReason | null {
+  const signatureHeader = req.get(WEBHOOK_SIGNATURE_HEADER);
+  if (!signatureHeader) {
+    return 'missing_signature';
+  }
+
+  const timestamp = req.get(WEBHOOK_TIMESTAMP_HEADER);
+  if (!timestamp) {
+    return 'missing_timestamp';
+  }
+
+  const timestampSeconds = Number(timestamp);
+  if (!Number.isInteger(timestampSeconds)) {
+    return 'invalid_timestamp';
+  }
+
+  const ageSeconds = Math.abs(Date.now() / 1000 - timestampSeconds);
+  if (ageSeconds > env.WEBHOOK_SIGNATURE_TOLERANCE_SECONDS) {
+    return 'stale_timestamp';
+  }
+
+  if (!req.rawBody) {
+    return 'missing_raw_body';
+  }
+
+  const provided = signatureHeader.startsWith(SIGNATURE_PREFIX)
+    ? signatureHeader.slice(SIGNATURE_PREFIX.length)
+    : signatureHeader;
+  const expected = computeWebhookSignature(secret, timestamp, req.rawBody);
+
+  const providedBuffer = Buffer.from(provided, 'hex');
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  if (
+    providedBuffer.length !== expectedBuffer.length ||
+    !crypto.timingSafeEqual(providedBuffer, expectedBuffer)
+  ) {
+    return 'signature_mismatch';
+  }
+
+  return null;
+}
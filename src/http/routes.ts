@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import { Router, type Response } from 'express';
 import swaggerUi from 'swagger-ui-express';
 
 import { openApiDocument } from '../docs/openapi.js';
@@ -8,22 +8,75 @@ import {
   fetchAllResidentData,
   resolveAlisCredentials,
   AlisApiError,
+  type AlisResidentDetail,
+  type ResidentPageProgress,
 } from '../integrations/alisClient.js';
 import { prisma } from '../db/prisma.js';
 import { getRedisConnection } from '../workers/connection.js';
 import {
+  EVENT_REPLAY_QUEUE,
   RESIDENT_BACKFILL_QUEUE,
+  eventReplayQueue,
   residentBackfillQueue,
 } from '../workers/queue.js';
+import {
+  DeadLetterError,
+  discardDeadLetter,
+  discardDeadLetters,
+  getDeadLetter,
+  listDeadLetters,
+  redriveDeadLetter,
+  redriveDeadLetters,
+  type DeadLetterBulkResult,
+  type DeadLetterFilter,
+  type DeadLetterStatus,
+} from '../workers/deadLetter.js';
+import {
+  EventIssueRetryError,
+  retryEventIssue,
+  retryEventIssues,
+  type EventIssueRetryFilter,
+} from '../workers/eventIssueRetry.js';
+import { previewEventReplay } from '../workers/eventReplay.js';
+import type { EventReplayFilter } from '../workers/types.js';
 import { logger } from '../config/logger.js';
 import { alisWebhookHandler } from '../webhook/handler.js';
 import { env } from '../config/env.js';
 import { pushToCaspio } from '../integrations/caspio/pushToCaspio.js';
-import { upsertAlisCredential } from '../admin/credentials.js';
+import {
+  getAllCaspioSchemaValidations,
+  getCaspioSchemaValidation,
+  type CaspioSchemaStatus,
+} from '../integrations/caspio/caspioTableSchema.js';
+import { runWithCompanyCaspioClient } from '../integrations/caspio/companyCaspioClient.js';
+import { getCaspioRequestMetrics } from '../integrations/caspio/requestBudget.js';
+import { previewCaspioColumnMapping } from '../integrations/caspio/caspioColumnMappingPreview.js';
+import { findCaspioWriteAudits, runWithCaspioWriteOrigin } from '../domains/caspioWriteAudit.js';
+import {
+  CaspioColumnMappingError,
+  getCaspioColumnMapping,
+  removeCaspioColumnMapping,
+  setCaspioColumnMapping,
+} from '../domains/caspioColumnMappings.js';
+import { AlisCredentialError, upsertAlisCredential } from '../admin/credentials.js';
+import {
+  CaspioConnectionError,
+  getCaspioConnection,
+  removeCaspioConnection,
+  upsertCaspioConnection,
+} from '../admin/caspioConnections.js';
+import {
+  issueWebhookCredential,
+  removeWebhookSigningSecret,
+  rotateWebhookCredential,
+  setWebhookSigningSecret,
+  WebhookCredentialError,
+} from '../admin/webhookCredentials.js';
 
 import type { AlisPayload } from '../integrations/alis/types.js';
 
 import { authWebhook } from './middleware/authWebhook.js';
+import { verifyWebhookSignature } from './middleware/verifyWebhookSignature.js';
 import { authAdmin } from './middleware/authAdmin.js';
 
 export const router = Router();
@@ -54,11 +107,11 @@ router.get('/admin/event-issues-dashboard', authAdmin, (_req, res) => {
 
 router.get('/health/deps', async (_req, res) => {
   const result = await healthCheck();
-  const statusCode = result.status === 'ok' ? 200 : 503;
+  const statusCode = result.status === 'error' ? 503 : 200;
   res.status(statusCode).json(result);
 });
 
-router.post('/webhook/alis', authWebhook, async (req, res, next) => {
+router.post('/webhook/alis', authWebhook, verifyWebhookSignature, async (req, res, next) => {
   try {
     await alisWebhookHandler(req, res);
   } catch (error) {
@@ -123,7 +176,7 @@ router.get('/admin/test-communities', authAdmin, async (_req, res) => {
 // Admin endpoint to upsert ALIS credentials by company
 router.post('/admin/alis-credentials', authAdmin, async (req, res) => {
   try {
-    const { companyKey, username, password } = req.body ?? {};
+    const { companyKey, username, password, verify } = req.body ?? {};
 
     if (
       typeof companyKey !== 'string' ||
@@ -140,14 +193,27 @@ router.post('/admin/alis-credentials', authAdmin, async (req, res) => {
       });
     }
 
+    if (verify !== undefined && typeof verify !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: 'verify must be a boolean',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
     const result = await upsertAlisCredential({
       companyKey: companyKey.trim(),
       username: username.trim(),
       password,
+      verify,
     });
 
     logger.info(
-      { companyKey: companyKey.trim(), companyId: result.companyId },
+      {
+        companyKey: companyKey.trim(),
+        companyId: result.companyId,
+        verification: result.verification?.status ?? 'skipped',
+      },
       'admin_alis_credentials_upserted',
     );
 
@@ -155,9 +221,22 @@ router.post('/admin/alis-credentials', authAdmin, async (req, res) => {
       success: true,
       companyId: result.companyId,
       username: result.username,
+      verification: result.verification,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
+    if (error instanceof AlisCredentialError) {
+      logger.warn(
+        { companyKey: req.body?.companyKey, status: error.status, error: error.message },
+        'admin_alis_credentials_rejected',
+      );
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+        verification: error.verification ?? null,
+        timestamp: new Date().toISOString(),
+      });
+    }
     logger.error({ error }, 'admin_alis_credentials_upsert_failed');
     return res.status(500).json({
       success: false,
@@ -167,6 +246,205 @@ router.post('/admin/alis-credentials', authAdmin, async (req, res) => {
   }
 });
 
+function readOptionalString(value: unknown): string | undefined | null {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string' || !value.trim()) return null;
+  return value;
+}
+
+// Admin endpoint to issue a per-company webhook credential.
+// The generated password is only returned in this response; only its hash is stored.
+router.post('/admin/webhook-credentials', authAdmin, async (req, res) => {
+  try {
+    const { companyKey } = req.body ?? {};
+    const username = readOptionalString(req.body?.username);
+    const password = readOptionalString(req.body?.password);
+
+    if (
+      typeof companyKey !== 'string' ||
+      !companyKey.trim() ||
+      username === null ||
+      password === null
+    ) {
+      return res.status(400).json({
+        success: false,
+        error:
+          'companyKey is required; username and password must be non-empty strings when provided',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const result = await issueWebhookCredential({
+      companyKey: companyKey.trim(),
+      username: username?.trim(),
+      password,
+    });
+
+    logger.info(
+      { companyKey: result.companyKey, companyId: result.companyId, username: result.username },
+      'admin_webhook_credential_issued',
+    );
+
+    return res.status(201).json({
+      success: true,
+      companyId: result.companyId,
+      companyKey: result.companyKey,
+      username: result.username,
+      password: result.password,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof WebhookCredentialError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    logger.error({ error }, 'admin_webhook_credential_issue_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Admin endpoint to rotate an existing per-company webhook credential.
+// The previous password stops working immediately.
+router.post('/admin/webhook-credentials/:companyKey/rotate', authAdmin, async (req, res) => {
+  try {
+    const companyKey = req.params.companyKey;
+    const username = readOptionalString(req.body?.username);
+    const password = readOptionalString(req.body?.password);
+
+    if (username === null || password === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'username and password must be non-empty strings when provided',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const result = await rotateWebhookCredential({
+      companyKey,
+      username: username?.trim(),
+      password,
+    });
+
+    logger.info(
+      { companyKey: result.companyKey, companyId: result.companyId, username: result.username },
+      'admin_webhook_credential_rotated',
+    );
+
+    return res.json({
+      success: true,
+      companyId: result.companyId,
+      companyKey: result.companyKey,
+      username: result.username,
+      password: result.password,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof WebhookCredentialError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    logger.error({ error }, 'admin_webhook_credential_rotate_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Admin endpoint to set or rotate the HMAC signing secret for a company's webhooks.
+// Once set, /webhook/alis rejects unsigned or stale requests for that company.
+router.put('/admin/webhook-credentials/:companyKey/signing-secret', authAdmin, async (req, res) => {
+  try {
+    const secret = readOptionalString(req.body?.secret);
+    if (secret === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'secret must be a non-empty string when provided',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const result = await setWebhookSigningSecret({
+      companyKey: req.params.companyKey,
+      secret,
+    });
+
+    logger.info(
+      { companyKey: result.companyKey, companyId: result.companyId },
+      'admin_webhook_signing_secret_set',
+    );
+
+    return res.json({
+      success: true,
+      companyId: result.companyId,
+      companyKey: result.companyKey,
+      secret: result.secret,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof WebhookCredentialError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    logger.error({ error }, 'admin_webhook_signing_secret_set_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Admin endpoint to stop requiring signatures for a company's webhooks
+router.delete(
+  '/admin/webhook-credentials/:companyKey/signing-secret',
+  authAdmin,
+  async (req, res) => {
+    try {
+      const removed = await removeWebhookSigningSecret(req.params.companyKey);
+
+      logger.info(
+        { companyKey: req.params.companyKey, removed },
+        'admin_webhook_signing_secret_removed',
+      );
+
+      return res.json({
+        success: true,
+        removed,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof WebhookCredentialError) {
+        return res.status(error.status).json({
+          success: false,
+          error: error.message,
+          timestamp: new Date().toISOString(),
+        });
+      }
+      logger.error({ error }, 'admin_webhook_signing_secret_remove_failed');
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  },
+);
+
 // Test endpoint: Get resident details from ALIS
 router.get('/admin/test-resident/:residentId', authAdmin, async (req, res) => {
   try {
@@ -274,9 +552,14 @@ router.get('/admin/list-residents', authAdmin, async (req, res) => {
     const page = req.query.page ? Number(req.query.page) : undefined;
     const pageSize = req.query.pageSize ? Number(req.query.pageSize) : undefined;
     const status = req.query.status as string | undefined;
+    const all = req.query.all === 'true';
+    const maxPagesInput = req.query.maxPages ? Number(req.query.maxPages) : 20;
+    const maxPages = Number.isFinite(maxPagesInput)
+      ? Math.min(Math.max(1, Math.floor(maxPagesInput)), 100)
+      : 20;
 
     logger.info(
-      { companyKey, communityId, page, pageSize, status },
+      { companyKey, communityId, page, pageSize, status, all },
       'admin_list_residents_called',
     );
 
@@ -296,13 +579,37 @@ router.get('/admin/list-residents', authAdmin, async (req, res) => {
     }
 
     const client = createAlisClient(credentials);
-    const result = await client.listResidents({
-      companyKey: undefined,
-      communityId,
-      page,
-      pageSize,
-      status,
-    });
+    let result: { residents: AlisResidentDetail[]; hasMore: boolean };
+    let pagination: ResidentPageProgress | undefined;
+
+    if (all) {
+      // Walk every page from `page` on; the iterator stops on repeated pages and at maxPages.
+      const residents: AlisResidentDetail[] = [];
+      const iterator = client.iterateResidents({
+        communityId,
+        status,
+        pageSize,
+        startPage: page,
+        maxPages,
+      });
+      for (;;) {
+        const next = await iterator.next();
+        if (next.done) {
+          pagination = next.value;
+          break;
+        }
+        residents.push(next.value);
+      }
+      result = { residents, hasMore: pagination.stopReason === 'max_pages' };
+    } else {
+      result = await client.listResidents({
+        companyKey: undefined,
+        communityId,
+        page,
+        pageSize,
+        status,
+      });
+    }
 
     logger.info(
       {
@@ -311,6 +618,7 @@ router.get('/admin/list-residents', authAdmin, async (req, res) => {
         page,
         count: result.residents.length,
         hasMore: result.hasMore,
+        pagination,
       },
       'list_residents_success',
     );
@@ -319,6 +627,7 @@ router.get('/admin/list-residents', authAdmin, async (req, res) => {
       success: true,
       count: result.residents.length,
       hasMore: result.hasMore,
+      ...(pagination ? { pagination } : {}),
       timestamp: new Date().toISOString(),
       apiEndpoint: `${env.ALIS_API_BASE}/v1/integration/residents`,
       filters: {
@@ -327,6 +636,7 @@ router.get('/admin/list-residents', authAdmin, async (req, res) => {
         page,
         pageSize,
         status,
+        all,
       },
       residents: result.residents.map((r) => ({
         residentId: r.ResidentId ?? r.residentId,
@@ -694,7 +1004,9 @@ router.post('/admin/residents/:residentId/push-to-caspio', authAdmin, async (req
     };
 
     // Push to Caspio
-    const result = await pushToCaspio(alisPayload);
+    const result = await runWithCaspioWriteOrigin({ source: 'admin', residentId }, () =>
+      pushToCaspio(alisPayload),
+    );
 
     logger.info(
       {
@@ -741,185 +1053,1018 @@ router.post('/admin/residents/:residentId/push-to-caspio', authAdmin, async (req
   }
 });
 
-// Webhook Testing Endpoints
-
-// View all received webhook events (default: last 50, max 500)
-const DEFAULT_WEBHOOK_EVENTS_LIMIT = 50;
-const MAX_WEBHOOK_EVENTS_LIMIT = 500;
+// Admin endpoint: Compare Caspio table definitions with the columns the mapper reads and writes,
+// for the env connection or, with ?companyKey, for that company's connection and column mapping
+router.get('/admin/caspio/schema', authAdmin, async (req, res) => {
+  try {
+    const options = { refresh: req.query.refresh === 'true' };
+    const companyKey = typeof req.query.companyKey === 'string' ? req.query.companyKey.trim() : '';
+    let validation;
+    if (companyKey) {
+      const company = await prisma.company.findUnique({ where: { companyKey } });
+      if (!company) {
+        return res.status(404).json({
+          success: false,
+          error: `Company not found for key '${companyKey}'.`,
+          timestamp: new Date().toISOString(),
+        });
+      }
+      validation = await getCaspioSchemaValidation({ ...options, companyId: company.id });
+    } else {
+      validation = await getCaspioSchemaValidation(options);
+    }
 
-function parseDateQuery(value: unknown): Date | undefined {
-  if (typeof value !== 'string' || value.trim().length === 0) {
-    return undefined;
+    return res.json({
+      success: validation.status === 'ok',
+      ...validation,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error({ error }, 'admin_caspio_schema_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
   }
+});
 
-  const parsed = new Date(value);
-  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
-}
+// Admin endpoint: Caspio request counts per table and the shared request budget
+router.get('/admin/caspio/requests', authAdmin, async (_req, res) => {
+  try {
+    const tables = await getCaspioRequestMetrics();
 
-router.get('/admin/event-issues', authAdmin, async (req, res) => {
+    return res.json({
+      success: true,
+      budget: {
+        perSecond: env.CASPIO_REQUEST_BUDGET_PER_SECOND,
+        burst: env.CASPIO_REQUEST_BUDGET_BURST,
+        liveReserve: env.CASPIO_REQUEST_BUDGET_LIVE_RESERVE,
+      },
+      tables,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error({ error }, 'admin_caspio_requests_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Admin endpoint: Caspio write audit by resident, table, event or backfill job and time range
+router.get('/admin/caspio/writes', authAdmin, async (req, res) => {
   try {
-    const requestedLimit = req.query.limit ? Number(req.query.limit) : DEFAULT_WEBHOOK_EVENTS_LIMIT;
-    const limit = Math.min(Math.max(1, Math.floor(requestedLimit)), MAX_WEBHOOK_EVENTS_LIMIT);
-    const severity = req.query.severity as string | undefined;
-    const stage = req.query.stage as string | undefined;
-    const eventType = req.query.eventType as string | undefined;
-    const eventMessageId = req.query.eventMessageId as string | undefined;
     const residentId = req.query.residentId ? Number(req.query.residentId) : undefined;
-    const unresolvedOnly = req.query.unresolvedOnly === 'true';
-    const from = parseDateQuery(req.query.from);
-    const to = parseDateQuery(req.query.to);
-    const hours = req.query.hours ? Number(req.query.hours) : undefined;
-    const windowStart =
-      from ?? (hours && Number.isFinite(hours) && hours > 0 ? new Date(Date.now() - hours * 60 * 60 * 1000) : undefined);
+    if (residentId !== undefined && !Number.isInteger(residentId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'residentId must be an integer',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const query = {
+      residentId,
+      tableName: req.query.table as string | undefined,
+      eventMessageId: req.query.eventMessageId as string | undefined,
+      backfillJobId: req.query.backfillJobId as string | undefined,
+      from: parseDateQuery(req.query.from),
+      to: parseDateQuery(req.query.to),
+      limit: req.query.limit ? Number(req.query.limit) : undefined,
+    };
 
     logger.info(
-      {
-        limit,
-        severity,
-        stage,
-        eventType,
-        eventMessageId,
-        residentId,
-        unresolvedOnly,
-        from: windowStart?.toISOString(),
-        to: to?.toISOString(),
-      },
-      'admin_event_issues_called',
+      { ...query, from: query.from?.toISOString(), to: query.to?.toISOString() },
+      'admin_caspio_writes_called',
     );
 
-    const where: {
-      severity?: string;
-      stage?: string;
-      eventType?: string;
-      eventMessageId?: string;
-      residentId?: number;
-      resolvedAt?: null;
-      createdAt?: {
-        gte?: Date;
-        lte?: Date;
-      };
-    } = {};
-    if (severity) {
-      where.severity = severity;
-    }
-    if (stage) {
-      where.stage = stage;
-    }
-    if (eventType) {
-      where.eventType = eventType;
-    }
-    if (eventMessageId) {
-      where.eventMessageId = eventMessageId;
-    }
-    if (residentId !== undefined && Number.isFinite(residentId)) {
-      where.residentId = residentId;
-    }
-    if (unresolvedOnly) {
-      where.resolvedAt = null;
+    const { totalCount, writes } = await findCaspioWriteAudits(query);
+
+    return res.json({
+      success: true,
+      totalCount,
+      count: writes.length,
+      writes,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error({ error }, 'admin_caspio_writes_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+function sendCaspioColumnMappingError(res: Response, error: CaspioColumnMappingError) {
+  return res.status(error.status).json({
+    success: false,
+    error: error.message,
+    ...(error.issues ? { issues: error.issues } : {}),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// Admin endpoint: a company's Caspio column mapping (null when it uses the default columns)
+router.get('/admin/caspio/column-mappings/:companyKey', authAdmin, async (req, res) => {
+  try {
+    const result = await getCaspioColumnMapping(req.params.companyKey);
+
+    return res.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof CaspioColumnMappingError) {
+      return sendCaspioColumnMappingError(res, error);
+    }
+    logger.error({ error }, 'admin_caspio_column_mapping_get_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Admin endpoint: validate and set (or replace) a company's Caspio column mapping.
+// Workers pick the new mapping up within a minute.
+router.put('/admin/caspio/column-mappings/:companyKey', authAdmin, async (req, res) => {
+  try {
+    const result = await setCaspioColumnMapping(req.params.companyKey, req.body ?? {});
+
+    logger.info(
+      { companyKey: result.companyKey, companyId: result.companyId },
+      'admin_caspio_column_mapping_set',
+    );
+
+    return res.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof CaspioColumnMappingError) {
+      return sendCaspioColumnMappingError(res, error);
+    }
+    logger.error({ error }, 'admin_caspio_column_mapping_set_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Admin endpoint: go back to the default Caspio columns for a company
+router.delete('/admin/caspio/column-mappings/:companyKey', authAdmin, async (req, res) => {
+  try {
+    const removed = await removeCaspioColumnMapping(req.params.companyKey);
+
+    logger.info(
+      { companyKey: req.params.companyKey, removed },
+      'admin_caspio_column_mapping_removed',
+    );
+
+    return res.json({
+      success: true,
+      removed,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof CaspioColumnMappingError) {
+      return sendCaspioColumnMappingError(res, error);
+    }
+    logger.error({ error }, 'admin_caspio_column_mapping_remove_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Admin endpoint: the records a push would write for a sample resident, before and after the
+// company's column mapping. Reads the resident from ALIS; nothing is sent to Caspio.
+router.get('/admin/caspio/column-mappings/:companyKey/preview', authAdmin, async (req, res) => {
+  try {
+    const residentId = Number(req.query.residentId);
+    if (!Number.isInteger(residentId) || residentId <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'residentId query parameter must be a positive integer',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const { companyId, companyKey, mapping } = await getCaspioColumnMapping(req.params.companyKey);
+    const credentials = await resolveAlisCredentials(companyId, companyKey);
+    const allData = await fetchAllResidentData(credentials, residentId, undefined);
+
+    const alisPayload: AlisPayload = {
+      success: true,
+      residentId,
+      timestamp: new Date().toISOString(),
+      apiBase: env.ALIS_API_BASE,
+      data: {
+        resident: allData.resident,
+        basicInfo: allData.basicInfo,
+        insurance: allData.insurance,
+        roomAssignments: allData.roomAssignments,
+        diagnosesAndAllergies: allData.diagnosesAndAllergies,
+        diagnosesAndAllergiesFull: allData.diagnosesAndAllergiesFull,
+        contacts: allData.contacts,
+        community: allData.community,
+      },
+      counts: {
+        insurance: allData.insurance.length,
+        roomAssignments: allData.roomAssignments.length,
+        diagnosesAndAllergies: allData.diagnosesAndAllergies.length,
+        contacts: allData.contacts.length,
+      },
+    };
+
+    return res.json({
+      success: true,
+      companyId,
+      companyKey,
+      residentId,
+      mapping,
+      tables: await runWithCompanyCaspioClient(companyId, async () =>
+        previewCaspioColumnMapping(alisPayload, mapping),
+      ),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof CaspioColumnMappingError) {
+      return sendCaspioColumnMappingError(res, error);
+    }
+    logger.error({ error }, 'admin_caspio_column_mapping_preview_failed');
+
+    const status =
+      error instanceof AlisApiError && error.status && error.status >= 400 && error.status < 500
+        ? error.status
+        : 500;
+
+    return res.status(status).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+function sendCaspioConnectionError(res: Response, error: CaspioConnectionError) {
+  return res.status(error.status).json({
+    success: false,
+    error: error.message,
+    ...(error.issues ? { issues: error.issues } : {}),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// Admin endpoint: a company's Caspio connection, without its secret (null when it uses the env
+// connection)
+router.get('/admin/caspio/connections/:companyKey', authAdmin, async (req, res) => {
+  try {
+    const result = await getCaspioConnection(req.params.companyKey);
+
+    return res.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof CaspioConnectionError) {
+      return sendCaspioConnectionError(res, error);
+    }
+    logger.error({ error }, 'admin_caspio_connection_get_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Admin endpoint: set (or replace) the Caspio account a company's residents are written to.
+// Workers switch to it within a minute.
+router.put('/admin/caspio/connections/:companyKey', authAdmin, async (req, res) => {
+  try {
+    const result = await upsertCaspioConnection(req.params.companyKey, req.body ?? {});
+
+    logger.info(
+      {
+        companyKey: result.companyKey,
+        companyId: result.companyId,
+        baseUrl: result.connection?.baseUrl,
+      },
+      'admin_caspio_connection_set',
+    );
+
+    return res.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof CaspioConnectionError) {
+      return sendCaspioConnectionError(res, error);
+    }
+    logger.error({ error }, 'admin_caspio_connection_set_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Admin endpoint: go back to the env Caspio connection for a company
+router.delete('/admin/caspio/connections/:companyKey', authAdmin, async (req, res) => {
+  try {
+    const removed = await removeCaspioConnection(req.params.companyKey);
+
+    logger.info({ companyKey: req.params.companyKey, removed }, 'admin_caspio_connection_removed');
+
+    return res.json({
+      success: true,
+      removed,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof CaspioConnectionError) {
+      return sendCaspioConnectionError(res, error);
+    }
+    logger.error({ error }, 'admin_caspio_connection_remove_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Webhook Testing Endpoints
+
+// View all received webhook events (default: last 50, max 500)
+const DEFAULT_WEBHOOK_EVENTS_LIMIT = 50;
+const MAX_WEBHOOK_EVENTS_LIMIT = 500;
+
+function parseDateQuery(value: unknown): Date | undefined {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return undefined;
+  }
+
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+}
+
+router.get('/admin/event-issues', authAdmin, async (req, res) => {
+  try {
+    const requestedLimit = req.query.limit ? Number(req.query.limit) : DEFAULT_WEBHOOK_EVENTS_LIMIT;
+    const limit = Math.min(Math.max(1, Math.floor(requestedLimit)), MAX_WEBHOOK_EVENTS_LIMIT);
+    const severity = req.query.severity as string | undefined;
+    const stage = req.query.stage as string | undefined;
+    const eventType = req.query.eventType as string | undefined;
+    const eventMessageId = req.query.eventMessageId as string | undefined;
+    const residentId = req.query.residentId ? Number(req.query.residentId) : undefined;
+    const unresolvedOnly = req.query.unresolvedOnly === 'true';
+    const from = parseDateQuery(req.query.from);
+    const to = parseDateQuery(req.query.to);
+    const hours = req.query.hours ? Number(req.query.hours) : undefined;
+    const windowStart =
+      from ?? (hours && Number.isFinite(hours) && hours > 0 ? new Date(Date.now() - hours * 60 * 60 * 1000) : undefined);
+
+    logger.info(
+      {
+        limit,
+        severity,
+        stage,
+        eventType,
+        eventMessageId,
+        residentId,
+        unresolvedOnly,
+        from: windowStart?.toISOString(),
+        to: to?.toISOString(),
+      },
+      'admin_event_issues_called',
+    );
+
+    const where: {
+      severity?: string;
+      stage?: string;
+      eventType?: string;
+      eventMessageId?: string;
+      residentId?: number;
+      resolvedAt?: null;
+      createdAt?: {
+        gte?: Date;
+        lte?: Date;
+      };
+    } = {};
+    if (severity) {
+      where.severity = severity;
+    }
+    if (stage) {
+      where.stage = stage;
+    }
+    if (eventType) {
+      where.eventType = eventType;
+    }
+    if (eventMessageId) {
+      where.eventMessageId = eventMessageId;
+    }
+    if (residentId !== undefined && Number.isFinite(residentId)) {
+      where.residentId = residentId;
+    }
+    if (unresolvedOnly) {
+      where.resolvedAt = null;
+    }
+    if (windowStart || to) {
+      where.createdAt = {
+        ...(windowStart ? { gte: windowStart } : {}),
+        ...(to ? { lte: to } : {}),
+      };
+    }
+
+    const [issues, severitySummary, stageSummary, totalCount, unresolvedCount] = await Promise.all([
+      prisma.eventProcessingIssue.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        include: {
+          company: {
+            select: {
+              companyKey: true,
+            },
+          },
+          eventLog: {
+            select: {
+              status: true,
+              receivedAt: true,
+              processedAt: true,
+            },
+          },
+        },
+      }),
+      prisma.eventProcessingIssue.groupBy({
+        by: ['severity'],
+        _count: true,
+        where,
+      }),
+      prisma.eventProcessingIssue.groupBy({
+        by: ['stage'],
+        _count: true,
+        where,
+        orderBy: {
+          _count: {
+            stage: 'desc',
+          },
+        },
+        take: 10,
+      }),
+      prisma.eventProcessingIssue.count({ where }),
+      prisma.eventProcessingIssue.count({
+        where: {
+          ...where,
+          resolvedAt: null,
+        },
+      }),
+    ]);
+
+    return res.json({
+      success: true,
+      count: issues.length,
+      totalCount,
+      unresolvedCount,
+      timestamp: new Date().toISOString(),
+      filters: {
+        severity,
+        stage,
+        eventType,
+        eventMessageId,
+        residentId,
+        unresolvedOnly,
+        from: windowStart?.toISOString(),
+        to: to?.toISOString(),
+        hours,
+        limit,
+      },
+      summary: {
+        severity: severitySummary.map((s) => ({
+          severity: s.severity,
+          count: s._count,
+        })),
+        stage: stageSummary.map((s) => ({
+          stage: s.stage,
+          count: s._count,
+        })),
+      },
+      issues: issues.map((issue) => ({
+        id: issue.id,
+        eventLogId: issue.eventLogId,
+        eventMessageId: issue.eventMessageId,
+        eventType: issue.eventType,
+        companyKey: issue.company.companyKey,
+        communityId: issue.communityId,
+        residentId: issue.residentId,
+        stage: issue.stage,
+        severity: issue.severity,
+        message: issue.message,
+        details: issue.details,
+        retryable: issue.retryable,
+        resolvedAt: issue.resolvedAt,
+        retryRequestedAt: issue.retryRequestedAt,
+        retryJobId: issue.retryJobId,
+        createdAt: issue.createdAt,
+        eventStatus: issue.eventLog?.status ?? null,
+        eventReceivedAt: issue.eventLog?.receivedAt ?? null,
+        eventProcessedAt: issue.eventLog?.processedAt ?? null,
+      })),
+    });
+  } catch (error) {
+    logger.error({ error }, 'event_issues_retrieval_failed');
+
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+
+function parseIssueRetryFilter(
+  source: Record<string, unknown>,
+): EventIssueRetryFilter | { error: string } {
+  const companyKey = readOptionalString(source.companyKey);
+  const eventType = readOptionalString(source.eventType);
+  const stage = readOptionalString(source.stage);
+  if (companyKey === null || eventType === null || stage === null) {
+    return { error: 'companyKey, eventType and stage must be non-empty strings when provided' };
+  }
+
+  let ids: number[] | undefined;
+  if (source.ids !== undefined) {
+    if (!Array.isArray(source.ids) || !source.ids.every((id) => Number.isInteger(id))) {
+      return { error: 'ids must be an array of integers' };
+    }
+    ids = source.ids as number[];
+  }
+
+  const limit = source.limit === undefined ? undefined : Number(source.limit);
+  return {
+    companyKey: companyKey?.trim(),
+    eventType: eventType?.trim(),
+    stage: stage?.trim(),
+    ids,
+    limit,
+  };
+}
+
+// Admin endpoint to re-enqueue every matching unresolved retryable issue (one job per event)
+router.post('/admin/event-issues/retry', authAdmin, async (req, res) => {
+  try {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const filter = parseIssueRetryFilter(body);
+    if ('error' in filter) {
+      return res.status(400).json({
+        success: false,
+        error: filter.error,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    // Refuse an unfiltered bulk retry unless the caller says so explicitly.
+    if (
+      !filter.companyKey &&
+      !filter.eventType &&
+      !filter.stage &&
+      !filter.ids &&
+      body.all !== true
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: 'Provide companyKey, eventType, stage or ids, or set all=true',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const results = await retryEventIssues(filter);
+    const succeeded = results.filter((result) => result.success).length;
+
+    logger.info(
+      {
+        companyKey: filter.companyKey,
+        eventType: filter.eventType,
+        stage: filter.stage,
+        matched: results.length,
+        succeeded,
+      },
+      'admin_event_issues_bulk_retry',
+    );
+
+    return res.json({
+      success: true,
+      matched: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error({ error }, 'admin_event_issues_bulk_retry_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Admin endpoint to re-enqueue the event behind one retryable issue
+router.post('/admin/event-issues/:id/retry', authAdmin, async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'id must be an integer',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const result = await retryEventIssue(id);
+
+    return res.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof EventIssueRetryError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    logger.error({ error }, 'admin_event_issue_retry_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+const MAX_EVENT_REPLAY_RATE_PER_SECOND = 50;
+
+function parseEventReplayFilter(
+  source: Record<string, unknown>,
+): EventReplayFilter | { error: string } {
+  const companyKey = readOptionalString(source.companyKey);
+  const eventType = readOptionalString(source.eventType);
+  if (companyKey === null || eventType === null) {
+    return { error: 'companyKey and eventType must be non-empty strings when provided' };
+  }
+
+  let statuses: string[] | undefined;
+  if (source.status !== undefined) {
+    const raw = Array.isArray(source.status) ? source.status : [source.status];
+    if (!raw.every((status) => typeof status === 'string' && status.trim())) {
+      return { error: 'status must be a string or an array of strings' };
+    }
+    statuses = raw.map((status) => (status as string).trim());
+  }
+
+  let communityId: number | undefined;
+  if (source.communityId !== undefined) {
+    communityId = Number(source.communityId);
+    if (!Number.isInteger(communityId)) {
+      return { error: 'communityId must be an integer' };
+    }
+  }
+
+  const receivedFrom =
+    source.receivedFrom === undefined ? undefined : parseDateQuery(source.receivedFrom);
+  const receivedTo =
+    source.receivedTo === undefined ? undefined : parseDateQuery(source.receivedTo);
+  if (
+    (source.receivedFrom !== undefined && !receivedFrom) ||
+    (source.receivedTo !== undefined && !receivedTo)
+  ) {
+    return { error: 'receivedFrom and receivedTo must be ISO date strings' };
+  }
+
+  return {
+    companyKey: companyKey?.trim(),
+    eventType: eventType?.trim(),
+    statuses,
+    communityId,
+    receivedFrom: receivedFrom?.toISOString(),
+    receivedTo: receivedTo?.toISOString(),
+  };
+}
+
+// Admin endpoint: Replay stored webhook events (dry run returns the count and a sample)
+router.post('/admin/event-replays', authAdmin, async (req, res) => {
+  try {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const filter = parseEventReplayFilter(body);
+    if ('error' in filter) {
+      return res.status(400).json({
+        success: false,
+        error: filter.error,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    const hasFilter = Object.values(filter).some((value) => value !== undefined);
+    if (!hasFilter && body.all !== true) {
+      return res.status(400).json({
+        success: false,
+        error:
+          'Provide at least one of companyKey, eventType, status, communityId, receivedFrom, receivedTo, or set all=true',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const ratePerSecond =
+      body.ratePerSecond === undefined
+        ? env.EVENT_REPLAY_RATE_PER_SECOND
+        : Number(body.ratePerSecond);
+    if (
+      !Number.isFinite(ratePerSecond) ||
+      ratePerSecond <= 0 ||
+      ratePerSecond > MAX_EVENT_REPLAY_RATE_PER_SECOND
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: `ratePerSecond must be between 0 and ${MAX_EVENT_REPLAY_RATE_PER_SECOND}`,
+        timestamp: new Date().toISOString(),
+      });
     }
-    if (windowStart || to) {
-      where.createdAt = {
-        ...(windowStart ? { gte: windowStart } : {}),
-        ...(to ? { lte: to } : {}),
-      };
+
+    const { totalCount, sample } = await previewEventReplay(filter);
+    const dryRun = body.dryRun === true;
+
+    if (dryRun || totalCount === 0) {
+      return res.json({
+        success: true,
+        dryRun,
+        totalCount,
+        sample,
+        filters: filter,
+        jobId: null,
+        timestamp: new Date().toISOString(),
+      });
     }
 
-    const [issues, severitySummary, stageSummary, totalCount, unresolvedCount] = await Promise.all([
-      prisma.eventProcessingIssue.findMany({
-        where,
-        orderBy: { createdAt: 'desc' },
-        take: limit,
-        include: {
-          company: {
-            select: {
-              companyKey: true,
-            },
-          },
-          eventLog: {
-            select: {
-              status: true,
-              receivedAt: true,
-              processedAt: true,
-            },
-          },
-        },
-      }),
-      prisma.eventProcessingIssue.groupBy({
-        by: ['severity'],
-        _count: true,
-        where,
-      }),
-      prisma.eventProcessingIssue.groupBy({
-        by: ['stage'],
-        _count: true,
-        where,
-        orderBy: {
-          _count: {
-            stage: 'desc',
-          },
-        },
-        take: 10,
-      }),
-      prisma.eventProcessingIssue.count({ where }),
-      prisma.eventProcessingIssue.count({
-        where: {
-          ...where,
-          resolvedAt: null,
-        },
-      }),
-    ]);
+    const job = await eventReplayQueue.add(
+      'event-replay',
+      { filter, ratePerSecond },
+      { jobId: `replay-${Date.now()}` },
+    );
+
+    logger.info({ jobId: job.id, filter, totalCount, ratePerSecond }, 'admin_event_replay_queued');
 
     return res.json({
       success: true,
-      count: issues.length,
+      dryRun: false,
       totalCount,
-      unresolvedCount,
+      filters: filter,
+      jobId: job.id,
+      queue: EVENT_REPLAY_QUEUE,
+      ratePerSecond,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error({ error }, 'admin_event_replay_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Admin endpoint: Check event replay progress
+router.get('/admin/event-replays/jobs/:jobId', authAdmin, async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const job = await eventReplayQueue.getJob(jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+        jobId,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const state = await job.getState();
+
+    return res.json({
+      success: true,
+      jobId: job.id,
+      state,
+      filters: job.data.filter,
+      progress: job.progress ?? null,
+      returnValue: job.returnvalue ?? null,
+      failedReason: job.failedReason ?? null,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error({ error }, 'admin_event_replay_status_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
       timestamp: new Date().toISOString(),
+    });
+  }
+});
+const DEAD_LETTER_STATUSES: DeadLetterStatus[] = ['dead', 'redriven', 'discarded'];
+
+function parseDeadLetterFilter(
+  source: Record<string, unknown>,
+): DeadLetterFilter | { error: string } {
+  const companyKey = readOptionalString(source.companyKey);
+  const eventType = readOptionalString(source.eventType);
+  if (companyKey === null || eventType === null) {
+    return { error: 'companyKey and eventType must be non-empty strings when provided' };
+  }
+
+  const status = source.status === undefined ? undefined : String(source.status);
+  if (status !== undefined && !DEAD_LETTER_STATUSES.includes(status as DeadLetterStatus)) {
+    return { error: `status must be one of ${DEAD_LETTER_STATUSES.join(', ')}` };
+  }
+
+  let ids: number[] | undefined;
+  if (source.ids !== undefined) {
+    if (!Array.isArray(source.ids) || !source.ids.every((id) => Number.isInteger(id))) {
+      return { error: 'ids must be an array of integers' };
+    }
+    ids = source.ids as number[];
+  }
+
+  const limit = source.limit === undefined ? undefined : Number(source.limit);
+  return {
+    companyKey: companyKey?.trim(),
+    eventType: eventType?.trim(),
+    status: status as DeadLetterStatus | undefined,
+    ids,
+    limit,
+  };
+}
+
+// Admin endpoint to list process-alis-event jobs that exhausted their retries
+router.get('/admin/dead-letters', authAdmin, async (req, res) => {
+  try {
+    const filter = parseDeadLetterFilter(req.query as Record<string, unknown>);
+    if ('error' in filter) {
+      return res.status(400).json({
+        success: false,
+        error: filter.error,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const { totalCount, deadLetters } = await listDeadLetters(filter);
+
+    return res.json({
+      success: true,
+      count: deadLetters.length,
+      totalCount,
       filters: {
-        severity,
-        stage,
-        eventType,
-        eventMessageId,
-        residentId,
-        unresolvedOnly,
-        from: windowStart?.toISOString(),
-        to: to?.toISOString(),
-        hours,
-        limit,
-      },
-      summary: {
-        severity: severitySummary.map((s) => ({
-          severity: s.severity,
-          count: s._count,
-        })),
-        stage: stageSummary.map((s) => ({
-          stage: s.stage,
-          count: s._count,
-        })),
+        companyKey: filter.companyKey,
+        eventType: filter.eventType,
+        status: filter.status ?? 'dead',
       },
-      issues: issues.map((issue) => ({
-        id: issue.id,
-        eventLogId: issue.eventLogId,
-        eventMessageId: issue.eventMessageId,
-        eventType: issue.eventType,
-        companyKey: issue.company.companyKey,
-        communityId: issue.communityId,
-        residentId: issue.residentId,
-        stage: issue.stage,
-        severity: issue.severity,
-        message: issue.message,
-        details: issue.details,
-        retryable: issue.retryable,
-        resolvedAt: issue.resolvedAt,
-        createdAt: issue.createdAt,
-        eventStatus: issue.eventLog?.status ?? null,
-        eventReceivedAt: issue.eventLog?.receivedAt ?? null,
-        eventProcessedAt: issue.eventLog?.processedAt ?? null,
+      deadLetters: deadLetters.map((deadLetter) => ({
+        id: deadLetter.id,
+        jobId: deadLetter.jobId,
+        companyId: deadLetter.companyId,
+        eventType: deadLetter.eventType,
+        eventMessageId: deadLetter.eventMessageId,
+        lastError: deadLetter.lastError,
+        attemptsMade: deadLetter.attemptsMade,
+        status: deadLetter.status,
+        redriveCount: deadLetter.redriveCount,
+        deadLetteredAt: deadLetter.deadLetteredAt,
+        resolvedAt: deadLetter.resolvedAt,
       })),
+      timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    logger.error({ error }, 'event_issues_retrieval_failed');
+    logger.error({ error }, 'admin_dead_letters_list_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Admin endpoint to re-drive every matching dead-lettered job, one at a time
+router.post('/admin/dead-letters/redrive', authAdmin, async (req, res) => {
+  return runBulkDeadLetterAction(req.body ?? {}, res, redriveDeadLetters, 'redrive');
+});
+
+// Admin endpoint to discard every matching dead-lettered job
+router.post('/admin/dead-letters/discard', authAdmin, async (req, res) => {
+  return runBulkDeadLetterAction(req.body ?? {}, res, discardDeadLetters, 'discard');
+});
+
+async function runBulkDeadLetterAction(
+  body: Record<string, unknown>,
+  res: Response,
+  action: (filter: DeadLetterFilter) => Promise<DeadLetterBulkResult[]>,
+  actionName: 'redrive' | 'discard',
+) {
+  try {
+    const filter = parseDeadLetterFilter(body);
+    if ('error' in filter) {
+      return res.status(400).json({
+        success: false,
+        error: filter.error,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    // Refuse an unfiltered bulk action unless the caller says so explicitly.
+    if (!filter.companyKey && !filter.eventType && !filter.ids && body.all !== true) {
+      return res.status(400).json({
+        success: false,
+        error: 'Provide companyKey, eventType or ids, or set all=true',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const results = await action(filter);
+    const succeeded = results.filter((result) => result.success).length;
+
+    logger.info(
+      {
+        action: actionName,
+        companyKey: filter.companyKey,
+        eventType: filter.eventType,
+        matched: results.length,
+        succeeded,
+      },
+      'admin_dead_letters_bulk_action',
+    );
+
+    return res.json({
+      success: true,
+      matched: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error({ error, action: actionName }, 'admin_dead_letters_bulk_action_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
 
+// Admin endpoint to inspect one dead-lettered job, including its job data and issue history
+router.get('/admin/dead-letters/:id', authAdmin, async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'id must be an integer',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const deadLetter = await getDeadLetter(id);
+
+    return res.json({
+      success: true,
+      deadLetter,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof DeadLetterError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    logger.error({ error }, 'admin_dead_letter_get_failed');
     return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -928,6 +2073,56 @@ router.get('/admin/event-issues', authAdmin, async (req, res) => {
   }
 });
 
+// Admin endpoint to re-enqueue one dead-lettered job with a fresh attempt budget
+router.post('/admin/dead-letters/:id/redrive', authAdmin, async (req, res) => {
+  return runDeadLetterAction(req.params.id, res, redriveDeadLetter, 'redrive');
+});
+
+// Admin endpoint to give up on one dead-lettered job
+router.post('/admin/dead-letters/:id/discard', authAdmin, async (req, res) => {
+  return runDeadLetterAction(req.params.id, res, discardDeadLetter, 'discard');
+});
+
+async function runDeadLetterAction(
+  rawId: string,
+  res: Response,
+  action: (id: number) => Promise<{ id: number; jobId: string }>,
+  actionName: 'redrive' | 'discard',
+) {
+  try {
+    const id = Number(rawId);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'id must be an integer',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const result = await action(id);
+
+    return res.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof DeadLetterError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    logger.error({ error, action: actionName }, 'admin_dead_letter_action_failed');
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
 router.get('/admin/webhook-events', authAdmin, async (req, res) => {
   try {
     const requestedLimit = req.query.limit ? Number(req.query.limit) : DEFAULT_WEBHOOK_EVENTS_LIMIT;
@@ -1105,6 +2300,8 @@ router.get('/admin/webhook-events/:eventMessageId', authAdmin, async (req, res)
       });
     }
 
+    const caspioWrites = await findCaspioWriteAudits({ eventMessageId, limit: 20 });
+
     logger.info({ eventMessageId, status: event.status }, 'webhook_event_detail_retrieved');
 
     res.json({
@@ -1122,6 +2319,11 @@ router.get('/admin/webhook-events/:eventMessageId', authAdmin, async (req, res)
         error: event.error,
         payload: event.payload,
       },
+      caspioWrites: {
+        totalCount: caspioWrites.totalCount,
+        recent: caspioWrites.writes,
+        href: `/admin/caspio/writes?eventMessageId=${encodeURIComponent(eventMessageId)}`,
+      },
     });
   } catch (error) {
     logger.error({ error, eventMessageId: req.params.eventMessageId }, 'webhook_event_detail_failed');
@@ -1221,10 +2423,11 @@ router.get('/docs.json', (_req, res) => {
 router.use('/docs', swaggerUi.serve, swaggerUi.setup(openApiDocument));
 
 async function healthCheck(): Promise<{
-  status: 'ok' | 'error';
+  status: 'ok' | 'degraded' | 'error';
   alis: string;
   database: string;
   redis: string;
+  caspioSchema: CaspioSchemaStatus;
 }> {
   let alisStatus: string = 'ok';
   let dbStatus: string = 'ok';
@@ -1255,13 +2458,31 @@ async function healthCheck(): Promise<{
     logger.error({ message }, 'healthcheck_redis_failed');
   }
 
+  // Served from the schema cache, for every connection. Only the worst status is reported here;
+  // the tables and columns behind it are listed under GET /admin/caspio/schema.
+  const caspioSchemas = await getAllCaspioSchemaValidations();
+  const caspioSchemaStatus: CaspioSchemaStatus = caspioSchemas.some(
+    (validation) => validation.status === 'error',
+  )
+    ? 'error'
+    : caspioSchemas.some((validation) => validation.status === 'mismatch')
+      ? 'mismatch'
+      : 'ok';
+
+  // A schema problem breaks writes for the affected connection only, so it degrades the report
+  // without failing the probe for every company.
   const overallStatus =
-    alisStatus === 'ok' && dbStatus === 'ok' && redisStatus === 'ok' ? 'ok' : 'error';
+    alisStatus !== 'ok' || dbStatus !== 'ok' || redisStatus !== 'ok'
+      ? 'error'
+      : caspioSchemaStatus !== 'ok'
+        ? 'degraded'
+        : 'ok';
 
   return {
     status: overallStatus,
     alis: alisStatus,
     database: dbStatus,
     redis: redisStatus,
+    caspioSchema: caspioSchemaStatus,
   };
 }
@@ -1,6 +1,7 @@
 import { env } from '../config/env.js';
 import { logger } from '../config/logger.js';
 import { verifyAlisConnectivity } from '../integrations/alisClient.js';
+import { getAllCaspioSchemaValidations } from '../integrations/caspio/caspioTableSchema.js';
 
 import { createApp } from './app.js';
 
@@ -17,6 +18,9 @@ async function bootstrap(): Promise<void> {
     );
   }
 
+  // Warm the schema cache behind /health/deps; results are logged, startup does not wait.
+  void getAllCaspioSchemaValidations();
+
   const server = app.listen(env.PORT, () => {
     logger.info({ port: env.PORT }, 'http_server_started');
   });
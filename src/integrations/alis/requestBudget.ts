@@ -0,0 +1,51 @@
+import { env } from '../../config/env.js';
+import { logger } from '../../config/logger.js';
+import { getRedisConnection } from '../../workers/connection.js';
+
+/**
+ * Per-company ALIS request budget shared through Redis.
+ *
+ * Every ALIS call takes a slot in a one-second window keyed by company, so live event jobs,
+ * backfills and admin calls in every process draw from the same budget. A call that finds the
+ * window full waits for the next one. If Redis is unavailable the call goes through unthrottled;
+ * the retry policy still covers a 429 from ALIS.
+ */
+
+const WINDOW_MS = 1000;
+
+function budgetKey(key: string, windowStart: number): string {
+  return `alis:request-budget:${key}:${windowStart}`;
+}
+
+/** Resolves once a request slot is available; returns how long the caller waited. */
+export async function acquireAlisRequestSlot(key: string): Promise<number> {
+  const limit = env.ALIS_REQUEST_BUDGET_PER_SECOND;
+  if (!limit || limit <= 0) return 0;
+
+  const startedAt = Date.now();
+  for (;;) {
+    const now = Date.now();
+    const windowStart = now - (now % WINDOW_MS);
+    let count: number;
+    try {
+      const result = await getRedisConnection()
+        .multi()
+        .incr(budgetKey(key, windowStart))
+        .pexpire(budgetKey(key, windowStart), WINDOW_MS * 2)
+        .exec();
+      count = Number(result?.[0]?.[1] ?? 0);
+    } catch (error) {
+      logger.warn(
+        { budgetKey: key, error: error instanceof Error ? error.message : String(error) },
+        'alis_request_budget_unavailable',
+      );
+      return Date.now() - startedAt;
+    }
+
+    if (count <= limit) {
+      return Date.now() - startedAt;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, windowStart + WINDOW_MS - Date.now()));
+  }
+}
@@ -0,0 +1,107 @@
+import {
+  createAlisClient,
+  createAlisRequestStats,
+  fetchAllResidentData,
+  resolveAlisCredentials,
+  type AlisClientOptions,
+  type AlisRequestStats,
+  type AllResidentData,
+} from '../alisClient.js';
+
+/**
+ * One ALIS snapshot of a resident per process-alis-event job.
+ *
+ * The worker and every orchestrator handler read the resident through the same context, so the
+ * full fetch (resident, basic info, insurance, rooms, diagnoses, contacts, community) happens once
+ * per job and all Caspio writes for the event are built from the same data. Jobs that only update
+ * the local resident read the profile alone and never trigger the full fetch.
+ */
+export type AlisResidentProfile = Pick<AllResidentData, 'resident' | 'basicInfo'>;
+
+export type AlisResidentDataContext = {
+  readonly companyId: number;
+  readonly companyKey: string;
+  readonly residentId: number;
+  readonly communityId: number | null;
+  /** ALIS calls made for this job, including retries and time spent waiting on the budget. */
+  readonly requestStats: AlisRequestStats;
+  /** Fetched on first call; later calls share the result. A failed fetch is retried by the next call. */
+  getResidentData(): Promise<AllResidentData>;
+  /** Fetch again and replace the shared snapshot (ALIS can lag right after an update event). */
+  refreshResidentData(): Promise<AllResidentData>;
+  /** Resident and basic info only; taken from the full snapshot when one was already requested. */
+  getResidentProfile(): Promise<AlisResidentProfile>;
+};
+
+export function createAlisResidentDataContext(params: {
+  companyId: number;
+  companyKey: string;
+  residentId: number;
+  communityId: number | null;
+  /** Event the job is processing; schema drift found while fetching is recorded against it. */
+  event?: { eventType: string; eventMessageId: string };
+}): AlisResidentDataContext {
+  const requestStats = createAlisRequestStats();
+  const clientOptions: AlisClientOptions = {
+    budgetKey: params.companyKey,
+    requestStats,
+    schemaDrift: {
+      companyId: params.companyId,
+      residentId: params.residentId,
+      communityId: params.communityId,
+      ...params.event,
+    },
+  };
+  let pending: Promise<AllResidentData> | null = null;
+  let pendingProfile: Promise<AlisResidentProfile> | null = null;
+
+  const fetchSnapshot = (): Promise<AllResidentData> => {
+    const request = resolveAlisCredentials(params.companyId, params.companyKey).then(
+      (credentials) =>
+        fetchAllResidentData(credentials, params.residentId, params.communityId, clientOptions),
+    );
+    request.catch(() => {
+      if (pending === request) pending = null;
+    });
+    pending = request;
+    return request;
+  };
+
+  const fetchProfile = (): Promise<AlisResidentProfile> => {
+    const request = resolveAlisCredentials(params.companyId, params.companyKey).then(
+      async (credentials) => {
+        const client = createAlisClient(credentials, clientOptions);
+        const [resident, basicInfo] = await Promise.all([
+          client.getResident(params.residentId),
+          client.getResidentBasicInfo(params.residentId),
+        ]);
+        return { resident, basicInfo };
+      },
+    );
+    request.catch(() => {
+      if (pendingProfile === request) pendingProfile = null;
+    });
+    pendingProfile = request;
+    return request;
+  };
+
+  return {
+    companyId: params.companyId,
+    companyKey: params.companyKey,
+    residentId: params.residentId,
+    communityId: params.communityId,
+    requestStats,
+    getResidentData() {
+      return pending ?? fetchSnapshot();
+    },
+    refreshResidentData() {
+      return fetchSnapshot();
+    },
+    getResidentProfile() {
+      if (pending) {
+        return pending.then(({ resident, basicInfo }) => ({ resident, basicInfo }));
+      }
+      return pendingProfile ?? fetchProfile();
+    },
+  };
+}
@@ -0,0 +1,210 @@
+import { logger } from '../../config/logger.js';
+import { prisma } from '../../db/prisma.js';
+import { recordEventIssue } from '../../domains/eventIssues.js';
+
+import {
+  AlisResponseSpecs,
+  isAlisRecord,
+  readAlisField,
+  readAlisListItems,
+  type AlisItemSchema,
+  type AlisResponseAction,
+  type AlisResponseSpec,
+} from './schemas.js';
+
+/**
+ * Schema drift: an ALIS response with fields the schemas don't know, required fields missing, or
+ * values of the wrong type. Drift never fails the call. It is logged and recorded once per company
+ * and drift signature as a `schema_drift` issue with a redacted sample record, so a renamed field
+ * shows up in the issues view instead of as empty Caspio columns.
+ */
+
+export type AlisSchemaDriftContext = {
+  companyId: number;
+  /** Event being processed when the drift was seen; omitted for backfills and admin calls. */
+  eventType?: string;
+  eventMessageId?: string;
+  residentId?: number | null;
+  communityId?: number | null;
+};
+
+export type AlisSchemaDrift = {
+  action: AlisResponseAction;
+  unknownFields: string[];
+  missingFields: string[];
+  invalidFields: string[];
+  unexpectedShape: boolean;
+  sample: unknown;
+};
+
+const SENSITIVE_FIELD = /ssn|birth|password|secret|token/i;
+const MAX_SAMPLE_STRING_LENGTH = 200;
+
+// Signatures already reported by this process; the issue table covers other processes.
+const reportedDrift = new Set<string>();
+
+function redactSample(value: unknown): unknown {
+  if (!isAlisRecord(value)) {
+    return typeof value === 'string' ? value.slice(0, MAX_SAMPLE_STRING_LENGTH) : value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => {
+      if (SENSITIVE_FIELD.test(key) && entry !== null && entry !== undefined) {
+        return [key, '[REDACTED]'];
+      }
+      if (Array.isArray(entry)) return [key, `[array(${entry.length})]`];
+      if (isAlisRecord(entry)) return [key, '[object]'];
+      return [key, typeof entry === 'string' ? entry.slice(0, MAX_SAMPLE_STRING_LENGTH) : entry];
+    }),
+  );
+}
+
+/** Returns true when the record drifted; findings are added to the sets. */
+function checkRecord(
+  record: unknown,
+  item: AlisItemSchema,
+  found: { unknown: Set<string>; missing: Set<string>; invalid: Set<string> },
+): boolean {
+  if (!isAlisRecord(record)) {
+    found.invalid.add('(record)');
+    return true;
+  }
+
+  let drifted = false;
+  for (const key of Object.keys(record)) {
+    if (!item.knownKeys.has(key)) {
+      found.unknown.add(key);
+      drifted = true;
+    }
+  }
+
+  for (const name of item.requiredFields) {
+    if (readAlisField(record, name) === null) {
+      found.missing.add(name);
+      drifted = true;
+    }
+  }
+
+  const parsed = item.schema.safeParse(record);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      found.invalid.add(issue.path.join('.') || '(record)');
+    }
+    drifted = true;
+  }
+
+  return drifted;
+}
+
+export function detectAlisSchemaDrift(
+  action: AlisResponseAction,
+  data: unknown,
+): AlisSchemaDrift | null {
+  const spec: AlisResponseSpec = AlisResponseSpecs[action];
+  const found = {
+    unknown: new Set<string>(),
+    missing: new Set<string>(),
+    invalid: new Set<string>(),
+  };
+  let unexpectedShape = false;
+  let sample: unknown;
+
+  if (spec.kind === 'object') {
+    if (checkRecord(data, spec.item, found)) sample = data;
+  } else {
+    const items = readAlisListItems(spec, data);
+    if (items === null) {
+      unexpectedShape = true;
+      sample = data;
+    } else {
+      if (isAlisRecord(data)) {
+        const envelope =
+          items.length === 0 && spec.alsoAccepts ? spec.alsoAccepts : spec.envelopeSchema;
+        if (envelope && checkRecord(data, envelope, found)) sample = data;
+      }
+      for (const item of items) {
+        if (checkRecord(item, spec.item, found) && sample === undefined) sample = item;
+      }
+    }
+  }
+
+  if (!unexpectedShape && found.unknown.size + found.missing.size + found.invalid.size === 0) {
+    return null;
+  }
+
+  return {
+    action,
+    unknownFields: [...found.unknown].sort(),
+    missingFields: [...found.missing].sort(),
+    invalidFields: [...found.invalid].sort(),
+    unexpectedShape,
+    sample: redactSample(sample),
+  };
+}
+
+export function describeAlisSchemaDrift(drift: AlisSchemaDrift): string {
+  const parts = [
+    drift.unexpectedShape ? 'unexpected response shape' : null,
+    drift.unknownFields.length > 0 ? `unknown fields ${drift.unknownFields.join(', ')}` : null,
+    drift.missingFields.length > 0 ? `missing fields ${drift.missingFields.join(', ')}` : null,
+    drift.invalidFields.length > 0 ? `invalid fields ${drift.invalidFields.join(', ')}` : null,
+  ].filter(Boolean);
+  return `ALIS ${drift.action} schema drift: ${parts.join('; ')}`;
+}
+
+/**
+ * Check an ALIS response and report any drift. Never throws; a failure to record is logged.
+ */
+export async function checkAlisResponse(
+  action: AlisResponseAction,
+  data: unknown,
+  context?: AlisSchemaDriftContext,
+): Promise<void> {
+  const drift = detectAlisSchemaDrift(action, data);
+  if (!drift) return;
+
+  const message = describeAlisSchemaDrift(drift);
+  const key = `${context?.companyId ?? '-'}:${message}`;
+  if (reportedDrift.has(key)) return;
+  reportedDrift.add(key);
+
+  logger.warn(
+    {
+      action,
+      companyId: context?.companyId,
+      unknownFields: drift.unknownFields,
+      missingFields: drift.missingFields,
+      invalidFields: drift.invalidFields,
+      unexpectedShape: drift.unexpectedShape,
+    },
+    'alis_schema_drift',
+  );
+  if (!context) return;
+
+  try {
+    const existing = await prisma.eventProcessingIssue.findFirst({
+      where: { companyId: context.companyId, stage: 'schema_drift', message },
+      select: { id: true },
+    });
+    if (existing) return;
+
+    await recordEventIssue({
+      companyId: context.companyId,
+      eventType: context.eventType ?? 'alis.api',
+      eventMessageId: context.eventMessageId ?? `schema-drift-${action}`,
+      residentId: context.residentId ?? null,
+      communityId: context.communityId ?? null,
+      stage: 'schema_drift',
+      severity: 'warning',
+      message,
+      details: drift,
+      retryable: false,
+    });
+  } catch (error) {
+    reportedDrift.delete(key);
+    logger.error(
+      { action, error: error instanceof Error ? error.message : String(error) },
+      'alis_schema_drift_record_failed',
+    );
+  }
+}
@@ -0,0 +1,297 @@
+import { z } from 'zod';
+
+/**
+ * Runtime schemas for ALIS API responses.
+ *
+ * ALIS sends the same field as PascalCase or camelCase depending on the endpoint, so each field is
+ * declared once and accepted under both spellings. The field lists cover everything the mappers
+ * read; a field outside the list is reported as schema drift (see schemaDrift.ts) rather than
+ * rejected, and so is a required field missing under both spellings.
+ */
+
+const id = z.union([z.number(), z.string()]);
+const text = z.union([z.string(), z.number()]).nullable();
+const flag = z.union([z.boolean(), z.string(), z.number()]).nullable();
+const list = z.array(z.unknown()).nullable();
+
+export type AlisItemSchema = {
+  readonly schema: z.ZodTypeAny;
+  /** Every accepted key, in both spellings. */
+  readonly knownKeys: ReadonlySet<string>;
+  /** Fields that must be present (non-null) under one of their spellings. */
+  readonly requiredFields: readonly string[];
+};
+
+function spellings(name: string): string[] {
+  const lower = name.charAt(0).toLowerCase() + name.slice(1);
+  const upper = name.charAt(0).toUpperCase() + name.slice(1);
+  return lower === upper ? [name] : [upper, lower];
+}
+
+function alisItem(fields: Record<string, z.ZodTypeAny>, required: string[] = []): AlisItemSchema {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const [name, type] of Object.entries(fields)) {
+    for (const key of spellings(name)) {
+      shape[key] = type.optional();
+    }
+  }
+
+  return {
+    schema: z.object(shape).passthrough(),
+    knownKeys: new Set(Object.keys(shape)),
+    requiredFields: required,
+  };
+}
+
+const roomFields = {
+  RoomNumber: text,
+  Room: text,
+  Bed: text,
+  IsPrimary: flag,
+  StartDate: text,
+  EndDate: text,
+};
+
+const addressFields = {
+  Address: text,
+  StreetAddress: text,
+  StreetAddress1: text,
+  City: text,
+  State: text,
+  Zip: text,
+  ZipCode: text,
+  PostalCode: text,
+};
+
+const moveInFields = {
+  PhysicalMoveInDate: text,
+  PhysicalMoveIn: text,
+  FinancialMoveInDate: text,
+  FinancialMoveIn: text,
+};
+
+const residentFields = {
+  ResidentId: id,
+  CommunityId: id.nullable(),
+  Status: text,
+  FirstName: text,
+  LastName: text,
+  DateOfBirth: text,
+  SSN: text,
+  Ssn: text,
+  Phone: text,
+  PhoneNumber: text,
+  Classification: text,
+  ProductType: text,
+  Rooms: list,
+  UpdatedAtUtc: text,
+  IsOnLeave: flag,
+  OnLeave: flag,
+  OnLeaveStartDateUtc: text,
+  OnLeaveStartDate: text,
+  LeaveStartDate: text,
+  ...moveInFields,
+  ...addressFields,
+};
+
+export const AlisResidentDetailSchema = alisItem(residentFields, ['ResidentId', 'Status']);
+
+export const AlisResidentBasicInfoSchema = alisItem(
+  {
+    ResidentId: id,
+    CommunityId: id.nullable(),
+    Classification: text,
+    ProductType: text,
+    Rooms: list,
+    PrimaryDiagnosisCode: text,
+    ...moveInFields,
+    ...addressFields,
+  },
+  ['ResidentId'],
+);
+
+export const AlisLeaveSchema = alisItem(
+  {
+    LeaveId: id,
+    ResidentId: id,
+    StartDate: text,
+    ExpectedReturnDate: text,
+    EndDate: text,
+    Reason: text,
+    Status: text,
+  },
+  ['LeaveId'],
+);
+
+export const AlisCommunitySchema = alisItem(
+  {
+    CommunityId: id,
+    CommunityID: id,
+    CommunityName: text,
+    CompanyKey: text,
+    CUID: text,
+    cuid: text,
+    Neighborhood: text,
+    CommunityGroup: text,
+    SerialNumber: text,
+    Sector: text,
+    Phone: text,
+    ...addressFields,
+  },
+  ['CommunityId'],
+);
+
+export const AlisInsuranceSchema = alisItem({
+  InsuranceId: id,
+  InsuranceName: text,
+  InsuranceType: text,
+  PayerName: text,
+  ProviderName: text,
+  Name: text,
+  Type: text,
+  PlanType: text,
+  GroupNumber: text,
+  GroupNo: text,
+  Group: text,
+  PolicyNumber: text,
+  MemberId: text,
+  AccountNumber: text,
+  InsuranceNumber: text,
+  EffectiveDate: text,
+  ExpirationDate: text,
+});
+
+export const AlisRoomAssignmentSchema = alisItem({
+  RoomAssignmentId: id,
+  AssignmentDate: text,
+  ...roomFields,
+});
+
+export const AlisDiagnosisOrAllergySchema = alisItem({
+  DiagnosisId: id,
+  AllergyId: id,
+  Code: text,
+  Description: text,
+  Type: text,
+  OnsetDate: text,
+});
+
+export const AlisDiagnosesAndAllergiesSchema = alisItem({
+  ResidentId: id,
+  StructuredDiagnoses: list,
+  PrimaryDiagnoses: text,
+  SecondaryDiagnoses: text,
+  Diet: text,
+  FoodAllergies: text,
+  MedicalAllergies: text,
+  IsDiabetic: flag,
+  IsIncontinent: flag,
+  IncontinenceNotes: text,
+});
+
+export const AlisContactSchema = alisItem({
+  ContactId: id,
+  Name: text,
+  FirstName: text,
+  LastName: text,
+  RelationshipType: text,
+  Relationship: text,
+  Type: text,
+  ContactType: text,
+  AdditionalInfoTags: text,
+  Email: text,
+  PhoneNumber: text,
+  Phone: text,
+  HomePhone: text,
+  MobilePhone: text,
+  WorkPhone: text,
+  Address1: text,
+  Address2: text,
+  StreetAddress2: text,
+  ...addressFields,
+});
+
+/** Paging envelope of GET /residents; the residents themselves are checked as resident details. */
+export const AlisResidentListEnvelopeSchema = alisItem({
+  Residents: list,
+  Page: id,
+  PageSize: id,
+  TotalPages: id,
+  TotalCount: id,
+  HasMore: flag,
+});
+
+/**
+ * How a response is shaped: a single object, or a list that ALIS sends either bare or wrapped in
+ * an envelope key. `alsoAccepts` is an object shape that legitimately comes back with no list.
+ */
+export type AlisResponseSpec =
+  | { kind: 'object'; item: AlisItemSchema }
+  | {
+      kind: 'list';
+      item: AlisItemSchema;
+      envelope?: string;
+      envelopeSchema?: AlisItemSchema;
+      alsoAccepts?: AlisItemSchema;
+    };
+
+export const AlisResponseSpecs = {
+  getResident: { kind: 'object', item: AlisResidentDetailSchema },
+  getResidentBasicInfo: { kind: 'object', item: AlisResidentBasicInfoSchema },
+  getResidentLeaves: { kind: 'list', item: AlisLeaveSchema, envelope: 'Leaves' },
+  getLeave: { kind: 'object', item: AlisLeaveSchema },
+  getCommunities: { kind: 'list', item: AlisCommunitySchema },
+  listResidents: {
+    kind: 'list',
+    item: AlisResidentDetailSchema,
+    envelope: 'Residents',
+    envelopeSchema: AlisResidentListEnvelopeSchema,
+  },
+  getResidentInsurance: { kind: 'list', item: AlisInsuranceSchema, envelope: 'Insurance' },
+  getResidentRoomAssignments: {
+    kind: 'list',
+    item: AlisRoomAssignmentSchema,
+    envelope: 'RoomAssignments',
+  },
+  // Same endpoint as the full variant below; the structured form carries no flat list.
+  getResidentDiagnosesAndAllergies: {
+    kind: 'list',
+    item: AlisDiagnosisOrAllergySchema,
+    envelope: 'DiagnosesAndAllergies',
+    alsoAccepts: AlisDiagnosesAndAllergiesSchema,
+  },
+  getResidentDiagnosesAndAllergiesFull: { kind: 'object', item: AlisDiagnosesAndAllergiesSchema },
+  getResidentContacts: { kind: 'list', item: AlisContactSchema, envelope: 'Contacts' },
+} satisfies Record<string, AlisResponseSpec>;
+
+export type AlisResponseAction = keyof typeof AlisResponseSpecs;
+
+/** Value of a field under either spelling; null when it is absent or null in both. */
+export function readAlisField(value: Record<string, unknown>, name: string): unknown {
+  for (const key of spellings(name)) {
+    if (value[key] !== undefined && value[key] !== null) return value[key];
+  }
+  return null;
+}
+
+export function isAlisRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Items of a list response, bare or under its envelope key (either spelling). Empty bodies and
+ * `alsoAccepts` shapes read as an empty list; any other shape returns null.
+ */
+export function readAlisListItems(
+  spec: Extract<AlisResponseSpec, { kind: 'list' }>,
+  data: unknown,
+): unknown[] | null {
+  if (data === null || data === undefined || data === '') return [];
+  if (Array.isArray(data)) return data;
+  if (!isAlisRecord(data)) return null;
+  if (spec.envelope) {
+    const items = readAlisField(data, spec.envelope);
+    if (Array.isArray(items)) return items;
+  }
+  return spec.alsoAccepts ? [] : null;
+}
@@ -1,4 +1,4 @@
-import { AxiosError } from 'axios';
+import axios, { AxiosError, type AxiosResponse } from 'axios';
 
 import { prisma } from '../db/prisma.js';
 import { createHttpClient } from '../config/axios.js';
@@ -6,6 +6,10 @@ import { env } from '../config/env.js';
 import { logger } from '../config/logger.js';
 import { decryptSecret } from '../security/credentials.js';
 
+import { acquireAlisRequestSlot } from './alis/requestBudget.js';
+import { checkAlisResponse, type AlisSchemaDriftContext } from './alis/schemaDrift.js';
+import { AlisResponseSpecs, readAlisListItems, type AlisResponseAction } from './alis/schemas.js';
+
 export type AlisCredentials = {
   username: string;
   password: string;
@@ -239,7 +243,26 @@ export class AlisApiError extends Error {
   }
 }
 
-export function createAlisClient(credentials: AlisCredentials) {
+/** Per-caller counters, e.g. one per event job so retries can be attached to its issues. */
+export type AlisRequestStats = {
+  requests: number;
+  retries: number;
+  budgetWaitMs: number;
+};
+
+export type AlisClientOptions = {
+  /** Request budget to draw from; defaults to the ALIS username. */
+  budgetKey?: string;
+  requestStats?: AlisRequestStats;
+  /** Company (and event) that schema drift in the responses is recorded against. */
+  schemaDrift?: AlisSchemaDriftContext;
+};
+
+export function createAlisRequestStats(): AlisRequestStats {
+  return { requests: 0, retries: 0, budgetWaitMs: 0 };
+}
+
+export function createAlisClient(credentials: AlisCredentials, options: AlisClientOptions = {}) {
   const http = createHttpClient({
     baseURL: env.ALIS_API_BASE,
     headers: {
@@ -250,12 +273,38 @@ export function createAlisClient(credentials: AlisCredentials) {
       password: credentials.password,
     },
   });
+  const budgetKey = options.budgetKey ?? credentials.username;
+
+  const request = async <T>(
+    action: AlisResponseAction,
+    operation: () => Promise<AxiosResponse<T>>,
+  ): Promise<AxiosResponse<T>> => {
+    const response = await withRetry(
+      action,
+      async () => {
+        const waitedMs = await acquireAlisRequestSlot(budgetKey);
+        if (options.requestStats) {
+          options.requestStats.requests += 1;
+          options.requestStats.budgetWaitMs += waitedMs;
+        }
+        return operation();
+      },
+      options.requestStats,
+    );
+    await checkAlisResponse(action, response.data, options.schemaDrift);
+    return response;
+  };
 
-  return {
+  const readList = <T>(action: AlisResponseAction, data: unknown): T[] => {
+    const spec = AlisResponseSpecs[action];
+    return spec.kind === 'list' ? ((readAlisListItems(spec, data) ?? []) as T[]) : [];
+  };
+
+  const client = {
     async getResident(residentId: number): Promise<AlisResidentDetail> {
       try {
-        const response = await http.get<AlisResidentDetail>(
-          `/v1/integration/residents/${residentId}`,
+        const response = await request('getResident', () =>
+          http.get<AlisResidentDetail>(`/v1/integration/residents/${residentId}`),
         );
         return response.data;
       } catch (error) {
@@ -265,8 +314,8 @@ export function createAlisClient(credentials: AlisCredentials) {
 
     async getResidentBasicInfo(residentId: number): Promise<AlisResidentBasicInfo> {
       try {
-        const response = await http.get<AlisResidentBasicInfo>(
-          `/v1/integration/residents/${residentId}/basicInfo`,
+        const response = await request('getResidentBasicInfo', () =>
+          http.get<AlisResidentBasicInfo>(`/v1/integration/residents/${residentId}/basicInfo`),
         );
         return response.data;
       } catch (error) {
@@ -276,14 +325,10 @@ export function createAlisClient(credentials: AlisCredentials) {
 
     async getResidentLeaves(residentId: number): Promise<AlisLeave[]> {
       try {
-        const response = await http.get<{ Leaves?: AlisLeave[] }>(
-          `/v1/integration/residents/${residentId}/leaves`,
+        const response = await request('getResidentLeaves', () =>
+          http.get(`/v1/integration/residents/${residentId}/leaves`),
         );
-        const leaves = response.data?.Leaves ?? (response.data as unknown as AlisLeave[]);
-        if (Array.isArray(leaves)) {
-          return leaves;
-        }
-        return [];
+        return readList<AlisLeave>('getResidentLeaves', response.data);
       } catch (error) {
         throw mapAlisError(error, 'getResidentLeaves');
       }
@@ -291,7 +336,9 @@ export function createAlisClient(credentials: AlisCredentials) {
 
     async getLeave(leaveId: number): Promise<AlisLeave> {
       try {
-        const response = await http.get<AlisLeave>(`/v1/integration/leaves/${leaveId}`);
+        const response = await request('getLeave', () =>
+          http.get<AlisLeave>(`/v1/integration/leaves/${leaveId}`),
+        );
         return response.data;
       } catch (error) {
         throw mapAlisError(error, 'getLeave');
@@ -300,7 +347,9 @@ export function createAlisClient(credentials: AlisCredentials) {
 
     async getCommunities(): Promise<AlisCommunity[]> {
       try {
-        const response = await http.get<AlisCommunity[]>('/v1/integration/communities');
+        const response = await request('getCommunities', () =>
+          http.get<AlisCommunity[]>('/v1/integration/communities'),
+        );
         return response.data;
       } catch (error) {
         throw mapAlisError(error, 'getCommunities');
@@ -308,20 +357,22 @@ export function createAlisClient(credentials: AlisCredentials) {
     },
 
     async listCommunities(): Promise<AlisCommunity[]> {
-      return this.getCommunities();
+      return client.getCommunities();
     },
 
     async listResidents(params: ListResidentsParams = {}): Promise<ListResidentsResponse> {
       try {
-        const response = await http.get('/v1/integration/residents', {
-          params: {
-            companyKey: params.companyKey,
-            communityId: params.communityId,
-            page: params.page,
-            pageSize: params.pageSize,
-            status: params.status,
-          },
-        });
+        const response = await request('listResidents', () =>
+          http.get('/v1/integration/residents', {
+            params: {
+              companyKey: params.companyKey,
+              communityId: params.communityId,
+              page: params.page,
+              pageSize: params.pageSize,
+              status: params.status,
+            },
+          }),
+        );
 
         const data = response.data as
           | {
@@ -329,6 +380,7 @@ export function createAlisClient(credentials: AlisCredentials) {
               residents?: AlisResidentDetail[];
               Page?: number;
               TotalPages?: number;
+              TotalCount?: number;
               HasMore?: boolean;
             }
           | AlisResidentDetail[];
@@ -347,6 +399,9 @@ export function createAlisClient(credentials: AlisCredentials) {
         return {
           residents,
           hasMore,
+          page,
+          totalPages: Array.isArray(data) ? null : data.TotalPages ?? null,
+          totalCount: Array.isArray(data) ? null : data.TotalCount ?? null,
           raw: response.data,
         };
       } catch (error) {
@@ -354,16 +409,76 @@ export function createAlisClient(credentials: AlisCredentials) {
       }
     },
 
+    /**
+     * Every resident matching the filters, page by page. Stops on an empty page, when ALIS
+     * reports no more pages, when a page repeats one already seen (ALIS ignoring `page`), or at
+     * `maxPages`. `onPage` receives running counts, including ALIS totals once a page reports them.
+     */
+    async *iterateResidents(
+      params: IterateResidentsParams = {},
+    ): AsyncGenerator<AlisResidentDetail, ResidentPageProgress> {
+      const maxPages = params.maxPages ?? DEFAULT_MAX_RESIDENT_PAGES;
+      const seenPages = new Set<string>();
+      const progress: ResidentPageProgress = {
+        page: 0,
+        fetched: 0,
+        totalPages: null,
+        totalCount: null,
+        stopReason: 'complete',
+      };
+
+      for (let page = params.startPage ?? 1, pagesRead = 0; ; page += 1, pagesRead += 1) {
+        if (pagesRead >= maxPages) {
+          progress.stopReason = 'max_pages';
+          logger.warn(
+            { communityId: params.communityId, status: params.status, page, maxPages },
+            'alis_list_residents_max_pages',
+          );
+          break;
+        }
+
+        const result = await client.listResidents({
+          companyKey: params.companyKey,
+          communityId: params.communityId,
+          status: params.status,
+          pageSize: params.pageSize,
+          page,
+        });
+        if (result.residents.length === 0) break;
+
+        const fingerprint = result.residents
+          .map((resident) => resident.ResidentId ?? resident.residentId)
+          .join(',');
+        if (seenPages.has(fingerprint)) {
+          progress.stopReason = 'repeated_page';
+          logger.warn(
+            { communityId: params.communityId, status: params.status, page },
+            'alis_list_residents_page_repeated',
+          );
+          break;
+        }
+        seenPages.add(fingerprint);
+
+        progress.page = page;
+        progress.fetched += result.residents.length;
+        progress.totalPages = result.totalPages ?? progress.totalPages;
+        progress.totalCount = result.totalCount ?? progress.totalCount;
+        await params.onPage?.({ ...progress }, result.residents);
+
+        yield* result.residents;
+
+        if (!result.hasMore) break;
+      }
+
+      return progress;
+    },
+
     async getResidentInsurance(residentId: number): Promise<AlisInsurance[]> {
       try {
-        const response = await http.get<{ Insurance?: AlisInsurance[] }>(
-          `/v1/integration/residents/${residentId}/insurance`,
+        const response = await request('getResidentInsurance', () =>
+          http.get(`/v1/integration/residents/${residentId}/insurance`),
         );
-        const insurance = response.data?.Insurance ?? (response.data as unknown as AlisInsurance[]);
-        if (Array.isArray(insurance)) {
-          return insurance;
-        }
-        return [];
+        return readList<AlisInsurance>('getResidentInsurance', response.data);
       } catch (error) {
         throw mapAlisError(error, 'getResidentInsurance');
       }
@@ -371,15 +486,10 @@ export function createAlisClient(credentials: AlisCredentials) {
 
     async getResidentRoomAssignments(residentId: number): Promise<AlisRoomAssignment[]> {
       try {
-        const response = await http.get<{ RoomAssignments?: AlisRoomAssignment[] }>(
-          `/v1/integration/residents/${residentId}/roomAssignments`,
+        const response = await request('getResidentRoomAssignments', () =>
+          http.get(`/v1/integration/residents/${residentId}/roomAssignments`),
         );
-        const roomAssignments =
-          response.data?.RoomAssignments ?? (response.data as unknown as AlisRoomAssignment[]);
-        if (Array.isArray(roomAssignments)) {
-          return roomAssignments;
-        }
-        return [];
+        return readList<AlisRoomAssignment>('getResidentRoomAssignments', response.data);
       } catch (error) {
         throw mapAlisError(error, 'getResidentRoomAssignments');
       }
@@ -389,16 +499,10 @@ export function createAlisClient(credentials: AlisCredentials) {
       residentId: number,
     ): Promise<AlisDiagnosisOrAllergy[]> {
       try {
-        const response = await http.get<{ DiagnosesAndAllergies?: AlisDiagnosisOrAllergy[] }>(
-          `/v1/integration/residents/${residentId}/diagnosesAndAllergies`,
+        const response = await request('getResidentDiagnosesAndAllergies', () =>
+          http.get(`/v1/integration/residents/${residentId}/diagnosesAndAllergies`),
         );
-        const diagnosesAndAllergies =
-          response.data?.DiagnosesAndAllergies ??
-          (response.data as unknown as AlisDiagnosisOrAllergy[]);
-        if (Array.isArray(diagnosesAndAllergies)) {
-          return diagnosesAndAllergies;
-        }
-        return [];
+        return readList<AlisDiagnosisOrAllergy>('getResidentDiagnosesAndAllergies', response.data);
       } catch (error) {
         throw mapAlisError(error, 'getResidentDiagnosesAndAllergies');
       }
@@ -408,8 +512,10 @@ export function createAlisClient(credentials: AlisCredentials) {
       residentId: number,
     ): Promise<AlisDiagnosesAndAllergies> {
       try {
-        const response = await http.get<AlisDiagnosesAndAllergies>(
-          `/v1/integration/residents/${residentId}/diagnosesAndAllergies`,
+        const response = await request('getResidentDiagnosesAndAllergiesFull', () =>
+          http.get<AlisDiagnosesAndAllergies>(
+            `/v1/integration/residents/${residentId}/diagnosesAndAllergies`,
+          ),
         );
         return response.data;
       } catch (error) {
@@ -419,19 +525,17 @@ export function createAlisClient(credentials: AlisCredentials) {
 
     async getResidentContacts(residentId: number): Promise<AlisContact[]> {
       try {
-        const response = await http.get<{ Contacts?: AlisContact[] }>(
-          `/v1/integration/residents/${residentId}/contacts`,
+        const response = await request('getResidentContacts', () =>
+          http.get(`/v1/integration/residents/${residentId}/contacts`),
         );
-        const contacts = response.data?.Contacts ?? (response.data as unknown as AlisContact[]);
-        if (Array.isArray(contacts)) {
-          return contacts;
-        }
-        return [];
+        return readList<AlisContact>('getResidentContacts', response.data);
       } catch (error) {
         throw mapAlisError(error, 'getResidentContacts');
       }
     },
   };
+
+  return client;
 }
 
 export type ListResidentsParams = {
@@ -445,9 +549,34 @@ export type ListResidentsParams = {
 export type ListResidentsResponse = {
   residents: AlisResidentDetail[];
   hasMore: boolean;
+  page: number;
+  /** Only when ALIS sends paging metadata. */
+  totalPages: number | null;
+  totalCount: number | null;
   raw: unknown;
 };
 
+export type IterateResidentsParams = Omit<ListResidentsParams, 'page'> & {
+  startPage?: number;
+  maxPages?: number;
+  /** Called with each page before its residents are yielded. */
+  onPage?: (
+    progress: ResidentPageProgress,
+    residents: AlisResidentDetail[],
+  ) => void | Promise<void>;
+};
+
+export type ResidentPageProgress = {
+  /** Last page read. */
+  page: number;
+  fetched: number;
+  totalPages: number | null;
+  totalCount: number | null;
+  stopReason: 'complete' | 'repeated_page' | 'max_pages';
+};
+
+const DEFAULT_MAX_RESIDENT_PAGES = 1000;
+
 export type AllResidentData = {
   resident: AlisResidentDetail;
   basicInfo: AlisResidentBasicInfo;
@@ -511,8 +640,9 @@ export async function fetchAllResidentData(
   credentials: AlisCredentials,
   residentId: number,
   communityId?: number | null,
+  options: AlisClientOptions = {},
 ): Promise<AllResidentData> {
-  const client = createAlisClient(credentials);
+  const client = createAlisClient(credentials, options);
 
   // Fetch basic resident info first (these are required)
   const [resident, basicInfo] = await Promise.all([
@@ -647,6 +777,74 @@ export async function verifyAlisConnectivity(): Promise<void> {
   await client.listCommunities();
 }
 
+/**
+ * Retry wrapper for ALIS calls: exponential backoff on 429/5xx/timeouts, using the server's
+ * Retry-After when it sends one.
+ */
+async function withRetry<T>(
+  action: string,
+  operation: () => Promise<T>,
+  stats?: AlisRequestStats,
+  attempt = 1,
+): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    const isAxiosError = axios.isAxiosError(error);
+    const status = isAxiosError ? error.response?.status : undefined;
+    const isTimeout =
+      isAxiosError &&
+      (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' || error.code === 'ECONNRESET');
+
+    const shouldRetry =
+      (status === 429 || (status !== undefined && status >= 500) || isTimeout) &&
+      attempt < env.ALIS_RETRY_MAX;
+
+    if (!shouldRetry) {
+      throw error;
+    }
+
+    const retryAfterMs = isAxiosError
+      ? parseRetryAfterMs(error.response?.headers?.['retry-after'])
+      : null;
+    const delay = Math.min(
+      retryAfterMs ?? Math.pow(2, attempt - 1) * 1000,
+      env.ALIS_RETRY_MAX_DELAY_MS,
+    );
+    if (stats) {
+      stats.retries += 1;
+    }
+    logger.warn(
+      {
+        action,
+        attempt,
+        maxRetries: env.ALIS_RETRY_MAX,
+        delay,
+        status,
+        isTimeout,
+        retryAfterMs,
+      },
+      'alis_retry_after_error',
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    return withRetry(action, operation, stats, attempt + 1);
+  }
+}
+
+/** Retry-After is either delay-seconds or an HTTP date. */
+export function parseRetryAfterMs(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+  const seconds = Number(value);
+  if (String(value).trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
 function mapAlisError(error: unknown, action: string): AlisApiError {
   if (error instanceof AlisApiError) {
     return error;
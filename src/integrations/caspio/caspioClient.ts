@@ -1,13 +1,24 @@
-import axios, { type AxiosError, type AxiosResponse } from 'axios';
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import axios, { type AxiosInstance, type AxiosResponse } from 'axios';
 
-import { createHttpClient } from '../../config/axios.js';
 import { env } from '../../config/env.js';
 import { logger } from '../../config/logger.js';
-
-type TokenCache = {
-  token: string;
-  expiresAt: number;
-};
+import {
+  currentCaspioWriteOrigin,
+  recordCaspioWrite,
+  type CaspioWriteAuditDetails,
+} from '../../domains/caspioWriteAudit.js';
+import { recordEventIssue } from '../../domains/eventIssues.js';
+
+import {
+  applyCaspioColumnMapping,
+  canonicalCaspioRecord,
+  caspioTableKeyFor,
+} from './caspioColumnMapping.js';
+import { caspioTableNames, currentCaspioClient } from './caspioConnection.js';
+import { findChangedCaspioFields } from './caspioRecordDiff.js';
+import { acquireCaspioRequestSlot, recordCaspioRequestOutcome } from './requestBudget.js';
 
 export type CommunityTableRecord = {
   CUID?: string;
@@ -39,75 +50,29 @@ export type ServiceTableRecord = {
   [key: string]: unknown;
 };
 
-let tokenCache: TokenCache | null = null;
-
-const authClient = createHttpClient({
-  timeout: env.CASPIO_TIMEOUT_MS,
-});
-
-const apiClient = createHttpClient({
-  baseURL: env.CASPIO_BASE_URL,
-  timeout: env.CASPIO_TIMEOUT_MS,
-});
-
 /**
- * Get OAuth access token, refreshing if needed (refresh if <60s remaining)
+ * OAuth access token of the current Caspio connection, refreshed when it has under a minute left.
+ * The token is shared with other processes through Redis; see tokenStore.ts.
  */
 export async function getAccessToken(): Promise<string> {
-  const now = Date.now();
-  const refreshThreshold = 60000; // 60 seconds
-
-  if (tokenCache && tokenCache.expiresAt - now > refreshThreshold) {
-    return tokenCache.token;
-  }
-
-  // Token expired or doesn't exist, fetch new one
-  if (!env.CASPIO_CLIENT_ID || !env.CASPIO_CLIENT_SECRET) {
-    throw new Error('CASPIO_CLIENT_ID and CASPIO_CLIENT_SECRET must be set');
-  }
-
-  const params = new URLSearchParams({
-    grant_type: 'client_credentials',
-    client_id: env.CASPIO_CLIENT_ID,
-    client_secret: env.CASPIO_CLIENT_SECRET,
-  });
-
-  try {
-    const response = await authClient.post<{
-      access_token: string;
-      expires_in: number;
-      token_type: string;
-    }>(env.CASPIO_TOKEN_URL, params, {
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-    });
-
-    const expiresIn = response.data.expires_in ?? 3600;
-    tokenCache = {
-      token: response.data.access_token,
-      expiresAt: now + (expiresIn - 60) * 1000, // Subtract 60s buffer
-    };
-
-    logger.debug({ expiresIn }, 'caspio_token_refreshed');
-    return tokenCache.token;
-  } catch (error) {
-    logger.error(
-      {
-        error: error instanceof Error ? error.message : String(error),
-        status: axios.isAxiosError(error) ? error.response?.status : undefined,
-      },
-      'caspio_token_fetch_failed',
-    );
-    throw new Error(`Failed to get Caspio access token: ${error instanceof Error ? error.message : String(error)}`);
-  }
+  return currentCaspioClient().getAccessToken();
 }
 
 /**
  * Invalidate the token cache (used on 401 errors)
  */
-function invalidateToken(): void {
-  tokenCache = null;
+async function invalidateToken(): Promise<void> {
+  await currentCaspioClient().invalidateToken();
+}
+
+/**
+ * REST client of the current Caspio connection, once the caller may send one request to `table`.
+ * Call it for every request, so paged reads, fallback scans and FieldNotFound re-sends each draw
+ * their own token from the shared budget.
+ */
+async function caspioApi(table: string): Promise<AxiosInstance> {
+  await acquireCaspioRequestSlot(table);
+  return currentCaspioClient().api;
 }
 
 /**
@@ -161,70 +126,222 @@ function buildWhereClause(filters: Array<{ field: string; value: string | number
 const CASPIO_QUERY_PAGE_SIZE = 200;
 const CASPIO_QUERY_MAX_PAGES = 20;
 
-async function fetchRecordsWithWherePaged(
+export type CaspioQueryOptions = {
+  /** `q.where` clause, e.g. `PatientNumber='12345' AND CUID='259'`. */
+  where?: string;
+  /** `q.orderBy`, e.g. `StartDate DESC`, so the rows a caller wants come first. */
+  orderBy?: string;
+  maxPages?: number;
+};
+
+/**
+ * Rows from a paged query. `truncated` is set when the page limit was reached on a full page, so
+ * rows past it were never read.
+ */
+export type CaspioQueryResult = {
+  records: unknown[];
+  truncated: boolean;
+  pagesRead: number;
+};
+
+function buildRecordsUrl(
   tableName: string,
-  token: string,
-  whereClause?: string,
-): Promise<unknown[]> {
+  options: CaspioQueryOptions,
+  pageNumber?: number,
+): string {
   const baseUrl = `/integrations/rest/v3/tables/${encodeURIComponent(tableName)}/records`;
-  const records: unknown[] = [];
-
-  const makeUrl = (pageNumber?: number): string => {
-    const params: string[] = [];
-    if (whereClause) {
-      params.push(`q.where=${encodeURIComponent(whereClause)}`);
-    }
-    if (pageNumber !== undefined) {
-      params.push(`q.pageNumber=${pageNumber}`);
-      params.push(`q.pageSize=${CASPIO_QUERY_PAGE_SIZE}`);
-    }
-    return params.length > 0 ? `${baseUrl}?${params.join('&')}` : baseUrl;
-  };
+  const params: string[] = [];
+  if (options.where) {
+    params.push(`q.where=${encodeURIComponent(options.where)}`);
+  }
+  if (options.orderBy) {
+    params.push(`q.orderBy=${encodeURIComponent(options.orderBy)}`);
+  }
+  if (pageNumber !== undefined) {
+    params.push(`q.pageNumber=${pageNumber}`);
+    params.push(`q.pageSize=${CASPIO_QUERY_PAGE_SIZE}`);
+  }
+  return params.length > 0 ? `${baseUrl}?${params.join('&')}` : baseUrl;
+}
 
-  for (let pageNumber = 1; pageNumber <= CASPIO_QUERY_MAX_PAGES; pageNumber += 1) {
-    const url = makeUrl(pageNumber);
+/**
+ * Yield a query's rows one page at a time; the return value says whether the page limit cut the
+ * query short (already logged and recorded as an issue).
+ */
+async function* iterateRecordPages(
+  tableName: string,
+  fetchPage: (url: string) => Promise<AxiosResponse>,
+  options: CaspioQueryOptions,
+): AsyncGenerator<unknown[], boolean> {
+  const maxPages = options.maxPages ?? CASPIO_QUERY_MAX_PAGES;
+  let rowsRead = 0;
+
+  for (let pageNumber = 1; pageNumber <= maxPages; pageNumber += 1) {
+    let pageRecords: unknown[];
     try {
-      const response = await apiClient.get(url, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-      const pageRecords = extractRecordsFromResponse(response.data);
-      records.push(...pageRecords);
-      if (pageRecords.length < CASPIO_QUERY_PAGE_SIZE) {
-        return records;
-      }
-      continue;
+      const response = await fetchPage(buildRecordsUrl(tableName, options, pageNumber));
+      pageRecords = canonicalRows(tableName, extractRecordsFromResponse(response.data));
     } catch (error) {
       if (
         pageNumber === 1 &&
         axios.isAxiosError(error) &&
         error.response?.status === 400
       ) {
-        // Fallback for environments that reject q.pageNumber/q.pageSize.
-        const nonPagedUrl = makeUrl();
-        const response = await apiClient.get(nonPagedUrl, {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
-        return extractRecordsFromResponse(response.data);
+        // Fallback for environments that reject q.pageNumber/q.pageSize (or q.orderBy).
+        const response = await fetchPage(buildRecordsUrl(tableName, { where: options.where }));
+        yield canonicalRows(tableName, extractRecordsFromResponse(response.data));
+        return false;
       }
       throw error;
     }
+
+    yield pageRecords;
+    rowsRead += pageRecords.length;
+    if (pageRecords.length < CASPIO_QUERY_PAGE_SIZE) {
+      return false;
+    }
+  }
+
+  const truncatedQuery = { tableName, ...options, maxPages, rowsRead };
+  const pending = pendingTruncatedQueries.getStore();
+  if (pending) {
+    pending.push(truncatedQuery);
+  } else {
+    await reportTruncatedQuery(truncatedQuery);
+  }
+  return true;
+}
+
+type TruncatedQuery = CaspioQueryOptions & {
+  tableName: string;
+  maxPages: number;
+  rowsRead: number;
+};
+
+/**
+ * Queries cut short inside the current `caspioRequestWithRetry` attempt. They are reported once
+ * the attempt succeeds, so a retried operation does not report its queries again.
+ */
+const pendingTruncatedQueries = new AsyncLocalStorage<TruncatedQuery[]>();
+
+const REPORTED_TRUNCATED_QUERIES_MAX = 1000;
+
+/** Table and where clause already reported per event or backfill job, oldest first. */
+const reportedTruncatedQueries = new Set<string>();
+
+/**
+ * Log a query the page limit cut short and, when it ran for a company (an event, backfill or
+ * admin push), record it as an event processing issue: whatever the caller picked from the rows
+ * it did read may be wrong. An event or backfill job reports each table and where clause once;
+ * a backfill's issues are filed under its job id.
+ */
+async function reportTruncatedQuery(query: TruncatedQuery): Promise<void> {
+  const origin = currentCaspioWriteOrigin();
+  const originId = origin?.eventMessageId ?? origin?.backfillJobId;
+
+  if (originId) {
+    const reportKey = JSON.stringify([origin?.companyId, originId, query.tableName, query.where]);
+    if (reportedTruncatedQueries.has(reportKey)) {
+      return;
+    }
+    reportedTruncatedQueries.add(reportKey);
+    if (reportedTruncatedQueries.size > REPORTED_TRUNCATED_QUERIES_MAX) {
+      const oldest = reportedTruncatedQueries.values().next().value;
+      if (oldest !== undefined) reportedTruncatedQueries.delete(oldest);
+    }
   }
 
   logger.warn(
     {
-      tableName,
-      whereClause,
+      tableName: query.tableName,
+      whereClause: query.where,
+      orderBy: query.orderBy,
       pageSize: CASPIO_QUERY_PAGE_SIZE,
-      maxPages: CASPIO_QUERY_MAX_PAGES,
-      matchCount: records.length,
+      maxPages: query.maxPages,
+      matchCount: query.rowsRead,
+      eventMessageId: origin?.eventMessageId,
+      backfillJobId: origin?.backfillJobId,
     },
     'caspio_query_max_pages_reached',
   );
-  return records;
+
+  if (!origin?.companyId) {
+    return;
+  }
+
+  await recordEventIssue({
+    companyId: origin.companyId,
+    eventType: origin.eventType ?? 'caspio.query',
+    eventMessageId: originId ?? `caspio-query-truncated-${query.tableName}`,
+    residentId: origin.residentId ?? null,
+    stage: 'caspio_query',
+    severity: 'warning',
+    message: `Caspio query on ${query.tableName} stopped after ${query.maxPages} pages; later rows were not read`,
+    details: {
+      tableName: query.tableName,
+      where: query.where ?? null,
+      orderBy: query.orderBy ?? null,
+      pageSize: CASPIO_QUERY_PAGE_SIZE,
+      rowsRead: query.rowsRead,
+      source: origin.source,
+      backfillJobId: origin.backfillJobId ?? null,
+    },
+    retryable: false,
+  });
+}
+
+async function fetchRecordsWithWherePaged(
+  tableName: string,
+  token: string,
+  whereClause?: string,
+  options: Omit<CaspioQueryOptions, 'where'> = {},
+): Promise<CaspioQueryResult> {
+  const pages = iterateRecordPages(
+    tableName,
+    async (url) =>
+      (await caspioApi(tableName)).get(url, { headers: { Authorization: `Bearer ${token}` } }),
+    { ...options, where: whereClause },
+  );
+  const records: unknown[] = [];
+  let pagesRead = 0;
+
+  let page = await pages.next();
+  while (!page.done) {
+    records.push(...page.value);
+    pagesRead += 1;
+    page = await pages.next();
+  }
+
+  return { records, truncated: page.value, pagesRead };
+}
+
+/**
+ * Stream a query's rows page by page, so a caller can stop once it has what it needs (with
+ * `orderBy`, e.g. after the latest row). Each page is its own budgeted and retried request. The
+ * return value is the truncation flag of `CaspioQueryResult`.
+ */
+export async function* streamCaspioRecords(
+  tableName: string,
+  options: CaspioQueryOptions = {},
+): AsyncGenerator<Record<string, unknown>, boolean> {
+  const pages = iterateRecordPages(
+    tableName,
+    (url) =>
+      caspioRequestWithRetry(async () => {
+        const token = await getAccessToken();
+        return (await caspioApi(tableName)).get(url, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+      }, tableName),
+    options,
+  );
+
+  let page = await pages.next();
+  while (!page.done) {
+    yield* page.value as Array<Record<string, unknown>>;
+    page = await pages.next();
+  }
+  return page.value;
 }
 
 function extractRecordsFromResponse(data: unknown): unknown[] {
@@ -445,23 +562,98 @@ function stripUnsupportedFieldsFromRecord(
 }
 
 /**
- * Insert a record into a Caspio table
+ * `record` renamed, trimmed and defaulted for the Caspio app of the company the write is for,
+ * when its write origin carries a column mapping.
  */
-export async function insertRecord(
+function withCompanyColumnMapping(
   tableName: string,
   record: Record<string, unknown>,
+  operation: 'insert' | 'update',
+): Record<string, unknown> {
+  const mapping = currentCaspioWriteOrigin()?.columnMapping;
+  const table = caspioTableKeyFor(tableName);
+  return mapping && table ? applyCaspioColumnMapping(mapping, table, record, operation) : record;
+}
+
+/**
+ * `record` as read from the Caspio app of the company the call is for, under the mapper's column
+ * names, when its write origin carries a column mapping.
+ */
+function withCanonicalColumnNames(
+  tableName: string,
+  record: Record<string, unknown>,
+): Record<string, unknown> {
+  const mapping = currentCaspioWriteOrigin()?.columnMapping;
+  const table = caspioTableKeyFor(tableName);
+  return mapping && table ? canonicalCaspioRecord(mapping, table, record) : record;
+}
+
+function canonicalRows(tableName: string, records: unknown[]): unknown[] {
+  return records.map((record) =>
+    record && typeof record === 'object'
+      ? withCanonicalColumnNames(tableName, record as Record<string, unknown>)
+      : record,
+  );
+}
+
+/**
+ * Insert a record into a Caspio table. Each call is recorded in the Caspio write audit.
+ */
+export async function insertRecord(
+  tableName: string,
+  input: Record<string, unknown>,
+  audit: CaspioWriteAuditDetails = {},
 ): Promise<AxiosResponse> {
+  const record = withCompanyColumnMapping(tableName, input, 'insert');
+  let written: CaspioWrite;
+  try {
+    written = await sendInsert(tableName, record);
+  } catch (error) {
+    await recordCaspioWrite({ ...audit, tableName, operation: 'insert', patch: record, error });
+    throw error;
+  }
+  await recordCaspioWrite({
+    ...audit,
+    tableName,
+    operation: 'insert',
+    patch: written.sent,
+    resultId: readRecordId(written.response.data),
+  });
+  return written.response;
+}
+
+/** A write's response and the body actually sent, which lacks any fields Caspio rejected. */
+type CaspioWrite = {
+  response: AxiosResponse;
+  sent: Record<string, unknown>;
+};
+
+function readRecordId(data: unknown): string | undefined {
+  if (!data || typeof data !== 'object') {
+    return undefined;
+  }
+  const record = data as Record<string, unknown>;
+  const id = record.PK_ID ?? record.PK ?? record._id ?? record.id ?? record.Id;
+  return id === undefined || id === null ? undefined : String(id);
+}
+
+async function sendInsert(
+  tableName: string,
+  record: Record<string, unknown>,
+): Promise<CaspioWrite> {
   return caspioRequestWithRetry(async () => {
     const token = await getAccessToken();
     const url = `/integrations/rest/v3/tables/${encodeURIComponent(tableName)}/records`;
 
     try {
-      return await apiClient.post(url, record, {
+      const api = await caspioApi(tableName);
+      const response = await api.post(url, record, {
         headers: {
           Authorization: `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
       });
+      return { response, sent: record };
     } catch (error) {
       const missingFields = parseMissingFieldsFromFieldNotFound(error);
       const { sanitizedRecord, droppedFields } = stripUnsupportedFieldsFromRecord(
@@ -483,14 +675,17 @@ export async function insertRecord(
         'caspio_retry_insert_without_unsupported_fields',
       );
 
-      return apiClient.post(url, sanitizedRecord, {
+
+      const api = await caspioApi(tableName);
+      const response = await api.post(url, sanitizedRecord, {
         headers: {
           Authorization: `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
       });
+      return { response, sent: sanitizedRecord };
     }
-  });
+  }, tableName);
 }
 
 /**
@@ -510,13 +705,66 @@ export async function insertRecord(
  * - Parameter: q with JSON format {"field":"value"}
  * - Request body: Array of records [payload]
  *
+ * When `audit.priorRecord` is given and already holds every patched value (after normalizing
+ * dates, booleans and whitespace), no request is sent and the call resolves to null.
+ *
  * @see https://howto.caspio.com/integrate-your-apps/web-services-api/
  */
 export async function updateRecordById(
   tableName: string,
   id: string | number,
   record: Record<string, unknown>,
-): Promise<AxiosResponse> {
+  audit: CaspioWriteAuditDetails = {},
+): Promise<AxiosResponse | null> {
+  const patch = withCompanyColumnMapping(
+    tableName,
+    Object.fromEntries(Object.entries(record).filter(([key]) => key !== 'PK_ID')),
+    'update',
+  );
+
+  // Rows are read under the mapper's column names, so the patch is compared under them too.
+  if (
+    audit.priorRecord &&
+    findChangedCaspioFields(audit.priorRecord, withCanonicalColumnNames(tableName, patch))
+      .length === 0
+  ) {
+    logger.info(
+      {
+        tableName,
+        id,
+        fieldCount: Object.keys(patch).length,
+        outcome: 'no_change',
+      },
+      'caspio_update_skipped_no_change',
+    );
+    await recordCaspioRequestOutcome(tableName, 'unchanged');
+    return null;
+  }
+
+  const details = {
+    keyFilter: [{ field: 'PK_ID', value: typeof id === 'number' ? id : Number(id) }],
+    ...audit,
+    tableName,
+    operation: 'update' as const,
+    patch,
+  };
+
+  let written: CaspioWrite;
+  try {
+    written = await sendUpdateById(tableName, id, patch);
+  } catch (error) {
+    await recordCaspioWrite({ ...details, error });
+    throw error;
+  }
+  await recordCaspioWrite({ ...details, patch: written.sent, resultId: String(id) });
+  return written.response;
+}
+
+async function sendUpdateById(
+  tableName: string,
+  id: string | number,
+  record: Record<string, unknown>,
+): Promise<CaspioWrite> {
   return caspioRequestWithRetry(async () => {
     const token = await getAccessToken();
 
@@ -538,12 +786,14 @@ export async function updateRecordById(
     );
 
     try {
-      return await apiClient.put(url, recordWithoutPK_ID, {
+      const api = await caspioApi(tableName);
+      const response = await api.put(url, recordWithoutPK_ID, {
         headers: {
           Authorization: `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
       });
+      return { response, sent: recordWithoutPK_ID };
     } catch (error) {
       const missingFields = parseMissingFieldsFromFieldNotFound(error);
       const { sanitizedRecord, droppedFields } = stripUnsupportedFieldsFromRecord(
@@ -566,14 +816,17 @@ export async function updateRecordById(
         'caspio_retry_update_without_unsupported_fields',
       );
 
-      return apiClient.put(url, sanitizedRecord, {
+
+      const api = await caspioApi(tableName);
+      const response = await api.put(url, sanitizedRecord, {
         headers: {
           Authorization: `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
       });
+      return { response, sent: sanitizedRecord };
     }
-  });
+  }, tableName);
 }
 
 /**
@@ -591,7 +844,8 @@ export async function findRecordByFields(
     const url = `/integrations/rest/v3/tables/${encodeURIComponent(tableName)}/records?q=${filter}`;
 
     try {
-      const response = await apiClient.get(url, {
+      const api = await caspioApi(tableName);
+      const response = await api.get(url, {
         headers: {
           Authorization: `Bearer ${token}`,
         },
@@ -612,6 +866,7 @@ export async function findRecordByFields(
           records = data.data;
         }
       }
+      records = canonicalRows(tableName, records);
 
       if (records.length === 0) {
         return { found: false };
@@ -704,7 +959,7 @@ export async function findRecordByFields(
       }
       throw error;
     }
-  });
+  }, tableName);
 }
 
 async function findRecordsByFields(
@@ -717,12 +972,13 @@ async function findRecordsByFields(
     const url = `/integrations/rest/v3/tables/${encodeURIComponent(tableName)}/records?q=${filter}`;
 
     try {
-      const response = await apiClient.get(url, {
+      const api = await caspioApi(tableName);
+      const response = await api.get(url, {
         headers: {
           Authorization: `Bearer ${token}`,
         },
       });
-      return extractRecordsFromResponse(response.data);
+      return canonicalRows(tableName, extractRecordsFromResponse(response.data));
     } catch (error) {
       if (axios.isAxiosError(error) && error.response?.status === 404) {
         logger.debug({ tableName, filters, url }, 'caspio_records_not_found_404_filters');
@@ -730,7 +986,72 @@ async function findRecordsByFields(
       }
       throw error;
     }
-  });
+  }, tableName);
+}
+
+/** A row found by a batched lookup. */
+export type CaspioRecordMatch = {
+  id: string;
+  record: Record<string, unknown>;
+};
+
+export type CaspioBatchLookupResult = {
+  matches: Map<string, CaspioRecordMatch>;
+  /** A query hit the page limit, so a value without a match may still have a row. */
+  truncated: boolean;
+};
+
+// Values per `IN (...)` query; keeps the q.where URL well under Caspio's length limit.
+const CASPIO_IN_FILTER_CHUNK_SIZE = 100;
+
+/**
+ * Look up rows for many values of one column with `field IN (...)` queries, one query per
+ * chunk of values instead of one per value. Matches are keyed by the value as given; values
+ * without a row are left out. When several rows share a value the first one wins, as in
+ * `findRecordByFields`. A truncated query is reported like any other and flagged in the result.
+ */
+export async function findRecordsByFieldValues(
+  tableName: string,
+  field: string,
+  values: Array<string | number>,
+): Promise<CaspioBatchLookupResult> {
+  const wanted = [...new Set(values.map((value) => String(value)))];
+  const matches = new Map<string, CaspioRecordMatch>();
+  let truncated = false;
+
+  for (let start = 0; start < wanted.length; start += CASPIO_IN_FILTER_CHUNK_SIZE) {
+    const chunk = wanted.slice(start, start + CASPIO_IN_FILTER_CHUNK_SIZE);
+    const whereClause = `${field} IN (${chunk.map((value) => formatWhereLiteral(value)).join(',')})`;
+
+    const result = await caspioRequestWithRetry(async () => {
+      const token = await getAccessToken();
+      try {
+        return await fetchRecordsWithWherePaged(tableName, token, whereClause);
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 404) {
+          return { records: [], truncated: false, pagesRead: 0 };
+        }
+        throw error;
+      }
+    }, tableName);
+    truncated ||= result.truncated;
+
+    for (const candidate of result.records) {
+      const record = candidate as Record<string, unknown>;
+      const key =
+        record[field] === undefined || record[field] === null ? '' : String(record[field]);
+      const id = readRecordId(record);
+      if (!chunk.includes(key) || matches.has(key) || !id) continue;
+      matches.set(key, { id, record });
+    }
+  }
+
+  logger.debug(
+    { tableName, field, requested: wanted.length, found: matches.size, truncated },
+    'caspio_batched_lookup_complete',
+  );
+
+  return { matches, truncated };
 }
 
 /**
@@ -771,8 +1092,8 @@ export async function findCommunityById(
         didFallbackScan = true;
         // Fallback: some Caspio schemas can behave inconsistently for filtered queries.
         // Retry with an unfiltered scan and exact-match locally.
-        const scanned = await fetchRecordsWithWherePaged(
-          env.CASPIO_COMMUNITY_TABLE_NAME,
+        const { records: scanned, truncated } = await fetchRecordsWithWherePaged(
+          caspioTableNames().community,
           token,
         );
         records.push(...scanned);
@@ -780,6 +1101,7 @@ export async function findCommunityById(
           {
             communityId,
             scannedCount: scanned.length,
+            truncated,
           },
           'caspio_community_lookup_fallback_scan',
         );
@@ -787,11 +1109,11 @@ export async function findCommunityById(
       for (const filter of filters) {
         const whereClause = buildWhereClause([{ field: filter.field, value: filter.value }]);
         const filtered = await fetchRecordsWithWherePaged(
-          env.CASPIO_COMMUNITY_TABLE_NAME,
+          caspioTableNames().community,
           token,
           whereClause,
         );
-        records.push(...filtered);
+        records.push(...filtered.records);
       }
       if (records.length === 0) {
         await appendFallbackScanRecords();
@@ -849,7 +1171,7 @@ export async function findCommunityById(
       }
       throw error;
     }
-  });
+  }, caspioTableNames().community);
 }
 
 /**
@@ -893,8 +1215,8 @@ export async function findCommunityByIdAndRoomNumber(
         didFallbackScan = true;
         // Fallback: scan table and exact-match in code when filtered API returns no rows
         // or only noisy non-exact rows.
-        const scanned = await fetchRecordsWithWherePaged(
-          env.CASPIO_COMMUNITY_TABLE_NAME,
+        const { records: scanned, truncated } = await fetchRecordsWithWherePaged(
+          caspioTableNames().community,
           token,
         );
         records.push(...scanned);
@@ -904,6 +1226,7 @@ export async function findCommunityByIdAndRoomNumber(
             communityName: normalizedCommunityName,
             roomNumber: normalizedRoom,
             scannedCount: scanned.length,
+            truncated,
           },
           'caspio_community_room_lookup_fallback_scan',
         );
@@ -917,11 +1240,11 @@ export async function findCommunityByIdAndRoomNumber(
           ]);
           try {
             const filtered = await fetchRecordsWithWherePaged(
-              env.CASPIO_COMMUNITY_TABLE_NAME,
+              caspioTableNames().community,
               token,
               whereClause,
             );
-            records.push(...filtered);
+            records.push(...filtered.records);
           } catch (error) {
             if (axios.isAxiosError(error) && error.response?.status === 400) {
               logger.warn(
@@ -1026,7 +1349,7 @@ export async function findCommunityByIdAndRoomNumber(
       }
       throw error;
     }
-  });
+  }, caspioTableNames().community);
 }
 
 /**
@@ -1043,7 +1366,8 @@ export async function findByResidentId(
     const url = `/integrations/rest/v3/tables/${encodeURIComponent(tableName)}/records?q=${filter}`;
 
     try {
-      const response = await apiClient.get(url, {
+      const api = await caspioApi(tableName);
+      const response = await api.get(url, {
         headers: {
           Authorization: `Bearer ${token}`,
         },
@@ -1064,6 +1388,7 @@ export async function findByResidentId(
         records = data.data;
       }
     }
+    records = canonicalRows(tableName, records);
 
     if (records.length === 0) {
       return { found: false };
@@ -1119,7 +1444,7 @@ export async function findByResidentId(
       }
       throw error;
     }
-  });
+  }, tableName);
 }
 
 /**
@@ -1135,7 +1460,7 @@ export async function findByPatientNumber(
 
     try {
       const whereClause = buildWhereClause([{ field: 'PatientNumber', value: patientNumberString }]);
-      const records = await fetchRecordsWithWherePaged(tableName, token, whereClause);
+      const { records } = await fetchRecordsWithWherePaged(tableName, token, whereClause);
       if (records.length === 0) {
         return { found: false };
       }
@@ -1206,87 +1531,114 @@ export async function findByPatientNumber(
       }
       throw error;
     }
-  });
+  }, tableName);
 }
 
+/** Lookup result; `truncated` is set when the query hit the page limit (see CaspioQueryResult). */
+export type ServiceRowLookupResult = {
+  found: boolean;
+  id?: string;
+  record?: ServiceTableRecord;
+  truncated?: boolean;
+};
+
+const SERVICE_ROWS_NEWEST_FIRST = 'StartDate DESC';
+
+/**
+ * Service rows are streamed newest first (`StartDate DESC`) and each query stops at its first
+ * open row, so a long closed history is only read to the end when no row is open. When that hits
+ * the page limit the rows that were dropped are the oldest ones; `truncated` says that happened.
+ */
 export async function findActiveOrLatestServiceRow(params: {
   patientNumber: string;
   cuid: string;
-}): Promise<{ found: boolean; id?: string; record?: ServiceTableRecord }> {
-  const records = (await caspioRequestWithRetry(async () => {
-    const token = await getAccessToken();
-    const patientNumberString = String(params.patientNumber).trim();
-    const cuidString = String(params.cuid).trim();
-    const patientVariants: Array<string | number> = [patientNumberString];
-    const cuidVariants: Array<string | number> = [cuidString];
-    const parsedPatientNumber = Number(patientNumberString);
-    const parsedCuid = Number(cuidString);
-    if (/^-?\d+(\.\d+)?$/.test(patientNumberString) && Number.isFinite(parsedPatientNumber)) {
-      patientVariants.push(parsedPatientNumber);
-    }
-    if (/^-?\d+(\.\d+)?$/.test(cuidString) && Number.isFinite(parsedCuid)) {
-      cuidVariants.push(parsedCuid);
-    }
+}): Promise<ServiceRowLookupResult> {
+  const serviceTable = caspioTableNames().service;
+  const patientNumberString = String(params.patientNumber).trim();
+  const cuidString = String(params.cuid).trim();
+  const patientVariants: Array<string | number> = [patientNumberString];
+  const cuidVariants: Array<string | number> = [cuidString];
+  const parsedPatientNumber = Number(patientNumberString);
+  const parsedCuid = Number(cuidString);
+  if (/^-?\d+(\.\d+)?$/.test(patientNumberString) && Number.isFinite(parsedPatientNumber)) {
+    patientVariants.push(parsedPatientNumber);
+  }
+  if (/^-?\d+(\.\d+)?$/.test(cuidString) && Number.isFinite(parsedCuid)) {
+    cuidVariants.push(parsedCuid);
+  }
 
-    const aggregated: Array<Record<string, unknown>> = [];
-    const seen = new Set<string>();
-    const appendRecords = (rows: unknown[]) => {
-      for (const row of rows as Array<Record<string, unknown>>) {
-        const id = extractRecordId(row);
-        const key = id ?? JSON.stringify(row);
-        if (seen.has(key)) {
-          continue;
-        }
+  const seen = new Set<string>();
+  const exactMatches: Array<Record<string, unknown>> = [];
+  let truncated = false;
+  let foundOpenRow = false;
+  const isExactMatch = (record: Record<string, unknown>) =>
+    readComparableField(record, [
+      'PatientNumber',
+      'patientNumber',
+      'Patient_Number',
+      'patient_number',
+    ]) === params.patientNumber && readComparableField(record, ['CUID', 'cuid']) === params.cuid;
+
+  /** Newest first, so the first open row is the one to use and the rest need not be read. */
+  const scan = async (whereClause: string): Promise<void> => {
+    const rows = streamCaspioRecords(serviceTable, {
+      where: whereClause,
+      orderBy: SERVICE_ROWS_NEWEST_FIRST,
+    });
+    let row = await rows.next();
+    while (!row.done) {
+      const record = row.value;
+      const id = extractRecordId(record);
+      const key = id ?? JSON.stringify(record);
+      if (!seen.has(key)) {
         seen.add(key);
-        aggregated.push(row);
+        if (isExactMatch(record)) {
+          exactMatches.push(record);
+          if (id && isOpenServiceEndDate(record.EndDate)) {
+            foundOpenRow = true;
+            await rows.return(false);
+            return;
+          }
+        }
       }
-    };
+      row = await rows.next();
+    }
+    truncated ||= row.value;
+  };
 
-    for (const patientVariant of patientVariants) {
-      for (const cuidVariant of cuidVariants) {
-        const whereClause = buildWhereClause([
+  for (const patientVariant of patientVariants) {
+    for (const cuidVariant of cuidVariants) {
+      if (foundOpenRow) break;
+      await scan(
+        buildWhereClause([
           { field: 'PatientNumber', value: patientVariant },
           { field: 'CUID', value: cuidVariant },
-        ]);
-        appendRecords(await fetchRecordsWithWherePaged(env.CASPIO_SERVICE_TABLE_NAME, token, whereClause));
-      }
+        ]),
+      );
     }
+  }
 
-    if (aggregated.length === 0) {
-      for (const patientVariant of patientVariants) {
-        const whereClause = buildWhereClause([{ field: 'PatientNumber', value: patientVariant }]);
-        appendRecords(await fetchRecordsWithWherePaged(env.CASPIO_SERVICE_TABLE_NAME, token, whereClause));
-      }
+  if (seen.size === 0) {
+    for (const patientVariant of patientVariants) {
+      await scan(buildWhereClause([{ field: 'PatientNumber', value: patientVariant }]));
     }
-
-    return aggregated;
-  })) as Array<Record<string, unknown>>;
-
-  if (records.length === 0) {
-    return { found: false };
   }
 
-  const exactMatches = records.filter((record) => {
-    const recordPatientNumber = readComparableField(record, [
-      'PatientNumber',
-      'patientNumber',
-      'Patient_Number',
-      'patient_number',
-    ]);
-    const recordCuid = readComparableField(record, ['CUID', 'cuid']);
-    return recordPatientNumber === params.patientNumber && recordCuid === params.cuid;
-  });
+  const truncation = truncated ? { truncated } : {};
+  if (seen.size === 0) {
+    return { found: false, ...truncation };
+  }
 
   if (exactMatches.length === 0) {
     logger.warn(
       {
         patientNumber: params.patientNumber,
         cuid: params.cuid,
-        scannedCount: records.length,
+        scannedCount: seen.size,
       },
       'caspio_service_rows_no_exact_match_after_lookup',
     );
-    return { found: false };
+    return { found: false, ...truncation };
   }
 
   const withIds = exactMatches
@@ -1298,7 +1650,7 @@ export async function findActiveOrLatestServiceRow(params: {
       { patientNumber: params.patientNumber, cuid: params.cuid, matchCount: exactMatches.length },
       'caspio_service_rows_found_without_ids',
     );
-    return { found: false };
+    return { found: false, ...truncation };
   }
 
   const activeRows = withIds.filter(({ record }) => {
@@ -1313,14 +1665,15 @@ export async function findActiveOrLatestServiceRow(params: {
     found: true,
     id: selected.id,
     record: selected.record as ServiceTableRecord,
+    ...truncation,
   };
 }
 
 export async function findOpenServiceRowByCuidAndServiceType(params: {
   cuid: string;
   serviceType: string;
-}): Promise<{ found: boolean; id?: string; record?: ServiceTableRecord }> {
-  const records = (await caspioRequestWithRetry(async () => {
+}): Promise<ServiceRowLookupResult> {
+  const { records, truncated } = await caspioRequestWithRetry(async () => {
     const token = await getAccessToken();
     const cuidString = String(params.cuid).trim();
     const serviceTypeString = String(params.serviceType).trim();
@@ -1332,8 +1685,10 @@ export async function findOpenServiceRowByCuidAndServiceType(params: {
 
     const aggregated: Array<Record<string, unknown>> = [];
     const seen = new Set<string>();
-    const appendRecords = (rows: unknown[]) => {
-      for (const row of rows as Array<Record<string, unknown>>) {
+    let truncated = false;
+    const appendRecords = (result: CaspioQueryResult) => {
+      truncated ||= result.truncated;
+      for (const row of result.records as Array<Record<string, unknown>>) {
         const id = extractRecordId(row);
         const key = id ?? JSON.stringify(row);
         if (seen.has(key)) {
@@ -1349,11 +1704,16 @@ export async function findOpenServiceRowByCuidAndServiceType(params: {
         { field: 'CUID', value: cuidVariant },
         { field: 'ServiceType', value: serviceTypeString },
       ]);
-      appendRecords(await fetchRecordsWithWherePaged(env.CASPIO_SERVICE_TABLE_NAME, token, whereClause));
+      appendRecords(
+        await fetchRecordsWithWherePaged(caspioTableNames().service, token, whereClause, {
+          orderBy: SERVICE_ROWS_NEWEST_FIRST,
+        }),
+      );
     }
 
-    return aggregated;
-  })) as Array<Record<string, unknown>>;
+    return { records: aggregated, truncated };
+  }, caspioTableNames().service);
+  const truncation = truncated ? { truncated } : {};
 
   const exactOpenMatches = records.filter((record) => {
     const recordCuid = readComparableField(record, ['CUID', 'cuid']);
@@ -1366,7 +1726,7 @@ export async function findOpenServiceRowByCuidAndServiceType(params: {
   });
 
   if (exactOpenMatches.length === 0) {
-    return { found: false };
+    return { found: false, ...truncation };
   }
 
   const withIds = exactOpenMatches
@@ -1378,7 +1738,7 @@ export async function findOpenServiceRowByCuidAndServiceType(params: {
       { cuid: params.cuid, serviceType: params.serviceType, matchCount: exactOpenMatches.length },
       'caspio_open_service_rows_found_without_ids',
     );
-    return { found: false };
+    return { found: false, ...truncation };
   }
 
   withIds.sort((a, b) => parseSortableDate(b.record.StartDate) - parseSortableDate(a.record.StartDate));
@@ -1387,9 +1747,19 @@ export async function findOpenServiceRowByCuidAndServiceType(params: {
     found: true,
     id: selected.id,
     record: selected.record as ServiceTableRecord,
+    ...truncation,
   };
 }
 
+/**
+ * Outcome of an upsert. `unchanged` means the existing row already held the patched values and
+ * no update was sent.
+ */
+export type CaspioUpsertResult = {
+  action: 'insert' | 'update' | 'unchanged';
+  id?: string;
+};
+
 /**
  * Upsert a record by Resident_ID
  * Updates if found, inserts if not found
@@ -1398,7 +1768,7 @@ export async function upsertByResidentId(
   tableName: string,
   residentId: string | number,
   record: Record<string, unknown>,
-): Promise<{ action: 'insert' | 'update'; id?: string }> {
+): Promise<CaspioUpsertResult> {
   let searchResult: { found: boolean; id?: string; raw?: unknown; matches?: number };
   
   try {
@@ -1417,14 +1787,19 @@ export async function upsertByResidentId(
     searchResult = { found: false };
   }
 
+  const keyFilter = [{ field: 'Resident_ID', value: String(residentId) }];
+
   if (searchResult.found && searchResult.id) {
     // Update existing record
-    await updateRecordById(tableName, searchResult.id, record);
-    return { action: 'update', id: searchResult.id };
+    const response = await updateRecordById(tableName, searchResult.id, record, {
+      keyFilter,
+      priorRecord: searchResult.raw,
+    });
+    return { action: response ? 'update' : 'unchanged', id: searchResult.id };
   } else {
     // Insert new record
     try {
-      const response = await insertRecord(tableName, record);
+      const response = await insertRecord(tableName, record, { keyFilter });
       
       // Extract ID from response if available (Caspio uses PK_ID as primary key)
       let id: string | undefined;
@@ -1445,11 +1820,11 @@ export async function upsertByResidentId(
     } catch (insertError) {
       // Provide better error message for 404 on insert (likely table doesn't exist)
       if (axios.isAxiosError(insertError) && insertError.response?.status === 404) {
-        const errorMessage = `Caspio table '${tableName}' not found (404). Please verify: 1) The table name is correct, 2) The table exists in your Caspio account, 3) Your API credentials have access to this table. Base URL: ${env.CASPIO_BASE_URL}`;
+        const errorMessage = `Caspio table '${tableName}' not found (404). Please verify: 1) The table name is correct, 2) The table exists in your Caspio account, 3) Your API credentials have access to this table. Base URL: ${currentCaspioClient().baseUrl}`;
         logger.error(
           {
             tableName,
-            baseUrl: env.CASPIO_BASE_URL,
+            baseUrl: currentCaspioClient().baseUrl,
             url: insertError.config?.url,
           },
           'caspio_table_not_found',
@@ -1470,7 +1845,7 @@ export async function upsertByResidentIdAndCommunityId(
   residentId: string | number,
   communityId: number,
   record: Record<string, unknown>,
-): Promise<{ action: 'insert' | 'update'; id?: string }> {
+): Promise<CaspioUpsertResult> {
   let searchResult: { found: boolean; id?: string; record?: unknown };
 
   try {
@@ -1492,12 +1867,20 @@ export async function upsertByResidentIdAndCommunityId(
     searchResult = { found: false };
   }
 
+  const keyFilter = [
+    { field: 'Resident_ID', value: String(residentId) },
+    { field: 'Community_ID', value: communityId },
+  ];
+
   if (searchResult.found && searchResult.id) {
-    await updateRecordById(tableName, searchResult.id, record);
-    return { action: 'update', id: searchResult.id };
+    const response = await updateRecordById(tableName, searchResult.id, record, {
+      keyFilter,
+      priorRecord: searchResult.record,
+    });
+    return { action: response ? 'update' : 'unchanged', id: searchResult.id };
   }
 
-  const response = await insertRecord(tableName, record);
+  const response = await insertRecord(tableName, record, { keyFilter });
 
   let id: string | undefined;
   const responseData = response.data as Record<string, unknown>;
@@ -1517,17 +1900,19 @@ export async function upsertByResidentIdAndCommunityId(
 }
 
 /**
- * Upsert by arbitrary exact-match filters.
+ * Upsert by arbitrary exact-match filters. `options.existing` is the lookup result when the
+ * caller already has it (e.g. from `findRecordsByFieldValues`), which saves the per-record lookup.
  */
 export async function upsertByFields(
   tableName: string,
   filters: Array<{ field: string; value: string | number | boolean }>,
   record: Record<string, unknown>,
-): Promise<{ action: 'insert' | 'update'; id?: string }> {
+  options: { existing?: { found: boolean; id?: string; record?: unknown } } = {},
+): Promise<CaspioUpsertResult> {
   let searchResult: { found: boolean; id?: string; record?: unknown };
 
   try {
-    searchResult = await findRecordByFields(tableName, filters);
+    searchResult = options.existing ?? (await findRecordByFields(tableName, filters));
   } catch (error) {
     logger.warn(
       {
@@ -1541,11 +1926,14 @@ export async function upsertByFields(
   }
 
   if (searchResult.found && searchResult.id) {
-    await updateRecordById(tableName, searchResult.id, record);
-    return { action: 'update', id: searchResult.id };
+    const response = await updateRecordById(tableName, searchResult.id, record, {
+      keyFilter: filters,
+      priorRecord: searchResult.record,
+    });
+    return { action: response ? 'update' : 'unchanged', id: searchResult.id };
   }
 
-  const response = await insertRecord(tableName, record);
+  const response = await insertRecord(tableName, record, { keyFilter: filters });
   const responseData = response.data as Record<string, unknown>;
   const id =
     responseData.PK_ID !== undefined
@@ -1563,6 +1951,42 @@ export async function upsertByFields(
   return { action: 'insert', id };
 }
 
+/**
+ * Column definition as returned by the REST v3 table fields endpoint.
+ */
+export type CaspioTableField = {
+  Name: string;
+  Type: string;
+  Unique?: boolean;
+  Label?: string;
+  Description?: string;
+  Editable?: boolean;
+  [key: string]: unknown;
+};
+
+/**
+ * Fetch the column definitions of a Caspio table
+ */
+export async function fetchTableFields(tableName: string): Promise<CaspioTableField[]> {
+  return caspioRequestWithRetry(async () => {
+    const token = await getAccessToken();
+    const api = await caspioApi(tableName);
+    const response = await api.get(
+      `/integrations/rest/v3/tables/${encodeURIComponent(tableName)}/fields`,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+
+    return extractRecordsFromResponse(response.data).filter(
+      (field): field is CaspioTableField =>
+        Boolean(field) && typeof (field as CaspioTableField).Name === 'string',
+    );
+  }, tableName);
+}
+
 export type OffPremHistoryRecord = {
   Episode_ID?: string;
   PatientNumber?: string;
@@ -1584,7 +2008,7 @@ export type OffPremHistoryRecord = {
 
 export async function upsertOffPremEpisodeByEpisodeId(
   record: OffPremHistoryRecord,
-): Promise<{ action: 'insert' | 'update'; id?: string }> {
+): Promise<CaspioUpsertResult> {
   if (!record.Episode_ID) {
     throw new Error('Episode_ID is required to upsert off-prem episode');
   }
@@ -1593,12 +2017,25 @@ export async function upsertOffPremEpisodeByEpisodeId(
   delete recordWithoutEventTrackingFields.EndEventMessageId;
   delete recordWithoutEventTrackingFields.SourceSystem;
   return upsertByFields(
-    env.CASPIO_OFF_PREM_HISTORY_TABLE_NAME,
+    caspioTableNames().offPremHistory,
     [{ field: 'Episode_ID', value: String(recordWithoutEventTrackingFields.Episode_ID) }],
     recordWithoutEventTrackingFields,
   );
 }
 
+export async function findOffPremEpisodeByEpisodeId(
+  episodeId: string,
+): Promise<{ found: boolean; id?: string; record?: OffPremHistoryRecord }> {
+  const result = await findRecordByFields(caspioTableNames().offPremHistory, [
+    { field: 'Episode_ID', value: episodeId },
+  ]);
+  return {
+    found: result.found,
+    id: result.id,
+    record: result.record as OffPremHistoryRecord | undefined,
+  };
+}
+
 export async function findOpenOffPremEpisode(params: {
   patientNumber: string;
   cuid?: string;
@@ -1618,14 +2055,14 @@ export async function findOpenOffPremEpisode(params: {
       ...baseFilters,
       { field: 'Leave_ID', value: String(params.leaveId) },
     ];
-    const exact = await findRecordByFields(env.CASPIO_OFF_PREM_HISTORY_TABLE_NAME, leaveFilters);
+    const exact = await findRecordByFields(caspioTableNames().offPremHistory, leaveFilters);
     if (exact.found) {
       return { found: true, id: exact.id, record: exact.record as OffPremHistoryRecord };
     }
   }
 
   // Fallback: latest open episode by patient/community key.
-  const fallback = await findRecordByFields(env.CASPIO_OFF_PREM_HISTORY_TABLE_NAME, baseFilters);
+  const fallback = await findRecordByFields(caspioTableNames().offPremHistory, baseFilters);
   return {
     found: fallback.found,
     id: fallback.id,
@@ -1639,6 +2076,7 @@ export async function findOpenOffPremEpisode(params: {
  */
 async function withRetry<T>(
   operation: () => Promise<T>,
+  table: string | undefined,
   attempt = 1,
   maxRetries = env.CASPIO_RETRY_MAX,
 ): Promise<T> {
@@ -1652,8 +2090,9 @@ async function withRetry<T>(
     // Handle 401: refresh token once and retry once
     if (status === 401 && attempt === 1) {
       logger.warn({ attempt }, 'caspio_401_refreshing_token');
-      invalidateToken();
-      return withRetry(operation, attempt + 1, 1); // Only one retry for 401
+      await invalidateToken();
+      if (table) await recordCaspioRequestOutcome(table, 'retry');
+      return withRetry(operation, table, attempt + 1, 1); // Only one retry for 401
     }
 
     // Retry on 429, 5xx, or timeouts
@@ -1662,6 +2101,7 @@ async function withRetry<T>(
       attempt < maxRetries;
 
     if (!shouldRetry) {
+      if (table) await recordCaspioRequestOutcome(table, 'failure');
       throw error;
     }
 
@@ -1673,21 +2113,40 @@ async function withRetry<T>(
         delay,
         status,
         isTimeout,
+        table,
       },
       'caspio_retry_after_error',
     );
+    if (table) await recordCaspioRequestOutcome(table, 'retry');
 
     await new Promise((resolve) => setTimeout(resolve, delay));
-    return withRetry(operation, attempt + 1, maxRetries);
+    return withRetry(operation, table, attempt + 1, maxRetries);
   }
 }
 
 /**
- * Wrapper for API calls with retry logic
+ * Wrapper for API calls with retry logic. Calls that name their table count their retries and
+ * failures toward its per-table metrics; wrappers around other client calls leave it out so each
+ * retry is counted once. The request budget is drawn per HTTP request (see `caspioApi`). Queries
+ * the page limit cut short are reported once the operation succeeds, not per attempt.
  */
 export async function caspioRequestWithRetry<T>(
   operation: () => Promise<T>,
+  table?: string,
 ): Promise<T> {
-  return withRetry(operation);
+  let truncatedQueries: TruncatedQuery[] = [];
+  const result = await withRetry(() => {
+    truncatedQueries = [];
+    return pendingTruncatedQueries.run(truncatedQueries, operation);
+  }, table);
+
+  const outer = pendingTruncatedQueries.getStore();
+  for (const query of truncatedQueries) {
+    if (outer) {
+      outer.push(query);
+    } else {
+      await reportTruncatedQuery(query);
+    }
+  }
+  return result;
 }
-
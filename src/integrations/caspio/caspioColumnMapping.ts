@@ -0,0 +1,194 @@
+import { z } from 'zod';
+
+import { caspioTableNames } from './caspioConnection.js';
+import {
+  CARE_PATIENT_TABLE_COLUMNS,
+  COMMUNITY_TABLE_COLUMNS,
+  OFF_PREM_HISTORY_TABLE_COLUMNS,
+  SERVICE_TABLE_COLUMNS,
+  type CaspioColumnUsage,
+} from './caspioMapper.js';
+import type { CaspioTableKey } from './caspioTableSchema.js';
+
+/**
+ * Per-company changes to the columns the integration writes to Caspio.
+ *
+ * The mapper and the event handlers build records with the column names of the original Caspio
+ * app. A company whose app names columns differently gets a mapping that is applied to every
+ * insert and update on the way out: `rename` moves a value to the company's column, `drop` leaves
+ * a column out, and `defaults` fills a column the record leaves empty. Rows read back get the
+ * renames undone. Columns rows are looked up by cannot be renamed or dropped, since the lookups
+ * and `q.where` clauses still use them.
+ */
+
+const TABLE_COLUMNS: Record<CaspioTableKey, Record<string, CaspioColumnUsage>> = {
+  patient: CARE_PATIENT_TABLE_COLUMNS,
+  community: COMMUNITY_TABLE_COLUMNS,
+  service: SERVICE_TABLE_COLUMNS,
+  offPremHistory: OFF_PREM_HISTORY_TABLE_COLUMNS,
+};
+
+const KEY_COLUMNS: Record<CaspioTableKey, readonly string[]> = {
+  patient: ['PatientNumber', 'CUID'],
+  community: ['CommunityID', 'CUID', 'RoomNumber'],
+  service: ['Service_ID', 'PatientNumber', 'CUID', 'ServiceType', 'StartDate', 'EndDate'],
+  offPremHistory: ['Episode_ID', 'PatientNumber', 'CUID', 'Leave_ID', 'IsOpen'],
+};
+
+const ColumnNameSchema = z
+  .string()
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, { message: 'Invalid Caspio column name' });
+
+const CaspioTableColumnMappingSchema = z
+  .object({
+    rename: z.record(ColumnNameSchema).default({}),
+    drop: z.array(z.string()).default([]),
+    defaults: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])).default({}),
+  })
+  .strict();
+
+export const CaspioColumnMappingSchema = z
+  .object({
+    patient: CaspioTableColumnMappingSchema.optional(),
+    community: CaspioTableColumnMappingSchema.optional(),
+    service: CaspioTableColumnMappingSchema.optional(),
+    offPremHistory: CaspioTableColumnMappingSchema.optional(),
+  })
+  .strict()
+  .superRefine((mapping, ctx) => {
+    for (const table of Object.keys(TABLE_COLUMNS) as CaspioTableKey[]) {
+      const tableMapping = mapping[table];
+      if (!tableMapping) continue;
+
+      const columns = TABLE_COLUMNS[table];
+      const keyColumns = KEY_COLUMNS[table];
+      const issue = (path: Array<string | number>, message: string) =>
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [table, ...path], message });
+
+      const checkMappedColumn = (path: Array<string | number>, column: string) => {
+        if (!(column in columns)) {
+          issue(path, `'${column}' is not a ${table} column the integration writes`);
+        } else if (columns[column] === 'legacy') {
+          issue(path, `'${column}' is a legacy column the integration only reads`);
+        } else if (keyColumns.includes(column)) {
+          issue(path, `'${column}' is used to look rows up and cannot be renamed or dropped`);
+        }
+      };
+
+      const dropped = new Set(tableMapping.drop);
+      tableMapping.drop.forEach((column, index) => checkMappedColumn(['drop', index], column));
+
+      const targets = new Set<string>();
+      for (const [column, target] of Object.entries(tableMapping.rename)) {
+        checkMappedColumn(['rename', column], column);
+        if (dropped.has(column)) {
+          issue(['rename', column], `'${column}' cannot be both renamed and dropped`);
+        }
+        const keptColumn =
+          target in columns && !(target in tableMapping.rename) && !dropped.has(target);
+        if (targets.has(target) || (target !== column && keptColumn)) {
+          issue(['rename', column], `'${target}' would receive more than one column`);
+        }
+        targets.add(target);
+      }
+
+      for (const column of Object.keys(tableMapping.defaults)) {
+        if (!ColumnNameSchema.safeParse(column).success) {
+          issue(['defaults', column], 'Invalid Caspio column name');
+        } else if (dropped.has(column)) {
+          issue(['defaults', column], `'${column}' is dropped and cannot have a default`);
+        }
+      }
+    }
+  });
+
+export type CaspioColumnMapping = z.infer<typeof CaspioColumnMappingSchema>;
+
+export function caspioTableKeyFor(tableName: string): CaspioTableKey | undefined {
+  const tables = caspioTableNames();
+  return (Object.keys(tables) as CaspioTableKey[]).find((table) => tables[table] === tableName);
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+  );
+}
+
+/**
+ * The record as the company's Caspio app expects it. Drops and renames use the integration's
+ * column names; defaults use the company's. An insert gets every default it has no value for; an
+ * update only replaces empty values it sets, so it never writes columns it was not going to touch.
+ */
+export function applyCaspioColumnMapping(
+  mapping: CaspioColumnMapping | null | undefined,
+  table: CaspioTableKey,
+  record: Record<string, unknown>,
+  operation: 'insert' | 'update',
+): Record<string, unknown> {
+  const tableMapping = mapping?.[table];
+  if (!tableMapping) {
+    return record;
+  }
+
+  const mapped: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(record)) {
+    if (tableMapping.drop.includes(column)) continue;
+    mapped[tableMapping.rename[column] ?? column] = value;
+  }
+
+  for (const [column, value] of Object.entries(tableMapping.defaults)) {
+    if ((operation === 'insert' || column in mapped) && isEmptyValue(mapped[column])) {
+      mapped[column] = value;
+    }
+  }
+
+  return mapped;
+}
+
+/**
+ * A row read from the company's Caspio app under the integration's column names, so lookups,
+ * the no-change diff and the lookup cache see the same columns for every company.
+ */
+export function canonicalCaspioRecord(
+  mapping: CaspioColumnMapping | null | undefined,
+  table: CaspioTableKey,
+  record: Record<string, unknown>,
+): Record<string, unknown> {
+  const tableMapping = mapping?.[table];
+  if (!tableMapping) {
+    return record;
+  }
+
+  const canonical = { ...record };
+  for (const [column, target] of Object.entries(tableMapping.rename)) {
+    if (target === column || !(target in record)) continue;
+    canonical[column] = record[target];
+    delete canonical[target];
+  }
+  return canonical;
+}
+
+/**
+ * The columns a table must have in the company's Caspio app: the mapper's columns with the
+ * company's renames and drops applied, plus the columns its defaults write.
+ */
+export function mappedCaspioTableColumns(
+  mapping: CaspioColumnMapping | null | undefined,
+  table: CaspioTableKey,
+): Record<string, CaspioColumnUsage> {
+  const tableMapping = mapping?.[table];
+  if (!tableMapping) {
+    return TABLE_COLUMNS[table];
+  }
+
+  const columns: Record<string, CaspioColumnUsage> = {};
+  for (const [column, usage] of Object.entries(TABLE_COLUMNS[table])) {
+    if (tableMapping.drop.includes(column)) continue;
+    columns[tableMapping.rename[column] ?? column] = usage;
+  }
+  for (const column of Object.keys(tableMapping.defaults)) {
+    columns[column] = 'write';
+  }
+  return columns;
+}
@@ -0,0 +1,67 @@
+import type { AlisPayload } from '../alis/types.js';
+import { applyCaspioColumnMapping, type CaspioColumnMapping } from './caspioColumnMapping.js';
+import { caspioTableNames } from './caspioConnection.js';
+import {
+  mapCommunityRecord,
+  mapPatientRecord,
+  mapServiceRecord,
+  redactForLogs,
+} from './caspioMapper.js';
+import { classificationForServiceLineFromPayload } from './pushToCaspio.js';
+import type { CaspioTableKey } from './caspioTableSchema.js';
+
+export type CaspioColumnMappingPreview = {
+  table: CaspioTableKey;
+  tableName: string;
+  /** The record as the mapper builds it. */
+  mapped: Record<string, unknown>;
+  /** The record as it would be inserted for the company. */
+  written: Record<string, unknown>;
+};
+
+/**
+ * The community, patient and service records `pushToCaspio` would build for a resident, before
+ * and after the company's column mapping. Nothing is read from or written to Caspio, so community
+ * enrichment (CUID and address from the Caspio community table) is left out. SSNs are redacted as
+ * they are in logs.
+ */
+export function previewCaspioColumnMapping(
+  payload: AlisPayload,
+  mapping: CaspioColumnMapping | null,
+): CaspioColumnMappingPreview[] {
+  const communityRecord = mapCommunityRecord(payload);
+  const patientRecord = mapPatientRecord(payload, {
+    CUID: communityRecord.CUID,
+    CommunityName: communityRecord.CommunityName,
+  });
+  const serviceRecord = mapServiceRecord({
+    patientNumber: patientRecord.PatientNumber ?? payload.residentId,
+    cuid: patientRecord.CUID,
+    serviceType: classificationForServiceLineFromPayload(payload),
+    startDate: patientRecord.Service_Start_Date ?? patientRecord.Move_in_Date,
+    endDate: patientRecord.Service_End_Date,
+    communityName: patientRecord.CommunityName,
+  });
+
+  const preview = (
+    table: CaspioTableKey,
+    tableName: string,
+    record: Record<string, unknown>,
+  ): CaspioColumnMappingPreview => {
+    // Redact before mapping, so a renamed SSN column is redacted too.
+    const mapped = redactForLogs(record) as Record<string, unknown>;
+    return {
+      table,
+      tableName,
+      mapped,
+      written: applyCaspioColumnMapping(mapping, table, mapped, 'insert'),
+    };
+  };
+
+  const tables = caspioTableNames();
+  return [
+    preview('community', tables.community, communityRecord),
+    preview('patient', tables.patient, patientRecord),
+    preview('service', tables.service, serviceRecord),
+  ];
+}
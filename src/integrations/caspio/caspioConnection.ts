@@ -0,0 +1,214 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import axios, { type AxiosInstance } from 'axios';
+
+import { createHttpClient } from '../../config/axios.js';
+import { env } from '../../config/env.js';
+import { logger } from '../../config/logger.js';
+import { currentCaspioWriteOrigin } from '../../domains/caspioWriteAudit.js';
+
+import {
+  clearSharedCaspioToken,
+  DEFAULT_CASPIO_CONNECTION_KEY,
+  getSharedCaspioToken,
+  type CaspioAccessToken,
+} from './tokenStore.js';
+
+/**
+ * Caspio accounts the integration writes to.
+ *
+ * Each connection (base URL, OAuth client and table names) gets one client instance with its own
+ * HTTP clients and token cache. The `CASPIO_*` env vars describe the default connection; companies
+ * with a stored CaspioConnection get their own (see `getCaspioClientForCompany`). The Caspio
+ * functions in caspioClient.ts use the client made current by `CaspioClient.run`, the same way the
+ * write origin and request priority are carried, so the event handlers do not pass it around.
+ * Outside any client the env connection is used, except for work done for a company: that must
+ * go through `runWithCompanyCaspioClient` so it can never land in the env account by accident.
+ */
+
+export type CaspioTableNames = {
+  patient: string;
+  community: string;
+  service: string;
+  offPremHistory: string;
+};
+
+export type CaspioConnectionConfig = {
+  /** Names the connection's shared token and request budget in Redis. */
+  key: string;
+  baseUrl: string;
+  tokenUrl: string;
+  clientId?: string;
+  clientSecret?: string;
+  tables: CaspioTableNames;
+};
+
+export type CaspioClient = {
+  readonly key: string;
+  readonly baseUrl: string;
+  readonly tables: CaspioTableNames;
+  /** REST client with the connection's base URL. */
+  readonly api: AxiosInstance;
+  /** OAuth access token, refreshed when it has less than a minute left. */
+  getAccessToken(): Promise<string>;
+  /** Drop a token Caspio rejected with 401. */
+  invalidateToken(): Promise<void>;
+  /** Run `operation` with every Caspio call inside it sent through this connection. */
+  run<T>(operation: () => Promise<T>): Promise<T>;
+};
+
+const TOKEN_REFRESH_THRESHOLD_MS = 60000; // 60 seconds
+
+const clientContext = new AsyncLocalStorage<CaspioClient>();
+
+let defaultClient: CaspioClient | null = null;
+
+export function createCaspioClient(config: CaspioConnectionConfig): CaspioClient {
+  let tokenCache: CaspioAccessToken | null = null;
+
+  const authClient = createHttpClient({
+    timeout: env.CASPIO_TIMEOUT_MS,
+  });
+
+  const api = createHttpClient({
+    baseURL: config.baseUrl,
+    timeout: env.CASPIO_TIMEOUT_MS,
+  });
+
+  /**
+   * Mint a new OAuth access token with the client credentials grant
+   */
+  async function fetchAccessToken(): Promise<CaspioAccessToken> {
+    if (!config.clientId || !config.clientSecret) {
+      throw new Error(
+        config.key === DEFAULT_CASPIO_CONNECTION_KEY
+          ? 'CASPIO_CLIENT_ID and CASPIO_CLIENT_SECRET must be set'
+          : `Caspio connection '${config.key}' has no client id or secret`,
+      );
+    }
+
+    const now = Date.now();
+    const params = new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+    });
+
+    try {
+      const response = await authClient.post<{
+        access_token: string;
+        expires_in: number;
+        token_type: string;
+      }>(config.tokenUrl, params, {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+      });
+
+      const expiresIn = response.data.expires_in ?? 3600;
+      logger.debug({ connection: config.key, expiresIn }, 'caspio_token_refreshed');
+      return {
+        token: response.data.access_token,
+        expiresAt: now + (expiresIn - 60) * 1000, // Subtract 60s buffer
+      };
+    } catch (error) {
+      logger.error(
+        {
+          connection: config.key,
+          error: error instanceof Error ? error.message : String(error),
+          status: axios.isAxiosError(error) ? error.response?.status : undefined,
+        },
+        'caspio_token_fetch_failed',
+      );
+      throw new Error(
+        `Failed to get Caspio access token: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  const client: CaspioClient = {
+    key: config.key,
+    baseUrl: config.baseUrl,
+    tables: config.tables,
+    api,
+
+    async getAccessToken() {
+      if (tokenCache && tokenCache.expiresAt - Date.now() > TOKEN_REFRESH_THRESHOLD_MS) {
+        return tokenCache.token;
+      }
+
+      tokenCache = await getSharedCaspioToken(
+        fetchAccessToken,
+        TOKEN_REFRESH_THRESHOLD_MS,
+        config.key,
+      );
+      return tokenCache.token;
+    },
+
+    async invalidateToken() {
+      const rejectedToken = tokenCache?.token;
+      tokenCache = null;
+      if (rejectedToken) {
+        await clearSharedCaspioToken(rejectedToken, config.key);
+      }
+    },
+
+    run(operation) {
+      return clientContext.run(client, operation);
+    },
+  };
+
+  return client;
+}
+
+export function defaultCaspioTableNames(): CaspioTableNames {
+  return {
+    patient: env.CASPIO_TABLE_NAME,
+    community: env.CASPIO_COMMUNITY_TABLE_NAME,
+    service: env.CASPIO_SERVICE_TABLE_NAME,
+    offPremHistory: env.CASPIO_OFF_PREM_HISTORY_TABLE_NAME,
+  };
+}
+
+/** The client for the connection described by the `CASPIO_*` env vars. */
+export function defaultCaspioClient(): CaspioClient {
+  defaultClient ??= createCaspioClient({
+    key: DEFAULT_CASPIO_CONNECTION_KEY,
+    baseUrl: env.CASPIO_BASE_URL,
+    tokenUrl: env.CASPIO_TOKEN_URL,
+    clientId: env.CASPIO_CLIENT_ID,
+    clientSecret: env.CASPIO_CLIENT_SECRET,
+    tables: defaultCaspioTableNames(),
+  });
+  return defaultClient;
+}
+
+/**
+ * The client made current by `CaspioClient.run`, or undefined when the env connection applies.
+ * Throws when the write origin names a company but no client was made current for it.
+ */
+function scopedCaspioClient(): CaspioClient | undefined {
+  const client = clientContext.getStore();
+  const companyId = currentCaspioWriteOrigin()?.companyId;
+  if (!client && companyId != null) {
+    logger.error({ companyId }, 'caspio_client_missing_for_company');
+    throw new Error(
+      `Caspio call for company ${companyId} made outside its Caspio connection; ` +
+        'run it inside runWithCompanyCaspioClient.',
+    );
+  }
+  return client;
+}
+
+export function currentCaspioClient(): CaspioClient {
+  return scopedCaspioClient() ?? defaultCaspioClient();
+}
+
+/** Table names of the current connection. */
+export function caspioTableNames(): CaspioTableNames {
+  return scopedCaspioClient()?.tables ?? defaultCaspioTableNames();
+}
+
+export function currentCaspioConnectionKey(): string {
+  return scopedCaspioClient()?.key ?? DEFAULT_CASPIO_CONNECTION_KEY;
+}
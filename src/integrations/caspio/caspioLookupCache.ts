@@ -0,0 +1,94 @@
+import {
+  findRecordsByFieldValues,
+  type CaspioRecordMatch,
+  type CaspioUpsertResult,
+} from './caspioClient.js';
+
+/**
+ * Caspio rows prefetched for a batch of upserts.
+ *
+ * A backfill prefetches a whole ALIS page with `prefetch` (one `IN (...)` query per table) and
+ * passes the cache to `pushToCaspio`, which then upserts against the cached rows instead of
+ * looking each resident up. Only single-column lookups on a prefetched column are answered;
+ * anything else falls back to the normal per-record lookup, as do values a truncated prefetch
+ * did not find. Writes made through the cache are
+ * remembered, so a second upsert of the same key updates instead of inserting again.
+ */
+
+export type CaspioLookupFilter = Array<{ field: string; value: string | number | boolean }>;
+
+export type CaspioCachedLookup = { found: boolean; id?: string; record?: unknown };
+
+export type CaspioLookupCache = {
+  prefetch(tableName: string, field: string, values: Array<string | number>): Promise<void>;
+  /** The cached lookup, or undefined when the value was never prefetched. */
+  lookup(tableName: string, filters: CaspioLookupFilter): CaspioCachedLookup | undefined;
+  remember(
+    tableName: string,
+    filters: CaspioLookupFilter,
+    result: CaspioUpsertResult,
+    record: Record<string, unknown>,
+  ): void;
+};
+
+type PrefetchedColumn = {
+  values: Set<string>;
+  rows: Map<string, CaspioRecordMatch>;
+};
+
+export function createCaspioLookupCache(): CaspioLookupCache {
+  const columns = new Map<string, PrefetchedColumn>();
+
+  const columnKey = (tableName: string, field: string) => `${tableName}\u0000${field}`;
+
+  const prefetchedColumn = (tableName: string, filters: CaspioLookupFilter) => {
+    if (filters.length !== 1) return undefined;
+    const [{ field, value }] = filters;
+    const column = columns.get(columnKey(tableName, field));
+    const key = String(value);
+    return column?.values.has(key) ? { column, key } : undefined;
+  };
+
+  return {
+    async prefetch(tableName, field, values) {
+      const key = columnKey(tableName, field);
+      const column = columns.get(key) ?? { values: new Set<string>(), rows: new Map() };
+      const missing = [...new Set(values.map((value) => String(value)))].filter(
+        (value) => !column.values.has(value),
+      );
+      if (missing.length === 0) return;
+
+      const { matches, truncated } = await findRecordsByFieldValues(tableName, field, missing);
+      for (const value of missing) {
+        const row = matches.get(value);
+        // A truncated query may have missed the row; only a complete one proves there is none.
+        if (!row && truncated) continue;
+        column.values.add(value);
+        if (row) column.rows.set(value, row);
+      }
+      columns.set(key, column);
+    },
+
+    lookup(tableName, filters) {
+      const prefetched = prefetchedColumn(tableName, filters);
+      if (!prefetched) return undefined;
+      const row = prefetched.column.rows.get(prefetched.key);
+      return row ? { found: true, id: row.id, record: row.record } : { found: false };
+    },
+
+    remember(tableName, filters, result, record) {
+      const prefetched = prefetchedColumn(tableName, filters);
+      if (!prefetched) return;
+      const { column, key } = prefetched;
+      const previous = column.rows.get(key);
+      const id = result.id ?? previous?.id;
+      if (!id) {
+        // Without an id a later upsert could not update the row; let it look the row up again.
+        column.values.delete(key);
+        column.rows.delete(key);
+        return;
+      }
+      column.rows.set(key, { id, record: { ...previous?.record, ...record } });
+    },
+  };
+}
@@ -149,6 +149,109 @@ export type OffPremHistoryTableRecord = {
   UpdatedAtUtc: string;
 };
 
+/**
+ * How the integration uses a Caspio column: `write` columns must exist and be editable, `read`
+ * columns must exist, and `legacy` columns are only read from older rows and may be gone.
+ */
+export type CaspioColumnUsage = 'write' | 'read' | 'legacy';
+
+/**
+ * Column maps for the API record types above, checked against the live table definitions at
+ * startup. Keep them in step with the types; the `satisfies` clauses fail the build otherwise.
+ */
+export const CARE_PATIENT_TABLE_COLUMNS = {
+  PatientNumber: 'write',
+  PatientSSN: 'write',
+  LastName: 'write',
+  FirstName: 'write',
+  PatientDOB: 'write',
+  PatientCommunity: 'write',
+  PatientAddress: 'write',
+  RoomNumber: 'write',
+  ApartmentNumber: 'legacy',
+  PatientAddressCity: 'write',
+  PatientAddressState: 'write',
+  PatientAddressZip: 'write',
+  PatientPrimaryInsurance: 'write',
+  PrimaryInsuranceNum: 'write',
+  GroupNumber1: 'write',
+  Secondinsurance: 'write',
+  SecondInsuranceNum: 'write',
+  GroupNumber2: 'write',
+  Diagnosis1: 'write',
+  Diagnosis2: 'write',
+  PatientPhoneNumber: 'write',
+  FamilyContact1Name: 'write',
+  FamilyContact1Relationship: 'write',
+  FamilyContact1Number: 'write',
+  FamilyContact1Email: 'write',
+  FamilyContact1Address: 'write',
+  FamilyContact2Name: 'write',
+  FamilyContact2Relationship: 'write',
+  FamilyContact2Number: 'write',
+  FamilyContact2Email: 'write',
+  FamilyContact2Address: 'write',
+  Insurance_Type: 'write',
+  Insurance_2_Type: 'write',
+  Move_in_Date: 'write',
+  Move_Out_Date: 'write',
+  Service_Start_Date: 'write',
+  Service_End_Date: 'write',
+  Fall_Baseline: 'write',
+  On_Prem: 'write',
+  On_Prem_Date: 'write',
+  Off_Prem: 'write',
+  Off_Prem_Date: 'write',
+  Hospice: 'write',
+  DiagnosisCode: 'write',
+  CUID: 'write',
+  CommunityName: 'write',
+} as const satisfies Record<keyof CarePatientTableApiRecord, CaspioColumnUsage>;
+
+/** pushToCaspio upserts the community row with every column, so they are all written. */
+export const COMMUNITY_TABLE_COLUMNS = {
+  CUID: 'write',
+  CommunityID: 'write',
+  CommunityName: 'write',
+  Neighborhood: 'write',
+  Address: 'write',
+  City: 'write',
+  State: 'write',
+  Zip: 'write',
+  CommunityGroup: 'write',
+  RoomNumber: 'write',
+  SerialNumber: 'write',
+  Sector: 'write',
+} as const satisfies Record<keyof CommunityTableApiRecord, CaspioColumnUsage>;
+
+export const SERVICE_TABLE_COLUMNS = {
+  Service_ID: 'write',
+  PatientNumber: 'write',
+  CUID: 'write',
+  RoomNumber: 'write',
+  Room: 'legacy',
+  ServiceType: 'write',
+  StartDate: 'write',
+  EndDate: 'write',
+  CommunityName: 'write',
+} as const satisfies Record<keyof ServiceTableApiRecord, CaspioColumnUsage>;
+
+export const OFF_PREM_HISTORY_TABLE_COLUMNS = {
+  Episode_ID: 'write',
+  PatientNumber: 'write',
+  CUID: 'write',
+  CommunityName: 'write',
+  Leave_ID: 'write',
+  OffPremStart: 'write',
+  OffPremEnd: 'write',
+  DurationMinutes: 'write',
+  DurationHours: 'write',
+  IsOpen: 'write',
+  CloseReason: 'write',
+  CreatedAtUtc: 'write',
+  UpdatedAtUtc: 'write',
+} as const satisfies Record<keyof OffPremHistoryTableRecord, CaspioColumnUsage>;
+
 /**
  * Extract date part (YYYY-MM-DD) from ISO date string
  */
@@ -700,6 +803,33 @@ export function mapOffPremEndPatch(params: {
   });
 }
 
+/**
+ * Closed placeholder episode for a leave cancelled before its leave_start was applied.
+ * Uses the same Episode_ID as the start would, so a late leave_start finds it and stays voided.
+ */
+export function mapOffPremCancelledEpisode(params: {
+  patientNumber: string | number;
+  cuid?: string;
+  communityName?: string;
+  leaveId: string | number;
+  cancelledAt: string;
+}): OffPremHistoryTableRecord {
+  return {
+    ...mapOffPremStartEpisode({
+      patientNumber: params.patientNumber,
+      cuid: params.cuid,
+      communityName: params.communityName,
+      leaveId: params.leaveId,
+      offPremStart: params.cancelledAt,
+    }),
+    OffPremEnd: params.cancelledAt,
+    DurationMinutes: 0,
+    DurationHours: 0,
+    IsOpen: false,
+    CloseReason: 'leave_cancelled',
+  };
+}
+
 /**
  * Map ALIS payload to Caspio record format
  */
@@ -0,0 +1,141 @@
+/**
+ * Compare an outgoing Caspio patch with the row Caspio already holds.
+ *
+ * Caspio hands values back in its own formats: dates as `2026-01-19T13:00:00`, Yes/No columns as
+ * booleans or "Yes"/"No", numbers for numeric-looking text, and whatever whitespace a Caspio-side
+ * user typed. Values are normalized before comparing so an update that would rewrite the same data
+ * is recognized as a no-op.
+ */
+
+const DATE_PATTERNS: Array<{
+  pattern: RegExp;
+  read: (match: RegExpMatchArray) => [string, string, string, string?, string?, string?];
+}> = [
+  {
+    // 2026-01-19, 2026-01-19T13:00:00, 2026-01-19 13:00:00.000
+    pattern: /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/,
+    read: ([, year, month, day, hour, minute, second]) => [year, month, day, hour, minute, second],
+  },
+  {
+    // 01/19/2026, 01/19/2026 13:00:00 (the format the orchestrator writes)
+    pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/,
+    read: ([, month, day, year, hour, minute, second]) => [year, month, day, hour, minute, second],
+  },
+];
+
+const TRUE_STRINGS = new Set(['true', 'yes', 'y', '1']);
+const FALSE_STRINGS = new Set(['false', 'no', 'n', '0']);
+
+/**
+ * Columns of `patch` whose value differs from `existing`. A column the existing row does not
+ * return at all counts as changed.
+ */
+export function findChangedCaspioFields(
+  existing: unknown,
+  patch: Record<string, unknown>,
+): string[] {
+  const record =
+    existing && typeof existing === 'object' ? (existing as Record<string, unknown>) : {};
+
+  return Object.keys(patch).filter((column) => {
+    if (column === 'PK_ID') return false;
+    if (!(column in record)) return true;
+    return !isSameCaspioValue(patch[column], record[column]);
+  });
+}
+
+export function isSameCaspioValue(next: unknown, current: unknown): boolean {
+  const nextValue = normalizeText(next);
+  const currentValue = normalizeText(current);
+
+  if (nextValue === null || currentValue === null) {
+    return nextValue === currentValue;
+  }
+
+  if (typeof nextValue === 'boolean' || typeof currentValue === 'boolean') {
+    const nextFlag = toBoolean(nextValue);
+    return nextFlag !== undefined && nextFlag === toBoolean(currentValue);
+  }
+
+  const nextDate = toDateKey(nextValue);
+  const currentDate = toDateKey(currentValue);
+  if (nextDate !== undefined || currentDate !== undefined) {
+    return nextDate === currentDate;
+  }
+
+  if (typeof nextValue === 'number' || typeof currentValue === 'number') {
+    const nextNumber = toNumber(nextValue);
+    return nextNumber !== undefined && nextNumber === toNumber(currentValue);
+  }
+
+  if (typeof nextValue === 'string' && typeof currentValue === 'string') {
+    return nextValue === currentValue;
+  }
+
+  return JSON.stringify(nextValue) === JSON.stringify(currentValue);
+}
+
+/** Trims and collapses whitespace; blank strings compare equal to null. */
+function normalizeText(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  if (typeof value !== 'string') return value;
+  const collapsed = value.replace(/\s+/g, ' ').trim();
+  return collapsed.length > 0 ? collapsed : null;
+}
+
+function toBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value === 1 ? true : value === 0 ? false : undefined;
+  if (typeof value !== 'string') return undefined;
+  const lowered = value.toLowerCase();
+  if (TRUE_STRINGS.has(lowered)) return true;
+  if (FALSE_STRINGS.has(lowered)) return false;
+  return undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string' || !/^-?\d+(\.\d+)?$/.test(value)) return undefined;
+  return Number(value);
+}
+
+/**
+ * `YYYY-MM-DDTHH:mm:ss` for date-like values. Caspio date columns have no time zone, so values
+ * without an offset are read as written; ISO strings with `Z` or an offset are converted to UTC,
+ * matching how the orchestrator formats event dates.
+ */
+function toDateKey(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+
+  for (const { pattern, read } of DATE_PATTERNS) {
+    const match = value.match(pattern);
+    if (match) {
+      const [year, month, day, hour, minute, second] = read(match);
+      return formatDateKey(year, month, day, hour, minute, second);
+    }
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(value)) {
+    const parsed = new Date(value);
+    if (!Number.isNaN(parsed.getTime())) {
+      return parsed.toISOString().slice(0, 19);
+    }
+  }
+
+  return undefined;
+}
+
+function formatDateKey(
+  year: string,
+  month: string,
+  day: string,
+  hour = '0',
+  minute = '0',
+  second = '0',
+): string {
+  const pad = (part: string) => part.padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:${pad(second)}`;
+}
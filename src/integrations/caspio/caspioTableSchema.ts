@@ -0,0 +1,266 @@
+import { logger } from '../../config/logger.js';
+import { loadCaspioColumnMapping } from '../../domains/caspioColumnMappings.js';
+
+import { fetchTableFields, type CaspioTableField } from './caspioClient.js';
+import { mappedCaspioTableColumns, type CaspioColumnMapping } from './caspioColumnMapping.js';
+import { currentCaspioClient, type CaspioClient } from './caspioConnection.js';
+import type { CaspioColumnUsage } from './caspioMapper.js';
+import {
+  caspioConnectionKeyFor,
+  getCaspioClientForCompany,
+  listCompanyIdsWithCaspioConnection,
+} from './companyCaspioClient.js';
+
+/**
+ * Compares the live Caspio table definitions with the columns the mapper reads and writes, so a
+ * renamed or missing column shows up at startup instead of as a FieldNotFound on the first write.
+ * Each connection (the env one and every company's own) is checked against its own table names,
+ * with the company's column mapping applied to the columns it must have.
+ */
+
+export type CaspioTableKey = 'patient' | 'community' | 'service' | 'offPremHistory';
+
+export type CaspioSchemaStatus = 'ok' | 'mismatch' | 'error';
+
+export type CaspioTableSchemaReport = {
+  table: CaspioTableKey;
+  tableName: string;
+  status: CaspioSchemaStatus;
+  /** Mapped columns the table does not have (legacy columns excepted). */
+  missingColumns: string[];
+  /** Columns the mapper writes that Caspio fills itself (autonumber, formula, timestamp). */
+  readOnlyColumns: string[];
+  /** Table columns no mapper output covers; informational only. */
+  unmappedColumns: string[];
+  error?: string;
+};
+
+export type CaspioSchemaValidation = {
+  /** `default` for the env connection, otherwise the company connection's key. */
+  connection: string;
+  status: CaspioSchemaStatus;
+  checkedAt: string;
+  tables: CaspioTableSchemaReport[];
+  /** Set when the connection itself could not be resolved. */
+  error?: string;
+};
+
+type CaspioTableSpec = {
+  table: CaspioTableKey;
+  tableName: string;
+  columns: Record<string, CaspioColumnUsage>;
+};
+
+const CASPIO_SCHEMA_CACHE_TTL_MS = 10 * 60 * 1000;
+// Retry sooner after Caspio could not be reached; a mismatch will not fix itself.
+const CASPIO_SCHEMA_ERROR_CACHE_TTL_MS = 60 * 1000;
+
+const READ_ONLY_FIELD_TYPES = new Set([
+  'AUTONUMBER',
+  'PREFIXED AUTONUMBER',
+  'RANDOM ID',
+  'GUID',
+  'TIMESTAMP',
+  'FORMULA',
+]);
+
+// Keyed by connection and column mapping.
+const cachedValidations = new Map<
+  string,
+  { validation: CaspioSchemaValidation; expiresAt: number }
+>();
+const inFlightValidations = new Map<string, Promise<CaspioSchemaValidation>>();
+
+function caspioTableSpecs(
+  client: CaspioClient,
+  columnMapping: CaspioColumnMapping | null,
+): CaspioTableSpec[] {
+  const tables = client.tables;
+  return (['patient', 'community', 'service', 'offPremHistory'] as const).map((table) => ({
+    table,
+    tableName: tables[table],
+    columns: mappedCaspioTableColumns(columnMapping, table),
+  }));
+}
+
+function isReadOnlyField(field: CaspioTableField): boolean {
+  return field.Editable === false || READ_ONLY_FIELD_TYPES.has(field.Type.toUpperCase());
+}
+
+/**
+ * Caspio column names are case-insensitive, so columns are matched on their lowercased name.
+ */
+function compareTableColumns(
+  spec: CaspioTableSpec,
+  fields: CaspioTableField[],
+): CaspioTableSchemaReport {
+  const fieldsByName = new Map(fields.map((field) => [field.Name.toLowerCase(), field]));
+  const mappedNames = new Set(Object.keys(spec.columns).map((column) => column.toLowerCase()));
+
+  const missingColumns: string[] = [];
+  const readOnlyColumns: string[] = [];
+  for (const [column, usage] of Object.entries(spec.columns)) {
+    const field = fieldsByName.get(column.toLowerCase());
+    if (!field) {
+      if (usage !== 'legacy') missingColumns.push(column);
+      continue;
+    }
+    if (usage === 'write' && isReadOnlyField(field)) {
+      readOnlyColumns.push(column);
+    }
+  }
+
+  const unmappedColumns = fields
+    .map((field) => field.Name)
+    .filter((name) => !mappedNames.has(name.toLowerCase()));
+
+  return {
+    table: spec.table,
+    tableName: spec.tableName,
+    status: missingColumns.length > 0 || readOnlyColumns.length > 0 ? 'mismatch' : 'ok',
+    missingColumns,
+    readOnlyColumns,
+    unmappedColumns,
+  };
+}
+
+async function checkTable(
+  client: CaspioClient,
+  spec: CaspioTableSpec,
+): Promise<CaspioTableSchemaReport> {
+  try {
+    const fields = await client.run(() => fetchTableFields(spec.tableName));
+    return compareTableColumns(spec, fields);
+  } catch (error) {
+    return {
+      table: spec.table,
+      tableName: spec.tableName,
+      status: 'error',
+      missingColumns: [],
+      readOnlyColumns: [],
+      unmappedColumns: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+async function validateCaspioTableSchemas(
+  client: CaspioClient,
+  columnMapping: CaspioColumnMapping | null,
+): Promise<CaspioSchemaValidation> {
+  const connection = client.key;
+  const tables: CaspioTableSchemaReport[] = [];
+  for (const spec of caspioTableSpecs(client, columnMapping)) {
+    tables.push(await checkTable(client, spec));
+  }
+
+  const status: CaspioSchemaStatus = tables.some((report) => report.status === 'error')
+    ? 'error'
+    : tables.some((report) => report.status === 'mismatch')
+      ? 'mismatch'
+      : 'ok';
+
+  for (const report of tables) {
+    if (report.status === 'mismatch') {
+      logger.error(
+        {
+          connection,
+          table: report.table,
+          tableName: report.tableName,
+          missingColumns: report.missingColumns,
+          readOnlyColumns: report.readOnlyColumns,
+        },
+        'caspio_schema_mismatch',
+      );
+    } else if (report.status === 'error') {
+      logger.warn(
+        { connection, table: report.table, tableName: report.tableName, error: report.error },
+        'caspio_schema_check_failed',
+      );
+    }
+  }
+  logger.info(
+    {
+      connection,
+      status,
+      tables: Object.fromEntries(tables.map((report) => [report.tableName, report.status])),
+    },
+    'caspio_schema_checked',
+  );
+
+  return { connection, status, checkedAt: new Date().toISOString(), tables };
+}
+
+/**
+ * Cached schema comparison for all Caspio tables of one connection. With `companyId`, the tables
+ * of the company's connection are checked for the columns its column mapping writes; otherwise
+ * the current connection's tables (the env connection outside any client) for the mapper's own
+ * columns. Pass `refresh` to re-read the table definitions, e.g. after changing a table in Caspio.
+ */
+export async function getCaspioSchemaValidation(
+  options: { refresh?: boolean; companyId?: number } = {},
+): Promise<CaspioSchemaValidation> {
+  const { companyId } = options;
+  const client =
+    companyId === undefined ? currentCaspioClient() : await getCaspioClientForCompany(companyId);
+  const columnMapping = companyId === undefined ? null : await loadCaspioColumnMapping(companyId);
+  const cacheKey = JSON.stringify([client.key, columnMapping]);
+  const cached = cachedValidations.get(cacheKey);
+  if (!options.refresh && cached && cached.expiresAt > Date.now()) {
+    return cached.validation;
+  }
+  const inFlight = inFlightValidations.get(cacheKey);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const validation = validateCaspioTableSchemas(client, columnMapping)
+    .then((result) => {
+      const ttl =
+        result.status === 'error' ? CASPIO_SCHEMA_ERROR_CACHE_TTL_MS : CASPIO_SCHEMA_CACHE_TTL_MS;
+      cachedValidations.set(cacheKey, { validation: result, expiresAt: Date.now() + ttl });
+      return result;
+    })
+    .finally(() => {
+      inFlightValidations.delete(cacheKey);
+    });
+  inFlightValidations.set(cacheKey, validation);
+  return validation;
+}
+
+/**
+ * Schema comparison for the env connection and every company connection, in that order, each with
+ * its company's column mapping. A company whose connection or mapping cannot be resolved (e.g. its
+ * secret no longer decrypts) is reported as `error`.
+ */
+export async function getAllCaspioSchemaValidations(
+  options: { refresh?: boolean } = {},
+): Promise<CaspioSchemaValidation[]> {
+  const validations = [await getCaspioSchemaValidation(options)];
+
+  let companyIds: number[] = [];
+  try {
+    companyIds = await listCompanyIdsWithCaspioConnection();
+  } catch (error) {
+    logger.warn(
+      { error: error instanceof Error ? error.message : String(error) },
+      'caspio_schema_connections_unavailable',
+    );
+  }
+
+  for (const companyId of companyIds) {
+    try {
+      validations.push(await getCaspioSchemaValidation({ ...options, companyId }));
+    } catch (error) {
+      validations.push({
+        connection: caspioConnectionKeyFor(companyId),
+        status: 'error',
+        checkedAt: new Date().toISOString(),
+        tables: [],
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return validations;
+}
@@ -0,0 +1,117 @@
+import type { CaspioConnection } from '@prisma/client';
+
+import { logger } from '../../config/logger.js';
+import { prisma } from '../../db/prisma.js';
+import { decryptSecret } from '../../security/credentials.js';
+
+import {
+  createCaspioClient,
+  defaultCaspioClient,
+  defaultCaspioTableNames,
+  type CaspioClient,
+  type CaspioTableNames,
+} from './caspioConnection.js';
+
+/**
+ * Resolves the Caspio client a company's records are written with.
+ *
+ * A company with a stored CaspioConnection (managed in admin/caspioConnections.ts) gets a client
+ * for that account; every other company uses the `CASPIO_*` env connection. Resolved clients are
+ * cached per company for a minute and reused while the stored connection is unchanged, so each
+ * connection keeps its token cache across jobs.
+ */
+
+const CONNECTION_CACHE_TTL_MS = 60 * 1000;
+
+const cachedClients = new Map<
+  number,
+  { client: CaspioClient; updatedAt: Date | null; expiresAt: number }
+>();
+
+/** Names the company's shared token and request budget in Redis. */
+export function caspioConnectionKeyFor(companyId: number): string {
+  return `company-${companyId}`;
+}
+
+/** Table names of a stored connection, with the env names filled in for the ones it leaves out. */
+export function caspioTableNamesFor(record: CaspioConnection): CaspioTableNames {
+  const defaults = defaultCaspioTableNames();
+  return {
+    patient: record.patientTableName ?? defaults.patient,
+    community: record.communityTableName ?? defaults.community,
+    service: record.serviceTableName ?? defaults.service,
+    offPremHistory: record.offPremHistoryTableName ?? defaults.offPremHistory,
+  };
+}
+
+/** Drop the cached client after the company's connection was changed or removed. */
+export function forgetCompanyCaspioClient(companyId: number): void {
+  cachedClients.delete(companyId);
+}
+
+/**
+ * The client to write a company's records with: its stored connection, or the env connection when
+ * it has none. A secret that no longer decrypts throws rather than falling back to the env account.
+ */
+export async function getCaspioClientForCompany(companyId: number): Promise<CaspioClient> {
+  const cached = cachedClients.get(companyId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.client;
+  }
+
+  const record = await prisma.caspioConnection.findUnique({
+    where: { companyId },
+  });
+  const expiresAt = Date.now() + CONNECTION_CACHE_TTL_MS;
+
+  if (!record) {
+    const client = defaultCaspioClient();
+    cachedClients.set(companyId, { client, updatedAt: null, expiresAt });
+    return client;
+  }
+
+  if (cached && cached.updatedAt?.getTime() === record.updatedAt.getTime()) {
+    cachedClients.set(companyId, { ...cached, expiresAt });
+    return cached.client;
+  }
+
+  let clientSecret: string;
+  try {
+    clientSecret = decryptSecret(record.clientSecretCiphertext, record.clientSecretIv);
+  } catch (error) {
+    logger.error(
+      { companyId, error: error instanceof Error ? error.message : String(error) },
+      'caspio_connection_decryption_failed',
+    );
+    throw new Error('Failed to decrypt Caspio connection secret.');
+  }
+
+  const client = createCaspioClient({
+    key: caspioConnectionKeyFor(companyId),
+    baseUrl: record.baseUrl,
+    tokenUrl: record.tokenUrl,
+    clientId: record.clientId,
+    clientSecret,
+    tables: caspioTableNamesFor(record),
+  });
+  cachedClients.set(companyId, { client, updatedAt: record.updatedAt, expiresAt });
+  return client;
+}
+
+/** Run `operation` with every Caspio call inside it sent through the company's connection. */
+export async function runWithCompanyCaspioClient<T>(
+  companyId: number,
+  operation: () => Promise<T>,
+): Promise<T> {
+  const client = await getCaspioClientForCompany(companyId);
+  return client.run(operation);
+}
+
+/** Every company that writes to its own Caspio account. */
+export async function listCompanyIdsWithCaspioConnection(): Promise<number[]> {
+  const records = await prisma.caspioConnection.findMany({
+    select: { companyId: true },
+    orderBy: { companyId: 'asc' },
+  });
+  return records.map((record) => record.companyId);
+}
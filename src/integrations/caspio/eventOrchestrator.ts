@@ -1,16 +1,16 @@
-import { env } from '../../config/env.js';
 import { logger } from '../../config/logger.js';
-import { errorToIssueDetails, recordEventIssue } from '../../domains/eventIssues.js';
+import { recordEventIssue } from '../../domains/eventIssues.js';
+import type { AllResidentData } from '../alisClient.js';
+import type { AlisNotificationEvent, AlisNotificationEventOf } from '../../webhook/schemas.js';
 import {
-  fetchAllResidentData,
-  resolveAlisCredentials,
-  type AllResidentData,
-} from '../alisClient.js';
-import type { AlisEvent } from '../../webhook/schemas.js';
+  createAlisResidentDataContext,
+  type AlisResidentDataContext,
+} from '../alis/residentDataContext.js';
 import type { AlisPayload } from '../alis/types.js';
 
 import {
   findActiveOrLatestServiceRow,
+  findOffPremEpisodeByEpisodeId,
   findOpenOffPremEpisode,
   findOpenServiceRowByCuidAndServiceType,
   findByPatientNumber,
@@ -21,8 +21,11 @@ import {
   updateRecordById,
 } from './caspioClient.js';
 import { getCommunityEnrichment } from './caspioCommunityEnrichment.js';
+import { caspioTableNames } from './caspioConnection.js';
 import type { CarePatientTableApiRecord } from './caspioMapper.js';
 import {
+  buildOffPremEpisodeId,
+  mapOffPremCancelledEpisode,
   mapOffPremEndPatch,
   mapOffPremStartEpisode,
   mapCommunityRecord,
@@ -116,7 +119,7 @@ function getPatientRoomNumber(record?: CarePatientTableApiRecord): string | unde
 }
 
 function applyPreferredRoomFromEvent(
-  event: AlisEvent,
+  event: AlisNotificationEvent,
   patientRecord: CarePatientTableApiRecord,
   roomNumber: string | undefined,
 ): void {
@@ -131,7 +134,7 @@ function applyPreferredRoomFromEvent(
 }
 
 function chooseRoomNumberForUpdate(
-  event: AlisEvent,
+  event: AlisNotificationEvent,
   mappedRoomNumber: string | undefined,
   existingRoomNumber: string | undefined,
   roomNumber: string | undefined,
@@ -166,18 +169,33 @@ function chooseRoomNumberForUpdate(
   return normalizedMapped ?? normalizedEventRoom;
 }
 
+type AlisNotificationData = AlisNotificationEvent['NotificationData'];
+
+function firstText(...values: Array<string | null | undefined>): string | undefined {
+  for (const value of values) {
+    const text = trimNonEmpty(value ?? undefined);
+    if (text) return text;
+  }
+  return undefined;
+}
+
+function firstListedRoom(rooms: AlisNotificationData['RoomsAssigned']): string | undefined {
+  if (!Array.isArray(rooms)) return undefined;
+  for (const entry of rooms) {
+    const room = firstText(entry.RoomNumber, entry.Room);
+    if (room) return room;
+  }
+  return undefined;
+}
+
 /** New room after a move (ALIS `resident.room_changed`, etc.). */
-function extractAssignedRoom(event: AlisEvent): string | undefined {
-  const notificationData = event.NotificationData as Record<string, unknown> | undefined;
-  if (!notificationData) return undefined;
-  return extractStringValue(notificationData, ['AssignedRoom', 'assignedRoom']);
+function extractAssignedRoom(event: AlisNotificationEvent): string | undefined {
+  return firstText(event.NotificationData.AssignedRoom);
 }
 
 /** Room the resident is moving out of (ALIS `resident.room_changed`). */
-function extractUnassignedRoom(event: AlisEvent): string | undefined {
-  const notificationData = event.NotificationData as Record<string, unknown> | undefined;
-  if (!notificationData) return undefined;
-  return extractStringValue(notificationData, ['UnassignedRoom', 'unassignedRoom']);
+function extractUnassignedRoom(event: AlisNotificationEvent): string | undefined {
+  return firstText(event.NotificationData.UnassignedRoom);
 }
 
 async function resolveCuidForCommunityRoom(
@@ -202,29 +220,6 @@ type ServiceCommunityContext = {
   roomNumber?: string;
 };
 
-/**
- * Extract numeric value from object with fallback keys
- */
-function extractNumericValue(
-  payload: Record<string, unknown> | undefined,
-  keys: string[],
-): number | undefined {
-  if (!payload) return undefined;
-  for (const key of keys) {
-    const value = payload[key];
-    if (typeof value === 'number' && Number.isFinite(value)) {
-      return value;
-    }
-    if (typeof value === 'string' && value.trim().length > 0) {
-      const parsed = Number(value);
-      if (Number.isFinite(parsed)) {
-        return parsed;
-      }
-    }
-  }
-  return undefined;
-}
-
 function extractStringValue(
   payload: Record<string, unknown> | undefined,
   keys: string[],
@@ -273,126 +268,34 @@ function extractNestedStringValue(
   return undefined;
 }
 
-/**
- * Extract residentId from event NotificationData
- */
-function extractResidentId(event: AlisEvent): number {
-  const residentId = extractNumericValue(event.NotificationData, ['ResidentId', 'residentId']);
-
-  if (residentId !== undefined) {
-    return residentId;
-  }
-
-  throw new Error('ResidentId is required in NotificationData');
-}
-
-async function extractResidentIdOrRecordIssue(
-  event: AlisEvent,
-  companyId: number,
-  communityId: number,
-): Promise<number> {
-  const residentId = extractNumericValue(event.NotificationData, ['ResidentId', 'residentId']);
-
-  if (residentId !== undefined) {
-    return residentId;
-  }
-
-  await recordEventIssue({
-    companyId,
-    eventType: event.EventType,
-    eventMessageId: event.EventMessageId,
-    communityId,
-    stage: 'webhook_payload',
-    severity: 'error',
-    message: 'ResidentId is required in NotificationData',
-    details: {
-      notificationData: event.NotificationData ?? null,
-    },
-    retryable: false,
-  });
-
-  throw new Error('ResidentId is required in NotificationData');
-}
-
-function extractRoomNumber(event: AlisEvent): string | undefined {
-  const notificationData = event.NotificationData as Record<string, unknown> | undefined;
-  if (!notificationData) return undefined;
-
+function extractRoomNumber(event: AlisNotificationEvent): string | undefined {
+  const data = event.NotificationData;
   // New room for the resident (e.g. ALIS room change); takes precedence over generic RoomNumber.
-  const assigned = extractAssignedRoom(event);
-  if (assigned) return assigned;
-
-  const direct = extractStringValue(notificationData, [
-    'RoomNumber',
-    'roomNumber',
-    'Room',
-    'room',
-    'ApartmentNumber',
-    'apartmentNumber',
-    'NewRoomNumber',
-    'newRoomNumber',
-    'ToRoomNumber',
-    'toRoomNumber',
-  ]);
-  if (direct) return direct;
-
-  const roomsAssigned = notificationData.RoomsAssigned;
-  if (Array.isArray(roomsAssigned)) {
-    for (const item of roomsAssigned) {
-      if (!item || typeof item !== 'object') continue;
-      const record = item as Record<string, unknown>;
-      const room = extractStringValue(record, ['RoomNumber', 'Room', 'roomNumber', 'room']);
-      if (room) return room;
-    }
-  }
-
-  const roomsUnassigned = notificationData.RoomsUnassigned;
-  if (Array.isArray(roomsUnassigned)) {
-    for (const item of roomsUnassigned) {
-      if (!item || typeof item !== 'object') continue;
-      const record = item as Record<string, unknown>;
-      const room = extractStringValue(record, ['RoomNumber', 'Room', 'roomNumber', 'room']);
-      if (room) return room;
-    }
-  }
-
-  return undefined;
+  return (
+    extractAssignedRoom(event) ??
+    firstText(
+      data.RoomNumber,
+      data.Room,
+      data.ApartmentNumber,
+      data.NewRoomNumber,
+      data.ToRoomNumber,
+    ) ??
+    firstListedRoom(data.RoomsAssigned) ??
+    firstListedRoom(data.RoomsUnassigned)
+  );
 }
 
-function hasRoomMovementData(event: AlisEvent): boolean {
-  const notificationData = event.NotificationData as Record<string, unknown> | undefined;
-  if (!notificationData) return false;
+function hasRoomMovementData(event: AlisNotificationEvent): boolean {
+  const data = event.NotificationData;
   if (extractAssignedRoom(event) || extractUnassignedRoom(event)) {
     return true;
   }
   if (event.EventType === 'resident.room_assigned' || event.EventType === 'resident.room_changed') {
-    return Boolean(
-      extractStringValue(notificationData, [
-        'RoomNumber',
-        'roomNumber',
-        'Room',
-        'room',
-        'ApartmentNumber',
-        'apartmentNumber',
-      ]),
-    );
-  }
-  for (const key of ['RoomsAssigned', 'roomsAssigned', 'RoomsUnassigned', 'roomsUnassigned']) {
-    const value = notificationData[key];
-    if (typeof value === 'string' && value.trim().length > 0) {
-      return true;
-    }
-    if (Array.isArray(value)) {
-      const hasRoom = value.some((item) => {
-        if (!item || typeof item !== 'object') return false;
-        return Boolean(extractStringValue(item as Record<string, unknown>, ['RoomNumber', 'Room', 'roomNumber', 'room']));
-      });
-      if (hasRoom) {
-        return true;
-      }
-    }
+    return Boolean(firstText(data.RoomNumber, data.Room, data.ApartmentNumber));
   }
-  return false;
+  return [data.RoomsAssigned, data.RoomsUnassigned].some((rooms) =>
+    typeof rooms === 'string' ? rooms.trim().length > 0 : Boolean(firstListedRoom(rooms)),
+  );
 }
 
 function selectValidDateString(params: {
@@ -498,27 +401,12 @@ async function applyCommunityEnrichment(
   }
 }
 
-async function fetchFullResidentDataIfNeeded(
-  companyId: number,
-  companyKey: string,
-  residentId: number,
-  communityId: number | null,
-  existing?: AllResidentData | null,
-): Promise<AllResidentData> {
-  if (existing) {
-    return existing;
-  }
-
-  const credentials = await resolveAlisCredentials(companyId, companyKey);
-  return fetchAllResidentData(credentials, residentId, communityId);
-}
-
 /**
  * Build AlisPayload from fetched resident data for mapper reuse.
  */
 function buildAlisPayload(
   residentId: number,
-  event: AlisEvent,
+  event: AlisNotificationEvent,
   fullResidentData: AllResidentData,
 ): AlisPayload {
   return {
@@ -550,7 +438,7 @@ async function findExistingPatient(
   cuid?: string,
 ): Promise<{ found: boolean; id?: string; record?: CarePatientTableApiRecord }> {
   if (cuid) {
-    const match = await findRecordByFields(env.CASPIO_TABLE_NAME, [
+    const match = await findRecordByFields(caspioTableNames().patient, [
       { field: 'PatientNumber', value: patientNumber },
       { field: 'CUID', value: cuid },
     ]);
@@ -559,7 +447,7 @@ async function findExistingPatient(
     }
   }
 
-  const fallback = await findByPatientNumber(env.CASPIO_TABLE_NAME, patientNumber);
+  const fallback = await findByPatientNumber(caspioTableNames().patient, patientNumber);
   return {
     found: fallback.found,
     id: fallback.id,
@@ -569,7 +457,7 @@ async function findExistingPatient(
 
 /** ALIS "ServiceType" (e.g. MC, AL) is a different concept from Caspio service-line classification — do not use it here. */
 function getClassification(
-  event: AlisEvent,
+  event: AlisNotificationEvent,
   residentData?: Record<string, unknown>,
   basicInfoData?: Record<string, unknown>,
 ): string | undefined {
@@ -644,7 +532,7 @@ function isOpenServiceRow(endDate: unknown): boolean {
 }
 
 async function resolveServiceCommunityContext(params: {
-  event: AlisEvent;
+  event: AlisNotificationEvent;
   companyId: number;
   residentId: number;
   communityId: number;
@@ -840,7 +728,7 @@ async function createServiceRow(params: {
   }
 
   const result = await upsertByFields(
-    env.CASPIO_SERVICE_TABLE_NAME,
+    caspioTableNames().service,
     filters,
     serviceRecordForWrite as Record<string, unknown>,
   );
@@ -945,7 +833,12 @@ async function closeLatestServiceRow(params: {
     return;
   }
 
-  await updateRecordById(env.CASPIO_SERVICE_TABLE_NAME, serviceRow.id, { EndDate: params.endDate });
+  await updateRecordById(
+    caspioTableNames().service,
+    serviceRow.id,
+    { EndDate: params.endDate },
+    { priorRecord: serviceRow.record },
+  );
   logger.info(
     {
       eventMessageId: params.eventMessageId,
@@ -991,7 +884,12 @@ async function closeOpenVacantServiceRowForCuid(params: {
     return;
   }
 
-  await updateRecordById(env.CASPIO_SERVICE_TABLE_NAME, openVacantRow.id, { EndDate: params.endDate });
+  await updateRecordById(
+    caspioTableNames().service,
+    openVacantRow.id,
+    { EndDate: params.endDate },
+    { priorRecord: openVacantRow.record },
+  );
   logger.info(
     {
       eventMessageId: params.eventMessageId,
@@ -1019,9 +917,9 @@ async function closeOpenVacantServiceRowForCuid(params: {
  * the old CUID (no PatientNumber), then open the resident’s active service line on the new CUID.
  */
 async function applyRoomTransferServiceTable(params: {
-  event: AlisEvent;
+  event: AlisNotificationEvent;
   companyId: number;
-  companyKey: string;
+  residentData: AlisResidentDataContext;
   residentId: number;
   communityId: number;
   patientNumber: string;
@@ -1035,12 +933,7 @@ async function applyRoomTransferServiceTable(params: {
 
   let incomingServiceType = params.incomingServiceType;
   if (!incomingServiceType) {
-    const fullResidentData = await fetchFullResidentDataIfNeeded(
-      params.companyId,
-      params.companyKey,
-      params.residentId,
-      params.communityId,
-    );
+    const fullResidentData = await params.residentData.getResidentData();
     const resident = fullResidentData.resident as Record<string, unknown>;
     const basicInfo = fullResidentData.basicInfo as Record<string, unknown>;
     incomingServiceType = getClassification(params.event, resident, basicInfo);
@@ -1162,30 +1055,27 @@ async function closeOpenOffPremEpisode(params: {
     offPremEnd: params.offPremEnd,
     closeReason: params.closeReason,
   });
-  await updateRecordById(env.CASPIO_OFF_PREM_HISTORY_TABLE_NAME, openEpisode.id, closePatch);
+  await updateRecordById(caspioTableNames().offPremHistory, openEpisode.id, closePatch, {
+    priorRecord: openEpisode.record,
+  });
 }
 
 /**
  * Handle move-in event
  */
 async function handleMoveInEvent(
-  event: AlisEvent,
+  event: AlisNotificationEvent,
   companyId: number,
-  companyKey: string,
   residentId: number,
   communityId: number,
+  residentData: AlisResidentDataContext,
 ): Promise<void> {
   logger.info(
     { eventMessageId: event.EventMessageId, residentId, communityId },
     'handling_move_in_event',
   );
 
-  const fullResidentData = await fetchFullResidentDataIfNeeded(
-    companyId,
-    companyKey,
-    residentId,
-    communityId,
-  );
+  const fullResidentData = await residentData.getResidentData();
 
   const payload = buildAlisPayload(residentId, event, fullResidentData);
   const roomNumber = normalizeRoomIdentifier(extractRoomNumber(event));
@@ -1201,7 +1091,7 @@ async function handleMoveInEvent(
   }
 
   const result = await upsertByFields(
-    env.CASPIO_TABLE_NAME,
+    caspioTableNames().patient,
     patientRecord.CUID
       ? [
           { field: 'PatientNumber', value: patientRecord.PatientNumber },
@@ -1255,9 +1145,8 @@ async function handleMoveInEvent(
  * Handle move-out event
  */
 async function handleMoveOutEvent(
-  event: AlisEvent,
+  event: AlisNotificationEvent,
   companyId: number,
-  companyKey: string,
   residentId: number,
   communityId: number,
 ): Promise<void> {
@@ -1320,14 +1209,10 @@ async function handleMoveOutEvent(
     updateData.Service_End_Date = moveOutDate;
   }
 
-  await updateRecordById(env.CASPIO_TABLE_NAME, existing.id, updateData);
+  await updateRecordById(caspioTableNames().patient, existing.id, updateData, {
+    priorRecord: existing.record,
+  });
 
-  await fetchFullResidentDataIfNeeded(
-    companyId,
-    companyKey,
-    residentId,
-    communityId,
-  );
 
   logger.info(
     {
@@ -1395,7 +1280,7 @@ async function handleMoveOutEvent(
  *    `Vacant` line (no PatientNumber) on that CUID, both dated at `AsOfDateUTC`.
  */
 async function handleRoomUnassignedEvent(
-  event: AlisEvent,
+  event: AlisNotificationEvent,
   companyId: number,
   residentId: number,
   communityId: number,
@@ -1459,10 +1344,15 @@ async function handleRoomUnassignedEvent(
     event.EventMessageDate,
   );
 
-  await updateRecordById(env.CASPIO_TABLE_NAME, existing.id, {
-    PatientNumber: String(residentId),
-    RoomNumber: UNASSIGNED_ROOM_LABEL,
-  });
+  await updateRecordById(
+    caspioTableNames().patient,
+    existing.id,
+    {
+      PatientNumber: String(residentId),
+      RoomNumber: UNASSIGNED_ROOM_LABEL,
+    },
+    { priorRecord: existing.record },
+  );
 
   logger.info(
     {
@@ -1527,63 +1417,40 @@ async function handleRoomUnassignedEvent(
   );
 }
 
-/**
- * Handle other update events (basic_info_updated, created, contact.updated, etc.)
- */
-async function handleUpdateEvent(
-  event: AlisEvent,
-  companyId: number,
-  companyKey: string,
-  residentId: number,
-  communityId: number,
-): Promise<void> {
-  logger.info(
-    { eventMessageId: event.EventMessageId, residentId, communityId, eventType: event.EventType },
-    'handling_update_event',
-  );
+type ExistingPatient = {
+  id: string;
+  record?: CarePatientTableApiRecord;
+};
 
-  const roomNumber = normalizeRoomIdentifier(extractRoomNumber(event));
-  let communityContext = await applyCommunityEnrichment(communityId, roomNumber);
-  const existing = await findExistingPatient(String(residentId), communityContext.CUID);
+type PreparedPatientUpdate = {
+  fullResidentData: AllResidentData;
+  mappedCommunityName?: string;
+  patientRecord: CarePatientTableApiRecord;
+  communityContext: { CUID?: string; CommunityName?: string };
+  patch: Partial<CarePatientTableApiRecord>;
+};
 
-  if (!existing.found || !existing.id) {
-    await recordEventIssue({
-      companyId,
-      eventType: event.EventType,
-      eventMessageId: event.EventMessageId,
-      residentId,
-      communityId,
-      stage: 'caspio_patient_lookup',
-      severity: 'warning',
-      message: 'Update event skipped because resident was not found in Caspio',
-      details: {
-        requestedCuid: communityContext.CUID ?? null,
-        roomNumber: roomNumber ?? null,
-      },
-      retryable: false,
-    });
-    logger.info(
-      {
-        eventMessageId: event.EventMessageId,
-        residentId,
-        communityId,
-        eventType: event.EventType,
-      },
-      'update_event_resident_not_found_ignoring',
-    );
-    return;
-  }
+/**
+ * Map fresh ALIS data onto the patient row, keeping the event's room when it has priority.
+ * On_Prem/Off_Prem are left alone for moved-out residents and during an open off-prem episode.
+ */
+async function preparePatientUpdate(params: {
+  event: AlisNotificationEvent;
+  companyId: number;
+  residentData: AlisResidentDataContext;
+  residentId: number;
+  communityId: number;
+  roomNumber: string | undefined;
+  lookupContext: { CUID?: string; CommunityName?: string };
+  existing: ExistingPatient;
+}): Promise<PreparedPatientUpdate> {
+  const { event, residentId, communityId, roomNumber, existing } = params;
 
-  const fullResidentData = await fetchFullResidentDataIfNeeded(
-    companyId,
-    companyKey,
-    residentId,
-    communityId,
-  );
+  const fullResidentData = await params.residentData.getResidentData();
 
   const payload = buildAlisPayload(residentId, event, fullResidentData);
   const mappedCommunityName = mapCommunityRecord(payload).CommunityName;
-  const patientRecord = mapPatientRecord(payload, communityContext);
+  const patientRecord = mapPatientRecord(payload, params.lookupContext);
   applyPreferredRoomFromEvent(event, patientRecord, roomNumber);
   const selectedRoomNumber = chooseRoomNumberForUpdate(
     event,
@@ -1595,7 +1462,7 @@ async function handleUpdateEvent(
     patientRecord.RoomNumber = selectedRoomNumber;
   }
   const effectiveRoom = selectedRoomNumber ?? roomNumber;
-  communityContext = await applyCommunityEnrichment(
+  const communityContext = await applyCommunityEnrichment(
     communityId,
     effectiveRoom,
     patientRecord.CommunityName ?? mappedCommunityName ?? trimNonEmpty(existing.record?.CommunityName),
@@ -1603,356 +1470,553 @@ async function handleUpdateEvent(
   patientRecord.CUID = communityContext.CUID ?? patientRecord.CUID;
   patientRecord.CommunityName = communityContext.CommunityName ?? patientRecord.CommunityName;
   patientRecord.PatientNumber = String(residentId);
-  const patchWithoutMoveIn =
+  const patch =
     event.EventType === 'residents.move_in_out_info_updated'
       ? patientRecord
       : (({ Move_in_Date, ...rest }) => rest)(patientRecord);
 
   if (isPatientRecordMovedOut(existing.record)) {
-    stripPremFieldsFromPatch(patchWithoutMoveIn);
+    stripPremFieldsFromPatch(patch);
   } else {
     const openEpisode = await findOpenOffPremEpisode({
       patientNumber: String(residentId),
       cuid: trimNonEmpty(patientRecord.CUID) ?? trimNonEmpty(existing.record?.CUID),
     });
     if (openEpisode.found) {
-      stripPremFieldsFromPatch(patchWithoutMoveIn);
+      stripPremFieldsFromPatch(patch);
     }
   }
 
-  logger.debug(
-    {
-      eventMessageId: event.EventMessageId,
-      residentId,
-      communityId,
-      caspioId: existing.id,
-      patchKeys: Object.keys(patchWithoutMoveIn),
-    },
-    'update_event_applying_patch',
-  );
+  return { fullResidentData, mappedCommunityName, patientRecord, communityContext, patch };
+}
+
+/**
+ * Bring the resident's service line on their current CUID in line with the incoming
+ * classification: insert the first row, reopen after a closed row, or close and reopen on a
+ * classification change. Returns the resolved service community (unmatched when skipped).
+ */
+async function reconcileServiceLine(params: {
+  event: AlisNotificationEvent;
+  companyId: number;
+  residentData: AlisResidentDataContext;
+  residentId: number;
+  communityId: number;
+  fallbackRoomNumber?: string;
+  fallbackCommunityName?: string;
+  classificationForService: string | undefined;
+}): Promise<ServiceCommunityContext> {
+  const { event, companyId, residentId, communityId } = params;
+  let classificationForService = params.classificationForService;
 
-  const unassignedRoomStr = extractUnassignedRoom(event);
-  const transferCommunityName =
-    mappedCommunityName ?? trimNonEmpty(existing.record?.CommunityName);
-  const previousCuidFromUnassignedRoom = await resolveCuidForCommunityRoom(
+  const serviceCommunity = await resolveServiceCommunityContext({
+    event,
+    companyId,
+    residentId,
     communityId,
-    unassignedRoomStr,
-    transferCommunityName,
-  );
-  const previousCuid =
-    previousCuidFromUnassignedRoom ?? trimNonEmpty(existing.record?.CUID);
-  const previousRoom =
-    normalizeRoomIdentifier(unassignedRoomStr) ?? normalizeRoomIdentifier(getPatientRoomNumber(existing.record));
-  const nextCuid = trimNonEmpty(patientRecord.CUID);
-  const isCuidRoomTransfer = Boolean(
-    previousCuid && nextCuid && previousCuid !== nextCuid,
-  );
+    fallbackRoomNumber: params.fallbackRoomNumber,
+    fallbackCommunityName: params.fallbackCommunityName,
+  });
+  if (!serviceCommunity.matched || !serviceCommunity.cuid) {
+    return serviceCommunity;
+  }
 
-  await updateRecordById(env.CASPIO_TABLE_NAME, existing.id, patchWithoutMoveIn);
+  const boundaryDate = normalizeScenarioDateTime(event.EventMessageDate);
+  const existingService = await findActiveOrLatestServiceRow({
+    patientNumber: String(residentId),
+    cuid: serviceCommunity.cuid,
+  });
 
-  const resident = fullResidentData.resident as Record<string, unknown>;
-  const basicInfo = fullResidentData.basicInfo as Record<string, unknown>;
-  let classificationForService = getClassification(event, resident, basicInfo);
-  const caspioRowLooksMovedOut = isPatientRecordMovedOut(existing.record);
-  const roomEventAllowsServiceDespiteMoveOutFields =
-    caspioRowLooksMovedOut &&
-    ROOM_NOTIFICATION_PRIORITY_EVENT_TYPES.has(event.EventType) &&
-    hasRoomMovementData(event);
-  const skipServiceTransitions = caspioRowLooksMovedOut && !roomEventAllowsServiceDespiteMoveOutFields;
-  if (roomEventAllowsServiceDespiteMoveOutFields) {
-    logger.info(
-      {
-        eventMessageId: event.EventMessageId,
-        eventType: event.EventType,
-        residentId,
-        communityId,
-      },
-      'update_event_service_room_event_proceeds_despite_move_out_fields_on_row',
-    );
+  const currentServiceType =
+    existingService.found && existingService.record && typeof existingService.record.ServiceType === 'string'
+      ? existingService.record.ServiceType
+      : undefined;
+
+  const preliminaryIncoming =
+    classificationForService ?? SERVICE_LINE_UNASSIGNED_CLASSIFICATION;
+  const preliminaryHasChanged =
+    !currentServiceType ||
+    normalizeServiceType(currentServiceType) !== normalizeServiceType(preliminaryIncoming);
+
+  if (
+    event.EventType === 'residents.basic_info_updated' &&
+    (!classificationForService || !preliminaryHasChanged)
+  ) {
+    const refreshedResidentData = await params.residentData.refreshResidentData();
+    const refreshedResident = refreshedResidentData.resident as Record<string, unknown>;
+    const refreshedBasicInfo = refreshedResidentData.basicInfo as Record<string, unknown>;
+    const refreshedServiceType = getClassification(event, refreshedResident, refreshedBasicInfo);
+    if (refreshedServiceType) {
+      classificationForService = refreshedServiceType;
+    }
   }
-  if (skipServiceTransitions) {
+
+  const incomingServiceType =
+    classificationForService ?? SERVICE_LINE_UNASSIGNED_CLASSIFICATION;
+  const isFallbackUnassigned = classificationForService === undefined;
+
+  const hasChanged =
+    !currentServiceType ||
+    normalizeServiceType(currentServiceType) !== normalizeServiceType(incomingServiceType);
+
+  if (!existingService.found || !existingService.id || !existingService.record) {
     logger.info(
       {
         eventMessageId: event.EventMessageId,
         eventType: event.EventType,
         residentId,
         communityId,
+        source: 'update_event',
+        patientNumber: String(residentId),
+        cuid: serviceCommunity.cuid,
+        currentServiceType: currentServiceType ?? null,
+        incomingServiceType,
+        hasChanged,
+        existingServiceFound: false,
       },
-      'update_event_service_skipped_patient_moved_out',
+      'service_transition_evaluated',
     );
-  } else if (isCuidRoomTransfer && previousCuid && nextCuid) {
-    await applyRoomTransferServiceTable({
-      event,
-      companyId,
-      companyKey,
-      residentId,
-      communityId,
+    await createServiceRow({
       patientNumber: String(residentId),
-      previousCuid: previousCuid,
-      nextCuid: nextCuid,
-      previousRoom,
-      nextCommunityName: patientRecord.CommunityName ?? communityContext.CommunityName,
-      incomingServiceType: classificationForService,
-    });
-  } else {
-    const serviceRoomFallback =
-      normalizeRoomIdentifier(getPatientRoomNumber(patientRecord)) ??
-      normalizeRoomIdentifier(getPatientRoomNumber(existing.record));
-    const serviceCommunity = await resolveServiceCommunityContext({
-      event,
-      companyId,
+      cuid: serviceCommunity.cuid,
+      communityName: serviceCommunity.communityName,
+      roomNumber: serviceCommunity.roomNumber,
+      serviceType: incomingServiceType,
+      startDate: boundaryDate,
+      eventMessageId: event.EventMessageId,
+      eventType: event.EventType,
       residentId,
       communityId,
-      fallbackRoomNumber: serviceRoomFallback,
-      fallbackCommunityName:
-        patientRecord.CommunityName ?? communityContext.CommunityName ?? trimNonEmpty(existing.record?.CommunityName),
+      source: 'update_event_insert_first_service',
     });
-    if (serviceCommunity.matched && serviceCommunity.cuid) {
-      const boundaryDate = normalizeScenarioDateTime(event.EventMessageDate);
-      const existingService = await findActiveOrLatestServiceRow({
-        patientNumber: String(residentId),
-        cuid: serviceCommunity.cuid,
-      });
-
-      const currentServiceType =
-        existingService.found && existingService.record && typeof existingService.record.ServiceType === 'string'
-          ? existingService.record.ServiceType
-          : undefined;
-
-      const preliminaryIncoming =
-        classificationForService ?? SERVICE_LINE_UNASSIGNED_CLASSIFICATION;
-      const preliminaryHasChanged =
-        !currentServiceType ||
-        normalizeServiceType(currentServiceType) !== normalizeServiceType(preliminaryIncoming);
-
-      if (
-        event.EventType === 'residents.basic_info_updated' &&
-        (!classificationForService || !preliminaryHasChanged)
-      ) {
-        const refreshedResidentData = await fetchFullResidentDataIfNeeded(
-          companyId,
-          companyKey,
-          residentId,
-          communityId,
-        );
-        const refreshedResident = refreshedResidentData.resident as Record<string, unknown>;
-        const refreshedBasicInfo = refreshedResidentData.basicInfo as Record<string, unknown>;
-        const refreshedServiceType = getClassification(event, refreshedResident, refreshedBasicInfo);
-        if (refreshedServiceType) {
-          classificationForService = refreshedServiceType;
-        }
-      }
-
-      const incomingServiceType =
-        classificationForService ?? SERVICE_LINE_UNASSIGNED_CLASSIFICATION;
-      const isFallbackUnassigned = classificationForService === undefined;
-
-      const hasChanged =
-        !currentServiceType ||
-        normalizeServiceType(currentServiceType) !== normalizeServiceType(incomingServiceType);
-
-      if (!existingService.found || !existingService.id || !existingService.record) {
-        logger.info(
-          {
-            eventMessageId: event.EventMessageId,
-            eventType: event.EventType,
-            residentId,
-            communityId,
-            source: 'update_event',
-            patientNumber: String(residentId),
-            cuid: serviceCommunity.cuid,
-            currentServiceType: currentServiceType ?? null,
-            incomingServiceType,
-            hasChanged,
-            existingServiceFound: false,
-          },
-          'service_transition_evaluated',
-        );
-        await createServiceRow({
-          patientNumber: String(residentId),
-          cuid: serviceCommunity.cuid,
-          communityName: serviceCommunity.communityName,
-          roomNumber: serviceCommunity.roomNumber,
-          serviceType: incomingServiceType,
-          startDate: boundaryDate,
-          eventMessageId: event.EventMessageId,
-          eventType: event.EventType,
-          residentId,
-          communityId,
-          source: 'update_event_insert_first_service',
-        });
-      } else {
-        const active = isOpenServiceRow(existingService.record.EndDate);
-        logger.info(
-          {
-            eventMessageId: event.EventMessageId,
-            eventType: event.EventType,
-            residentId,
-            communityId,
-            source: 'update_event',
-            serviceRowId: existingService.id,
-            patientNumber: String(residentId),
-            cuid: serviceCommunity.cuid,
-            currentServiceType: currentServiceType ?? null,
-            incomingServiceType,
-            hasChanged,
-            active,
-            currentStartDate: existingService.record.StartDate ?? null,
-            currentEndDate: existingService.record.EndDate ?? null,
-            boundaryDate,
-          },
-          'service_transition_evaluated',
-        );
-
-        const currentStartDateMs = parseServiceDate(existingService.record.StartDate);
-        const boundaryDateMs = parseServiceDate(boundaryDate);
-        const staleFallbackUnassignedAfterVacant =
-          active &&
-          hasChanged &&
-          isFallbackUnassigned &&
-          normalizeServiceType(currentServiceType) === normalizeServiceType(ROOM_VACANCY_SERVICE_TYPE) &&
-          normalizeServiceType(incomingServiceType) ===
-            normalizeServiceType(SERVICE_LINE_UNASSIGNED_CLASSIFICATION) &&
-          currentStartDateMs !== Number.NEGATIVE_INFINITY &&
-          boundaryDateMs !== Number.NEGATIVE_INFINITY &&
-          boundaryDateMs <= currentStartDateMs;
-
-        if (staleFallbackUnassignedAfterVacant) {
-          logger.info(
-            {
-              eventMessageId: event.EventMessageId,
-              eventType: event.EventType,
-              residentId,
-              communityId,
-              source: 'update_event_stale_unassigned_after_vacant',
-              serviceRowId: existingService.id,
-              patientNumber: String(residentId),
-              cuid: serviceCommunity.cuid,
-              currentServiceType: currentServiceType ?? null,
-              incomingServiceType,
-              currentStartDate: existingService.record.StartDate ?? null,
-              boundaryDate,
-            },
-            'service_transition_skipped_stale_unassigned_after_vacant',
-          );
-          return;
-        }
-
-        if (active && hasChanged) {
-          await updateRecordById(env.CASPIO_SERVICE_TABLE_NAME, existingService.id, {
-            EndDate: boundaryDate,
-          });
-          logger.info(
-            {
-              eventMessageId: event.EventMessageId,
-              eventType: event.EventType,
-              residentId,
-              communityId,
-              source: 'update_event_classification_change',
-              serviceRowId: existingService.id,
-              patientNumber: String(residentId),
-              cuid: serviceCommunity.cuid,
-              endDate: boundaryDate,
-            },
-            'service_row_closed',
-          );
-          await createServiceRow({
-            patientNumber: String(residentId),
-            cuid: serviceCommunity.cuid,
-            communityName: serviceCommunity.communityName,
-            roomNumber: serviceCommunity.roomNumber,
-            serviceType: incomingServiceType,
-            startDate: boundaryDate,
-            eventMessageId: event.EventMessageId,
-            eventType: event.EventType,
-            residentId,
-            communityId,
-            source: 'update_event_classification_change',
-          });
-        } else if (!active) {
-          await createServiceRow({
-            patientNumber: String(residentId),
-            cuid: serviceCommunity.cuid,
-            communityName: serviceCommunity.communityName,
-            roomNumber: serviceCommunity.roomNumber,
-            serviceType: incomingServiceType,
-            startDate: boundaryDate,
-            eventMessageId: event.EventMessageId,
-            eventType: event.EventType,
-            residentId,
-            communityId,
-            source: 'update_event_existing_closed_row',
-          });
-        } else if (!hasChanged) {
-          logger.info(
-            {
-              eventMessageId: event.EventMessageId,
-              eventType: event.EventType,
-              residentId,
-              communityId,
-              patientNumber: String(residentId),
-              cuid: serviceCommunity.cuid,
-              currentServiceType: currentServiceType ?? null,
-              incomingServiceType,
-              active,
-            },
-            'service_row_unchanged_no_write',
-          );
-        }
-      }
-    }
+    return serviceCommunity;
   }
 
+  const active = isOpenServiceRow(existingService.record.EndDate);
   logger.info(
     {
       eventMessageId: event.EventMessageId,
+      eventType: event.EventType,
       residentId,
       communityId,
-      caspioId: existing.id,
-      eventType: event.EventType,
+      source: 'update_event',
+      serviceRowId: existingService.id,
+      patientNumber: String(residentId),
+      cuid: serviceCommunity.cuid,
+      currentServiceType: currentServiceType ?? null,
+      incomingServiceType,
+      hasChanged,
+      active,
+      currentStartDate: existingService.record.StartDate ?? null,
+      currentEndDate: existingService.record.EndDate ?? null,
+      boundaryDate,
     },
-    'update_event_applied_patch',
+    'service_transition_evaluated',
   );
-}
 
-/**
- * Handle leave start event
+  const currentStartDateMs = parseServiceDate(existingService.record.StartDate);
+  const boundaryDateMs = parseServiceDate(boundaryDate);
+  const staleFallbackUnassignedAfterVacant =
+    active &&
+    hasChanged &&
+    isFallbackUnassigned &&
+    normalizeServiceType(currentServiceType) === normalizeServiceType(ROOM_VACANCY_SERVICE_TYPE) &&
+    normalizeServiceType(incomingServiceType) ===
+      normalizeServiceType(SERVICE_LINE_UNASSIGNED_CLASSIFICATION) &&
+    currentStartDateMs !== Number.NEGATIVE_INFINITY &&
+    boundaryDateMs !== Number.NEGATIVE_INFINITY &&
+    boundaryDateMs <= currentStartDateMs;
+
+  if (staleFallbackUnassignedAfterVacant) {
+    logger.info(
+      {
+        eventMessageId: event.EventMessageId,
+        eventType: event.EventType,
+        residentId,
+        communityId,
+        source: 'update_event_stale_unassigned_after_vacant',
+        serviceRowId: existingService.id,
+        patientNumber: String(residentId),
+        cuid: serviceCommunity.cuid,
+        currentServiceType: currentServiceType ?? null,
+        incomingServiceType,
+        currentStartDate: existingService.record.StartDate ?? null,
+        boundaryDate,
+      },
+      'service_transition_skipped_stale_unassigned_after_vacant',
+    );
+    return serviceCommunity;
+  }
+
+  if (active && hasChanged) {
+    await updateRecordById(
+      caspioTableNames().service,
+      existingService.id,
+      { EndDate: boundaryDate },
+      { priorRecord: existingService.record },
+    );
+    logger.info(
+      {
+        eventMessageId: event.EventMessageId,
+        eventType: event.EventType,
+        residentId,
+        communityId,
+        source: 'update_event_classification_change',
+        serviceRowId: existingService.id,
+        patientNumber: String(residentId),
+        cuid: serviceCommunity.cuid,
+        endDate: boundaryDate,
+      },
+      'service_row_closed',
+    );
+    await createServiceRow({
+      patientNumber: String(residentId),
+      cuid: serviceCommunity.cuid,
+      communityName: serviceCommunity.communityName,
+      roomNumber: serviceCommunity.roomNumber,
+      serviceType: incomingServiceType,
+      startDate: boundaryDate,
+      eventMessageId: event.EventMessageId,
+      eventType: event.EventType,
+      residentId,
+      communityId,
+      source: 'update_event_classification_change',
+    });
+  } else if (!active) {
+    await createServiceRow({
+      patientNumber: String(residentId),
+      cuid: serviceCommunity.cuid,
+      communityName: serviceCommunity.communityName,
+      roomNumber: serviceCommunity.roomNumber,
+      serviceType: incomingServiceType,
+      startDate: boundaryDate,
+      eventMessageId: event.EventMessageId,
+      eventType: event.EventType,
+      residentId,
+      communityId,
+      source: 'update_event_existing_closed_row',
+    });
+  } else {
+    logger.info(
+      {
+        eventMessageId: event.EventMessageId,
+        eventType: event.EventType,
+        residentId,
+        communityId,
+        patientNumber: String(residentId),
+        cuid: serviceCommunity.cuid,
+        currentServiceType: currentServiceType ?? null,
+        incomingServiceType,
+        active,
+      },
+      'service_row_unchanged_no_write',
+    );
+  }
+
+  return serviceCommunity;
+}
+
+/**
+ * Handle room assignment events (`resident.room_assigned`, `resident.room_changed`)
+ * - New CUID: close the old service row, mark the old room Vacant, open the line on the new CUID
+ * - Same CUID (same-room reassignment, bed-only change): patch the room, keep the service line
+ * - No prior room: open the first service line and close any Vacant row on the new CUID
  */
-async function handleLeaveStartEvent(
-  event: AlisEvent,
+async function handleRoomAssignmentEvent(
+  event: AlisNotificationEventOf<'resident.room_assigned' | 'resident.room_changed'>,
   companyId: number,
+  residentId: number,
   communityId: number,
+  residentData: AlisResidentDataContext,
 ): Promise<void> {
-  const notificationData = event.NotificationData || {};
-  const residentId = extractNumericValue(notificationData, ['ResidentId', 'residentId']);
-  const leaveId = extractNumericValue(notificationData, ['LeaveId', 'leaveId']);
+  logger.info(
+    { eventMessageId: event.EventMessageId, residentId, communityId, eventType: event.EventType },
+    'handling_room_assignment_event',
+  );
 
-  if (!residentId) {
+  const roomNumber = normalizeRoomIdentifier(extractRoomNumber(event));
+  const lookupContext = await applyCommunityEnrichment(communityId, roomNumber);
+  const existing = await findExistingPatient(String(residentId), lookupContext.CUID);
+
+  if (!existing.found || !existing.id) {
     await recordEventIssue({
       companyId,
       eventType: event.EventType,
       eventMessageId: event.EventMessageId,
+      residentId,
       communityId,
-      stage: 'webhook_payload',
+      stage: 'caspio_patient_lookup',
       severity: 'warning',
-      message: 'Leave start event skipped because ResidentId was missing',
-      details: { leaveId: leaveId ?? null },
+      message: 'Room assignment event skipped because resident was not found in Caspio',
+      details: {
+        requestedCuid: lookupContext.CUID ?? null,
+        roomNumber: roomNumber ?? null,
+      },
       retryable: false,
     });
-    logger.warn(
+    logger.info(
+      { eventMessageId: event.EventMessageId, residentId, communityId, eventType: event.EventType },
+      'room_assignment_event_resident_not_found_ignoring',
+    );
+    return;
+  }
+
+  const { fullResidentData, mappedCommunityName, patientRecord, communityContext, patch } =
+    await preparePatientUpdate({
+      event,
+      companyId,
+      residentData,
+      residentId,
+      communityId,
+      roomNumber,
+      lookupContext,
+      existing: { id: existing.id, record: existing.record },
+    });
+
+  const unassignedRoom = extractUnassignedRoom(event);
+  const previousCuid =
+    (await resolveCuidForCommunityRoom(
+      communityId,
+      unassignedRoom,
+      mappedCommunityName ?? trimNonEmpty(existing.record?.CommunityName),
+    )) ?? trimNonEmpty(existing.record?.CUID);
+  const previousRoom =
+    normalizeRoomIdentifier(unassignedRoom) ??
+    normalizeRoomIdentifier(getPatientRoomNumber(existing.record));
+  const nextCuid = trimNonEmpty(patientRecord.CUID);
+
+  await updateRecordById(caspioTableNames().patient, existing.id, patch, {
+    priorRecord: existing.record,
+  });
+
+  // Stale move-out fields on the row must not block a room move ALIS just reported.
+  if (isPatientRecordMovedOut(existing.record) && !hasRoomMovementData(event)) {
+    logger.info(
+      { eventMessageId: event.EventMessageId, eventType: event.EventType, residentId, communityId },
+      'room_assignment_service_skipped_patient_moved_out',
+    );
+    return;
+  }
+
+  const resident = fullResidentData.resident as Record<string, unknown>;
+  const basicInfo = fullResidentData.basicInfo as Record<string, unknown>;
+  const classificationForService = getClassification(event, resident, basicInfo);
+  const nextCommunityName = patientRecord.CommunityName ?? communityContext.CommunityName;
+
+  if (previousCuid && nextCuid && previousCuid !== nextCuid) {
+    await applyRoomTransferServiceTable({
+      event,
+      companyId,
+      residentData,
+      residentId,
+      communityId,
+      patientNumber: String(residentId),
+      previousCuid,
+      nextCuid,
+      previousRoom,
+      nextCommunityName,
+      incomingServiceType: classificationForService,
+    });
+    return;
+  }
+
+  if (previousCuid) {
+    logger.info(
       {
         eventMessageId: event.EventMessageId,
         eventType: event.EventType,
+        residentId,
         communityId,
-        leaveId,
+        cuid: previousCuid,
+        previousRoom: previousRoom ?? null,
+        nextRoom: getPatientRoomNumber(patientRecord) ?? null,
+      },
+      'room_assignment_same_cuid_no_transfer',
+    );
+  }
+
+  const serviceCommunity = await reconcileServiceLine({
+    event,
+    companyId,
+    residentData,
+    residentId,
+    communityId,
+    fallbackRoomNumber:
+      normalizeRoomIdentifier(getPatientRoomNumber(patientRecord)) ?? previousRoom,
+    fallbackCommunityName: nextCommunityName ?? trimNonEmpty(existing.record?.CommunityName),
+    classificationForService,
+  });
+
+  if (!previousCuid && serviceCommunity.matched && serviceCommunity.cuid) {
+    await closeOpenVacantServiceRowForCuid({
+      cuid: serviceCommunity.cuid,
+      endDate: normalizeScenarioDateTime(event.EventMessageDate),
+      eventMessageId: event.EventMessageId,
+      eventType: event.EventType,
+      residentId,
+      communityId,
+      source: 'room_assignment_destination_vacant',
+    });
+  }
+
+  logger.info(
+    {
+      eventMessageId: event.EventMessageId,
+      eventType: event.EventType,
+      residentId,
+      communityId,
+      caspioId: existing.id,
+      previousCuid: previousCuid ?? null,
+      nextCuid: nextCuid ?? null,
+    },
+    'room_assignment_event_applied_patch',
+  );
+}
+
+/**
+ * Handle other update events (basic_info_updated, created, contact.updated, etc.)
+ */
+async function handleUpdateEvent(
+  event: AlisNotificationEvent,
+  companyId: number,
+  residentId: number,
+  communityId: number,
+  residentData: AlisResidentDataContext,
+): Promise<void> {
+  logger.info(
+    { eventMessageId: event.EventMessageId, residentId, communityId, eventType: event.EventType },
+    'handling_update_event',
+  );
+
+  const roomNumber = normalizeRoomIdentifier(extractRoomNumber(event));
+  const lookupContext = await applyCommunityEnrichment(communityId, roomNumber);
+  const existing = await findExistingPatient(String(residentId), lookupContext.CUID);
+
+  if (!existing.found || !existing.id) {
+    await recordEventIssue({
+      companyId,
+      eventType: event.EventType,
+      eventMessageId: event.EventMessageId,
+      residentId,
+      communityId,
+      stage: 'caspio_patient_lookup',
+      severity: 'warning',
+      message: 'Update event skipped because resident was not found in Caspio',
+      details: {
+        requestedCuid: lookupContext.CUID ?? null,
+        roomNumber: roomNumber ?? null,
       },
-      'leave_event_missing_resident_id',
+      retryable: false,
+    });
+    logger.info(
+      {
+        eventMessageId: event.EventMessageId,
+        residentId,
+        communityId,
+        eventType: event.EventType,
+      },
+      'update_event_resident_not_found_ignoring',
     );
     return;
   }
 
+  const { fullResidentData, patientRecord, communityContext, patch } = await preparePatientUpdate({
+    event,
+    companyId,
+    residentData,
+    residentId,
+    communityId,
+    roomNumber,
+    lookupContext,
+    existing: { id: existing.id, record: existing.record },
+  });
+
+  logger.debug(
+    {
+      eventMessageId: event.EventMessageId,
+      residentId,
+      communityId,
+      caspioId: existing.id,
+      patchKeys: Object.keys(patch),
+    },
+    'update_event_applying_patch',
+  );
+
+  // Reconciles arrive here as basic_info_updated without room fields, so a room move they pick
+  // up from the fresh ALIS data is seen as the stored row's CUID changing.
+  const previousCuid = trimNonEmpty(existing.record?.CUID);
+  const nextCuid = trimNonEmpty(patientRecord.CUID);
+
+  await updateRecordById(caspioTableNames().patient, existing.id, patch, {
+    priorRecord: existing.record,
+  });
+
+  const resident = fullResidentData.resident as Record<string, unknown>;
+  const basicInfo = fullResidentData.basicInfo as Record<string, unknown>;
+  const classificationForService = getClassification(event, resident, basicInfo);
+  if (isPatientRecordMovedOut(existing.record)) {
+    logger.info(
+      {
+        eventMessageId: event.EventMessageId,
+        eventType: event.EventType,
+        residentId,
+        communityId,
+      },
+      'update_event_service_skipped_patient_moved_out',
+    );
+  } else if (previousCuid && nextCuid && previousCuid !== nextCuid) {
+    await applyRoomTransferServiceTable({
+      event,
+      companyId,
+      residentData,
+      residentId,
+      communityId,
+      patientNumber: String(residentId),
+      previousCuid,
+      nextCuid,
+      previousRoom: normalizeRoomIdentifier(getPatientRoomNumber(existing.record)),
+      nextCommunityName: patientRecord.CommunityName ?? communityContext.CommunityName,
+      incomingServiceType: classificationForService,
+    });
+  } else {
+    await reconcileServiceLine({
+      event,
+      companyId,
+      residentData,
+      residentId,
+      communityId,
+      fallbackRoomNumber:
+        normalizeRoomIdentifier(getPatientRoomNumber(patientRecord)) ??
+        normalizeRoomIdentifier(getPatientRoomNumber(existing.record)),
+      fallbackCommunityName:
+        patientRecord.CommunityName ?? communityContext.CommunityName ?? trimNonEmpty(existing.record?.CommunityName),
+      classificationForService,
+    });
+  }
+
+  logger.info(
+    {
+      eventMessageId: event.EventMessageId,
+      residentId,
+      communityId,
+      caspioId: existing.id,
+      eventType: event.EventType,
+    },
+    'update_event_applied_patch',
+  );
+}
+
+/**
+ * Handle leave start event
+ */
+async function handleLeaveStartEvent(
+  event: AlisNotificationEventOf<'residents.leave_start'>,
+  companyId: number,
+  communityId: number,
+): Promise<void> {
+  const { ResidentId: residentId, LeaveId: leaveId, StartDateTime } = event.NotificationData;
+
   const leaveStartDate = selectValidDateString({
-    primary: (notificationData as Record<string, unknown>).StartDateTime,
+    primary: StartDateTime,
     fallback: event.EventMessageDate,
     eventType: event.EventType,
     eventMessageId: event.EventMessageId,
@@ -1997,13 +2061,50 @@ async function handleLeaveStartEvent(
     return;
   }
 
+  const episodeId = buildOffPremEpisodeId({
+    patientNumber: residentId,
+    cuid: communityContext.CUID,
+    leaveId,
+    offPremStart: leaveStartDate,
+  });
+  // The cancel may have overtaken this start; its placeholder episode keeps the leave voided.
+  const existingEpisode = await findOffPremEpisodeByEpisodeId(episodeId);
+  if (existingEpisode.found && existingEpisode.record?.CloseReason === 'leave_cancelled') {
+    await recordEventIssue({
+      companyId,
+      eventType: event.EventType,
+      eventMessageId: event.EventMessageId,
+      residentId,
+      communityId,
+      stage: 'leave_cancelled',
+      severity: 'info',
+      message: 'Leave start event skipped because the leave was already cancelled',
+      details: { leaveId, episodeId },
+      retryable: false,
+    });
+    logger.info(
+      {
+        eventMessageId: event.EventMessageId,
+        eventType: event.EventType,
+        residentId,
+        communityId,
+        leaveId,
+        episodeId,
+      },
+      'leave_start_skipped_leave_cancelled',
+    );
+    return;
+  }
+
   const patch: Partial<CarePatientTableApiRecord> = {
     Off_Prem: true,
     Off_Prem_Date: leaveStartDate,
     On_Prem: false,
   };
 
-  await updateRecordById(env.CASPIO_TABLE_NAME, existing.id, patch);
+  await updateRecordById(caspioTableNames().patient, existing.id, patch, {
+    priorRecord: existing.record,
+  });
 
   const offPremEpisode = mapOffPremStartEpisode({
     patientNumber: String(residentId),
@@ -2011,6 +2112,7 @@ async function handleLeaveStartEvent(
     communityName: communityContext.CommunityName,
     leaveId,
     offPremStart: leaveStartDate,
+    episodeId,
   });
   await upsertOffPremEpisodeByEpisodeId(offPremEpisode);
 
@@ -2032,50 +2134,114 @@ async function handleLeaveStartEvent(
  * Handle leave end event
  */
 async function handleLeaveEndEvent(
-  event: AlisEvent,
+  event: AlisNotificationEventOf<'residents.leave_end'>,
   companyId: number,
   communityId: number,
 ): Promise<void> {
-  const notificationData = event.NotificationData || {};
-  const residentId = extractNumericValue(notificationData, ['ResidentId', 'residentId']);
-  const leaveId = extractNumericValue(notificationData, ['LeaveId', 'leaveId']);
+  const { ResidentId: residentId, LeaveId: leaveId, EndDateTime } = event.NotificationData;
 
-  if (!residentId) {
+  const leaveEndDate = selectValidDateString({
+    primary: EndDateTime,
+    fallback: event.EventMessageDate,
+    eventType: event.EventType,
+    eventMessageId: event.EventMessageId,
+    residentId,
+    communityId,
+    leaveId,
+    fieldName: 'EndDateTime',
+  });
+
+  if (!leaveEndDate) {
+    return;
+  }
+
+  const communityContext = await applyCommunityEnrichment(communityId, undefined);
+  const existing = await findExistingPatient(String(residentId), communityContext.CUID);
+  if (!existing.found || !existing.id) {
     await recordEventIssue({
       companyId,
       eventType: event.EventType,
       eventMessageId: event.EventMessageId,
+      residentId,
       communityId,
-      stage: 'webhook_payload',
+      stage: 'caspio_patient_lookup',
       severity: 'warning',
-      message: 'Leave end event skipped because ResidentId was missing',
-      details: { leaveId: leaveId ?? null },
+      message: 'Leave end event skipped because resident was not found in Caspio',
+      details: {
+        leaveId: leaveId ?? null,
+        requestedCuid: communityContext.CUID ?? null,
+      },
       retryable: false,
     });
-    logger.warn(
+    logger.info(
       {
         eventMessageId: event.EventMessageId,
         eventType: event.EventType,
+        residentId,
         communityId,
         leaveId,
       },
-      'leave_event_missing_resident_id',
+      'leave_event_resident_not_found_ignoring',
     );
     return;
   }
 
-  const leaveEndDate = selectValidDateString({
-    primary: (notificationData as Record<string, unknown>).EndDateTime,
-    fallback: event.EventMessageDate,
+  const patch: Partial<CarePatientTableApiRecord> = {
+    On_Prem: true,
+    On_Prem_Date: leaveEndDate,
+    Off_Prem: false,
+  };
+
+  await updateRecordById(caspioTableNames().patient, existing.id, patch, {
+    priorRecord: existing.record,
+  });
+
+  await closeOpenOffPremEpisode({
+    patientNumber: String(residentId),
+    cuid: communityContext.CUID,
+    leaveId,
+    offPremEnd: leaveEndDate,
+    closeReason: 'leave_end',
+  });
+
+  logger.info(
+    {
+      eventMessageId: event.EventMessageId,
+      eventType: event.EventType,
+      residentId,
+      communityId,
+      leaveId,
+      caspioId: existing.id,
+      patchKeys: Object.keys(patch),
+    },
+    'leave_end_event_applied_patch',
+  );
+}
+
+/**
+ * Handle leave cancelled event
+ * - Leave already started: restore On_Prem and close its episode as `leave_cancelled`
+ * - Leave not started yet: write a closed `leave_cancelled` episode so a late leave_start is ignored
+ */
+async function handleLeaveCancelledEvent(
+  event: AlisNotificationEventOf<'residents.leave_cancelled'>,
+  companyId: number,
+  communityId: number,
+): Promise<void> {
+  const { ResidentId: residentId, LeaveId: leaveId } = event.NotificationData;
+
+  const cancelledAt = selectValidDateString({
+    primary: event.EventMessageDate,
+    fallback: undefined,
     eventType: event.EventType,
     eventMessageId: event.EventMessageId,
     residentId,
     communityId,
     leaveId,
-    fieldName: 'EndDateTime',
+    fieldName: 'EventMessageDate',
   });
 
-  if (!leaveEndDate) {
+  if (!cancelledAt) {
     return;
   }
 
@@ -2090,9 +2256,9 @@ async function handleLeaveEndEvent(
       communityId,
       stage: 'caspio_patient_lookup',
       severity: 'warning',
-      message: 'Leave end event skipped because resident was not found in Caspio',
+      message: 'Leave cancelled event skipped because resident was not found in Caspio',
       details: {
-        leaveId: leaveId ?? null,
+        leaveId,
         requestedCuid: communityContext.CUID ?? null,
       },
       retryable: false,
@@ -2110,20 +2276,71 @@ async function handleLeaveEndEvent(
     return;
   }
 
+  const episodeId = buildOffPremEpisodeId({
+    patientNumber: residentId,
+    cuid: communityContext.CUID,
+    leaveId,
+    offPremStart: cancelledAt,
+  });
+  const episode = await findOffPremEpisodeByEpisodeId(episodeId);
+
+  if (!episode.found || !episode.id) {
+    await upsertOffPremEpisodeByEpisodeId(
+      mapOffPremCancelledEpisode({
+        patientNumber: residentId,
+        cuid: communityContext.CUID,
+        communityName: communityContext.CommunityName,
+        leaveId,
+        cancelledAt,
+      }),
+    );
+    logger.info(
+      {
+        eventMessageId: event.EventMessageId,
+        eventType: event.EventType,
+        residentId,
+        communityId,
+        leaveId,
+        episodeId,
+      },
+      'leave_cancelled_before_start_recorded',
+    );
+    return;
+  }
+
+  if (episode.record?.IsOpen !== true) {
+    // Already ended or cancelled; the resident is back on-prem.
+    logger.info(
+      {
+        eventMessageId: event.EventMessageId,
+        eventType: event.EventType,
+        residentId,
+        communityId,
+        leaveId,
+        episodeId,
+        closeReason: episode.record?.CloseReason ?? null,
+      },
+      'leave_cancelled_episode_already_closed',
+    );
+    return;
+  }
+
   const patch: Partial<CarePatientTableApiRecord> = {
     On_Prem: true,
-    On_Prem_Date: leaveEndDate,
     Off_Prem: false,
   };
 
-  await updateRecordById(env.CASPIO_TABLE_NAME, existing.id, patch);
+  await updateRecordById(caspioTableNames().patient, existing.id, patch, {
+    priorRecord: existing.record,
+  });
 
-  await closeOpenOffPremEpisode({
-    patientNumber: String(residentId),
-    cuid: communityContext.CUID,
-    leaveId,
-    offPremEnd: leaveEndDate,
-    closeReason: 'leave_end',
+  const closePatch = mapOffPremEndPatch({
+    offPremStart: String(episode.record.OffPremStart ?? cancelledAt),
+    offPremEnd: cancelledAt,
+    closeReason: 'leave_cancelled',
+  });
+  await updateRecordById(caspioTableNames().offPremHistory, episode.id, closePatch, {
+    priorRecord: episode.record,
   });
 
   logger.info(
@@ -2134,19 +2351,28 @@ async function handleLeaveEndEvent(
       communityId,
       leaveId,
       caspioId: existing.id,
+      episodeId,
       patchKeys: Object.keys(patch),
     },
-    'leave_end_event_applied_patch',
+    'leave_cancelled_event_applied_patch',
   );
 }
 
 /**
  * Main event handler - routes events by EventType
  */
+/**
+ * Apply an ALIS event to Caspio. The event was validated once at ingest (webhook, replay or issue
+ * retry) and is passed along typed. Call it inside the company's Caspio connection
+ * (`runWithCompanyCaspioClient`), as the process-alis-event worker does for the whole job. Pass the
+ * job's `residentData` so handlers reuse the worker's ALIS snapshot; without it a context is created
+ * for this call.
+ */
 export async function handleAlisEvent(
-  event: AlisEvent,
+  event: AlisNotificationEvent,
   companyId: number,
   companyKey: string,
+  residentData?: AlisResidentDataContext,
 ): Promise<void> {
   const eventMessageId = event.EventMessageId;
   const eventType = event.EventType;
@@ -2177,13 +2403,15 @@ export async function handleAlisEvent(
       return;
     }
 
+    const residentId = event.NotificationData.ResidentId;
+    const residentDataContext =
+      residentData ??
+      createAlisResidentDataContext({ companyId, companyKey, residentId, communityId });
+
     // Route by event type
-    switch (eventType) {
+    switch (event.EventType) {
       case 'residents.move_in':
-        {
-          const residentId = await extractResidentIdOrRecordIssue(event, companyId, communityId);
-          await handleMoveInEvent(event, companyId, companyKey, residentId, communityId);
-        }
+        await handleMoveInEvent(event, companyId, residentId, communityId, residentDataContext);
         break;
 
       case 'residents.leave_start':
@@ -2194,33 +2422,36 @@ export async function handleAlisEvent(
         await handleLeaveEndEvent(event, companyId, communityId);
         break;
 
+      case 'residents.leave_cancelled':
+        await handleLeaveCancelledEvent(event, companyId, communityId);
+        break;
+
       case 'residents.move_out':
-        {
-          const residentId = await extractResidentIdOrRecordIssue(event, companyId, communityId);
-          await handleMoveOutEvent(event, companyId, companyKey, residentId, communityId);
-        }
+        await handleMoveOutEvent(event, companyId, residentId, communityId);
+        break;
+
+      case 'resident.room_assigned':
+      case 'resident.room_changed':
+        await handleRoomAssignmentEvent(
+          event,
+          companyId,
+          residentId,
+          communityId,
+          residentDataContext,
+        );
         break;
 
       case 'resident.room_unassigned':
-        {
-          const residentId = await extractResidentIdOrRecordIssue(event, companyId, communityId);
-          await handleRoomUnassignedEvent(event, companyId, residentId, communityId);
-        }
+        await handleRoomUnassignedEvent(event, companyId, residentId, communityId);
         break;
 
       default:
-        {
-          const residentId = await extractResidentIdOrRecordIssue(event, companyId, communityId);
-          // All other event types (basic_info_updated, created, contact.updated, etc.)
-          await handleUpdateEvent(event, companyId, companyKey, residentId, communityId);
-        }
+        // All other event types (basic_info_updated, created, contact.updated, etc.)
+        await handleUpdateEvent(event, companyId, residentId, communityId, residentDataContext);
         break;
     }
 
-    logger.info(
-      { eventMessageId, eventType },
-      'handle_alis_event_completed',
-    );
+    logger.info({ eventMessageId, eventType }, 'handle_alis_event_completed');
   } catch (error) {
     logger.error(
       {
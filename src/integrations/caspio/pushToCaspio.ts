@@ -1,12 +1,12 @@
 import axios from 'axios';
 
-import { env } from '../../config/env.js';
 import { logger } from '../../config/logger.js';
-import {
-  caspioRequestWithRetry,
-  upsertByFields,
-} from './caspioClient.js';
+import { caspioRequestWithRetry, upsertByFields, type CaspioUpsertResult } from './caspioClient.js';
 import { getCommunityEnrichment } from './caspioCommunityEnrichment.js';
+import { caspioTableNames, currentCaspioClient } from './caspioConnection.js';
+import { runWithCompanyCaspioClient } from './companyCaspioClient.js';
+import type { CaspioLookupCache, CaspioLookupFilter } from './caspioLookupCache.js';
+import { runWithCaspioRequestPriority, type CaspioRequestPriority } from './requestBudget.js';
 import {
   mapCommunityRecord,
   mapPatientRecord,
@@ -19,9 +19,15 @@ import type { AlisPayload } from '../alis/types.js';
 
 type PushToCaspioOptions = {
   skipServiceUpsert?: boolean;
+  /** `bulk` for backfills, so they leave the reserved part of the Caspio budget to live events. */
+  priority?: CaspioRequestPriority;
+  /** Rows prefetched for a batch (see `createCaspioLookupCache`); upserts use them when they can. */
+  lookupCache?: CaspioLookupCache;
+  /** Writes through the company's Caspio connection instead of the current one. */
+  companyId?: number;
 };
 
-function classificationForServiceLineFromPayload(payload: AlisPayload): string {
+export function classificationForServiceLineFromPayload(payload: AlisPayload): string {
   const resident = payload.data.resident as Record<string, unknown> | undefined;
   const basicInfo = payload.data.basicInfo as Record<string, unknown> | undefined;
   for (const record of [resident, basicInfo]) {
@@ -49,6 +55,22 @@ function isCommunityCuidConflict(error: unknown): boolean {
   );
 }
 
+async function upsertWithLookupCache(
+  tableName: string,
+  filters: CaspioLookupFilter,
+  record: Record<string, unknown>,
+  lookupCache: CaspioLookupCache | undefined,
+): Promise<CaspioUpsertResult> {
+  const existing = lookupCache?.lookup(tableName, filters);
+  const result = await caspioRequestWithRetry(() =>
+    existing
+      ? upsertByFields(tableName, filters, record, { existing })
+      : upsertByFields(tableName, filters, record),
+  );
+  lookupCache?.remember(tableName, filters, result, record);
+  return result;
+}
+
 /**
  * Push ALIS payload to Caspio table
  * Validates payload, maps to new Caspio API table shapes, and upserts by PatientNumber/CUID
@@ -56,7 +78,17 @@ function isCommunityCuidConflict(error: unknown): boolean {
 export async function pushToCaspio(
   payload: AlisPayload,
   options: PushToCaspioOptions = {},
-): Promise<{ action: 'insert' | 'update'; id?: string }> {
+): Promise<CaspioUpsertResult> {
+  if (options.companyId !== undefined) {
+    const { companyId, ...rest } = options;
+    return runWithCompanyCaspioClient(companyId, () => pushToCaspio(payload, rest));
+  }
+
+  if (options.priority) {
+    const { priority, ...rest } = options;
+    return runWithCaspioRequestPriority(priority, () => pushToCaspio(payload, rest));
+  }
+
   // Validate payload
   if (payload.success !== true) {
     throw new Error(`Invalid payload: success must be true, got ${payload.success}`);
@@ -94,12 +126,11 @@ export async function pushToCaspio(
 
     if (communityRecord.CommunityID) {
       try {
-        await caspioRequestWithRetry(() =>
-          upsertByFields(
-            env.CASPIO_COMMUNITY_TABLE_NAME,
-            [{ field: 'CommunityID', value: String(communityRecord.CommunityID) }],
-            communityRecord,
-          ),
+        await upsertWithLookupCache(
+          caspioTableNames().community,
+          [{ field: 'CommunityID', value: String(communityRecord.CommunityID) }],
+          communityRecord,
+          options.lookupCache,
         );
       } catch (error) {
         if (!isCommunityCuidConflict(error)) {
@@ -125,12 +156,11 @@ export async function pushToCaspio(
       patientRecord.PatientNumber = residentId;
     }
 
-    const result = await caspioRequestWithRetry(() =>
-      upsertByFields(
-        env.CASPIO_TABLE_NAME,
-        [{ field: 'PatientNumber', value: patientRecord.PatientNumber! }],
-        patientRecord as Record<string, unknown>,
-      ),
+    const result = await upsertWithLookupCache(
+      caspioTableNames().patient,
+      [{ field: 'PatientNumber', value: patientRecord.PatientNumber! }],
+      patientRecord as Record<string, unknown>,
+      options.lookupCache,
     );
 
     if (!options.skipServiceUpsert) {
@@ -144,12 +174,11 @@ export async function pushToCaspio(
         communityName: patientRecord.CommunityName,
       });
 
-      await caspioRequestWithRetry(() =>
-        upsertByFields(
-          env.CASPIO_SERVICE_TABLE_NAME,
-          [{ field: 'Service_ID', value: serviceRecord.Service_ID }],
-          serviceRecord,
-        ),
+      await upsertWithLookupCache(
+        caspioTableNames().service,
+        [{ field: 'Service_ID', value: serviceRecord.Service_ID }],
+        serviceRecord,
+        options.lookupCache,
       );
     }
 
@@ -178,9 +207,9 @@ export async function pushToCaspio(
         status,
         message,
         caspio: {
-          baseUrl: env.CASPIO_BASE_URL,
-          tableName: env.CASPIO_TABLE_NAME,
-          serviceTableName: env.CASPIO_SERVICE_TABLE_NAME,
+          baseUrl: currentCaspioClient().baseUrl,
+          tableName: caspioTableNames().patient,
+          serviceTableName: caspioTableNames().service,
         },
         responseData,
         payload: redactForLogs(payload),
@@ -0,0 +1,200 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { env } from '../../config/env.js';
+import { logger } from '../../config/logger.js';
+import { getRedisConnection } from '../../workers/connection.js';
+
+import { currentCaspioConnectionKey } from './caspioConnection.js';
+import { DEFAULT_CASPIO_CONNECTION_KEY } from './tokenStore.js';
+
+/**
+ * Caspio request budget shared through Redis.
+ *
+ * All processes draw from one token bucket per Caspio connection that refills at `CASPIO_REQUEST_BUDGET_PER_SECOND` up
+ * to `CASPIO_REQUEST_BUDGET_BURST`. Bulk callers (backfills) may not take the last
+ * `CASPIO_REQUEST_BUDGET_LIVE_RESERVE` tokens, so live events keep moving while a backfill runs.
+ * Requests, and updates skipped as no-ops, are counted per connection and table for
+ * `GET /admin/caspio/requests`.
+ * If Redis is unavailable the call goes through unthrottled; the retry policy still covers a 429
+ * from Caspio.
+ */
+
+export type CaspioRequestPriority = 'live' | 'bulk';
+
+export type CaspioTableRequestMetrics = {
+  /** `default` for the env connection, otherwise the company connection's key. */
+  connection: string;
+  table: string;
+  requests: number;
+  liveRequests: number;
+  bulkRequests: number;
+  /** Requests that had to wait for the budget, and the total time they waited. */
+  throttledRequests: number;
+  throttleWaitMs: number;
+  retries: number;
+  failures: number;
+  /** Updates skipped because the row already held the patched values. */
+  unchangedUpdates: number;
+};
+
+const BUCKET_KEY = 'caspio:request-budget';
+const METRICS_TABLES_KEY = 'caspio:request-metrics:tables';
+
+const priorityContext = new AsyncLocalStorage<CaspioRequestPriority>();
+
+// Refills the bucket for the time since the last call and takes a token if one is left above the
+// reserve. Returns 0 when a token was taken, otherwise how long until one will be available.
+const TAKE_TOKEN_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local ratePerMs = tonumber(ARGV[2]) / 1000
+local now = tonumber(ARGV[3])
+local reserve = tonumber(ARGV[4])
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(bucket[1]) or capacity
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * ratePerMs)
+local waitMs = 0
+if tokens >= reserve + 1 then
+  tokens = tokens - 1
+else
+  waitMs = math.ceil((reserve + 1 - tokens) / ratePerMs)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / ratePerMs) + 1000)
+return waitMs`;
+
+function bucketKey(): string {
+  const connectionKey = currentCaspioConnectionKey();
+  return connectionKey === DEFAULT_CASPIO_CONNECTION_KEY
+    ? BUCKET_KEY
+    : `${BUCKET_KEY}:${connectionKey}`;
+}
+
+// Table names and connection keys never contain ':', so the env connection keeps its original
+// `<table>` member and other connections are stored as `<connection>:<table>`.
+function metricsMember(table: string): string {
+  const connectionKey = currentCaspioConnectionKey();
+  return connectionKey === DEFAULT_CASPIO_CONNECTION_KEY ? table : `${connectionKey}:${table}`;
+}
+
+function metricsKey(member: string): string {
+  return `caspio:request-metrics:${member}`;
+}
+
+/** Run `operation` with every Caspio request inside it drawing from the given priority. */
+export function runWithCaspioRequestPriority<T>(
+  priority: CaspioRequestPriority,
+  operation: () => Promise<T>,
+): Promise<T> {
+  return priorityContext.run(priority, operation);
+}
+
+export function currentCaspioRequestPriority(): CaspioRequestPriority {
+  return priorityContext.getStore() ?? 'live';
+}
+
+function logBudgetUnavailable(error: unknown): void {
+  logger.warn(
+    { error: error instanceof Error ? error.message : String(error) },
+    'caspio_request_budget_unavailable',
+  );
+}
+
+async function takeToken(priority: CaspioRequestPriority): Promise<number> {
+  const perSecond = env.CASPIO_REQUEST_BUDGET_PER_SECOND;
+  if (!perSecond || perSecond <= 0) return 0;
+
+  const burst = Math.max(1, env.CASPIO_REQUEST_BUDGET_BURST ?? perSecond);
+  const reserve =
+    priority === 'bulk' ? Math.min(env.CASPIO_REQUEST_BUDGET_LIVE_RESERVE ?? 0, burst - 1) : 0;
+  const waitMs = await getRedisConnection().eval(
+    TAKE_TOKEN_SCRIPT,
+    1,
+    bucketKey(),
+    burst,
+    perSecond,
+    Date.now(),
+    reserve,
+  );
+  return Number(waitMs);
+}
+
+/**
+ * Resolves once the current caller may send a request to `table`; returns how long it waited.
+ */
+export async function acquireCaspioRequestSlot(table: string): Promise<number> {
+  const priority = currentCaspioRequestPriority();
+  const startedAt = Date.now();
+
+  for (;;) {
+    let waitMs: number;
+    try {
+      waitMs = await takeToken(priority);
+    } catch (error) {
+      logBudgetUnavailable(error);
+      break;
+    }
+    if (waitMs <= 0) break;
+    await new Promise((resolve) => setTimeout(resolve, waitMs));
+  }
+
+  const waitedMs = Date.now() - startedAt;
+  await incrementMetrics(table, {
+    requests: 1,
+    [priority === 'bulk' ? 'bulkRequests' : 'liveRequests']: 1,
+    ...(waitedMs > 0 ? { throttledRequests: 1, throttleWaitMs: waitedMs } : {}),
+  });
+  return waitedMs;
+}
+
+const OUTCOME_COUNTERS = {
+  retry: 'retries',
+  failure: 'failures',
+  unchanged: 'unchangedUpdates',
+} as const;
+
+export async function recordCaspioRequestOutcome(
+  table: string,
+  outcome: keyof typeof OUTCOME_COUNTERS,
+): Promise<void> {
+  await incrementMetrics(table, { [OUTCOME_COUNTERS[outcome]]: 1 });
+}
+
+async function incrementMetrics(table: string, increments: Record<string, number>): Promise<void> {
+  try {
+    const member = metricsMember(table);
+    const pipeline = getRedisConnection().multi().sadd(METRICS_TABLES_KEY, member);
+    for (const [field, value] of Object.entries(increments)) {
+      pipeline.hincrby(metricsKey(member), field, value);
+    }
+    await pipeline.exec();
+  } catch (error) {
+    logBudgetUnavailable(error);
+  }
+}
+
+/** Request counters per Caspio connection and table, across all processes. */
+export async function getCaspioRequestMetrics(): Promise<CaspioTableRequestMetrics[]> {
+  const redis = getRedisConnection();
+  const members = (await redis.smembers(METRICS_TABLES_KEY)).sort();
+
+  return Promise.all(
+    members.map(async (member) => {
+      const counters = await redis.hgetall(metricsKey(member));
+      const read = (field: string) => Number(counters[field] ?? 0);
+      const separator = member.indexOf(':');
+      return {
+        connection: separator < 0 ? DEFAULT_CASPIO_CONNECTION_KEY : member.slice(0, separator),
+        table: separator < 0 ? member : member.slice(separator + 1),
+        requests: read('requests'),
+        liveRequests: read('liveRequests'),
+        bulkRequests: read('bulkRequests'),
+        throttledRequests: read('throttledRequests'),
+        throttleWaitMs: read('throttleWaitMs'),
+        retries: read('retries'),
+        failures: read('failures'),
+        unchangedUpdates: read('unchangedUpdates'),
+      };
+    }),
+  );
+}
@@ -0,0 +1,167 @@
+import { randomUUID } from 'node:crypto';
+
+import { logger } from '../../config/logger.js';
+import { getRedisConnection } from '../../workers/connection.js';
+
+/**
+ * Caspio OAuth token shared through Redis.
+ *
+ * The web server and every worker read the same token, and only the process holding the refresh
+ * lock mints a new one; the others wait for it to appear. If Redis is unavailable, or the lock
+ * holder does not store a token in time, the process mints its own token as before. Each Caspio
+ * connection has its own token; the env connection keeps the original keys.
+ */
+
+export type CaspioAccessToken = {
+  token: string;
+  expiresAt: number;
+};
+
+export const DEFAULT_CASPIO_CONNECTION_KEY = 'default';
+
+const REFRESH_LOCK_TTL_MS = 10_000;
+const REFRESH_POLL_INTERVAL_MS = 200;
+
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+const CLEAR_TOKEN_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'token') == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+function tokenKey(connectionKey: string): string {
+  return connectionKey === DEFAULT_CASPIO_CONNECTION_KEY
+    ? 'caspio:oauth:token'
+    : `caspio:oauth:token:${connectionKey}`;
+}
+
+function refreshLockKey(connectionKey: string): string {
+  return `${tokenKey(connectionKey)}:refresh-lock`;
+}
+
+async function readSharedToken(
+  connectionKey: string,
+  minValidityMs: number,
+): Promise<CaspioAccessToken | null> {
+  const stored = await getRedisConnection().hgetall(tokenKey(connectionKey));
+  const expiresAt = Number(stored.expiresAt);
+  if (!stored.token || !Number.isFinite(expiresAt) || expiresAt - Date.now() <= minValidityMs) {
+    return null;
+  }
+  return { token: stored.token, expiresAt };
+}
+
+async function storeSharedToken(connectionKey: string, token: CaspioAccessToken): Promise<void> {
+  const ttlMs = token.expiresAt - Date.now();
+  if (ttlMs <= 0) return;
+  const key = tokenKey(connectionKey);
+  await getRedisConnection()
+    .multi()
+    .hset(key, { token: token.token, expiresAt: String(token.expiresAt) })
+    .pexpire(key, ttlMs)
+    .exec();
+}
+
+async function waitForSharedToken(
+  connectionKey: string,
+  minValidityMs: number,
+): Promise<CaspioAccessToken | null> {
+  const deadline = Date.now() + REFRESH_LOCK_TTL_MS;
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, REFRESH_POLL_INTERVAL_MS));
+    const shared = await readSharedToken(connectionKey, minValidityMs);
+    if (shared) return shared;
+  }
+  return null;
+}
+
+function logStoreUnavailable(error: unknown): void {
+  logger.warn(
+    { error: error instanceof Error ? error.message : String(error) },
+    'caspio_token_store_unavailable',
+  );
+}
+
+/**
+ * Returns the shared token if it is valid for at least `minValidityMs`, otherwise mints one with
+ * `mint` under the refresh lock. Errors from `mint` are passed through.
+ */
+export async function getSharedCaspioToken(
+  mint: () => Promise<CaspioAccessToken>,
+  minValidityMs: number,
+  connectionKey = DEFAULT_CASPIO_CONNECTION_KEY,
+): Promise<CaspioAccessToken> {
+  const lockKey = refreshLockKey(connectionKey);
+  const lockId = randomUUID();
+  let holdsLock = false;
+
+  try {
+    const shared = await readSharedToken(connectionKey, minValidityMs);
+    if (shared) return shared;
+
+    const acquired = await getRedisConnection().set(
+      lockKey,
+      lockId,
+      'PX',
+      REFRESH_LOCK_TTL_MS,
+      'NX',
+    );
+    if (acquired) {
+      holdsLock = true;
+      // Another process may have stored a token between the read and the lock.
+      const refreshed = await readSharedToken(connectionKey, minValidityMs);
+      if (refreshed) {
+        await getRedisConnection().eval(RELEASE_LOCK_SCRIPT, 1, lockKey, lockId);
+        return refreshed;
+      }
+    } else {
+      const awaited = await waitForSharedToken(connectionKey, minValidityMs);
+      if (awaited) return awaited;
+      logger.warn({ lockTtlMs: REFRESH_LOCK_TTL_MS }, 'caspio_token_refresh_lock_timeout');
+    }
+  } catch (error) {
+    logStoreUnavailable(error);
+  }
+
+  try {
+    const token = await mint();
+    await storeSharedToken(connectionKey, token).catch(logStoreUnavailable);
+    return token;
+  } finally {
+    if (holdsLock) {
+      await getRedisConnection()
+        .eval(RELEASE_LOCK_SCRIPT, 1, lockKey, lockId)
+        .catch(logStoreUnavailable);
+    }
+  }
+}
+
+/**
+ * Drop a token Caspio rejected, unless another process has already replaced it.
+ */
+export async function clearSharedCaspioToken(
+  token: string,
+  connectionKey = DEFAULT_CASPIO_CONNECTION_KEY,
+): Promise<void> {
+  try {
+    await getRedisConnection().eval(CLEAR_TOKEN_SCRIPT, 1, tokenKey(connectionKey), token);
+  } catch (error) {
+    logStoreUnavailable(error);
+  }
+}
+
+/**
+ * Drop a connection's token whatever it holds, once the connection's account or client changed.
+ */
+export async function discardSharedCaspioToken(connectionKey: string): Promise<void> {
+  try {
+    await getRedisConnection().del(tokenKey(connectionKey));
+  } catch (error) {
+    logStoreUnavailable(error);
+  }
+}
@@ -0,0 +1,117 @@
+import path from 'node:path';
+
+import { env } from '../config/env.js';
+import { logger } from '../config/logger.js';
+import { createAlisFixtureStore, loadAlisFixtureSeed } from '../simulator/alisFixtures.js';
+import { createAlisSimulatorApp } from '../simulator/alisSimulator.js';
+import {
+  ALIS_SCENARIOS,
+  isAlisScenarioName,
+  runAlisScenario,
+  type AlisScenarioName,
+} from '../simulator/alisScenarios.js';
+
+type SimulatorOptions = {
+  port: number;
+  fixtures?: string;
+  webhookUrl: string;
+  webhookUser: string;
+  webhookPass: string;
+  signingSecret?: string;
+  scenario?: AlisScenarioName;
+  residentId?: number;
+  delayMs: number;
+};
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  const store = createAlisFixtureStore(
+    options.fixtures ? loadAlisFixtureSeed(path.resolve(options.fixtures)) : undefined,
+  );
+  const webhookTarget = {
+    url: options.webhookUrl,
+    username: options.webhookUser,
+    password: options.webhookPass,
+    signingSecret: options.signingSecret,
+  };
+
+  // Accept the same credentials the integration uses for ALIS_TEST_* lookups.
+  const app = createAlisSimulatorApp(store, {
+    username: env.ALIS_TEST_USERNAME,
+    password: env.ALIS_TEST_PASSWORD,
+    webhookTarget,
+  });
+
+  const server = app.listen(options.port, () => {
+    logger.info(
+      {
+        port: options.port,
+        companyKey: store.companyKey,
+        residents: store.residents.size,
+        webhookUrl: options.webhookUrl,
+      },
+      'alis_simulator_started',
+    );
+    console.log(`\nALIS simulator listening on http://localhost:${options.port}`);
+    console.log(`Set ALIS_API_BASE=http://localhost:${options.port} for the server and worker.`);
+    console.log(`Scenarios: POST /simulator/scenarios/{${ALIS_SCENARIOS.join('|')}}\n`);
+  });
+
+  process.on('SIGTERM', () => server.close());
+  process.on('SIGINT', () => server.close());
+
+  if (options.scenario) {
+    const result = await runAlisScenario(options.scenario, store, webhookTarget, {
+      residentId: options.residentId,
+      delayMs: options.delayMs,
+    });
+    logger.info(result, 'alis_simulator_scenario_completed');
+  }
+}
+
+function parseArgs(args: string[]): SimulatorOptions {
+  const lookup = new Map<string, string>();
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    const next = args[i + 1];
+    if (arg.startsWith('--') && next && !next.startsWith('--')) {
+      lookup.set(arg.slice(2), next);
+      i += 1;
+    }
+  }
+
+  const scenario = lookup.get('scenario');
+  if (scenario && !isAlisScenarioName(scenario)) {
+    throw new Error(`--scenario must be one of ${ALIS_SCENARIOS.join(', ')}`);
+  }
+
+  return {
+    port: Number(lookup.get('port') ?? 4010),
+    fixtures: lookup.get('fixtures'),
+    webhookUrl: lookup.get('webhookUrl') ?? `http://localhost:${env.PORT}/webhook/alis`,
+    webhookUser: lookup.get('webhookUser') ?? env.WEBHOOK_BASIC_USER,
+    webhookPass: lookup.get('webhookPass') ?? env.WEBHOOK_BASIC_PASS,
+    signingSecret: lookup.get('signingSecret'),
+    scenario: scenario as AlisScenarioName | undefined,
+    residentId: lookup.has('residentId') ? Number(lookup.get('residentId')) : undefined,
+    delayMs: Number(lookup.get('delayMs') ?? 1000),
+  };
+}
+
+const isMainModule = import.meta.url === pathToFileUrl(process.argv[1] ?? '').href;
+
+function pathToFileUrl(filePath: string): URL {
+  if (filePath.startsWith('file://')) {
+    return new URL(filePath);
+  }
+  return new URL(`file://${path.resolve(filePath)}`);
+}
+
+if (isMainModule) {
+  main().catch((error) => {
+    logger.error({ error }, 'alis_simulator_failed');
+    process.exit(1);
+  });
+}
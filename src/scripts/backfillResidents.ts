@@ -5,15 +5,16 @@ import { logger } from '../config/logger.js';
 import {
   createAlisClient,
   resolveAlisCredentials,
-  type ListResidentsParams,
 } from '../integrations/alisClient.js';
 import { buildCaspioPayload, normalizeResident } from '../integrations/mappers.js';
 import { sendResidentToCaspio } from '../integrations/caspioClient.js';
 import { upsertResident } from '../domains/residents.js';
+import { closeRedisConnection } from '../workers/connection.js';
 
 type BackfillOptions = {
   companyKey: string;
   communityId?: number;
+  status?: string;
   pageSize: number;
   dryRun: boolean;
   skipCaspio: boolean;
@@ -29,72 +30,67 @@ async function main(): Promise<void> {
   });
 
   const credentials = await resolveAlisCredentials(company.id, options.companyKey);
-  const alisClient = createAlisClient(credentials);
+  const alisClient = createAlisClient(credentials, {
+    budgetKey: options.companyKey,
+    schemaDrift: { companyId: company.id },
+  });
 
-  let page = 1;
   let processed = 0;
-  let hasMore = true;
-
-  while (hasMore) {
-    const params: ListResidentsParams = {
-      companyKey: options.companyKey,
-      communityId: options.communityId,
-      page,
-      pageSize: options.pageSize,
-    };
-
-    const { residents, hasMore: nextPage } = await alisClient.listResidents(params);
+  const residents = alisClient.iterateResidents({
+    companyKey: options.companyKey,
+    communityId: options.communityId,
+    status: options.status,
+    pageSize: options.pageSize,
+    onPage: (progress) => {
+      logger.info(
+        { companyKey: options.companyKey, ...progress },
+        'backfill_page_fetched',
+      );
+    },
+  });
 
-    if (!residents.length) {
-      break;
+  for await (const resident of residents) {
+    const residentId = resident.ResidentId ?? resident.residentId;
+    if (!residentId) {
+      logger.warn({ message: 'Skipping resident without ResidentId' }, 'backfill_skip_record');
+      continue;
     }
 
-    for (const resident of residents) {
-      const residentId = resident.ResidentId ?? resident.residentId;
-      if (!residentId) {
-        logger.warn({ message: 'Skipping resident without ResidentId' }, 'backfill_skip_record');
-        continue;
-      }
-
-      const [detail, basicInfo] = await Promise.all([
-        alisClient.getResident(residentId),
-        alisClient.getResidentBasicInfo(residentId),
-      ]);
+    const [detail, basicInfo] = await Promise.all([
+      alisClient.getResident(residentId),
+      alisClient.getResidentBasicInfo(residentId),
+    ]);
 
-      const normalized = normalizeResident({ detail, basicInfo });
+    const normalized = normalizeResident({ detail, basicInfo });
 
-      if (options.dryRun) {
-        logger.info(
-          { residentId: normalized.alisResidentId, status: normalized.status },
-          'backfill_dry_run_resident',
-        );
-        processed += 1;
-        continue;
-      }
-
-      await upsertResident(company.id, normalized);
+    if (options.dryRun) {
+      logger.info(
+        { residentId: normalized.alisResidentId, status: normalized.status },
+        'backfill_dry_run_resident',
+      );
+      processed += 1;
+      continue;
+    }
 
-      if (!options.skipCaspio) {
-        const payload = buildCaspioPayload({
-          resident: normalized,
-          companyKey: options.companyKey,
-          communityId: options.communityId ?? null,
-          eventType: 'backfill.resident',
-          eventMessageId: `backfill-${options.companyKey}-${normalized.alisResidentId}`,
-          eventTimestamp: new Date().toISOString(),
-          leave: null,
-        });
+    await upsertResident(company.id, normalized);
 
-        await sendResidentToCaspio(payload);
+    if (!options.skipCaspio) {
+      const payload = buildCaspioPayload({
+        resident: normalized,
+        companyKey: options.companyKey,
+        communityId: options.communityId ?? null,
+        eventType: 'backfill.resident',
+        eventMessageId: `backfill-${options.companyKey}-${normalized.alisResidentId}`,
+        eventTimestamp: new Date().toISOString(),
+        leave: null,
+      });
 
-        await delay(250);
-      }
+      await sendResidentToCaspio(payload);
 
-      processed += 1;
+      await delay(250);
     }
 
-    page += 1;
-    hasMore = nextPage;
+    processed += 1;
   }
 
   logger.info(
@@ -143,6 +139,7 @@ function parseArgs(args: string[]): BackfillOptions {
   return {
     companyKey,
     communityId: Number.isFinite(communityId) ? communityId : undefined,
+    status: lookup.get('status'),
     pageSize: Number.isFinite(pageSize) ? pageSize : 50,
     dryRun: flags.has('dryRun') || flags.has('dry-run'),
     skipCaspio: flags.has('skipCaspio') || flags.has('skip-caspio'),
@@ -172,5 +169,6 @@ if (isMainModule) {
     })
     .finally(async () => {
       await prisma.$disconnect();
+      await closeRedisConnection();
     });
 }
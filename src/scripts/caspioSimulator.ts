@@ -0,0 +1,79 @@
+import path from 'node:path';
+
+import { env } from '../config/env.js';
+import { logger } from '../config/logger.js';
+import { createCaspioSimulator } from '../simulator/caspioSimulator.js';
+import { createCaspioTableStore, loadCaspioTableSeed } from '../simulator/caspioTables.js';
+
+type SimulatorOptions = {
+  port: number;
+  fixtures?: string;
+};
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+
+  const store = createCaspioTableStore(
+    options.fixtures ? loadCaspioTableSeed(path.resolve(options.fixtures)) : undefined,
+  );
+
+  // Accept the same client credentials the integration sends to the token endpoint.
+  const { app } = createCaspioSimulator(store, {
+    clientId: env.CASPIO_CLIENT_ID,
+    clientSecret: env.CASPIO_CLIENT_SECRET,
+  });
+
+  const server = app.listen(options.port, () => {
+    logger.info(
+      {
+        port: options.port,
+        tables: [...store.tables.values()].map((table) => table.name),
+      },
+      'caspio_simulator_started',
+    );
+    console.log(`\nCaspio simulator listening on http://localhost:${options.port}`);
+    console.log(
+      `Set CASPIO_BASE_URL=http://localhost:${options.port} and CASPIO_TOKEN_URL=http://localhost:${options.port}/oauth/token for the server and worker.`,
+    );
+    console.log('Failures: POST /simulator/failures, tables: GET /simulator/tables\n');
+  });
+
+  process.on('SIGTERM', () => server.close());
+  process.on('SIGINT', () => server.close());
+}
+
+function parseArgs(args: string[]): SimulatorOptions {
+  const lookup = new Map<string, string>();
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    const next = args[i + 1];
+    if (arg.startsWith('--') && next && !next.startsWith('--')) {
+      lookup.set(arg.slice(2), next);
+      i += 1;
+    }
+  }
+
+  return {
+    port: Number(lookup.get('port') ?? 4020),
+    fixtures: lookup.get('fixtures'),
+  };
+}
+
+const isMainModule = import.meta.url === pathToFileUrl(process.argv[1] ?? '').href;
+
+function pathToFileUrl(filePath: string): URL {
+  if (filePath.startsWith('file://')) {
+    return new URL(filePath);
+  }
+  return new URL(`file://${path.resolve(filePath)}`);
+}
+
+if (isMainModule) {
+  try {
+    main();
+  } catch (error) {
+    logger.error({ error }, 'caspio_simulator_failed');
+    process.exit(1);
+  }
+}
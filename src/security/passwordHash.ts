@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const SCHEME = 'scrypt';
+const KEY_BYTES = 64;
+const SALT_BYTES = 16;
+const COST = 16384;
+
+// Async so hashing (~50ms at this cost) runs on the libuv pool instead of blocking webhook traffic.
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions,
+) => Promise<Buffer>;
+
+/**
+ * Hash a secret with scrypt. The output encodes scheme, cost, salt and digest
+ * (`scrypt$<N>$<salt>$<hash>`) so the cost can be raised without breaking old hashes.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const digest = await scrypt(password, salt, KEY_BYTES, { N: COST });
+  return [SCHEME, COST, salt.toString('base64'), digest.toString('base64')].join('$');
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [scheme, costRaw, saltB64, digestB64] = storedHash.split('$');
+  if (scheme !== SCHEME || !costRaw || !saltB64 || !digestB64) {
+    return false;
+  }
+
+  const cost = Number(costRaw);
+  if (!Number.isInteger(cost) || cost <= 1) {
+    return false;
+  }
+
+  const expected = Buffer.from(digestB64, 'base64');
+  const actual = await scrypt(password, Buffer.from(saltB64, 'base64'), expected.length, {
+    N: cost,
+  });
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export function generateSecret(bytes = 24): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
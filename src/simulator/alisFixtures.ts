@@ -0,0 +1,195 @@
+import fs from 'node:fs';
+
+import type {
+  AlisCommunity,
+  AlisContact,
+  AlisDiagnosesAndAllergies,
+  AlisInsurance,
+  AlisLeave,
+  AlisResidentBasicInfo,
+  AlisResidentDetail,
+  AlisRoomAssignment,
+} from '../integrations/alisClient.js';
+
+/**
+ * Fixture data served by the local ALIS simulator, shaped like the ALIS integration API.
+ * Scenarios mutate the store before each webhook so the worker's re-fetches see the change.
+ */
+
+export type AlisFixtureResident = {
+  resident: AlisResidentDetail & { CommunityId?: number };
+  basicInfo: AlisResidentBasicInfo;
+  leaves: AlisLeave[];
+  insurance: AlisInsurance[];
+  roomAssignments: AlisRoomAssignment[];
+  diagnosesAndAllergies: AlisDiagnosesAndAllergies;
+  contacts: AlisContact[];
+};
+
+export type AlisFixtureSeed = {
+  companyKey: string;
+  communities: AlisCommunity[];
+  residents: AlisFixtureResident[];
+};
+
+export type AlisFixtureStore = {
+  companyKey: string;
+  communities: AlisCommunity[];
+  residents: Map<number, AlisFixtureResident>;
+  /** Next id handed out to residents, leaves and room assignments created by scenarios. */
+  nextId: number;
+};
+
+export const SIMULATOR_COMPANY_KEY = 'simulator';
+export const SIMULATOR_COMMUNITY_ID = 113;
+
+function fixtureResident(
+  residentId: number,
+  firstName: string,
+  lastName: string,
+  roomNumber: string,
+): AlisFixtureResident {
+  const moveInDate = '2025-06-01T00:00:00Z';
+  const rooms = [{ RoomNumber: roomNumber, Bed: 'A', IsPrimary: true, StartDate: moveInDate }];
+  return {
+    resident: {
+      ResidentId: residentId,
+      CommunityId: SIMULATOR_COMMUNITY_ID,
+      Status: 'CurrentResident',
+      FirstName: firstName,
+      LastName: lastName,
+      DateOfBirth: '1941-03-14',
+      Classification: 'Assisted Living',
+      ProductType: 'Apartment',
+      Rooms: rooms,
+      PhysicalMoveInDate: moveInDate,
+      FinancialMoveInDate: moveInDate,
+      IsOnLeave: false,
+      UpdatedAtUtc: moveInDate,
+    },
+    basicInfo: {
+      ResidentId: residentId,
+      Classification: 'Assisted Living',
+      ProductType: 'Apartment',
+      Rooms: rooms,
+      PhysicalMoveInDate: moveInDate,
+      FinancialMoveInDate: moveInDate,
+    },
+    leaves: [],
+    insurance: [
+      {
+        InsuranceId: residentId * 10 + 1,
+        InsuranceName: 'Medicare',
+        InsuranceType: 'Primary',
+        AccountNumber: `1EG4-TE5-MK${residentId}`,
+        EffectiveDate: '2024-01-01',
+      },
+    ],
+    roomAssignments: [
+      {
+        RoomAssignmentId: residentId * 10 + 2,
+        RoomNumber: roomNumber,
+        AssignmentDate: moveInDate,
+        StartDate: moveInDate,
+        IsPrimary: true,
+      },
+    ],
+    diagnosesAndAllergies: {
+      ResidentId: residentId,
+      StructuredDiagnoses: [],
+      PrimaryDiagnoses: 'Hypertension',
+      SecondaryDiagnoses: '',
+      Diet: 'Regular',
+      FoodAllergies: 'None',
+      MedicalAllergies: 'Penicillin',
+      IsDiabetic: false,
+      IsIncontinent: false,
+      IncontinenceNotes: null,
+    },
+    contacts: [
+      {
+        ContactId: residentId * 10 + 3,
+        FirstName: 'Jordan',
+        LastName: lastName,
+        RelationshipType: 'Child',
+        PhoneNumber: '555-0100',
+        Email: `jordan.${lastName.toLowerCase()}@example.com`,
+      },
+    ],
+  };
+}
+
+export function defaultAlisFixtureSeed(): AlisFixtureSeed {
+  return {
+    companyKey: SIMULATOR_COMPANY_KEY,
+    communities: [
+      {
+        CommunityId: SIMULATOR_COMMUNITY_ID,
+        CommunityName: 'Simulator Gardens',
+        CompanyKey: SIMULATOR_COMPANY_KEY,
+        Address: '100 Main St',
+        City: 'Springfield',
+        State: 'OR',
+        ZipCode: '97477',
+        Phone: '555-0113',
+      },
+    ],
+    residents: [
+      fixtureResident(70501, 'Ada', 'Lovelace', '101'),
+      fixtureResident(70502, 'Grace', 'Hopper', '102'),
+      fixtureResident(70503, 'Alan', 'Turing', '103'),
+    ],
+  };
+}
+
+export function createAlisFixtureStore(
+  seed: AlisFixtureSeed = defaultAlisFixtureSeed(),
+): AlisFixtureStore {
+  // Deep copy so scenarios never mutate the seed.
+  const copy = structuredClone(seed);
+  const residents = new Map(copy.residents.map((entry) => [entry.resident.ResidentId, entry]));
+  return {
+    companyKey: copy.companyKey,
+    communities: copy.communities,
+    residents,
+    nextId: Math.max(80000, ...residents.keys()) + 1,
+  };
+}
+
+/** Seed from a JSON file with the same shape as `defaultAlisFixtureSeed()`. */
+export function loadAlisFixtureSeed(filePath: string): AlisFixtureSeed {
+  const seed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Partial<AlisFixtureSeed>;
+  if (!seed.companyKey || !Array.isArray(seed.communities) || !Array.isArray(seed.residents)) {
+    throw new Error(`${filePath} must have companyKey, communities and residents`);
+  }
+  return seed as AlisFixtureSeed;
+}
+
+export function createFixtureResident(
+  store: AlisFixtureStore,
+  firstName: string,
+  lastName: string,
+  roomNumber: string,
+  communityId = SIMULATOR_COMMUNITY_ID,
+): AlisFixtureResident {
+  const entry = fixtureResident(store.nextId, firstName, lastName, roomNumber);
+  store.nextId += 1;
+  entry.resident.CommunityId = communityId;
+  store.residents.set(entry.resident.ResidentId, entry);
+  return entry;
+}
+
+/** Residents of a page of `GET /residents`, optionally filtered by community and status. */
+export function listFixtureResidents(
+  store: AlisFixtureStore,
+  filters: { communityId?: number; status?: string },
+): AlisResidentDetail[] {
+  return [...store.residents.values()]
+    .map((entry) => entry.resident)
+    .filter(
+      (resident) =>
+        (filters.communityId === undefined || resident.CommunityId === filters.communityId) &&
+        (!filters.status || resident.Status === filters.status),
+    )
+    .sort((a, b) => a.ResidentId - b.ResidentId);
+}
@@ -0,0 +1,320 @@
+import crypto from 'node:crypto';
+
+import { createHttpClient } from '../config/axios.js';
+import { logger } from '../config/logger.js';
+import {
+  computeWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '../http/middleware/verifyWebhookSignature.js';
+
+import {
+  createFixtureResident,
+  SIMULATOR_COMMUNITY_ID,
+  type AlisFixtureResident,
+  type AlisFixtureStore,
+} from './alisFixtures.js';
+
+/**
+ * Scripted resident lifecycles for the ALIS simulator. Each step changes the fixture store the way
+ * ALIS would, then posts the matching webhook, so the worker's ALIS re-fetch sees the new state.
+ */
+
+export const ALIS_SCENARIOS = ['move-in', 'leave', 'room-change', 'move-out', 'lifecycle'] as const;
+
+export type AlisScenarioName = (typeof ALIS_SCENARIOS)[number];
+
+export type AlisWebhookTarget = {
+  url: string;
+  username: string;
+  password: string;
+  /** Signs each webhook like ALIS when the company has a signing secret. */
+  signingSecret?: string;
+};
+
+export type AlisScenarioOptions = {
+  /** Existing resident for leave, room-change and move-out; defaults to the first current one. */
+  residentId?: number;
+  communityId?: number;
+  /** Pause between webhooks, so each event is processed before the next arrives. */
+  delayMs?: number;
+};
+
+export type AlisScenarioEvent = {
+  CompanyKey: string;
+  CommunityId: number | null;
+  EventType: string;
+  EventMessageId: string;
+  EventMessageDate: string;
+  NotificationData: Record<string, unknown>;
+};
+
+export type AlisScenarioResult = {
+  scenario: AlisScenarioName;
+  residentId: number;
+  events: Array<{ eventType: string; eventMessageId: string; status: number; body: unknown }>;
+};
+
+type ScenarioStep = (
+  entry: AlisFixtureResident,
+  store: AlisFixtureStore,
+  at: string,
+) => { eventType: string; notificationData: Record<string, unknown> };
+
+export function isAlisScenarioName(value: string): value is AlisScenarioName {
+  return (ALIS_SCENARIOS as readonly string[]).includes(value);
+}
+
+function primaryRoom(entry: AlisFixtureResident): string | undefined {
+  return entry.resident.Rooms?.[0]?.RoomNumber;
+}
+
+function setRooms(entry: AlisFixtureResident, roomNumber: string | null, at: string): void {
+  const rooms = roomNumber
+    ? [{ RoomNumber: roomNumber, Bed: 'A', IsPrimary: true, StartDate: at }]
+    : [];
+  entry.resident.Rooms = rooms;
+  entry.basicInfo.Rooms = rooms;
+  for (const assignment of entry.roomAssignments) {
+    assignment.EndDate = assignment.EndDate ?? at;
+  }
+}
+
+const created: ScenarioStep = (entry, _store, at) => {
+  entry.resident.Status = 'Prospect';
+  entry.resident.UpdatedAtUtc = at;
+  setRooms(entry, null, at);
+  entry.roomAssignments = [];
+  return {
+    eventType: 'residents.created',
+    notificationData: { ResidentId: entry.resident.ResidentId },
+  };
+};
+
+const moveIn: ScenarioStep = (entry, _store, at) => {
+  Object.assign(entry.resident, {
+    Status: 'CurrentResident',
+    PhysicalMoveInDate: at,
+    FinancialMoveInDate: at,
+    UpdatedAtUtc: at,
+  });
+  Object.assign(entry.basicInfo, { PhysicalMoveInDate: at, FinancialMoveInDate: at });
+  return {
+    eventType: 'residents.move_in',
+    notificationData: { ResidentId: entry.resident.ResidentId },
+  };
+};
+
+function roomAssigned(roomNumber: string): ScenarioStep {
+  return (entry, store, at) => {
+    setRooms(entry, roomNumber, at);
+    entry.roomAssignments.push({
+      RoomAssignmentId: store.nextId++,
+      RoomNumber: roomNumber,
+      AssignmentDate: at,
+      StartDate: at,
+      IsPrimary: true,
+    });
+    return {
+      eventType: 'resident.room_assigned',
+      notificationData: { ResidentId: entry.resident.ResidentId, RoomNumber: roomNumber },
+    };
+  };
+}
+
+const leaveStart: ScenarioStep = (entry, store, at) => {
+  const leaveId = store.nextId++;
+  entry.leaves.push({
+    LeaveId: leaveId,
+    ResidentId: entry.resident.ResidentId,
+    StartDate: at,
+    Reason: 'Hospital',
+    Status: 'Active',
+  });
+  Object.assign(entry.resident, { IsOnLeave: true, OnLeaveStartDateUtc: at, UpdatedAtUtc: at });
+  return {
+    eventType: 'residents.leave_start',
+    notificationData: {
+      ResidentId: entry.resident.ResidentId,
+      LeaveId: leaveId,
+      StartDateTime: at,
+    },
+  };
+};
+
+const leaveEnd: ScenarioStep = (entry, _store, at) => {
+  const leave = entry.leaves.find((candidate) => !candidate.EndDate);
+  if (leave) {
+    leave.EndDate = at;
+    leave.Status = 'Completed';
+  }
+  Object.assign(entry.resident, {
+    IsOnLeave: false,
+    OnLeaveStartDateUtc: undefined,
+    UpdatedAtUtc: at,
+  });
+  return {
+    eventType: 'residents.leave_end',
+    notificationData: {
+      ResidentId: entry.resident.ResidentId,
+      ...(leave ? { LeaveId: leave.LeaveId } : {}),
+      EndDateTime: at,
+    },
+  };
+};
+
+const roomChanged: ScenarioStep = (entry, store, at) => {
+  const previous = primaryRoom(entry) ?? '101';
+  const next = String((Number.parseInt(previous, 10) || 100) + 100);
+  setRooms(entry, next, at);
+  entry.roomAssignments.push({
+    RoomAssignmentId: store.nextId++,
+    RoomNumber: next,
+    AssignmentDate: at,
+    StartDate: at,
+    IsPrimary: true,
+  });
+  entry.resident.UpdatedAtUtc = at;
+  return {
+    eventType: 'resident.room_changed',
+    notificationData: {
+      ResidentId: entry.resident.ResidentId,
+      AssignedRoom: next,
+      UnassignedRoom: previous,
+    },
+  };
+};
+
+const moveOut: ScenarioStep = (entry, _store, at) => {
+  Object.assign(entry.resident, { Status: 'FormerResident', UpdatedAtUtc: at });
+  setRooms(entry, null, at);
+  return {
+    eventType: 'residents.move_out',
+    notificationData: { ResidentId: entry.resident.ResidentId },
+  };
+};
+
+const SCENARIO_STEPS: Record<AlisScenarioName, ScenarioStep[]> = {
+  'move-in': [created, moveIn, roomAssigned('104')],
+  leave: [leaveStart, leaveEnd],
+  'room-change': [roomChanged],
+  'move-out': [moveOut],
+  lifecycle: [created, moveIn, roomAssigned('104'), leaveStart, leaveEnd, roomChanged, moveOut],
+};
+
+export function resolveScenarioResident(
+  scenario: AlisScenarioName,
+  store: AlisFixtureStore,
+  options: AlisScenarioOptions,
+): AlisFixtureResident {
+  if (scenario === 'move-in' || scenario === 'lifecycle') {
+    return createFixtureResident(
+      store,
+      'Sim',
+      `Resident${store.nextId}`,
+      '104',
+      options.communityId,
+    );
+  }
+
+  if (options.residentId !== undefined) {
+    const entry = store.residents.get(options.residentId);
+    if (!entry) throw new Error(`Resident ${options.residentId} is not in the simulator fixtures`);
+    return entry;
+  }
+
+  const current = [...store.residents.values()].find(
+    (entry) => entry.resident.Status === 'CurrentResident',
+  );
+  if (!current) throw new Error('The simulator fixtures have no current resident');
+  return current;
+}
+
+/**
+ * Webhooks of a scenario, one per step. Each step changes the store only when its event is
+ * pulled, so a caller that posts before pulling the next one lets the worker see every state.
+ */
+export function* alisScenarioEvents(
+  scenario: AlisScenarioName,
+  store: AlisFixtureStore,
+  entry: AlisFixtureResident,
+): Generator<AlisScenarioEvent> {
+  const communityId = entry.resident.CommunityId ?? SIMULATOR_COMMUNITY_ID;
+  const steps = SCENARIO_STEPS[scenario];
+  // Whole seconds apart, ending now, so EventMessageDate keeps the steps in order.
+  const startedAt = Math.floor(Date.now() / 1000) * 1000 - (steps.length - 1) * 1000;
+
+  for (const [index, step] of steps.entries()) {
+    const at = new Date(startedAt + index * 1000).toISOString();
+    const { eventType, notificationData } = step(entry, store, at);
+    yield {
+      CompanyKey: store.companyKey,
+      CommunityId: communityId,
+      EventType: eventType,
+      EventMessageId: `sim-${crypto.randomUUID()}`,
+      EventMessageDate: at,
+      NotificationData: notificationData,
+    };
+  }
+}
+
+export async function postAlisWebhook(
+  target: AlisWebhookTarget,
+  event: AlisScenarioEvent,
+): Promise<{ status: number; body: unknown }> {
+  const body = JSON.stringify(event);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (target.signingSecret) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    headers[WEBHOOK_TIMESTAMP_HEADER] = timestamp;
+    headers[WEBHOOK_SIGNATURE_HEADER] = `sha256=${computeWebhookSignature(
+      target.signingSecret,
+      timestamp,
+      body,
+    )}`;
+  }
+
+  const response = await createHttpClient().post(target.url, body, {
+    auth: { username: target.username, password: target.password },
+    headers,
+    // The webhook's answer is part of the result, not an error.
+    validateStatus: () => true,
+  });
+  return { status: response.status, body: response.data };
+}
+
+export async function runAlisScenario(
+  scenario: AlisScenarioName,
+  store: AlisFixtureStore,
+  target: AlisWebhookTarget,
+  options: AlisScenarioOptions = {},
+): Promise<AlisScenarioResult> {
+  const entry = resolveScenarioResident(scenario, store, options);
+  const residentId = entry.resident.ResidentId;
+  const result: AlisScenarioResult = { scenario, residentId, events: [] };
+
+  for (const event of alisScenarioEvents(scenario, store, entry)) {
+    if (result.events.length > 0 && options.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+    }
+    const response = await postAlisWebhook(target, event);
+    logger.info(
+      {
+        scenario,
+        residentId,
+        eventType: event.EventType,
+        eventMessageId: event.EventMessageId,
+        status: response.status,
+      },
+      'alis_simulator_webhook_sent',
+    );
+    result.events.push({
+      eventType: event.EventType,
+      eventMessageId: event.EventMessageId,
+      status: response.status,
+      body: response.body,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,162 @@
+import basicAuth from 'basic-auth';
+import express, { type NextFunction, type Request, type Response } from 'express';
+
+import { logger } from '../config/logger.js';
+
+import {
+  listFixtureResidents,
+  type AlisFixtureResident,
+  type AlisFixtureStore,
+} from './alisFixtures.js';
+import {
+  ALIS_SCENARIOS,
+  isAlisScenarioName,
+  runAlisScenario,
+  type AlisWebhookTarget,
+} from './alisScenarios.js';
+
+/**
+ * Local stand-in for the ALIS integration API. Serves every `/v1/integration/...` endpoint the
+ * ALIS client calls from a fixture store, and runs scripted lifecycle scenarios that post
+ * webhooks to the integration. Point `ALIS_API_BASE` at it to develop without ALIS credentials.
+ */
+
+export type AlisSimulatorOptions = {
+  /** BasicAuth the simulator expects; any credentials are accepted when omitted. */
+  username?: string;
+  password?: string;
+  /** Where scenarios post their webhooks; scenarios are disabled without it. */
+  webhookTarget?: AlisWebhookTarget;
+};
+
+const DEFAULT_PAGE_SIZE = 50;
+
+function readNumber(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export function createAlisSimulatorApp(
+  store: AlisFixtureStore,
+  options: AlisSimulatorOptions = {},
+): express.Express {
+  const app = express();
+  app.use(express.json());
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (!options.username) return next();
+    const credentials = basicAuth(req);
+    if (credentials?.name === options.username && credentials.pass === options.password) {
+      return next();
+    }
+    res.set('WWW-Authenticate', 'Basic realm="ALIS Simulator"');
+    return res.status(401).json({ Message: 'Authorization has been denied for this request.' });
+  });
+
+  const withResident =
+    (handler: (entry: AlisFixtureResident, req: Request, res: Response) => void) =>
+    (req: Request, res: Response) => {
+      const entry = store.residents.get(Number(req.params.residentId));
+      if (!entry) {
+        return res.status(404).json({ Message: `Resident ${req.params.residentId} not found` });
+      }
+      return handler(entry, req, res);
+    };
+
+  app.get('/v1/integration/communities', (_req, res) => {
+    res.json(store.communities);
+  });
+
+  app.get('/v1/integration/residents', (req, res) => {
+    const page = Math.max(1, readNumber(req.query.page) ?? 1);
+    const pageSize = Math.max(1, readNumber(req.query.pageSize) ?? DEFAULT_PAGE_SIZE);
+    const residents = listFixtureResidents(store, {
+      communityId: readNumber(req.query.communityId),
+      status: typeof req.query.status === 'string' ? req.query.status : undefined,
+    });
+    const totalPages = Math.max(1, Math.ceil(residents.length / pageSize));
+
+    res.json({
+      Residents: residents.slice((page - 1) * pageSize, page * pageSize),
+      Page: page,
+      PageSize: pageSize,
+      TotalPages: totalPages,
+      TotalCount: residents.length,
+      HasMore: page < totalPages,
+    });
+  });
+
+  app.get(
+    '/v1/integration/residents/:residentId',
+    withResident((entry, _req, res) => res.json(entry.resident)),
+  );
+  app.get(
+    '/v1/integration/residents/:residentId/basicInfo',
+    withResident((entry, _req, res) => res.json(entry.basicInfo)),
+  );
+  app.get(
+    '/v1/integration/residents/:residentId/leaves',
+    withResident((entry, _req, res) => res.json(entry.leaves)),
+  );
+  app.get(
+    '/v1/integration/residents/:residentId/insurance',
+    withResident((entry, _req, res) => res.json(entry.insurance)),
+  );
+  app.get(
+    '/v1/integration/residents/:residentId/roomAssignments',
+    withResident((entry, _req, res) => res.json(entry.roomAssignments)),
+  );
+  app.get(
+    '/v1/integration/residents/:residentId/diagnosesAndAllergies',
+    withResident((entry, _req, res) => res.json(entry.diagnosesAndAllergies)),
+  );
+  app.get(
+    '/v1/integration/residents/:residentId/contacts',
+    withResident((entry, _req, res) => res.json(entry.contacts)),
+  );
+
+  app.get('/v1/integration/leaves/:leaveId', (req, res) => {
+    const leaveId = Number(req.params.leaveId);
+    for (const entry of store.residents.values()) {
+      const leave = entry.leaves.find((candidate) => candidate.LeaveId === leaveId);
+      if (leave) return res.json(leave);
+    }
+    return res.status(404).json({ Message: `Leave ${req.params.leaveId} not found` });
+  });
+
+  app.get('/simulator/scenarios', (_req, res) => {
+    res.json({ scenarios: ALIS_SCENARIOS, webhookUrl: options.webhookTarget?.url ?? null });
+  });
+
+  app.post('/simulator/scenarios/:scenario', async (req, res) => {
+    const { scenario } = req.params;
+    if (!isAlisScenarioName(scenario)) {
+      return res
+        .status(404)
+        .json({ error: `Unknown scenario ${scenario}`, scenarios: ALIS_SCENARIOS });
+    }
+    if (!options.webhookTarget) {
+      return res.status(409).json({ error: 'No webhook target configured for scenarios' });
+    }
+
+    try {
+      const result = await runAlisScenario(scenario, store, options.webhookTarget, {
+        residentId: typeof req.body?.residentId === 'number' ? req.body.residentId : undefined,
+        communityId: typeof req.body?.communityId === 'number' ? req.body.communityId : undefined,
+        delayMs: typeof req.body?.delayMs === 'number' ? req.body.delayMs : undefined,
+      });
+      return res.json(result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({ scenario, error: message }, 'alis_simulator_scenario_failed');
+      return res.status(500).json({ error: message });
+    }
+  });
+
+  app.use((req, res) => {
+    res.status(404).json({ Message: `No simulator route for ${req.method} ${req.path}` });
+  });
+
+  return app;
+}
@@ -0,0 +1,357 @@
+import { randomUUID } from 'node:crypto';
+
+import express, { type NextFunction, type Request, type Response } from 'express';
+
+import { logger } from '../config/logger.js';
+
+import {
+  CaspioSimulatorError,
+  compileCaspioJsonFilter,
+  compileCaspioOrderBy,
+  compileCaspioWhere,
+  deleteCaspioRows,
+  fieldNotFoundError,
+  getCaspioTable,
+  insertCaspioRow,
+  updateCaspioRows,
+  type CaspioSimulatorRow,
+  type CaspioSimulatorTable,
+  type CaspioTableStore,
+} from './caspioTables.js';
+
+/**
+ * Local stand-in for the Caspio REST v3 API: an OAuth client-credentials token endpoint, table
+ * field definitions and record CRUD with `q.where`, `q.orderBy`, paging and `Result` envelopes.
+ * Failure rules make chosen requests answer 401, 429, 5xx or FieldNotFound so retries and
+ * fallbacks can be exercised. Point `CASPIO_BASE_URL` and `CASPIO_TOKEN_URL` at it to run without
+ * Caspio.
+ */
+
+export type CaspioFailureKind =
+  | 'unauthorized'
+  | 'rate_limited'
+  | 'server_error'
+  | 'field_not_found';
+
+export type CaspioFailureRule = {
+  kind: CaspioFailureKind;
+  /** Only requests to this table; any table when omitted. */
+  table?: string;
+  /** Only this HTTP method, e.g. `POST` for inserts; any method when omitted. */
+  method?: string;
+  /** How many matching requests fail before the rule is used up (default 1). */
+  times?: number;
+  /** `server_error`: the status to answer with (default 500). */
+  status?: number;
+  /** `field_not_found`: columns reported as missing (default: the first column in the body). */
+  fields?: string[];
+};
+
+export type CaspioSimulatorRequest = {
+  method: string;
+  table: string;
+  query: Record<string, string>;
+  status: number;
+};
+
+export type CaspioSimulatorOptions = {
+  /** Client credentials the token endpoint expects; any credentials are accepted when omitted. */
+  clientId?: string;
+  clientSecret?: string;
+  tokenTtlSeconds?: number;
+};
+
+export type CaspioSimulator = {
+  app: express.Express;
+  store: CaspioTableStore;
+  /** Pending failure rules, consumed in order of matching. */
+  failures: CaspioFailureRule[];
+  /** Every table request answered, for asserting on paging and retries. */
+  requests: CaspioSimulatorRequest[];
+  /** Tokens handed out by the token endpoint and not yet revoked. */
+  tokens: Set<string>;
+};
+
+const DEFAULT_PAGE_SIZE = 25;
+const DEFAULT_LIMIT = 100;
+const MAX_ROWS = 1000;
+
+const TABLE_PATH = '/integrations/rest/v3/tables/:table';
+
+function readQuery(req: Request): Record<string, string> {
+  const query: Record<string, string> = {};
+  for (const [key, value] of Object.entries(req.query)) {
+    if (typeof value === 'string') query[key] = value;
+  }
+  return query;
+}
+
+// Table routes sit on a mergeParams router, so the `:table` param is not in their typings.
+function tableName(req: Request): string {
+  return (req.params as { table: string }).table;
+}
+
+function readBoundedNumber(
+  value: string | undefined,
+  name: string,
+  fallback: number,
+  min: number,
+): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > MAX_ROWS) {
+    throw new CaspioSimulatorError(
+      400,
+      'InvalidParameter',
+      `${name} must be an integer between ${min} and ${MAX_ROWS}`,
+    );
+  }
+  return parsed;
+}
+
+function selectRows(
+  table: CaspioSimulatorTable,
+  query: Record<string, string>,
+): CaspioSimulatorRow[] {
+  const where = query['q.where'];
+  const matches = table.rows.filter(
+    where !== undefined
+      ? compileCaspioWhere(table, where)
+      : query.q !== undefined
+        ? compileCaspioJsonFilter(table, query.q)
+        : () => true,
+  );
+  if (query['q.orderBy'] !== undefined) {
+    matches.sort(compileCaspioOrderBy(table, query['q.orderBy']));
+  }
+
+  if (query['q.pageNumber'] !== undefined) {
+    const pageNumber = readBoundedNumber(query['q.pageNumber'], 'q.pageNumber', 1, 1);
+    const pageSize = readBoundedNumber(query['q.pageSize'], 'q.pageSize', DEFAULT_PAGE_SIZE, 5);
+    return matches.slice((pageNumber - 1) * pageSize, pageNumber * pageSize);
+  }
+  return matches.slice(0, readBoundedNumber(query['q.limit'], 'q.limit', DEFAULT_LIMIT, 1));
+}
+
+function requireWhere(query: Record<string, string>): string {
+  const where = query['q.where'];
+  if (!where?.trim()) {
+    throw new CaspioSimulatorError(400, 'InvalidParameter', 'q.where is required');
+  }
+  return where;
+}
+
+export function createCaspioSimulator(
+  store: CaspioTableStore,
+  options: CaspioSimulatorOptions = {},
+): CaspioSimulator {
+  const app = express();
+  const simulator: CaspioSimulator = {
+    app,
+    store,
+    failures: [],
+    requests: [],
+    tokens: new Set(),
+  };
+
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  app.post('/oauth/token', (req, res) => {
+    const body = req.body as Record<string, string | undefined>;
+    if (body.grant_type !== 'client_credentials') {
+      return res.status(400).json({ error: 'unsupported_grant_type' });
+    }
+    if (
+      options.clientId &&
+      (body.client_id !== options.clientId || body.client_secret !== options.clientSecret)
+    ) {
+      return res.status(401).json({ error: 'invalid_client' });
+    }
+    const token = randomUUID();
+    simulator.tokens.add(token);
+    return res.json({
+      access_token: token,
+      token_type: 'bearer',
+      expires_in: options.tokenTtlSeconds ?? 86399,
+    });
+  });
+
+  app.get('/simulator/tables', (_req, res) => {
+    res.json({
+      tables: [...store.tables.values()].map((table) => ({
+        name: table.name,
+        rows: table.rows.length,
+      })),
+    });
+  });
+
+  app.get('/simulator/tables/:table', (req, res) => {
+    try {
+      const table = getCaspioTable(store, req.params.table);
+      return res.json({ name: table.name, fields: table.fields, rows: table.rows });
+    } catch (error) {
+      return sendCaspioError(res, error);
+    }
+  });
+
+  app.get('/simulator/failures', (_req, res) => {
+    res.json({ failures: simulator.failures });
+  });
+
+  app.post('/simulator/failures', (req, res) => {
+    const rule = req.body as Partial<CaspioFailureRule>;
+    const kinds: CaspioFailureKind[] = [
+      'unauthorized',
+      'rate_limited',
+      'server_error',
+      'field_not_found',
+    ];
+    if (!rule.kind || !kinds.includes(rule.kind)) {
+      return res.status(400).json({ error: `kind must be one of ${kinds.join(', ')}` });
+    }
+    simulator.failures.push(rule as CaspioFailureRule);
+    return res.status(201).json({ failures: simulator.failures });
+  });
+
+  app.delete('/simulator/failures', (_req, res) => {
+    simulator.failures.length = 0;
+    res.status(204).end();
+  });
+
+  const tableRoutes = express.Router({ mergeParams: true });
+
+  tableRoutes.use((req: Request, res: Response, next: NextFunction) => {
+    const token = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+    if (!token || !simulator.tokens.has(token)) {
+      return res.status(401).json({ Code: 'InvalidToken', Message: 'Access token is invalid' });
+    }
+    res.on('finish', () => {
+      simulator.requests.push({
+        method: req.method,
+        table: tableName(req),
+        query: readQuery(req),
+        status: res.statusCode,
+      });
+    });
+    return applyFailureRule(simulator, token, req, res, next);
+  });
+
+  tableRoutes.get('/fields', (req, res) => {
+    try {
+      return res.json({ Result: getCaspioTable(store, tableName(req)).fields });
+    } catch (error) {
+      return sendCaspioError(res, error);
+    }
+  });
+
+  tableRoutes.get('/records', (req, res) => {
+    try {
+      const table = getCaspioTable(store, tableName(req));
+      return res.json({ Result: selectRows(table, readQuery(req)) });
+    } catch (error) {
+      return sendCaspioError(res, error);
+    }
+  });
+
+  tableRoutes.post('/records', (req, res) => {
+    try {
+      const row = insertCaspioRow(getCaspioTable(store, tableName(req)), req.body ?? {});
+      if (req.query.response === 'rows') {
+        return res.status(201).json({ Result: [row] });
+      }
+      return res.status(201).end();
+    } catch (error) {
+      return sendCaspioError(res, error);
+    }
+  });
+
+  tableRoutes.put('/records', (req, res) => {
+    try {
+      const table = getCaspioTable(store, tableName(req));
+      const rows = updateCaspioRows(table, requireWhere(readQuery(req)), req.body ?? {});
+      return res.json({
+        RecordsAffected: rows.length,
+        ...(req.query.response === 'rows' ? { Result: rows } : {}),
+      });
+    } catch (error) {
+      return sendCaspioError(res, error);
+    }
+  });
+
+  tableRoutes.delete('/records', (req, res) => {
+    try {
+      const table = getCaspioTable(store, tableName(req));
+      return res.json({ RecordsAffected: deleteCaspioRows(table, requireWhere(readQuery(req))) });
+    } catch (error) {
+      return sendCaspioError(res, error);
+    }
+  });
+
+  app.use(TABLE_PATH, tableRoutes);
+
+  app.use((req, res) => {
+    res
+      .status(404)
+      .json({ Code: 'NotFound', Message: `No simulator route for ${req.method} ${req.path}` });
+  });
+
+  return simulator;
+}
+
+function applyFailureRule(
+  simulator: CaspioSimulator,
+  token: string,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const index = simulator.failures.findIndex(
+    (rule) =>
+      (!rule.table || rule.table.toLowerCase() === tableName(req).toLowerCase()) &&
+      (!rule.method || rule.method.toUpperCase() === req.method),
+  );
+  if (index === -1) return next();
+
+  const rule = simulator.failures[index];
+  const remaining = (rule.times ?? 1) - 1;
+  if (remaining > 0) {
+    rule.times = remaining;
+  } else {
+    simulator.failures.splice(index, 1);
+  }
+
+  logger.info(
+    { kind: rule.kind, table: tableName(req), method: req.method },
+    'caspio_simulator_failure_injected',
+  );
+
+  switch (rule.kind) {
+    case 'unauthorized':
+      // Behave like an expired token: the client has to fetch a new one.
+      simulator.tokens.delete(token);
+      return res.status(401).json({ Code: 'InvalidToken', Message: 'Access token has expired' });
+    case 'rate_limited':
+      return res
+        .status(429)
+        .json({ Code: 'TooManyRequests', Message: 'API calls limit has been reached' });
+    case 'server_error':
+      return res
+        .status(rule.status ?? 500)
+        .json({ Code: 'InternalServerError', Message: 'Injected server error' });
+    case 'field_not_found': {
+      const body = (req.body ?? {}) as Record<string, unknown>;
+      const fields = rule.fields ?? Object.keys(body).slice(0, 1);
+      return sendCaspioError(res, fieldNotFoundError(fields));
+    }
+  }
+}
+
+function sendCaspioError(res: Response, error: unknown) {
+  if (error instanceof CaspioSimulatorError) {
+    return res.status(error.status).json({ Code: error.code, Message: error.message });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  logger.error({ error: message }, 'caspio_simulator_request_failed');
+  return res.status(500).json({ Code: 'InternalServerError', Message: message });
+}
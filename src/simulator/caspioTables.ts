@@ -0,0 +1,435 @@
+import fs from 'node:fs';
+
+import { env } from '../config/env.js';
+import type { CaspioTableField } from '../integrations/caspio/caspioClient.js';
+import {
+  CARE_PATIENT_TABLE_COLUMNS,
+  COMMUNITY_TABLE_COLUMNS,
+  OFF_PREM_HISTORY_TABLE_COLUMNS,
+  SERVICE_TABLE_COLUMNS,
+  type CaspioColumnUsage,
+} from '../integrations/caspio/caspioMapper.js';
+
+import { SIMULATOR_COMMUNITY_ID } from './alisFixtures.js';
+
+/**
+ * In-memory Caspio tables served by the local Caspio simulator. Rows are plain records keyed by
+ * an autonumber `PK_ID`; queries use the same `q.where` subset the Caspio client sends.
+ */
+
+export type CaspioSimulatorRow = Record<string, unknown> & { PK_ID: number };
+
+export type CaspioSimulatorTable = {
+  name: string;
+  fields: CaspioTableField[];
+  rows: CaspioSimulatorRow[];
+  nextId: number;
+};
+
+export type CaspioTableSeed = {
+  tables: Array<{
+    name: string;
+    fields: CaspioTableField[];
+    rows?: Array<Record<string, unknown>>;
+  }>;
+};
+
+export type CaspioTableStore = {
+  /** Keyed by lowercased table name; Caspio table names are case-insensitive. */
+  tables: Map<string, CaspioSimulatorTable>;
+};
+
+/** A Caspio error response; `code` and `message` become the `Code` / `Message` body. */
+export class CaspioSimulatorError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'CaspioSimulatorError';
+  }
+}
+
+const READ_ONLY_TYPES = new Set(['AUTONUMBER', 'PREFIXED AUTONUMBER', 'RANDOM ID', 'GUID']);
+const NUMBER_TYPES = new Set(['NUMBER', 'INTEGER', 'CURRENCY', 'AUTONUMBER']);
+
+// Column types in the default tables where STRING would compare or store values wrongly.
+const DEFAULT_COLUMN_TYPES: Record<string, string> = {
+  On_Prem: 'YES/NO',
+  Off_Prem: 'YES/NO',
+  Hospice: 'YES/NO',
+  IsOpen: 'YES/NO',
+  DurationMinutes: 'NUMBER',
+  DurationHours: 'NUMBER',
+};
+
+function tableFields(columns: Record<string, CaspioColumnUsage>): CaspioTableField[] {
+  return [
+    { Name: 'PK_ID', Type: 'AUTONUMBER', Unique: true },
+    ...Object.entries(columns)
+      .filter(([, usage]) => usage !== 'legacy')
+      .map(([name]) => ({ Name: name, Type: DEFAULT_COLUMN_TYPES[name] ?? 'STRING' })),
+  ];
+}
+
+/**
+ * The four tables the integration uses, named from env, with the columns the mapper maps.
+ * The community table has rooms 101–110 of the ALIS simulator's community.
+ */
+export function defaultCaspioTableSeed(): CaspioTableSeed {
+  const rooms = Array.from({ length: 10 }, (_, index) => String(101 + index));
+  return {
+    tables: [
+      { name: env.CASPIO_TABLE_NAME, fields: tableFields(CARE_PATIENT_TABLE_COLUMNS) },
+      {
+        name: env.CASPIO_COMMUNITY_TABLE_NAME,
+        fields: tableFields(COMMUNITY_TABLE_COLUMNS),
+        rows: rooms.map((room) => ({
+          CUID: `SIM-${SIMULATOR_COMMUNITY_ID}-${room}`,
+          CommunityID: String(SIMULATOR_COMMUNITY_ID),
+          CommunityName: 'Simulator Gardens',
+          RoomNumber: room,
+          Address: '100 Main St',
+          City: 'Springfield',
+          State: 'OR',
+          Zip: '97477',
+          CommunityGroup: 'Simulator',
+          Neighborhood: 'North',
+          SerialNumber: `SN-${room}`,
+          Sector: 'A',
+        })),
+      },
+      { name: env.CASPIO_SERVICE_TABLE_NAME, fields: tableFields(SERVICE_TABLE_COLUMNS) },
+      {
+        name: env.CASPIO_OFF_PREM_HISTORY_TABLE_NAME,
+        fields: tableFields(OFF_PREM_HISTORY_TABLE_COLUMNS),
+      },
+    ],
+  };
+}
+
+export function createCaspioTableStore(
+  seed: CaspioTableSeed = defaultCaspioTableSeed(),
+): CaspioTableStore {
+  const store: CaspioTableStore = { tables: new Map() };
+  for (const definition of structuredClone(seed).tables) {
+    const table: CaspioSimulatorTable = {
+      name: definition.name,
+      fields: definition.fields,
+      rows: [],
+      nextId: 1,
+    };
+    store.tables.set(definition.name.toLowerCase(), table);
+    for (const row of definition.rows ?? []) {
+      insertCaspioRow(table, row);
+    }
+  }
+  return store;
+}
+
+/** Seed from a JSON file with the same shape as `defaultCaspioTableSeed()`. */
+export function loadCaspioTableSeed(filePath: string): CaspioTableSeed {
+  const seed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Partial<CaspioTableSeed>;
+  if (!Array.isArray(seed.tables)) {
+    throw new Error(`${filePath} must have a tables array`);
+  }
+  return seed as CaspioTableSeed;
+}
+
+export function getCaspioTable(store: CaspioTableStore, tableName: string): CaspioSimulatorTable {
+  const table = store.tables.get(tableName.toLowerCase());
+  if (!table) {
+    throw new CaspioSimulatorError(
+      404,
+      'TableNotFound',
+      `Cannot perform operation because the table '${tableName}' does not exist.`,
+    );
+  }
+  return table;
+}
+
+function findField(table: CaspioSimulatorTable, name: string): CaspioTableField | undefined {
+  const lower = name.toLowerCase();
+  return table.fields.find((field) => field.Name.toLowerCase() === lower);
+}
+
+/** The FieldNotFound error Caspio answers when a request names columns the table lacks. */
+export function fieldNotFoundError(names: string[]): CaspioSimulatorError {
+  return new CaspioSimulatorError(
+    400,
+    'FieldNotFound',
+    `Cannot perform operation because the following field(s) do not exist: ${names
+      .map((name) => `'${name}'`)
+      .join(', ')}`,
+  );
+}
+
+function toBoolean(value: unknown): boolean | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'boolean') return value;
+  const text = String(value).trim().toLowerCase();
+  return text === 'true' || text === '1' || text === 'yes';
+}
+
+function coerceValue(field: CaspioTableField, value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  const type = field.Type.toUpperCase();
+  if (type === 'YES/NO') return toBoolean(value);
+  if (NUMBER_TYPES.has(type)) {
+    const parsed = Number(value);
+    return value === '' || !Number.isFinite(parsed) ? null : parsed;
+  }
+  return typeof value === 'string' ? value : String(value);
+}
+
+/** SQL Server comparison with the default case-insensitive collation. */
+function valuesEqual(field: CaspioTableField, rowValue: unknown, literal: unknown): boolean {
+  if (rowValue === null || rowValue === undefined || literal === null) return false;
+  const type = field.Type.toUpperCase();
+  if (type === 'YES/NO') return toBoolean(rowValue) === toBoolean(literal);
+  if (NUMBER_TYPES.has(type)) return Number(rowValue) === Number(literal);
+  return String(rowValue).trimEnd().toLowerCase() === String(literal).trimEnd().toLowerCase();
+}
+
+/**
+ * Normalize a write body against the table: column names take the table's casing, values are
+ * coerced to the column type, and unknown or read-only columns are rejected like Caspio does.
+ */
+function normalizeWrite(
+  table: CaspioSimulatorTable,
+  record: Record<string, unknown>,
+): Record<string, unknown> {
+  const missing: string[] = [];
+  const normalized: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(record)) {
+    const field = findField(table, name);
+    if (!field) {
+      missing.push(name);
+      continue;
+    }
+    if (READ_ONLY_TYPES.has(field.Type.toUpperCase())) {
+      throw new CaspioSimulatorError(
+        400,
+        'AlterReadOnlyData',
+        `Cannot perform operation because you are trying to modify read-only field '${field.Name}'`,
+      );
+    }
+    normalized[field.Name] = coerceValue(field, value);
+  }
+  if (missing.length > 0) {
+    throw fieldNotFoundError(missing);
+  }
+  return normalized;
+}
+
+function assertUnique(
+  table: CaspioSimulatorTable,
+  row: Record<string, unknown>,
+  ignorePkId?: number,
+): void {
+  for (const field of table.fields) {
+    if (!field.Unique || field.Name === 'PK_ID') continue;
+    const value = row[field.Name];
+    const blank = value === null || value === undefined || value === '';
+    const duplicate = table.rows.some(
+      (existing) =>
+        existing.PK_ID !== ignorePkId && valuesEqual(field, existing[field.Name], value),
+    );
+    if (blank || duplicate) {
+      throw new CaspioSimulatorError(
+        400,
+        'SqlServerError',
+        `Cannot perform operation because duplicate or blank values are not allowed in field '${field.Name}'.`,
+      );
+    }
+  }
+}
+
+export function insertCaspioRow(
+  table: CaspioSimulatorTable,
+  record: Record<string, unknown>,
+): CaspioSimulatorRow {
+  const row: CaspioSimulatorRow = { ...normalizeWrite(table, record), PK_ID: table.nextId };
+  for (const field of table.fields) {
+    if (!(field.Name in row)) row[field.Name] = null;
+  }
+  assertUnique(table, row);
+  table.nextId += 1;
+  table.rows.push(row);
+  return row;
+}
+
+export function updateCaspioRows(
+  table: CaspioSimulatorTable,
+  where: string,
+  record: Record<string, unknown>,
+): CaspioSimulatorRow[] {
+  const changes = normalizeWrite(table, record);
+  const matches = table.rows.filter(compileCaspioWhere(table, where));
+  for (const row of matches) {
+    assertUnique(table, { ...row, ...changes }, row.PK_ID);
+  }
+  for (const row of matches) {
+    Object.assign(row, changes);
+  }
+  return matches;
+}
+
+export function deleteCaspioRows(table: CaspioSimulatorTable, where: string): number {
+  const matches = new Set(table.rows.filter(compileCaspioWhere(table, where)));
+  table.rows = table.rows.filter((row) => !matches.has(row));
+  return matches.size;
+}
+
+type Condition = (row: CaspioSimulatorRow) => boolean;
+
+const CONDITION_PATTERN =
+  /^\s*([A-Za-z_][A-Za-z0-9_]*)\s*(?:(=|<>|!=)\s*('(?:[^']|'')*'|-?\d+(?:\.\d+)?|true|false|null)|IS\s+(NOT\s+)?NULL)\s*$/i;
+
+const IN_CONDITION_PATTERN = /^\s*([A-Za-z_][A-Za-z0-9_]*)\s+IN\s*\((.*)\)\s*$/i;
+const LITERAL_PATTERN = /'(?:[^']|'')*'|-?\d+(?:\.\d+)?|true|false|null/gi;
+
+function parseLiteral(token: string): unknown {
+  if (token.startsWith("'")) return token.slice(1, -1).replace(/''/g, "'");
+  const lower = token.toLowerCase();
+  if (lower === 'true' || lower === 'false') return lower === 'true';
+  if (lower === 'null') return null;
+  return Number(token);
+}
+
+/** Split on a keyword outside string literals, e.g. the ` AND ` between two conditions. */
+function splitOutsideQuotes(text: string, keyword: string): string[] {
+  const parts: string[] = [];
+  const pattern = new RegExp(`\\s${keyword}\\s`, 'iy');
+  let inQuotes = false;
+  let start = 0;
+  for (let index = 0; index < text.length; index += 1) {
+    if (text[index] === "'") inQuotes = !inQuotes;
+    if (inQuotes) continue;
+    pattern.lastIndex = index;
+    const match = pattern.exec(text);
+    if (match) {
+      parts.push(text.slice(start, index));
+      start = index + match[0].length;
+      index = start - 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+function compileCondition(table: CaspioSimulatorTable, text: string): Condition {
+  const inMatch = IN_CONDITION_PATTERN.exec(text);
+  if (inMatch) {
+    const [, name, list] = inMatch;
+    const field = findField(table, name);
+    if (!field) throw fieldNotFoundError([name]);
+    const literals = (list.match(LITERAL_PATTERN) ?? []).map(parseLiteral);
+    return (row) => literals.some((literal) => valuesEqual(field, row[field.Name], literal));
+  }
+
+  const match = CONDITION_PATTERN.exec(text);
+  if (!match) {
+    throw new CaspioSimulatorError(
+      400,
+      'SqlServerError',
+      `Cannot perform operation because the where clause is not supported by the simulator: ${text.trim()}`,
+    );
+  }
+  const [, name, operator, literalToken, isNotNull] = match;
+  const field = findField(table, name);
+  if (!field) throw fieldNotFoundError([name]);
+
+  if (!operator) {
+    const wantsValue = Boolean(isNotNull);
+    return (row) => (row[field.Name] !== null && row[field.Name] !== undefined) === wantsValue;
+  }
+  const literal = parseLiteral(literalToken);
+  const negate = operator !== '=';
+  return (row) => {
+    const value = row[field.Name];
+    if (value === null || value === undefined || literal === null) return false;
+    return valuesEqual(field, value, literal) !== negate;
+  };
+}
+
+/**
+ * Predicate for a `q.where` clause: `Field = literal`, `<>`, `IS [NOT] NULL` and `Field IN (...)`,
+ * joined with AND/OR (AND binds tighter; no other parentheses). That covers every clause the
+ * Caspio client builds.
+ */
+export function compileCaspioWhere(table: CaspioSimulatorTable, where: string): Condition {
+  if (!where.trim()) return () => true;
+  const alternatives = splitOutsideQuotes(where, 'OR').map((alternative) =>
+    splitOutsideQuotes(alternative, 'AND').map((condition) => compileCondition(table, condition)),
+  );
+  return (row) => alternatives.some((conditions) => conditions.every((test) => test(row)));
+}
+
+/**
+ * Predicate for the JSON `q` filter (`{"where":{"Field":{"eq":value}}}`) the client still sends
+ * for exact-match lookups.
+ */
+export function compileCaspioJsonFilter(table: CaspioSimulatorTable, q: string): Condition {
+  let parsed: { where?: Record<string, { eq?: unknown }> };
+  try {
+    parsed = JSON.parse(q) as typeof parsed;
+  } catch {
+    throw new CaspioSimulatorError(400, 'InvalidParameter', `Invalid q parameter: ${q}`);
+  }
+  const conditions = Object.entries(parsed.where ?? {}).map(([name, condition]) => {
+    const field = findField(table, name);
+    if (!field) throw fieldNotFoundError([name]);
+    return (row: CaspioSimulatorRow) => valuesEqual(field, row[field.Name], condition?.eq ?? null);
+  });
+  return (row) => conditions.every((test) => test(row));
+}
+
+const ORDER_TERM_PATTERN = /^\s*([A-Za-z_][A-Za-z0-9_]*)(?:\s+(ASC|DESC))?\s*$/i;
+const DATE_LIKE_PATTERN = /^\d{1,4}[-/]\d{1,2}[-/]\d{1,4}/;
+
+function compareValues(field: CaspioTableField, left: unknown, right: unknown): number {
+  if (NUMBER_TYPES.has(field.Type.toUpperCase())) return Number(left) - Number(right);
+  const leftText = String(left).trim();
+  const rightText = String(right).trim();
+  if (DATE_LIKE_PATTERN.test(leftText) && DATE_LIKE_PATTERN.test(rightText)) {
+    const difference = Date.parse(leftText) - Date.parse(rightText);
+    if (!Number.isNaN(difference)) return difference;
+  }
+  return leftText.toLowerCase().localeCompare(rightText.toLowerCase());
+}
+
+/**
+ * Comparator for `q.orderBy` (`Field [ASC|DESC], ...`). Like SQL Server, nulls sort first
+ * ascending and last descending; date-like text columns sort by date.
+ */
+export function compileCaspioOrderBy(
+  table: CaspioSimulatorTable,
+  orderBy: string,
+): (left: CaspioSimulatorRow, right: CaspioSimulatorRow) => number {
+  const terms = orderBy.split(',').map((term) => {
+    const match = ORDER_TERM_PATTERN.exec(term);
+    if (!match) {
+      throw new CaspioSimulatorError(400, 'InvalidParameter', `Invalid q.orderBy: ${orderBy}`);
+    }
+    const field = findField(table, match[1]);
+    if (!field) throw fieldNotFoundError([match[1]]);
+    return { field, direction: match[2]?.toUpperCase() === 'DESC' ? -1 : 1 };
+  });
+
+  return (left, right) => {
+    for (const { field, direction } of terms) {
+      const leftValue = left[field.Name];
+      const rightValue = right[field.Name];
+      const leftMissing = leftValue === null || leftValue === undefined;
+      const rightMissing = rightValue === null || rightValue === undefined;
+      const difference =
+        leftMissing || rightMissing
+          ? Number(rightMissing) - Number(leftMissing)
+          : compareValues(field, leftValue, rightValue);
+      if (difference !== 0) return difference * direction;
+    }
+    return 0;
+  };
+}
@@ -3,14 +3,23 @@ import type { Request, Response } from 'express';
 import { logger } from '../config/logger.js';
 import { errorToIssueDetails, recordEventIssue } from '../domains/eventIssues.js';
 import {
+  markEventFailed,
   markEventIgnored,
   markEventQueued,
   recordIncomingEvent,
 } from '../domains/events.js';
-import { processAlisEventQueue } from '../workers/queue.js';
-import type { ProcessAlisEventJobData } from '../workers/types.js';
+import {
+  buildEventJobId,
+  buildProcessAlisEventJobData,
+  enqueueProcessAlisEvent,
+} from '../workers/enqueueEvent.js';
 
-import { AlisEventSchema, isSupportedEventType } from './schemas.js';
+import {
+  AlisEventSchema,
+  isSupportedEventType,
+  parseAlisNotificationEvent,
+  summarizeNotificationDataIssues,
+} from './schemas.js';
 
 export async function alisWebhookHandler(req: Request, res: Response): Promise<Response> {
   const parsed = AlisEventSchema.safeParse(req.body);
@@ -79,22 +88,49 @@ export async function alisWebhookHandler(req: Request, res: Response): Promise<R
     return res.status(202).json({ status: 'test_acknowledged' });
   }
 
-  const jobData: ProcessAlisEventJobData = {
-    eventMessageId: event.EventMessageId,
-    eventType: event.EventType,
-    companyKey: event.CompanyKey,
-    companyId: company.id,
-    communityId: event.CommunityId ?? null,
-    notificationData: event.NotificationData ?? {},
-    eventMessageDate: event.EventMessageDate,
-  };
+  const typed = parseAlisNotificationEvent(event);
 
-  try {
-    await processAlisEventQueue.add('process-alis-event', jobData, {
-      jobId: `event-${event.EventType}-${event.EventMessageId}`,
-      removeOnComplete: true,
-      removeOnFail: false,
+  if (!typed.success) {
+    const issues = summarizeNotificationDataIssues(typed.error);
+    const message = `Invalid NotificationData for ${event.EventType}: ${issues
+      .map((issue) => `${issue.path} ${issue.message}`)
+      .join('; ')}`;
+
+    await recordEventIssue({
+      eventLogId: eventLog.id,
+      companyId: company.id,
+      eventType: event.EventType,
+      eventMessageId: event.EventMessageId,
+      communityId: event.CommunityId ?? null,
+      stage: 'webhook_payload',
+      severity: 'error',
+      message,
+      details: { issues, notificationData: event.NotificationData ?? null },
+      retryable: false,
     });
+    await markEventFailed(
+      {
+        companyId: company.id,
+        eventType: event.EventType,
+        eventMessageId: event.EventMessageId,
+      },
+      message,
+    );
+    logger.warn(
+      { eventMessageId: event.EventMessageId, eventType: event.EventType, issues },
+      'webhook_notification_data_invalid',
+    );
+    return res.status(400).json({
+      error: 'Invalid NotificationData',
+      details: issues,
+    });
+  }
+
+  const jobData = buildProcessAlisEventJobData(typed.data, company.id);
+  const jobId = buildEventJobId(event.EventType, event.EventMessageId);
+
+  try {
+    await enqueueProcessAlisEvent(jobData, jobId);
 
     await markEventQueued({
       companyId: company.id,
@@ -11,6 +11,186 @@ export const AlisEventSchema = z.object({
 
 export type AlisEvent = z.infer<typeof AlisEventSchema>;
 
+/**
+ * ALIS mostly sends PascalCase keys, but a few tenants/tools send camelCase.
+ * Copy camelCase keys onto their PascalCase form so the typed schemas only need one spelling.
+ */
+function withPascalCaseKeys(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+  const record = { ...(value as Record<string, unknown>) };
+  for (const [key, entry] of Object.entries(record)) {
+    const pascal = key.charAt(0).toUpperCase() + key.slice(1);
+    if (pascal !== key && record[pascal] === undefined) {
+      record[pascal] = entry;
+    }
+  }
+  return record;
+}
+
+const AlisIdSchema = z.preprocess(
+  (value) => (typeof value === 'string' && value.trim().length > 0 ? Number(value) : value),
+  z.number().int().positive(),
+);
+
+const OptionalTextSchema = z.preprocess(
+  (value) => (typeof value === 'number' ? String(value) : value),
+  z.string().nullable().optional(),
+);
+
+const DateTimeStringSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .refine((value) => !Number.isNaN(Date.parse(value)), { message: 'Invalid date-time' });
+
+const RoomEntrySchema = z.preprocess(
+  withPascalCaseKeys,
+  z.object({ RoomNumber: OptionalTextSchema, Room: OptionalTextSchema }).passthrough(),
+);
+
+/** Some tenants send the room list as a single string instead of room entries. */
+const RoomListSchema = z
+  .union([z.array(RoomEntrySchema), z.string()])
+  .nullable()
+  .optional();
+
+const ResidentNotificationDataShape = z
+  .object({
+    ResidentId: AlisIdSchema,
+    RoomNumber: OptionalTextSchema,
+    Room: OptionalTextSchema,
+    ApartmentNumber: OptionalTextSchema,
+    NewRoomNumber: OptionalTextSchema,
+    ToRoomNumber: OptionalTextSchema,
+    /** New room after a move (`resident.room_changed`). */
+    AssignedRoom: OptionalTextSchema,
+    /** Room the resident moved out of (`resident.room_changed`). */
+    UnassignedRoom: OptionalTextSchema,
+    RoomsAssigned: RoomListSchema,
+    RoomsUnassigned: RoomListSchema,
+    Classification: OptionalTextSchema,
+  })
+  .passthrough();
+
+const LeaveStartNotificationDataShape = ResidentNotificationDataShape.extend({
+  LeaveId: AlisIdSchema,
+  StartDateTime: DateTimeStringSchema,
+});
+
+/** LeaveId is optional: without it the open off-prem episode is matched by resident. */
+const LeaveEndNotificationDataShape = ResidentNotificationDataShape.extend({
+  LeaveId: AlisIdSchema.optional(),
+  EndDateTime: DateTimeStringSchema.optional(),
+});
+
+const LeaveCancelledNotificationDataShape = ResidentNotificationDataShape.extend({
+  LeaveId: AlisIdSchema,
+});
+
+export const ResidentNotificationDataSchema = z.preprocess(
+  withPascalCaseKeys,
+  ResidentNotificationDataShape,
+);
+export const LeaveStartNotificationDataSchema = z.preprocess(
+  withPascalCaseKeys,
+  LeaveStartNotificationDataShape,
+);
+export const LeaveEndNotificationDataSchema = z.preprocess(
+  withPascalCaseKeys,
+  LeaveEndNotificationDataShape,
+);
+export const LeaveCancelledNotificationDataSchema = z.preprocess(
+  withPascalCaseKeys,
+  LeaveCancelledNotificationDataShape,
+);
+
+export type ResidentNotificationData = z.infer<typeof ResidentNotificationDataShape>;
+export type LeaveStartNotificationData = z.infer<typeof LeaveStartNotificationDataShape>;
+export type LeaveEndNotificationData = z.infer<typeof LeaveEndNotificationDataShape>;
+export type LeaveCancelledNotificationData = z.infer<typeof LeaveCancelledNotificationDataShape>;
+
+function residentEvent<T extends string>(eventType: T) {
+  return AlisEventSchema.extend({
+    EventType: z.literal(eventType),
+    NotificationData: ResidentNotificationDataSchema,
+  });
+}
+
+/**
+ * Envelope + NotificationData validated per EventType, for every supported resident/leave event.
+ */
+export const AlisNotificationEventSchema = z.discriminatedUnion('EventType', [
+  residentEvent('residents.created'),
+  residentEvent('residents.move_in'),
+  residentEvent('residents.move_out'),
+  residentEvent('residents.basic_info_updated'),
+  residentEvent('residents.health_profile_updated'),
+  residentEvent('residents.move_in_out_info_updated'),
+  residentEvent('resident.room_assigned'),
+  residentEvent('resident.room_changed'),
+  residentEvent('resident.room_unassigned'),
+  residentEvent('resident.contact.created'),
+  residentEvent('resident.contact.updated'),
+  residentEvent('resident.contact.deleted'),
+  AlisEventSchema.extend({
+    EventType: z.literal('residents.leave_start'),
+    NotificationData: LeaveStartNotificationDataSchema,
+  }),
+  AlisEventSchema.extend({
+    EventType: z.literal('residents.leave_end'),
+    NotificationData: LeaveEndNotificationDataSchema,
+  }),
+  AlisEventSchema.extend({
+    EventType: z.literal('residents.leave_cancelled'),
+    NotificationData: LeaveCancelledNotificationDataSchema,
+  }),
+]);
+
+export type AlisNotificationEvent = z.infer<typeof AlisNotificationEventSchema>;
+
+export type AlisNotificationEventOf<T extends AlisNotificationEvent['EventType']> = Extract<
+  AlisNotificationEvent,
+  { EventType: T }
+>;
+
+/**
+ * Validate NotificationData for a resident/leave event. Callers should only pass events whose
+ * type is in RESIDENT_EVENT_TYPES; anything else fails with an invalid discriminator issue.
+ */
+export function parseAlisNotificationEvent(
+  event: AlisEvent,
+): z.SafeParseReturnType<unknown, AlisNotificationEvent> {
+  return AlisNotificationEventSchema.safeParse({
+    ...event,
+    NotificationData: event.NotificationData ?? {},
+  });
+}
+
+export function getNotificationLeaveId(event: AlisNotificationEvent): number | undefined {
+  switch (event.EventType) {
+    case 'residents.leave_start':
+    case 'residents.leave_end':
+    case 'residents.leave_cancelled':
+      return event.NotificationData.LeaveId;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Compact issue list for logs and EventProcessingIssue details.
+ */
+export function summarizeNotificationDataIssues(
+  error: z.ZodError,
+): Array<{ path: string; message: string }> {
+  return error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
+
 export const RESIDENT_EVENT_TYPES = new Set([
   'residents.created',
   'residents.move_in',
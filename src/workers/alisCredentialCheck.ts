@@ -0,0 +1,53 @@
+import { Worker } from 'bullmq';
+
+import { checkStoredAlisCredentials } from '../admin/credentials.js';
+import { env } from '../config/env.js';
+import { logger } from '../config/logger.js';
+
+import { getRedisConnection } from './connection.js';
+import { ALIS_CREDENTIAL_CHECK_QUEUE, alisCredentialCheckQueue } from './queue.js';
+
+/**
+ * Periodic re-check of stored ALIS credentials, so a rotated or revoked password is flagged as an
+ * `alis_credentials` issue before it surfaces as event processing failures.
+ */
+
+const SCHEDULER_ID = 'alis-credential-check';
+
+export function startAlisCredentialCheckWorker(): Worker {
+  const worker = new Worker(
+    ALIS_CREDENTIAL_CHECK_QUEUE,
+    async (job) => {
+      const summary = await checkStoredAlisCredentials();
+      logger.info({ jobId: job.id, summary }, 'alis_credential_check_summary');
+      return summary;
+    },
+    {
+      connection: getRedisConnection(),
+      concurrency: 1,
+    },
+  );
+
+  worker.on('failed', (job, error) => {
+    logger.error({ jobId: job?.id, error: error?.message }, 'alis_credential_check_failed');
+  });
+
+  return worker;
+}
+
+/** Registers (or updates) the repeating check; removes it when the interval is 0. */
+export async function scheduleAlisCredentialCheck(): Promise<void> {
+  const intervalMinutes = env.ALIS_CREDENTIAL_CHECK_INTERVAL_MINUTES;
+  if (!intervalMinutes || intervalMinutes <= 0) {
+    await alisCredentialCheckQueue.removeJobScheduler(SCHEDULER_ID);
+    logger.info('alis_credential_check_disabled');
+    return;
+  }
+
+  await alisCredentialCheckQueue.upsertJobScheduler(
+    SCHEDULER_ID,
+    { every: intervalMinutes * 60_000 },
+    { name: 'alis-credential-check' },
+  );
+  logger.info({ intervalMinutes }, 'alis_credential_check_scheduled');
+}
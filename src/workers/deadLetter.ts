@@ -0,0 +1,294 @@
+import type { DeadLetterJob, Prisma } from '@prisma/client';
+import type { Job } from 'bullmq';
+
+import { logger } from '../config/logger.js';
+import { prisma } from '../db/prisma.js';
+import { markEventQueued } from '../domains/events.js';
+
+import { enqueueProcessAlisEvent } from './enqueueEvent.js';
+import { PROCESS_ALIS_EVENT_QUEUE, processAlisEventQueue } from './queue.js';
+import type { ProcessAlisEventJobData } from './types.js';
+
+/**
+ * Dead-letter store for process-alis-event jobs that used up their attempts.
+ *
+ * BullMQ keeps failed jobs in Redis (removeOnFail: false) but only with the last stack trace;
+ * the dead-letter row adds the job data, attempt count and the event's issue history so an
+ * operator can decide to re-drive or discard it from the admin API.
+ */
+
+export type DeadLetterStatus = 'dead' | 'redriven' | 'discarded';
+
+export class DeadLetterError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = 'DeadLetterError';
+  }
+}
+
+export type DeadLetterFilter = {
+  companyKey?: string;
+  eventType?: string;
+  status?: DeadLetterStatus;
+  ids?: number[];
+  limit?: number;
+};
+
+export type DeadLetterBulkResult = {
+  id: number;
+  success: boolean;
+  jobId?: string;
+  error?: string;
+};
+
+const ISSUE_HISTORY_LIMIT = 50;
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 500;
+const BULK_PAGE_SIZE = 100;
+
+/**
+ * Capture a job that will not be retried again. Never throws: a failing dead-letter write must
+ * not hide the original job error.
+ */
+export async function deadLetterJob(
+  job: Job<ProcessAlisEventJobData>,
+  error: unknown,
+): Promise<void> {
+  const data = job.data;
+  const jobId = job.id ?? `event-${data.eventType}-${data.eventMessageId}`;
+  const lastError = (error instanceof Error ? error.message : String(error)).slice(0, 2000);
+
+  try {
+    const issues = await prisma.eventProcessingIssue.findMany({
+      where: {
+        companyId: data.companyId,
+        eventType: data.eventType,
+        eventMessageId: data.eventMessageId,
+      },
+      orderBy: { createdAt: 'asc' },
+      take: ISSUE_HISTORY_LIMIT,
+      select: {
+        id: true,
+        stage: true,
+        severity: true,
+        message: true,
+        retryable: true,
+        createdAt: true,
+      },
+    });
+    const issueHistory = issues.map((issue) => ({
+      ...issue,
+      createdAt: issue.createdAt.toISOString(),
+    }));
+
+    const fields = {
+      companyId: data.companyId,
+      eventType: data.eventType,
+      eventMessageId: data.eventMessageId,
+      jobData: data as unknown as Prisma.InputJsonValue,
+      lastError,
+      attemptsMade: job.attemptsMade + 1,
+      issueHistory,
+      status: 'dead',
+      deadLetteredAt: new Date(),
+      resolvedAt: null,
+    };
+
+    await prisma.deadLetterJob.upsert({
+      where: { queueName_jobId: { queueName: PROCESS_ALIS_EVENT_QUEUE, jobId } },
+      create: { queueName: PROCESS_ALIS_EVENT_QUEUE, jobId, ...fields },
+      update: fields,
+    });
+
+    logger.warn(
+      {
+        jobId,
+        eventMessageId: data.eventMessageId,
+        eventType: data.eventType,
+        companyId: data.companyId,
+        error: lastError,
+      },
+      'event_job_dead_lettered',
+    );
+  } catch (deadLetterError) {
+    logger.error(
+      {
+        jobId,
+        eventMessageId: data.eventMessageId,
+        error: deadLetterError instanceof Error ? deadLetterError.message : String(deadLetterError),
+      },
+      'event_job_dead_letter_failed',
+    );
+  }
+}
+
+function buildWhere(filter: DeadLetterFilter): Prisma.DeadLetterJobWhereInput {
+  const where: Prisma.DeadLetterJobWhereInput = {
+    queueName: PROCESS_ALIS_EVENT_QUEUE,
+    status: filter.status ?? 'dead',
+  };
+  if (filter.companyKey) {
+    where.company = { companyKey: filter.companyKey };
+  }
+  if (filter.eventType) {
+    where.eventType = filter.eventType;
+  }
+  if (filter.ids && filter.ids.length > 0) {
+    where.id = { in: filter.ids };
+  }
+  return where;
+}
+
+function clampLimit(limit: number | undefined): number {
+  if (limit === undefined || !Number.isFinite(limit)) return DEFAULT_LIST_LIMIT;
+  return Math.min(Math.max(1, Math.floor(limit)), MAX_LIST_LIMIT);
+}
+
+export async function listDeadLetters(
+  filter: DeadLetterFilter,
+): Promise<{ totalCount: number; deadLetters: DeadLetterJob[] }> {
+  const where = buildWhere(filter);
+  const [totalCount, deadLetters] = await Promise.all([
+    prisma.deadLetterJob.count({ where }),
+    prisma.deadLetterJob.findMany({
+      where,
+      orderBy: { deadLetteredAt: 'desc' },
+      take: clampLimit(filter.limit),
+    }),
+  ]);
+  return { totalCount, deadLetters };
+}
+
+export async function getDeadLetter(id: number): Promise<DeadLetterJob> {
+  const deadLetter = await prisma.deadLetterJob.findUnique({ where: { id } });
+  if (!deadLetter) {
+    throw new DeadLetterError(`Dead-lettered job ${id} not found.`, 404);
+  }
+  return deadLetter;
+}
+
+async function getPendingDeadLetter(id: number): Promise<DeadLetterJob> {
+  const deadLetter = await getDeadLetter(id);
+  if (deadLetter.status !== 'dead') {
+    throw new DeadLetterError(`Dead-lettered job ${id} is already ${deadLetter.status}.`, 409);
+  }
+  return deadLetter;
+}
+
+/** Drop the failed BullMQ job so its jobId can be reused (or so it stops showing as failed). */
+async function removeFailedJob(jobId: string): Promise<void> {
+  const job = await processAlisEventQueue.getJob(jobId);
+  if (job) {
+    await job.remove();
+  }
+}
+
+/**
+ * Enqueue the job again under its original jobId with a fresh attempt budget, through the same
+ * path as a new event so it is sequenced with the resident's other jobs.
+ */
+export async function redriveDeadLetter(id: number): Promise<{ id: number; jobId: string }> {
+  const deadLetter = await getPendingDeadLetter(id);
+  const jobData = deadLetter.jobData as unknown as ProcessAlisEventJobData;
+
+  await removeFailedJob(deadLetter.jobId);
+  await enqueueProcessAlisEvent({ ...jobData, deferCount: 0 }, deadLetter.jobId);
+  await markEventQueued({
+    companyId: jobData.companyId,
+    eventType: jobData.eventType,
+    eventMessageId: jobData.eventMessageId,
+  });
+  await prisma.deadLetterJob.update({
+    where: { id },
+    data: {
+      status: 'redriven',
+      resolvedAt: new Date(),
+      redriveCount: { increment: 1 },
+    },
+  });
+
+  logger.info(
+    { deadLetterId: id, jobId: deadLetter.jobId, eventMessageId: jobData.eventMessageId },
+    'dead_letter_redriven',
+  );
+
+  return { id, jobId: deadLetter.jobId };
+}
+
+/**
+ * Give up on the job: it leaves the failed set and the row is kept for audit as `discarded`.
+ */
+export async function discardDeadLetter(id: number): Promise<{ id: number; jobId: string }> {
+  const deadLetter = await getPendingDeadLetter(id);
+
+  await removeFailedJob(deadLetter.jobId);
+  await prisma.deadLetterJob.update({
+    where: { id },
+    data: { status: 'discarded', resolvedAt: new Date() },
+  });
+
+  logger.info(
+    { deadLetterId: id, jobId: deadLetter.jobId, eventMessageId: deadLetter.eventMessageId },
+    'dead_letter_discarded',
+  );
+
+  return { id, jobId: deadLetter.jobId };
+}
+
+/**
+ * Every matching dead job, not just the first list page: ids are read in pages ordered by id,
+ * each page starting after the last id seen, so rows the action moves out of `dead` do not shift
+ * the next page and rows that fail it (and stay dead) are not picked up again. `filter.limit` is
+ * ignored.
+ */
+async function applyToMatching(
+  filter: DeadLetterFilter,
+  action: (id: number) => Promise<{ id: number; jobId: string }>,
+): Promise<DeadLetterBulkResult[]> {
+  const where = buildWhere({ ...filter, status: 'dead' });
+  const results: DeadLetterBulkResult[] = [];
+  let lastId: number | undefined;
+
+  for (;;) {
+    const page = await prisma.deadLetterJob.findMany({
+      where: lastId === undefined ? where : { AND: [where, { id: { gt: lastId } }] },
+      orderBy: { id: 'asc' },
+      take: BULK_PAGE_SIZE,
+      select: { id: true },
+    });
+
+    // One at a time so a large re-drive does not flood the queue or the database.
+    for (const { id } of page) {
+      try {
+        const result = await action(id);
+        results.push({ id: result.id, success: true, jobId: result.jobId });
+      } catch (error) {
+        results.push({
+          id,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (page.length < BULK_PAGE_SIZE) break;
+    lastId = page[page.length - 1].id;
+  }
+
+  return results;
+}
+
+export async function redriveDeadLetters(
+  filter: DeadLetterFilter,
+): Promise<DeadLetterBulkResult[]> {
+  return applyToMatching(filter, redriveDeadLetter);
+}
+
+export async function discardDeadLetters(
+  filter: DeadLetterFilter,
+): Promise<DeadLetterBulkResult[]> {
+  return applyToMatching(filter, discardDeadLetter);
+}
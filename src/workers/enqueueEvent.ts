@@ -0,0 +1,62 @@
+import type { AlisNotificationEvent } from '../webhook/schemas.js';
+
+import { processAlisEventQueue } from './queue.js';
+import { registerResidentEvent, unregisterResidentEvent } from './residentSequencer.js';
+import type { ProcessAlisEventJobData } from './types.js';
+
+/** Job id used for the first delivery of an event; BullMQ dedupes on it. */
+export function buildEventJobId(eventType: string, eventMessageId: string): string {
+  return `event-${eventType}-${eventMessageId}`;
+}
+
+export function buildProcessAlisEventJobData(
+  event: AlisNotificationEvent,
+  companyId: number,
+): ProcessAlisEventJobData {
+  return {
+    eventMessageId: event.EventMessageId,
+    eventType: event.EventType,
+    companyKey: event.CompanyKey,
+    companyId,
+    communityId: event.CommunityId ?? null,
+    residentId: event.NotificationData.ResidentId,
+    notificationData: event.NotificationData,
+    eventMessageDate: event.EventMessageDate,
+  };
+}
+
+/**
+ * The event a job was built from. Events are validated once, when they are taken in (webhook,
+ * replay or issue retry), so the job data already holds a parsed NotificationData.
+ */
+export function eventFromJobData(jobData: ProcessAlisEventJobData): AlisNotificationEvent {
+  return {
+    EventType: jobData.eventType,
+    CompanyKey: jobData.companyKey,
+    CommunityId: jobData.communityId,
+    EventMessageId: jobData.eventMessageId,
+    EventMessageDate: jobData.eventMessageDate,
+    NotificationData: jobData.notificationData,
+  } as AlisNotificationEvent;
+}
+
+/**
+ * Add a process-alis-event job, registering it with the resident sequencer first so the
+ * worker never sees an unsequenced job for this resident.
+ */
+export async function enqueueProcessAlisEvent(
+  jobData: ProcessAlisEventJobData,
+  jobId: string,
+): Promise<void> {
+  await registerResidentEvent(jobData, jobId);
+  try {
+    await processAlisEventQueue.add('process-alis-event', jobData, {
+      jobId,
+      removeOnComplete: true,
+      removeOnFail: false,
+    });
+  } catch (addError) {
+    await unregisterResidentEvent(jobData, jobId).catch(() => undefined);
+    throw addError;
+  }
+}
@@ -0,0 +1,211 @@
+import type { EventLog, Prisma } from '@prisma/client';
+
+import { logger } from '../config/logger.js';
+import { prisma } from '../db/prisma.js';
+import { markEventQueued } from '../domains/events.js';
+import { AlisEventSchema, parseAlisNotificationEvent } from '../webhook/schemas.js';
+
+import {
+  buildEventJobId,
+  buildProcessAlisEventJobData,
+  enqueueProcessAlisEvent,
+} from './enqueueEvent.js';
+import { processAlisEventQueue } from './queue.js';
+
+/**
+ * Operator retries for EventProcessingIssues flagged `retryable`.
+ *
+ * The job is rebuilt from the stored EventLog payload and enqueued under a new job id (the
+ * original one may still sit in the failed set). The issue is marked with the retry and is
+ * resolved by markEventProcessed once the event goes through.
+ */
+
+export class EventIssueRetryError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = 'EventIssueRetryError';
+  }
+}
+
+export type EventIssueRetryFilter = {
+  companyKey?: string;
+  eventType?: string;
+  stage?: string;
+  ids?: number[];
+  limit?: number;
+};
+
+export type EventIssueRetryResult = {
+  eventLogId: number;
+  issueIds: number[];
+  jobId: string;
+};
+
+export type EventIssueBulkRetryResult = {
+  eventLogId: number;
+  issueIds: number[];
+  success: boolean;
+  jobId?: string;
+  error?: string;
+};
+
+const DEFAULT_BULK_LIMIT = 100;
+const MAX_BULK_LIMIT = 500;
+
+async function isJobPending(jobId: string | null): Promise<boolean> {
+  if (!jobId) return false;
+  const job = await processAlisEventQueue.getJob(jobId);
+  if (!job) return false;
+  const state = await job.getState();
+  return state !== 'completed' && state !== 'failed' && state !== 'unknown';
+}
+
+async function enqueueEventRetry(
+  eventLog: EventLog,
+  issueIds: number[],
+  pendingRetryJobIds: Array<string | null>,
+): Promise<EventIssueRetryResult> {
+  const originalJobId = buildEventJobId(eventLog.eventType, eventLog.eventMessageId);
+  for (const jobId of [originalJobId, ...pendingRetryJobIds]) {
+    if (await isJobPending(jobId)) {
+      throw new EventIssueRetryError(
+        `Event ${eventLog.eventMessageId} still has a pending job (${jobId}).`,
+        409,
+      );
+    }
+  }
+
+  const parsed = AlisEventSchema.safeParse(eventLog.payload);
+  const typed = parsed.success ? parseAlisNotificationEvent(parsed.data) : null;
+  if (!typed?.success) {
+    throw new EventIssueRetryError(
+      `Stored payload for event ${eventLog.eventMessageId} is not a valid ALIS event.`,
+      422,
+    );
+  }
+
+  const jobData = buildProcessAlisEventJobData(typed.data, eventLog.companyId);
+  const jobId = `${originalJobId}-retry-${Date.now()}`;
+
+  await enqueueProcessAlisEvent(jobData, jobId);
+  await markEventQueued({
+    companyId: eventLog.companyId,
+    eventType: eventLog.eventType,
+    eventMessageId: eventLog.eventMessageId,
+  });
+  await prisma.eventProcessingIssue.updateMany({
+    where: { id: { in: issueIds } },
+    data: { retryRequestedAt: new Date(), retryJobId: jobId },
+  });
+
+  logger.info(
+    {
+      eventLogId: eventLog.id,
+      eventMessageId: eventLog.eventMessageId,
+      eventType: eventLog.eventType,
+      issueIds,
+      jobId,
+    },
+    'event_issue_retry_enqueued',
+  );
+
+  return { eventLogId: eventLog.id, issueIds, jobId };
+}
+
+export async function retryEventIssue(id: number): Promise<EventIssueRetryResult> {
+  const issue = await prisma.eventProcessingIssue.findUnique({
+    where: { id },
+    include: { eventLog: true },
+  });
+  if (!issue) {
+    throw new EventIssueRetryError(`Event issue ${id} not found.`, 404);
+  }
+  if (!issue.retryable) {
+    throw new EventIssueRetryError(`Event issue ${id} is not retryable.`, 409);
+  }
+  if (issue.resolvedAt) {
+    throw new EventIssueRetryError(`Event issue ${id} is already resolved.`, 409);
+  }
+  if (!issue.eventLog) {
+    throw new EventIssueRetryError(
+      `Event issue ${id} has no EventLog to rebuild the job from.`,
+      409,
+    );
+  }
+
+  return enqueueEventRetry(issue.eventLog, [issue.id], [issue.retryJobId]);
+}
+
+/**
+ * Retry every unresolved retryable issue matching the filter. Issues of the same event share one
+ * job; events are enqueued one at a time.
+ */
+export async function retryEventIssues(
+  filter: EventIssueRetryFilter,
+): Promise<EventIssueBulkRetryResult[]> {
+  const where: Prisma.EventProcessingIssueWhereInput = {
+    retryable: true,
+    resolvedAt: null,
+    eventLogId: { not: null },
+  };
+  if (filter.companyKey) {
+    where.company = { companyKey: filter.companyKey };
+  }
+  if (filter.eventType) {
+    where.eventType = filter.eventType;
+  }
+  if (filter.stage) {
+    where.stage = filter.stage;
+  }
+  if (filter.ids && filter.ids.length > 0) {
+    where.id = { in: filter.ids };
+  }
+
+  const limit =
+    filter.limit === undefined || !Number.isFinite(filter.limit)
+      ? DEFAULT_BULK_LIMIT
+      : Math.min(Math.max(1, Math.floor(filter.limit)), MAX_BULK_LIMIT);
+
+  const issues = await prisma.eventProcessingIssue.findMany({
+    where,
+    orderBy: { createdAt: 'asc' },
+    take: limit,
+    include: { eventLog: true },
+  });
+
+  const byEvent = new Map<
+    number,
+    { eventLog: EventLog; issueIds: number[]; retryJobIds: Array<string | null> }
+  >();
+  for (const issue of issues) {
+    if (!issue.eventLog) continue;
+    const group = byEvent.get(issue.eventLog.id) ?? {
+      eventLog: issue.eventLog,
+      issueIds: [],
+      retryJobIds: [],
+    };
+    group.issueIds.push(issue.id);
+    group.retryJobIds.push(issue.retryJobId);
+    byEvent.set(issue.eventLog.id, group);
+  }
+
+  const results: EventIssueBulkRetryResult[] = [];
+  for (const group of byEvent.values()) {
+    try {
+      const result = await enqueueEventRetry(group.eventLog, group.issueIds, group.retryJobIds);
+      results.push({ ...result, success: true });
+    } catch (error) {
+      results.push({
+        eventLogId: group.eventLog.id,
+        issueIds: group.issueIds,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,230 @@
+import type { EventLog, Prisma } from '@prisma/client';
+import { Job, Worker } from 'bullmq';
+
+import { logger } from '../config/logger.js';
+import { prisma } from '../db/prisma.js';
+import { markEventQueued } from '../domains/events.js';
+import { AlisEventSchema, parseAlisNotificationEvent } from '../webhook/schemas.js';
+
+import { getRedisConnection } from './connection.js';
+import {
+  buildEventJobId,
+  buildProcessAlisEventJobData,
+  enqueueProcessAlisEvent,
+} from './enqueueEvent.js';
+import { EVENT_REPLAY_QUEUE } from './queue.js';
+import { eventSequenceScore } from './residentSequencer.js';
+import type { EventReplayFilter, EventReplayJobData } from './types.js';
+
+/**
+ * Admin replay of stored EventLog entries, e.g. after a Caspio mapping fix.
+ *
+ * Matching events are loaded a page at a time by id and re-enqueued as process-alis-event jobs at
+ * a throttled rate, each page in EventMessageDate order. Across pages the resident sequencer runs
+ * each resident's jobs in EventMessageDate order, and replayed events still go through the
+ * worker's stale-event checks, so an old move_in does not undo a later move_out.
+ */
+
+export type EventReplaySummary = {
+  total: number;
+  enqueued: number;
+  skipped: number;
+  failed: number;
+  ratePerSecond: number;
+  failures: Array<{ eventLogId: number; eventMessageId: string; error: string }>;
+};
+
+export type EventReplaySample = {
+  id: number;
+  companyId: number;
+  communityId: number | null;
+  eventType: string;
+  eventMessageId: string;
+  status: string;
+  receivedAt: Date;
+};
+
+const REPLAY_PAGE_SIZE = 500;
+const DEFAULT_SAMPLE_SIZE = 10;
+const MAX_RECORDED_FAILURES = 50;
+
+/**
+ * `receivedFrom`/`receivedTo` bound when the webhook received the event (`receivedAt`);
+ * EventMessageDate only lives in the payload.
+ */
+export function buildEventReplayWhere(filter: EventReplayFilter): Prisma.EventLogWhereInput {
+  const where: Prisma.EventLogWhereInput = {};
+  if (filter.companyKey) {
+    where.company = { companyKey: filter.companyKey };
+  }
+  if (filter.eventType) {
+    where.eventType = filter.eventType;
+  }
+  if (filter.statuses && filter.statuses.length > 0) {
+    where.status = { in: filter.statuses };
+  }
+  if (filter.communityId !== undefined) {
+    where.communityId = filter.communityId;
+  }
+  if (filter.receivedFrom || filter.receivedTo) {
+    where.receivedAt = {
+      ...(filter.receivedFrom ? { gte: new Date(filter.receivedFrom) } : {}),
+      ...(filter.receivedTo ? { lte: new Date(filter.receivedTo) } : {}),
+    };
+  }
+  return where;
+}
+
+export async function previewEventReplay(
+  filter: EventReplayFilter,
+  sampleSize = DEFAULT_SAMPLE_SIZE,
+): Promise<{ totalCount: number; sample: EventReplaySample[] }> {
+  const where = buildEventReplayWhere(filter);
+  const [totalCount, sample] = await Promise.all([
+    prisma.eventLog.count({ where }),
+    prisma.eventLog.findMany({
+      where,
+      orderBy: { receivedAt: 'asc' },
+      take: sampleSize,
+      select: {
+        id: true,
+        companyId: true,
+        communityId: true,
+        eventType: true,
+        eventMessageId: true,
+        status: true,
+        receivedAt: true,
+      },
+    }),
+  ]);
+  return { totalCount, sample };
+}
+
+function readEventMessageDate(eventLog: EventLog): string {
+  const payload = eventLog.payload as { EventMessageDate?: unknown } | null;
+  return typeof payload?.EventMessageDate === 'string'
+    ? payload.EventMessageDate
+    : eventLog.receivedAt.toISOString();
+}
+
+/** Matching events a page at a time by id, each page oldest EventMessageDate first. */
+async function* replayEventPages(where: Prisma.EventLogWhereInput): AsyncGenerator<EventLog[]> {
+  let lastId = 0;
+
+  for (;;) {
+    const page = await prisma.eventLog.findMany({
+      where: { AND: [where, { id: { gt: lastId } }] },
+      orderBy: { id: 'asc' },
+      take: REPLAY_PAGE_SIZE,
+    });
+    if (page.length === 0) return;
+    lastId = page[page.length - 1].id;
+
+    yield page
+      .map((eventLog) => ({ eventLog, score: eventSequenceScore(readEventMessageDate(eventLog)) }))
+      .sort((a, b) => a.score - b.score || a.eventLog.id - b.eventLog.id)
+      .map(({ eventLog }) => eventLog);
+
+    if (page.length < REPLAY_PAGE_SIZE) return;
+  }
+}
+
+export function startEventReplayWorker(): Worker<EventReplayJobData> {
+  // One replay at a time; the throttle is per replay.
+  const worker = new Worker<EventReplayJobData>(
+    EVENT_REPLAY_QUEUE,
+    async (job) => processJob(job),
+    {
+      connection: getRedisConnection(),
+      concurrency: 1,
+    },
+  );
+
+  worker.on('failed', (job, error) => {
+    if (!job) return;
+    logger.error(
+      { jobId: job.id, filter: job.data.filter, error: error?.message },
+      'event_replay_job_failed',
+    );
+  });
+
+  worker.on('completed', (job) => {
+    logger.info({ jobId: job.id, filter: job.data.filter }, 'event_replay_job_completed');
+  });
+
+  return worker;
+}
+
+async function processJob(job: Job<EventReplayJobData>): Promise<EventReplaySummary> {
+  const { filter, ratePerSecond } = job.data;
+  const intervalMs = ratePerSecond > 0 ? Math.ceil(1000 / ratePerSecond) : 0;
+
+  logger.info({ jobId: job.id, filter, ratePerSecond }, 'event_replay_job_started');
+
+  const where = buildEventReplayWhere(filter);
+  const summary: EventReplaySummary = {
+    total: await prisma.eventLog.count({ where }),
+    enqueued: 0,
+    skipped: 0,
+    failed: 0,
+    ratePerSecond,
+    failures: [],
+  };
+  await job.updateProgress(summary);
+
+  for await (const page of replayEventPages(where)) {
+    for (const eventLog of page) {
+      const parsed = AlisEventSchema.safeParse(eventLog.payload);
+      const typed = parsed.success ? parseAlisNotificationEvent(parsed.data) : null;
+      if (!typed?.success) {
+        // Test events, unsupported types and payloads that never passed validation.
+        summary.skipped += 1;
+        await job.updateProgress(summary);
+        continue;
+      }
+
+      const jobData = buildProcessAlisEventJobData(typed.data, eventLog.companyId);
+      const jobId = `${buildEventJobId(eventLog.eventType, eventLog.eventMessageId)}-replay-${job.id}`;
+
+      try {
+        await enqueueProcessAlisEvent(jobData, jobId);
+        await markEventQueued({
+          companyId: eventLog.companyId,
+          eventType: eventLog.eventType,
+          eventMessageId: eventLog.eventMessageId,
+        });
+        summary.enqueued += 1;
+      } catch (error) {
+        summary.failed += 1;
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(
+          {
+            jobId: job.id,
+            eventLogId: eventLog.id,
+            eventMessageId: eventLog.eventMessageId,
+            error: message,
+          },
+          'event_replay_enqueue_failed',
+        );
+        if (summary.failures.length < MAX_RECORDED_FAILURES) {
+          summary.failures.push({
+            eventLogId: eventLog.id,
+            eventMessageId: eventLog.eventMessageId,
+            error: message,
+          });
+        }
+      }
+
+      await job.updateProgress(summary);
+      if (intervalMs > 0) await delay(intervalMs);
+    }
+  }
+
+  logger.info({ jobId: job.id, filter, summary }, 'event_replay_job_summary');
+
+  return summary;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -2,19 +2,31 @@ import { logger } from '../config/logger.js';
 
 import { startProcessAlisEventWorker } from './processAlisEvent.js';
 import { startResidentBackfillWorker } from './residentBackfill.js';
+import { startEventReplayWorker } from './eventReplay.js';
+import {
+  scheduleAlisCredentialCheck,
+  startAlisCredentialCheckWorker,
+} from './alisCredentialCheck.js';
 import { closeRedisConnection } from './connection.js';
 
 async function bootstrap(): Promise<void> {
   const worker = startProcessAlisEventWorker();
   const backfillWorker = startResidentBackfillWorker();
+  const replayWorker = startEventReplayWorker();
+  const credentialCheckWorker = startAlisCredentialCheckWorker();
+  await scheduleAlisCredentialCheck();
 
   logger.info('ALIS event worker started');
   logger.info('Resident backfill worker started');
+  logger.info('Event replay worker started');
+  logger.info('ALIS credential check worker started');
 
   const shutdown = async () => {
     logger.info('shutting_down_worker');
     await worker.close();
     await backfillWorker.close();
+    await replayWorker.close();
+    await credentialCheckWorker.close();
     await closeRedisConnection();
     logger.info('worker_stopped');
     process.exit(0);
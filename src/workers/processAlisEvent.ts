@@ -1,12 +1,11 @@
-import { Job, Worker } from 'bullmq';
+import { DelayedError, Job, Worker } from 'bullmq';
 
 import { env } from '../config/env.js';
 import { logger } from '../config/logger.js';
 import {
-  createAlisClient,
-  fetchAllResidentData,
-  resolveAlisCredentials,
-} from '../integrations/alisClient.js';
+  createAlisResidentDataContext,
+  type AlisResidentDataContext,
+} from '../integrations/alis/residentDataContext.js';
 import { normalizeResident } from '../integrations/mappers.js';
 import { handleAlisEvent } from '../integrations/caspio/eventOrchestrator.js';
 import {
@@ -14,16 +13,51 @@ import {
   findRecordByFields,
 } from '../integrations/caspio/caspioClient.js';
 import { getCommunityEnrichment } from '../integrations/caspio/caspioCommunityEnrichment.js';
+import { caspioTableNames } from '../integrations/caspio/caspioConnection.js';
+import { getAllCaspioSchemaValidations } from '../integrations/caspio/caspioTableSchema.js';
+import { runWithCompanyCaspioClient } from '../integrations/caspio/companyCaspioClient.js';
+import { loadCaspioColumnMapping } from '../domains/caspioColumnMappings.js';
+import { runWithCaspioWriteOrigin } from '../domains/caspioWriteAudit.js';
 import { errorToIssueDetails, recordEventIssue } from '../domains/eventIssues.js';
-import { markEventFailed, markEventProcessed } from '../domains/events.js';
+import { markEventFailed, markEventIgnored, markEventProcessed } from '../domains/events.js';
+import {
+  evaluateEventOrdering,
+  recordAppliedEvent,
+  type EventOrderingEvaluation,
+  type EventOrderingInput,
+} from '../domains/eventOrdering.js';
 import { upsertResident } from '../domains/residents.js';
-import { requiresLeaveFetch, requiresResidentFetch } from '../webhook/schemas.js';
-import type { AlisEvent } from '../webhook/schemas.js';
+import {
+  getNotificationLeaveId,
+  requiresResidentFetch,
+  type AlisNotificationEvent,
+} from '../webhook/schemas.js';
 
 import { getRedisConnection } from './connection.js';
-import { PROCESS_ALIS_EVENT_QUEUE } from './queue.js';
+import { deadLetterJob } from './deadLetter.js';
+import { eventFromJobData } from './enqueueEvent.js';
+import { PROCESS_ALIS_EVENT_QUEUE, processAlisEventQueue } from './queue.js';
+import {
+  acquireResidentTurn,
+  completeResidentTurn,
+  releaseResidentTurn,
+  unregisterResidentEvent,
+} from './residentSequencer.js';
 import type { ProcessAlisEventJobData } from './types.js';
 
+/**
+ * Thrown by processJob when the event must wait (e.g. leave_end ahead of its leave_start).
+ */
+class DeferEventError extends Error {
+  constructor(
+    message: string,
+    public readonly delayMs: number,
+  ) {
+    super(message);
+    this.name = 'DeferEventError';
+  }
+}
+
 export function startProcessAlisEventWorker(): Worker<ProcessAlisEventJobData> {
   logger.info(
     {
@@ -33,16 +67,12 @@ export function startProcessAlisEventWorker(): Worker<ProcessAlisEventJobData> {
     },
     'worker_caspio_table_configuration',
   );
-  if (env.CASPIO_TABLE_NAME.toLowerCase().includes('temp')) {
-    logger.warn(
-      { caspioPatientTable: env.CASPIO_TABLE_NAME },
-      'worker_caspio_patient_table_is_temp_verify_schema',
-    );
-  }
+  // Mismatches are logged as caspio_schema_mismatch; writes still fall back on FieldNotFound.
+  void getAllCaspioSchemaValidations();
 
   const worker = new Worker<ProcessAlisEventJobData>(
     PROCESS_ALIS_EVENT_QUEUE,
-    async (job) => processJob(job),
+    async (job, token) => processJobInResidentOrder(job, token),
     {
       connection: getRedisConnection(),
       concurrency: env.WORKER_CONCURRENCY,
@@ -74,19 +104,81 @@ export function startProcessAlisEventWorker(): Worker<ProcessAlisEventJobData> {
   return worker;
 }
 
+/**
+ * Run the job only when it is this resident's turn; otherwise park it as delayed
+ * (without consuming an attempt) and check again after RESIDENT_EVENT_WAIT_DELAY_MS.
+ */
+async function processJobInResidentOrder(
+  job: Job<ProcessAlisEventJobData>,
+  token?: string,
+): Promise<void> {
+  const jobId = job.id ?? `event-${job.data.eventType}-${job.data.eventMessageId}`;
+  const turn = await acquireResidentTurn(job.data, jobId, isJobPending);
+
+  if (!turn.acquired) {
+    logger.info(
+      {
+        jobId,
+        eventMessageId: job.data.eventMessageId,
+        residentId: job.data.residentId ?? null,
+        reason: turn.reason,
+        blockingJobId: turn.headJobId,
+      },
+      'resident_event_waiting_for_turn',
+    );
+    await job.moveToDelayed(Date.now() + env.RESIDENT_EVENT_WAIT_DELAY_MS, token);
+    throw new DelayedError();
+  }
+
+  try {
+    await runWithCaspioWriteOrigin(
+      {
+        source: 'event',
+        companyId: job.data.companyId,
+        residentId: job.data.residentId ?? null,
+        eventMessageId: job.data.eventMessageId,
+        eventType: job.data.eventType,
+        columnMapping: await loadCaspioColumnMapping(job.data.companyId),
+      },
+      () => runWithCompanyCaspioClient(job.data.companyId, () => processJob(job)),
+    );
+  } catch (error) {
+    if (error instanceof DeferEventError) {
+      // Step out of the sequence so the resident's later events are not held up while this one
+      // waits; it is registered again under its own event date when it comes back.
+      await unregisterResidentEvent(job.data, jobId);
+      await releaseResidentTurn(job.data, jobId);
+      await job.updateData({ ...job.data, deferCount: (job.data.deferCount ?? 0) + 1 });
+      await job.moveToDelayed(Date.now() + error.delayMs, token);
+      throw new DelayedError();
+    }
+    const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+    if (finalAttempt) {
+      await deadLetterJob(job, error);
+      await completeResidentTurn(job.data, jobId);
+    } else {
+      await releaseResidentTurn(job.data, jobId);
+    }
+    throw error;
+  }
+
+  await completeResidentTurn(job.data, jobId);
+}
+
+async function isJobPending(jobId: string): Promise<boolean> {
+  const job = await processAlisEventQueue.getJob(jobId);
+  if (!job) return false;
+  const state = await job.getState();
+  return state !== 'completed' && state !== 'failed' && state !== 'unknown';
+}
+
 async function processJob(job: Job<ProcessAlisEventJobData>): Promise<void> {
-  const {
-    eventMessageId,
-    eventType,
-    companyKey,
-    companyId,
-    communityId,
-    notificationData,
-    eventMessageDate,
-  } = job.data;
+  const { eventMessageId, eventType, companyKey, companyId, communityId, eventMessageDate } =
+    job.data;
 
   logger.info({ eventMessageId, eventType, companyKey }, 'worker_processing_event');
 
+  let residentData: AlisResidentDataContext | null = null;
   try {
     if (!requiresResidentFetch(eventType)) {
       logger.info({ eventMessageId, eventType }, 'event_does_not_require_processing');
@@ -94,23 +186,52 @@ async function processJob(job: Job<ProcessAlisEventJobData>): Promise<void> {
       return;
     }
 
-    const residentId = extractNumeric(notificationData, ['ResidentId', 'residentId']);
+    const event = eventFromJobData(job.data);
+    const residentId = event.NotificationData.ResidentId;
 
-    if (!residentId) {
-      await recordEventIssue({
-        companyId,
-        eventType,
-        eventMessageId,
-        communityId,
-        stage: 'webhook_payload',
-        severity: 'error',
-        message: 'ResidentId missing from NotificationData',
-        details: { notificationData },
-        retryable: false,
-      });
-      throw new Error('ResidentId missing from NotificationData');
+    const orderingInput: EventOrderingInput = {
+      companyId,
+      residentId,
+      eventType,
+      eventMessageId,
+      eventMessageDate,
+      leaveId: getNotificationLeaveId(event),
+      deferCount: job.data.deferCount ?? 0,
+    };
+    const ordering = await evaluateEventOrdering(orderingInput);
+    // In-order events are the normal path; only record decisions that change what gets applied.
+    if (
+      ordering &&
+      (ordering.decision !== 'apply' || ordering.reason === 'leave_start_never_arrived')
+    ) {
+      await recordOrderingDecision(job.data, residentId, ordering);
     }
 
+    if (ordering?.decision === 'skip') {
+      await markEventIgnored(
+        { companyId, eventType, eventMessageId },
+        `Skipped stale ${eventType}; newer ${ordering.family} event already applied`,
+      );
+      return;
+    }
+
+    if (ordering?.decision === 'defer') {
+      throw new DeferEventError(
+        `Deferred ${eventType}: ${ordering.reason}`,
+        env.EVENT_DEFER_DELAY_MS,
+      );
+    }
+
+    // Reconcile: drop the stale payload and resync the resident from the fresh ALIS fetch below.
+    const caspioEvent: AlisNotificationEvent =
+      ordering?.decision === 'reconcile'
+        ? {
+            ...event,
+            EventType: 'residents.basic_info_updated',
+            NotificationData: { ResidentId: residentId },
+          }
+        : event;
+
     const isContactEvent =
       eventType === 'resident.contact.created' ||
       eventType === 'resident.contact.updated' ||
@@ -123,16 +244,16 @@ async function processJob(job: Job<ProcessAlisEventJobData>): Promise<void> {
         if (communityId) {
           const enrichment = await getCommunityEnrichment(communityId);
           if (enrichment.CUID) {
-            lookup = await findRecordByFields(env.CASPIO_TABLE_NAME, [
+            lookup = await findRecordByFields(caspioTableNames().patient, [
               { field: 'PatientNumber', value: String(residentId) },
               { field: 'CUID', value: enrichment.CUID },
             ]);
           }
           if (!lookup?.found) {
-            lookup = await findByPatientNumber(env.CASPIO_TABLE_NAME, residentId);
+            lookup = await findByPatientNumber(caspioTableNames().patient, residentId);
           }
         } else {
-          lookup = await findByPatientNumber(env.CASPIO_TABLE_NAME, residentId);
+          lookup = await findByPatientNumber(caspioTableNames().patient, residentId);
         }
         if (!lookup.found) {
           await recordEventIssue({
@@ -180,51 +301,31 @@ async function processJob(job: Job<ProcessAlisEventJobData>): Promise<void> {
       }
     }
 
-    const credentials = await resolveAlisCredentials(companyId, companyKey);
-    const alisClient = createAlisClient(credentials);
-
-    const [residentDetail, residentBasicInfo] = await Promise.all([
-      alisClient.getResident(residentId),
-      alisClient.getResidentBasicInfo(residentId),
-    ]);
-
-    let leaveData = null;
-    if (requiresLeaveFetch(eventType)) {
-      const leaveId = extractNumeric(notificationData, ['LeaveId', 'leaveId']);
-      if (leaveId) {
-        leaveData = await alisClient.getLeave(leaveId);
-      } else {
-        const leaves = await alisClient.getResidentLeaves(residentId);
-        leaveData = leaves.find((leave) => {
-          const id = extractNumeric(leave, ['LeaveId', 'leaveId']);
-          return Boolean(id);
-        }) ?? null;
-      }
-    }
-
-    if (!isContactEvent || shouldProcessCaspio) {
-      // Fetch all resident data for Caspio push
-      try {
-        const allResidentData = await fetchAllResidentData(
-          credentials,
+    // One ALIS snapshot for the whole job; handleAlisEvent reuses it instead of refetching.
+    residentData = createAlisResidentDataContext({
+      companyId,
+      companyKey,
+      residentId,
+      communityId: communityId ?? null,
+      event: { eventType, eventMessageId },
+    });
+    if (shouldProcessCaspio) {
+      const allResidentData = await residentData.getResidentData();
+      logger.info(
+        {
+          eventMessageId,
           residentId,
-          communityId ?? null,
-        );
-        logger.info(
-          {
-            eventMessageId,
-            residentId,
-            communityId,
-            insuranceCount: allResidentData.insurance.length,
-            roomAssignmentsCount: allResidentData.roomAssignments.length,
-            diagnosesAndAllergiesCount: allResidentData.diagnosesAndAllergies.length,
-            contactsCount: allResidentData.contacts.length,
-            hasCommunity: !!allResidentData.community,
-            errors: allResidentData.errors,
-          },
-          'resident_data_fetched_for_caspio',
-        );
-      } catch (error) {
+          communityId,
+          insuranceCount: allResidentData.insurance.length,
+          roomAssignmentsCount: allResidentData.roomAssignments.length,
+          diagnosesAndAllergiesCount: allResidentData.diagnosesAndAllergies.length,
+          contactsCount: allResidentData.contacts.length,
+          hasCommunity: !!allResidentData.community,
+          errors: allResidentData.errors,
+        },
+        'resident_data_fetched_for_caspio',
+      );
+      if (allResidentData.errors) {
         await recordEventIssue({
           companyId,
           eventType,
@@ -233,41 +334,25 @@ async function processJob(job: Job<ProcessAlisEventJobData>): Promise<void> {
           communityId,
           stage: 'alis_full_data_fetch',
           severity: 'warning',
-          message: error instanceof Error ? error.message : String(error),
-          details: errorToIssueDetails(error),
+          message: `Partial ALIS resident data: ${Object.keys(allResidentData.errors).join(', ')}`,
+          details: withAlisRequestStats(allResidentData.errors, residentData),
           retryable: true,
         });
-        logger.error(
-          {
-            eventMessageId,
-            residentId,
-            error: error instanceof Error ? error.message : String(error),
-          },
-          'failed_to_fetch_all_resident_data_for_caspio',
-        );
       }
     }
 
+    // Without Caspio work only the local resident is updated, which needs the profile alone.
+    const profile = await residentData.getResidentProfile();
     const normalized = normalizeResident({
-      detail: residentDetail,
-      basicInfo: residentBasicInfo,
+      detail: profile.resident,
+      basicInfo: profile.basicInfo,
     });
 
     await upsertResident(companyId, normalized);
 
-    // Construct AlisEvent for Caspio event orchestrator
-    const event: AlisEvent = {
-      EventType: eventType,
-      CompanyKey: companyKey,
-      CommunityId: communityId ?? null,
-      EventMessageId: eventMessageId,
-      EventMessageDate: eventMessageDate,
-      NotificationData: notificationData,
-    };
-
     if (shouldProcessCaspio) {
       try {
-        await handleAlisEvent(event, companyId, companyKey);
+        await handleAlisEvent(caspioEvent, companyId, companyKey, residentData);
       } catch (caspioError) {
         await recordEventIssue({
           companyId,
@@ -278,7 +363,7 @@ async function processJob(job: Job<ProcessAlisEventJobData>): Promise<void> {
           stage: 'caspio_processing',
           severity: 'error',
           message: caspioError instanceof Error ? caspioError.message : String(caspioError),
-          details: errorToIssueDetails(caspioError),
+          details: withAlisRequestStats(errorToIssueDetails(caspioError), residentData),
           retryable: true,
         });
         logger.error(
@@ -293,10 +378,14 @@ async function processJob(job: Job<ProcessAlisEventJobData>): Promise<void> {
       }
     }
 
+    await recordAppliedEvent(orderingInput);
     await markEventProcessed({ companyId, eventType, eventMessageId });
 
     logger.info({ eventMessageId, eventType, companyKey }, 'event_processed_successfully');
   } catch (error) {
+    if (error instanceof DeferEventError) {
+      throw error;
+    }
     await recordEventIssue({
       companyId,
       eventType,
@@ -305,7 +394,7 @@ async function processJob(job: Job<ProcessAlisEventJobData>): Promise<void> {
       stage: 'event_processing',
       severity: 'error',
       message: error instanceof Error ? error.message : String(error),
-      details: errorToIssueDetails(error),
+      details: withAlisRequestStats(errorToIssueDetails(error), residentData),
       retryable: true,
     });
     logger.error(
@@ -322,22 +411,72 @@ async function processJob(job: Job<ProcessAlisEventJobData>): Promise<void> {
   }
 }
 
-function extractNumeric(
-  payload: Record<string, unknown> | undefined,
-  keys: string[],
-): number | undefined {
-  if (!payload) return undefined;
-  for (const key of keys) {
-    const value = payload[key];
-    if (typeof value === 'number' && Number.isFinite(value)) {
-      return value;
-    }
-    if (typeof value === 'string' && value.trim().length > 0) {
-      const parsed = Number(value);
-      if (Number.isFinite(parsed)) {
-        return parsed;
-      }
-    }
+/** Adds the job's ALIS retries and budget waits to an issue's details when there were any. */
+function withAlisRequestStats(
+  details: unknown,
+  residentData: AlisResidentDataContext | null,
+): unknown {
+  const stats = residentData?.requestStats;
+  if (!stats || (stats.retries === 0 && stats.budgetWaitMs === 0)) {
+    return details;
   }
-  return undefined;
+  const base =
+    details && typeof details === 'object' && !Array.isArray(details) ? details : { details };
+  return { ...base, alisRequests: { ...stats } };
+}
+
+async function recordOrderingDecision(
+  data: ProcessAlisEventJobData,
+  residentId: number,
+  ordering: EventOrderingEvaluation,
+): Promise<void> {
+  const messages: Record<EventOrderingEvaluation['reason'], string> = {
+    in_order: 'Event applied in order',
+    first_event_for_family: 'Event applied (first tracked for this family)',
+    stale: `Stale ${data.eventType} (older than last applied ${ordering.family} event); ${ordering.decision}`,
+    awaiting_leave_start: 'Leave end arrived before its leave start; deferred',
+    leave_start_never_arrived: 'Leave start never arrived; leave end applied anyway',
+  };
+
+  await recordEventIssue({
+    companyId: data.companyId,
+    eventType: data.eventType,
+    eventMessageId: data.eventMessageId,
+    residentId,
+    communityId: data.communityId,
+    stage: 'event_ordering',
+    severity:
+      ordering.decision === 'skip' || ordering.reason === 'leave_start_never_arrived'
+        ? 'warning'
+        : 'info',
+    message: messages[ordering.reason],
+    details: {
+      decision: ordering.decision,
+      reason: ordering.reason,
+      family: ordering.family,
+      policy: ordering.policy,
+      eventMessageDate: data.eventMessageDate,
+      deferCount: data.deferCount ?? 0,
+      lastApplied: ordering.watermark
+        ? {
+            eventMessageId: ordering.watermark.lastEventMessageId,
+            eventType: ordering.watermark.lastEventType,
+            eventMessageDate: ordering.watermark.lastEventMessageDate.toISOString(),
+            leaveId: ordering.watermark.lastLeaveId,
+          }
+        : null,
+    },
+    retryable: false,
+  });
+
+  logger.info(
+    {
+      eventMessageId: data.eventMessageId,
+      eventType: data.eventType,
+      residentId,
+      decision: ordering.decision,
+      reason: ordering.reason,
+    },
+    'event_ordering_decision',
+  );
 }
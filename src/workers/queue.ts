@@ -3,7 +3,11 @@ import { Queue } from 'bullmq';
 import { logger } from '../config/logger.js';
 
 import { getRedisConnection } from './connection.js';
-import type { ProcessAlisEventJobData, ResidentBackfillJobData } from './types.js';
+import type {
+  EventReplayJobData,
+  ProcessAlisEventJobData,
+  ResidentBackfillJobData,
+} from './types.js';
 
 export const PROCESS_ALIS_EVENT_QUEUE = 'process-alis-event';
 
@@ -42,3 +46,35 @@ export const residentBackfillQueue = new Queue<ResidentBackfillJobData>(RESIDENT
 residentBackfillQueue.on('error', (error) => {
   logger.error({ message: error.message }, 'queue_error');
 });
+
+export const EVENT_REPLAY_QUEUE = 'event-replay';
+
+// One attempt: a retried replay would enqueue the events it already replayed a second time.
+export const eventReplayQueue = new Queue<EventReplayJobData>(EVENT_REPLAY_QUEUE, {
+  connection: getRedisConnection(),
+  defaultJobOptions: {
+    removeOnFail: false,
+    removeOnComplete: 50,
+    attempts: 1,
+  },
+});
+
+eventReplayQueue.on('error', (error) => {
+  logger.error({ message: error.message }, 'queue_error');
+});
+
+export const ALIS_CREDENTIAL_CHECK_QUEUE = 'alis-credential-check';
+
+// Scheduled by the worker; a failed run is simply retried at the next interval.
+export const alisCredentialCheckQueue = new Queue(ALIS_CREDENTIAL_CHECK_QUEUE, {
+  connection: getRedisConnection(),
+  defaultJobOptions: {
+    removeOnFail: 20,
+    removeOnComplete: 20,
+    attempts: 1,
+  },
+});
+
+alisCredentialCheckQueue.on('error', (error) => {
+  logger.error({ message: error.message }, 'queue_error');
+});
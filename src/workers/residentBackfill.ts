@@ -3,12 +3,23 @@ import { Job, Worker } from 'bullmq';
 import { env } from '../config/env.js';
 import { logger } from '../config/logger.js';
 import { prisma } from '../db/prisma.js';
+import { loadCaspioColumnMapping } from '../domains/caspioColumnMappings.js';
+import { runWithCaspioWriteOrigin } from '../domains/caspioWriteAudit.js';
 import {
   createAlisClient,
   fetchAllResidentData,
   resolveAlisCredentials,
+  type AlisResidentDetail,
 } from '../integrations/alisClient.js';
+import {
+  createCaspioLookupCache,
+  type CaspioLookupCache,
+} from '../integrations/caspio/caspioLookupCache.js';
+import type { CaspioColumnMapping } from '../integrations/caspio/caspioColumnMapping.js';
+import { caspioTableNames } from '../integrations/caspio/caspioConnection.js';
+import { runWithCompanyCaspioClient } from '../integrations/caspio/companyCaspioClient.js';
 import { pushToCaspio } from '../integrations/caspio/pushToCaspio.js';
+import { runWithCaspioRequestPriority } from '../integrations/caspio/requestBudget.js';
 import type { AlisPayload } from '../integrations/alis/types.js';
 
 import { getRedisConnection } from './connection.js';
@@ -21,6 +32,8 @@ type BackfillSummary = {
   failed: number;
   skipped: number;
   pageSize: number;
+  /** Resident count reported by ALIS, once a page includes it. */
+  expectedTotal: number | null;
   failedResidents: Array<{ residentId: number; error: string }>;
 };
 
@@ -83,7 +96,9 @@ async function processJob(job: Job<ResidentBackfillJobData>): Promise<BackfillSu
   }
 
   const credentials = await resolveAlisCredentials(company.id, companyKey);
-  const client = createAlisClient(credentials);
+  const clientOptions = { budgetKey: companyKey, schemaDrift: { companyId: company.id } };
+  const client = createAlisClient(credentials, clientOptions);
+  const columnMapping = await loadCaspioColumnMapping(company.id);
 
   const summary: BackfillSummary = {
     total: 0,
@@ -91,90 +106,111 @@ async function processJob(job: Job<ResidentBackfillJobData>): Promise<BackfillSu
     failed: 0,
     skipped: 0,
     pageSize: Number.isFinite(pageSize) && pageSize ? pageSize : 100,
+    expectedTotal: null,
     failedResidents: [],
   };
 
-  let page = 1;
-  let hasMore = true;
+  // Caspio rows for each page are fetched in a few batched queries up front; the per-resident
+  // pushes upsert against them instead of looking every resident up.
+  const lookupCache = createCaspioLookupCache();
+
+  const residents = client.iterateResidents({
+    communityId,
+    status,
+    pageSize: summary.pageSize,
+    onPage: async (progress, pageResidents) => {
+      summary.expectedTotal = progress.totalCount;
+      await prefetchCaspioRows(lookupCache, {
+        companyId: company.id,
+        communityId,
+        residents: pageResidents,
+        jobId: job.id,
+        columnMapping,
+      });
+    },
+  });
 
-  while (hasMore) {
-    const { residents, hasMore: nextPage } = await client.listResidents({
-      companyKey: undefined,
-      communityId,
-      status,
-      page,
-      pageSize: summary.pageSize,
-    });
+  for await (const resident of residents) {
+    summary.total += 1;
 
-    if (!residents.length) {
-      break;
+    const residentId = Number(resident.ResidentId ?? resident.residentId);
+    if (!Number.isFinite(residentId)) {
+      summary.skipped += 1;
+      logger.warn(
+        { companyKey, communityId, resident },
+        'resident_backfill_skip_missing_resident_id',
+      );
+      await job.updateProgress(summary);
+      continue;
     }
 
-    for (const resident of residents) {
-      summary.total += 1;
-
-      const residentId = Number(resident.ResidentId ?? resident.residentId);
-      if (!Number.isFinite(residentId)) {
-        summary.skipped += 1;
-        logger.warn(
-          { companyKey, communityId, resident },
-          'resident_backfill_skip_missing_resident_id',
-        );
-        await job.updateProgress(summary);
-        continue;
-      }
+    try {
+      const allData = await fetchAllResidentData(
+        credentials,
+        residentId,
+        communityId,
+        clientOptions,
+      );
 
-      try {
-        const allData = await fetchAllResidentData(credentials, residentId, communityId);
+      const alisPayload: AlisPayload = {
+        success: true,
+        residentId,
+        timestamp: new Date().toISOString(),
+        apiBase: env.ALIS_API_BASE,
+        data: {
+          resident: allData.resident,
+          basicInfo: allData.basicInfo,
+          insurance: allData.insurance,
+          roomAssignments: allData.roomAssignments,
+          diagnosesAndAllergies: allData.diagnosesAndAllergies,
+          diagnosesAndAllergiesFull: allData.diagnosesAndAllergiesFull,
+          contacts: allData.contacts,
+          community: allData.community,
+        },
+        counts: {
+          insurance: allData.insurance.length,
+          roomAssignments: allData.roomAssignments.length,
+          diagnosesAndAllergies: allData.diagnosesAndAllergies.length,
+          contacts: allData.contacts.length,
+        },
+      };
 
-        const alisPayload: AlisPayload = {
-          success: true,
+      await runWithCaspioWriteOrigin(
+        {
+          source: 'backfill',
+          companyId: company.id,
           residentId,
-          timestamp: new Date().toISOString(),
-          apiBase: env.ALIS_API_BASE,
-          data: {
-            resident: allData.resident,
-            basicInfo: allData.basicInfo,
-            insurance: allData.insurance,
-            roomAssignments: allData.roomAssignments,
-            diagnosesAndAllergies: allData.diagnosesAndAllergies,
-            diagnosesAndAllergiesFull: allData.diagnosesAndAllergiesFull,
-            contacts: allData.contacts,
-            community: allData.community,
-          },
-          counts: {
-            insurance: allData.insurance.length,
-            roomAssignments: allData.roomAssignments.length,
-            diagnosesAndAllergies: allData.diagnosesAndAllergies.length,
-            contacts: allData.contacts.length,
-          },
-        };
-
-        await pushToCaspio(alisPayload, { skipServiceUpsert: true });
-        summary.succeeded += 1;
-      } catch (error) {
-        summary.failed += 1;
-        const message = error instanceof Error ? error.message : String(error);
-        logger.error(
-          {
-            companyKey,
-            communityId,
-            residentId,
-            error: message,
-          },
-          'resident_backfill_resident_failed',
-        );
-        if (summary.failedResidents.length < 50) {
-          summary.failedResidents.push({ residentId, error: message });
-        }
+          backfillJobId: job.id,
+          columnMapping,
+        },
+        () =>
+          pushToCaspio(alisPayload, {
+            skipServiceUpsert: true,
+            priority: 'bulk',
+            lookupCache,
+            companyId: company.id,
+          }),
+      );
+      summary.succeeded += 1;
+    } catch (error) {
+      summary.failed += 1;
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(
+        {
+          companyKey,
+          communityId,
+          residentId,
+          error: message,
+        },
+        'resident_backfill_resident_failed',
+      );
+      if (summary.failedResidents.length < 50) {
+        summary.failedResidents.push({ residentId, error: message });
       }
-
-      await job.updateProgress(summary);
-      await delay(200);
     }
 
-    page += 1;
-    hasMore = nextPage;
+    await job.updateProgress(summary);
+    await delay(200);
   }
 
   logger.info(
@@ -185,6 +221,55 @@ async function processJob(job: Job<ResidentBackfillJobData>): Promise<BackfillSu
   return summary;
 }
 
+/**
+ * Prefetch the community row and the care patient rows for one ALIS page. Service rows are not
+ * prefetched: the backfill pushes with `skipServiceUpsert`, so they never look one up. The
+ * prefetch runs under the job's write origin, so rows come back under the mapper's column names
+ * and a truncated query is recorded against the job. A failed prefetch only costs the savings:
+ * the pushes fall back to their own lookups.
+ */
+async function prefetchCaspioRows(
+  lookupCache: CaspioLookupCache,
+  params: {
+    companyId: number;
+    communityId: number;
+    residents: AlisResidentDetail[];
+    jobId: string | undefined;
+    columnMapping: CaspioColumnMapping | null;
+  },
+): Promise<void> {
+  const { companyId, communityId, residents, jobId, columnMapping } = params;
+  const patientNumbers = residents
+    .map((resident) => Number(resident.ResidentId ?? resident.residentId))
+    .filter((residentId) => Number.isFinite(residentId))
+    .map((residentId) => String(residentId));
+
+  try {
+    await runWithCaspioWriteOrigin(
+      { source: 'backfill', companyId, backfillJobId: jobId, columnMapping },
+      () =>
+        runWithCompanyCaspioClient(companyId, () =>
+          runWithCaspioRequestPriority('bulk', async () => {
+            await lookupCache.prefetch(caspioTableNames().community, 'CommunityID', [
+              String(communityId),
+            ]);
+            await lookupCache.prefetch(caspioTableNames().patient, 'PatientNumber', patientNumbers);
+          }),
+        ),
+    );
+  } catch (error) {
+    logger.warn(
+      {
+        jobId,
+        communityId,
+        residentCount: patientNumbers.length,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      'resident_backfill_caspio_prefetch_failed',
+    );
+  }
+}
+
 function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
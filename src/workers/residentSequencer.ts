@@ -0,0 +1,164 @@
+import { env } from '../config/env.js';
+import { logger } from '../config/logger.js';
+
+import { getRedisConnection } from './connection.js';
+import type { ProcessAlisEventJobData } from './types.js';
+
+/**
+ * Per-resident ordering for process-alis-event jobs.
+ *
+ * Every resident event is registered in a Redis sorted set keyed by (companyId, residentId),
+ * scored by EventMessageDate. A job may only run when it is the head of that set and holds the
+ * resident lock; the lock covers the window where an older event arrives while a newer one is
+ * already running. Different residents use different keys and still run in parallel.
+ */
+
+const SEQUENCE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+export type ResidentSequenceKey = {
+  companyId: number;
+  residentId: number;
+};
+
+export type ResidentTurn =
+  | { acquired: true }
+  | { acquired: false; reason: 'not_head' | 'locked'; headJobId: string | null };
+
+function sequenceKey(key: ResidentSequenceKey): string {
+  return `alis:resident-events:${key.companyId}:${key.residentId}`;
+}
+
+function lockKey(key: ResidentSequenceKey): string {
+  return `alis:resident-lock:${key.companyId}:${key.residentId}`;
+}
+
+/**
+ * Sort score for an event. ALIS dates often lack a timezone; they are still comparable with each
+ * other, which is all ordering needs. Unparseable dates sort by arrival.
+ */
+export function eventSequenceScore(eventMessageDate: string): number {
+  const parsed = Date.parse(eventMessageDate);
+  return Number.isNaN(parsed) ? Date.now() : parsed;
+}
+
+export function resolveResidentSequenceKey(
+  data: ProcessAlisEventJobData,
+): ResidentSequenceKey | null {
+  const residentId =
+    data.residentId ??
+    Number(data.notificationData?.ResidentId ?? data.notificationData?.residentId);
+  if (!Number.isInteger(residentId) || residentId <= 0) {
+    return null;
+  }
+  return { companyId: data.companyId, residentId };
+}
+
+export async function registerResidentEvent(
+  data: ProcessAlisEventJobData,
+  jobId: string,
+): Promise<void> {
+  const key = resolveResidentSequenceKey(data);
+  if (!key) return;
+
+  const redis = getRedisConnection();
+  await redis
+    .multi()
+    .zadd(sequenceKey(key), eventSequenceScore(data.eventMessageDate), jobId)
+    .expire(sequenceKey(key), SEQUENCE_TTL_SECONDS)
+    .exec();
+}
+
+export async function unregisterResidentEvent(
+  data: ProcessAlisEventJobData,
+  jobId: string,
+): Promise<void> {
+  const key = resolveResidentSequenceKey(data);
+  if (!key) return;
+
+  await getRedisConnection().zrem(sequenceKey(key), jobId);
+}
+
+/**
+ * Try to take this resident's turn for `jobId`.
+ *
+ * `isJobPending` lets the caller drop heads whose jobs were removed or already finished
+ * (e.g. a worker crashed before unregistering), so one lost job cannot block a resident forever.
+ */
+export async function acquireResidentTurn(
+  data: ProcessAlisEventJobData,
+  jobId: string,
+  isJobPending: (jobId: string) => Promise<boolean>,
+): Promise<ResidentTurn> {
+  const key = resolveResidentSequenceKey(data);
+  if (!key) return { acquired: true };
+
+  const redis = getRedisConnection();
+
+  // Jobs enqueued before sequencing existed (or re-driven by hand) are registered lazily.
+  const score = await redis.zscore(sequenceKey(key), jobId);
+  if (score === null) {
+    await registerResidentEvent(data, jobId);
+  }
+
+  let headJobId = await readHead(key);
+  while (headJobId && headJobId !== jobId && !(await isJobPending(headJobId))) {
+    logger.warn(
+      { companyId: key.companyId, residentId: key.residentId, staleJobId: headJobId },
+      'resident_sequence_stale_head_removed',
+    );
+    await redis.zrem(sequenceKey(key), headJobId);
+    headJobId = await readHead(key);
+  }
+
+  if (headJobId !== jobId) {
+    return { acquired: false, reason: 'not_head', headJobId };
+  }
+
+  const locked = await redis.set(lockKey(key), jobId, 'PX', env.RESIDENT_EVENT_LOCK_TTL_MS, 'NX');
+  if (locked !== 'OK') {
+    const holder = await redis.get(lockKey(key));
+    if (holder !== jobId) {
+      return { acquired: false, reason: 'locked', headJobId: holder };
+    }
+    // Same job re-acquiring after a retry: refresh the TTL.
+    await redis.pexpire(lockKey(key), env.RESIDENT_EVENT_LOCK_TTL_MS);
+  }
+
+  return { acquired: true };
+}
+
+/**
+ * Give up the turn without leaving the sequence (job will be retried and must stay first).
+ */
+export async function releaseResidentTurn(
+  data: ProcessAlisEventJobData,
+  jobId: string,
+): Promise<void> {
+  const key = resolveResidentSequenceKey(data);
+  if (!key) return;
+
+  await getRedisConnection().eval(RELEASE_LOCK_SCRIPT, 1, lockKey(key), jobId);
+}
+
+/**
+ * The job is done for good (processed or out of attempts): let the next event run.
+ */
+export async function completeResidentTurn(
+  data: ProcessAlisEventJobData,
+  jobId: string,
+): Promise<void> {
+  await unregisterResidentEvent(data, jobId);
+  await releaseResidentTurn(data, jobId);
+}
+
+async function readHead(key: ResidentSequenceKey): Promise<string | null> {
+  const [head] = await getRedisConnection().zrange(sequenceKey(key), 0, 0);
+  return head ?? null;
+}
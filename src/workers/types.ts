@@ -4,8 +4,28 @@ export type ProcessAlisEventJobData = {
   companyKey: string;
   companyId: number;
   communityId: number | null;
+  /** Set for resident events; jobs for the same (companyId, residentId) run in EventMessageDate order. */
+  residentId?: number | null;
   notificationData?: Record<string, unknown>;
   eventMessageDate: string;
+  /** Times the worker has deferred this event while waiting for an earlier dependency. */
+  deferCount?: number;
+};
+
+/** EventLog filters for a replay; dates are ISO strings so the job data stays JSON. */
+export type EventReplayFilter = {
+  companyKey?: string;
+  eventType?: string;
+  statuses?: string[];
+  communityId?: number;
+  /** Bounds on when the webhook received the event, not its EventMessageDate. */
+  receivedFrom?: string;
+  receivedTo?: string;
+};
+
+export type EventReplayJobData = {
+  filter: EventReplayFilter;
+  ratePerSecond: number;
 };
 
 export type ResidentBackfillJobData = {
@@ -0,0 +1,135 @@
+const companyFindUniqueMock = jest.fn();
+const connectionFindUniqueMock = jest.fn();
+const connectionUpsertMock = jest.fn();
+const connectionDeleteManyMock = jest.fn();
+const discardSharedCaspioTokenMock = jest.fn();
+
+jest.mock('../../src/db/prisma.js', () => ({
+  prisma: {
+    company: { findUnique: companyFindUniqueMock },
+    caspioConnection: {
+      findUnique: connectionFindUniqueMock,
+      upsert: connectionUpsertMock,
+      deleteMany: connectionDeleteManyMock,
+    },
+  },
+}));
+
+jest.mock('../../src/integrations/caspio/tokenStore.js', () => ({
+  DEFAULT_CASPIO_CONNECTION_KEY: 'default',
+  getSharedCaspioToken: jest.fn(),
+  clearSharedCaspioToken: jest.fn(),
+  discardSharedCaspioToken: discardSharedCaspioTokenMock,
+}));
+
+jest.mock('../../src/security/credentials.js', () => ({
+  encryptSecret: (plaintext: string) => ({ ciphertext: `enc:${plaintext}`, iv: 'iv' }),
+  decryptSecret: (ciphertext: string) => ciphertext.replace(/^enc:/, ''),
+}));
+
+jest.mock('../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import {
+  CaspioConnectionError,
+  upsertCaspioConnection,
+} from '../../src/admin/caspioConnections.js';
+import { getCaspioClientForCompany } from '../../src/integrations/caspio/companyCaspioClient.js';
+
+function storedConnection(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    companyId: 11,
+    baseUrl: 'https://acme.caspio.com',
+    tokenUrl: 'https://acme.caspio.com/oauth/token',
+    clientId: 'acme-client',
+    clientSecretCiphertext: 'enc:acme-secret',
+    clientSecretIv: 'iv',
+    patientTableName: 'AcmePatients',
+    communityTableName: null,
+    serviceTableName: null,
+    offPremHistoryTableName: null,
+    createdAt: new Date('2026-10-19T16:00:00Z'),
+    updatedAt: new Date('2026-10-19T16:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Caspio connections', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    companyFindUniqueMock.mockResolvedValue({ id: 11, companyKey: 'acme' });
+    connectionUpsertMock.mockImplementation(async ({ create }) => ({
+      ...create,
+      updatedAt: new Date('2026-10-19T17:00:00Z'),
+    }));
+  });
+
+  it('stores the secret encrypted, defaults the token URL and drops the old token', async () => {
+    const result = await upsertCaspioConnection('acme', {
+      baseUrl: 'https://acme.caspio.com/',
+      clientId: 'acme-client',
+      clientSecret: 'acme-secret',
+      tables: { patient: 'AcmePatients' },
+    });
+
+    expect(connectionUpsertMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { companyId: 11 },
+        create: expect.objectContaining({
+          baseUrl: 'https://acme.caspio.com',
+          tokenUrl: 'https://acme.caspio.com/oauth/token',
+          clientSecretCiphertext: 'enc:acme-secret',
+          clientSecretIv: 'iv',
+          patientTableName: 'AcmePatients',
+          communityTableName: null,
+        }),
+      }),
+    );
+    expect(result.connection).toEqual(
+      expect.objectContaining({
+        clientId: 'acme-client',
+        tables: expect.objectContaining({ patient: 'AcmePatients' }),
+      }),
+    );
+    expect(JSON.stringify(result)).not.toContain('acme-secret');
+    expect(discardSharedCaspioTokenMock).toHaveBeenCalledWith('company-11');
+  });
+
+  it('rejects an invalid connection with its issues before touching the database', async () => {
+    const error = await upsertCaspioConnection('acme', {
+      baseUrl: 'not a url',
+      clientId: 'acme-client',
+    }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(CaspioConnectionError);
+    expect(error).toEqual(expect.objectContaining({ status: 400 }));
+    expect((error as CaspioConnectionError).issues?.map((issue) => issue.path)).toEqual([
+      'baseUrl',
+      'clientSecret',
+    ]);
+    expect(companyFindUniqueMock).not.toHaveBeenCalled();
+    expect(connectionUpsertMock).not.toHaveBeenCalled();
+  });
+
+  it('drops the cached client so the next job uses the new connection', async () => {
+    connectionFindUniqueMock.mockResolvedValue(storedConnection());
+    const client = await getCaspioClientForCompany(11);
+
+    await upsertCaspioConnection('acme', {
+      baseUrl: 'https://acme.caspio.com',
+      clientId: 'acme-client',
+      clientSecret: 'rotated-secret',
+    });
+    connectionFindUniqueMock.mockResolvedValueOnce(
+      storedConnection({ updatedAt: new Date('2026-10-19T17:00:00Z') }),
+    );
+    await expect(getCaspioClientForCompany(11)).resolves.not.toBe(client);
+  });
+});
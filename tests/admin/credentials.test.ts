@@ -0,0 +1,152 @@
+const companyFindUniqueMock = jest.fn();
+const alisCredentialUpsertMock = jest.fn();
+const alisCredentialFindManyMock = jest.fn();
+const alisCredentialUpdateMock = jest.fn();
+const getCommunitiesMock = jest.fn();
+const recordEventIssueMock = jest.fn();
+
+jest.mock('../../src/db/prisma.js', () => ({
+  prisma: {
+    company: { findUnique: companyFindUniqueMock },
+    alisCredential: {
+      upsert: alisCredentialUpsertMock,
+      findMany: alisCredentialFindManyMock,
+      update: alisCredentialUpdateMock,
+    },
+  },
+}));
+
+jest.mock('../../src/integrations/alisClient.js', () => ({
+  AlisApiError: class AlisApiError extends Error {
+    constructor(
+      message: string,
+      public status?: number,
+    ) {
+      super(message);
+    }
+  },
+  createAlisClient: () => ({ getCommunities: getCommunitiesMock }),
+}));
+
+jest.mock('../../src/domains/eventIssues.js', () => ({
+  recordEventIssue: recordEventIssueMock,
+}));
+
+jest.mock('../../src/security/credentials.js', () => ({
+  encryptSecret: (plaintext: string) => ({ ciphertext: `enc:${plaintext}`, iv: 'iv' }),
+  decryptSecret: (ciphertext: string) => ciphertext.replace(/^enc:/, ''),
+}));
+
+jest.mock('../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import {
+  AlisCredentialError,
+  checkStoredAlisCredentials,
+  upsertAlisCredential,
+} from '../../src/admin/credentials.js';
+import { AlisApiError } from '../../src/integrations/alisClient.js';
+
+function storedCredential(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    companyId: 10,
+    username: 'alis-user',
+    passwordCiphertext: 'enc:secret',
+    passwordIv: 'iv',
+    lastVerifiedAt: null,
+    lastVerificationStatus: 'ok',
+    lastVerificationError: null,
+    failingSince: null,
+    company: { companyKey: 'appstoresandbox' },
+    ...overrides,
+  };
+}
+
+describe('ALIS credentials', () => {
+  beforeEach(() => {
+    companyFindUniqueMock.mockResolvedValue({ id: 10, companyKey: 'appstoresandbox' });
+    alisCredentialUpsertMock.mockImplementation(async ({ create }) => create);
+  });
+
+  it('stores verified credentials with the verification result', async () => {
+    getCommunitiesMock.mockResolvedValueOnce([]);
+
+    const result = await upsertAlisCredential({
+      companyKey: 'appstoresandbox',
+      username: 'alis-user',
+      password: 'secret',
+      verify: true,
+    });
+
+    expect(result.verification?.status).toBe('ok');
+    expect(alisCredentialUpsertMock.mock.calls[0][0].update).toEqual(
+      expect.objectContaining({
+        passwordCiphertext: 'enc:secret',
+        lastVerificationStatus: 'ok',
+        lastVerifiedAt: expect.any(Date),
+        failingSince: null,
+      }),
+    );
+  });
+
+  it('does not store credentials ALIS rejects', async () => {
+    getCommunitiesMock.mockRejectedValueOnce(new AlisApiError('Unauthorized', 401));
+
+    const result = upsertAlisCredential({
+      companyKey: 'appstoresandbox',
+      username: 'alis-user',
+      password: 'wrong',
+      verify: true,
+    });
+
+    await expect(result).rejects.toBeInstanceOf(AlisCredentialError);
+    await expect(result).rejects.toMatchObject({
+      status: 422,
+      verification: expect.objectContaining({ status: 'invalid' }),
+    });
+    expect(alisCredentialUpsertMock).not.toHaveBeenCalled();
+  });
+
+  it('flags credentials once when ALIS starts rejecting them', async () => {
+    alisCredentialFindManyMock.mockResolvedValueOnce([
+      storedCredential(),
+      storedCredential({
+        id: 2,
+        companyId: 11,
+        failingSince: new Date('2026-10-01T00:00:00Z'),
+        company: { companyKey: 'already-failing' },
+      }),
+      storedCredential({ id: 3, companyId: 12, company: { companyKey: 'alis-down' } }),
+    ]);
+    getCommunitiesMock
+      .mockRejectedValueOnce(new AlisApiError('Unauthorized', 401))
+      .mockRejectedValueOnce(new AlisApiError('Unauthorized', 401))
+      .mockRejectedValueOnce(new AlisApiError('Service Unavailable', 503));
+
+    const summary = await checkStoredAlisCredentials();
+
+    expect(summary).toEqual({
+      checked: 3,
+      ok: 0,
+      invalid: 2,
+      error: 1,
+      newlyFailing: ['appstoresandbox'],
+    });
+    expect(recordEventIssueMock).toHaveBeenCalledTimes(1);
+    expect(recordEventIssueMock).toHaveBeenCalledWith(
+      expect.objectContaining({ companyId: 10, stage: 'alis_credentials', severity: 'error' }),
+    );
+    expect(alisCredentialUpdateMock.mock.calls.map(([args]) => args.data.failingSince)).toEqual([
+      expect.any(Date),
+      new Date('2026-10-01T00:00:00Z'),
+      null,
+    ]);
+  });
+});
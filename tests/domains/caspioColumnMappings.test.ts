@@ -0,0 +1,95 @@
+const companyFindUniqueMock = jest.fn();
+const mappingFindUniqueMock = jest.fn();
+const mappingUpsertMock = jest.fn();
+const mappingDeleteManyMock = jest.fn();
+
+jest.mock('../../src/db/prisma.js', () => ({
+  prisma: {
+    company: { findUnique: companyFindUniqueMock },
+    caspioColumnMapping: {
+      findUnique: mappingFindUniqueMock,
+      upsert: mappingUpsertMock,
+      deleteMany: mappingDeleteManyMock,
+    },
+  },
+}));
+
+jest.mock('../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import {
+  CaspioColumnMappingError,
+  loadCaspioColumnMapping,
+  setCaspioColumnMapping,
+} from '../../src/domains/caspioColumnMappings.js';
+
+describe('caspioColumnMappings', () => {
+  const updatedAt = new Date('2026-10-19T15:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    companyFindUniqueMock.mockResolvedValue({ id: 10, companyKey: 'acme' });
+  });
+
+  it('stores a validated mapping with the defaults filled in', async () => {
+    mappingUpsertMock.mockResolvedValueOnce({ updatedAt });
+
+    await expect(
+      setCaspioColumnMapping('acme', { patient: { rename: { RoomNumber: 'Room' } } }),
+    ).resolves.toEqual({
+      companyId: 10,
+      companyKey: 'acme',
+      mapping: { patient: { rename: { RoomNumber: 'Room' }, drop: [], defaults: {} } },
+      updatedAt,
+    });
+
+    const config = { patient: { rename: { RoomNumber: 'Room' }, drop: [], defaults: {} } };
+    expect(mappingUpsertMock).toHaveBeenCalledWith({
+      where: { companyId: 10 },
+      create: { companyId: 10, config },
+      update: { config },
+    });
+  });
+
+  it('rejects an invalid mapping with its issues before touching the database', async () => {
+    const error = await setCaspioColumnMapping('acme', {
+      patient: { drop: ['PatientNumber'] },
+    }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(CaspioColumnMappingError);
+    expect(error).toEqual(
+      expect.objectContaining({
+        status: 400,
+        issues: [
+          {
+            path: 'patient.drop.0',
+            message: "'PatientNumber' is used to look rows up and cannot be renamed or dropped",
+          },
+        ],
+      }),
+    );
+    expect(companyFindUniqueMock).not.toHaveBeenCalled();
+    expect(mappingUpsertMock).not.toHaveBeenCalled();
+  });
+
+  it('caches loaded mappings until the company mapping is replaced', async () => {
+    mappingFindUniqueMock.mockResolvedValue({ config: { service: { drop: ['RoomNumber'] } } });
+    mappingUpsertMock.mockResolvedValueOnce({ updatedAt });
+
+    await loadCaspioColumnMapping(10);
+    await expect(loadCaspioColumnMapping(10)).resolves.toEqual({
+      service: { rename: {}, drop: ['RoomNumber'], defaults: {} },
+    });
+    expect(mappingFindUniqueMock).toHaveBeenCalledTimes(1);
+
+    await setCaspioColumnMapping('acme', {});
+    await loadCaspioColumnMapping(10);
+    expect(mappingFindUniqueMock).toHaveBeenCalledTimes(2);
+  });
+});
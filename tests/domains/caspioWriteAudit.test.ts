@@ -0,0 +1,143 @@
+const createMock = jest.fn();
+const countMock = jest.fn();
+const findManyMock = jest.fn();
+const loggerErrorMock = jest.fn();
+
+jest.mock('../../src/db/prisma.js', () => ({
+  prisma: {
+    caspioWriteAudit: {
+      create: createMock,
+      count: countMock,
+      findMany: findManyMock,
+    },
+  },
+}));
+
+jest.mock('../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: loggerErrorMock,
+    debug: jest.fn(),
+  },
+}));
+
+import { Prisma } from '@prisma/client';
+
+import {
+  findCaspioWriteAudits,
+  recordCaspioWrite,
+  runWithCaspioWriteOrigin,
+} from '../../src/domains/caspioWriteAudit.js';
+
+describe('caspioWriteAudit', () => {
+  const originalDatabaseUrl = process.env.DATABASE_URL;
+
+  beforeAll(() => {
+    // recordCaspioWrite is a no-op against the SQLite test database.
+    process.env.DATABASE_URL = 'postgresql://audit-test';
+  });
+
+  afterAll(() => {
+    process.env.DATABASE_URL = originalDatabaseUrl;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('records the write with its event origin, redacted patch and prior values', async () => {
+    createMock.mockResolvedValueOnce({});
+
+    await runWithCaspioWriteOrigin(
+      {
+        source: 'event',
+        companyId: 10,
+        residentId: 12345,
+        eventMessageId: 'evt-1',
+        eventType: 'residents.basic_info_updated',
+      },
+      () =>
+        recordCaspioWrite({
+          tableName: 'CarePatientTable_API',
+          operation: 'update',
+          keyFilter: [{ field: 'PatientNumber', value: '12345' }],
+          patch: { LastName: 'Rivera', PatientSSN: '123-45-6789' },
+          priorRecord: {
+            PK_ID: 7,
+            LastName: 'Rivers',
+            PatientSSN: '987-65-4321',
+            RoomNumber: '101',
+          },
+          resultId: '7',
+        }),
+    );
+
+    expect(createMock).toHaveBeenCalledWith({
+      data: {
+        companyId: 10,
+        residentId: 12345,
+        tableName: 'CarePatientTable_API',
+        operation: 'update',
+        keyFilter: [{ field: 'PatientNumber', value: '12345' }],
+        patch: { LastName: 'Rivera', PatientSSN: '[REDACTED]' },
+        priorValues: { LastName: 'Rivers', PatientSSN: '[REDACTED]' },
+        resultId: '7',
+        status: 'succeeded',
+        error: null,
+        source: 'event',
+        eventMessageId: 'evt-1',
+        eventType: 'residents.basic_info_updated',
+        backfillJobId: null,
+      },
+    });
+  });
+
+  it('records failed writes outside any origin and never throws', async () => {
+    createMock.mockRejectedValueOnce(new Error('database down'));
+
+    await expect(
+      recordCaspioWrite({
+        tableName: 'Service_Table_API',
+        operation: 'insert',
+        patch: { CUID: '259' },
+        error: new Error('Request failed with status code 400'),
+      }),
+    ).resolves.toBeUndefined();
+
+    expect(createMock).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        source: 'unknown',
+        status: 'failed',
+        error: 'Request failed with status code 400',
+        keyFilter: Prisma.JsonNull,
+        priorValues: Prisma.JsonNull,
+      }),
+    });
+    expect(loggerErrorMock).toHaveBeenCalledWith(
+      expect.objectContaining({ tableName: 'Service_Table_API', error: 'database down' }),
+      'caspio_write_audit_record_failed',
+    );
+  });
+
+  it('queries by resident, table and time range with a bounded limit', async () => {
+    countMock.mockResolvedValueOnce(1);
+    findManyMock.mockResolvedValueOnce([{ id: 1 }]);
+    const from = new Date('2026-10-12T00:00:00Z');
+
+    await expect(
+      findCaspioWriteAudits({
+        residentId: 12345,
+        tableName: 'CarePatientTable_API',
+        from,
+        limit: 5000,
+      }),
+    ).resolves.toEqual({ totalCount: 1, writes: [{ id: 1 }] });
+
+    expect(findManyMock).toHaveBeenCalledWith({
+      where: { residentId: 12345, tableName: 'CarePatientTable_API', createdAt: { gte: from } },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: 500,
+    });
+  });
+});
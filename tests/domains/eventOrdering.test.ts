@@ -0,0 +1,150 @@
+const findUniqueMock = jest.fn();
+const createMock = jest.fn();
+const updateMock = jest.fn();
+const eventLogFindFirstMock = jest.fn();
+
+jest.mock('../../src/db/prisma.js', () => ({
+  prisma: {
+    residentEventWatermark: {
+      findUnique: findUniqueMock,
+      create: createMock,
+      update: updateMock,
+    },
+    eventLog: { findFirst: eventLogFindFirstMock },
+  },
+}));
+
+import {
+  MAX_LEAVE_END_DEFERRALS,
+  evaluateEventOrdering,
+  recordAppliedEvent,
+  type EventOrderingInput,
+} from '../../src/domains/eventOrdering.js';
+
+function input(overrides: Partial<EventOrderingInput>): EventOrderingInput {
+  return {
+    companyId: 10,
+    residentId: 70508,
+    eventType: 'residents.basic_info_updated',
+    eventMessageId: 'evt-1',
+    eventMessageDate: '2026-01-19T10:00:00Z',
+    ...overrides,
+  };
+}
+
+function watermark(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    companyId: 10,
+    residentId: 70508,
+    eventFamily: 'profile',
+    lastEventMessageDate: new Date('2026-01-19T10:05:00Z'),
+    lastEventMessageId: 'evt-newer',
+    lastEventType: 'residents.basic_info_updated',
+    lastLeaveId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('eventOrdering', () => {
+  beforeEach(() => {
+    findUniqueMock.mockReset();
+    createMock.mockReset();
+    updateMock.mockReset();
+  });
+
+  it('applies the first event of a family', async () => {
+    findUniqueMock.mockResolvedValueOnce(null);
+
+    await expect(evaluateEventOrdering(input({}))).resolves.toMatchObject({
+      decision: 'apply',
+      reason: 'first_event_for_family',
+      family: 'profile',
+    });
+  });
+
+  it('skips a move_in older than the last applied lifecycle event', async () => {
+    findUniqueMock.mockResolvedValueOnce(
+      watermark({ eventFamily: 'lifecycle', lastEventType: 'residents.move_out' }),
+    );
+
+    await expect(
+      evaluateEventOrdering(input({ eventType: 'residents.move_in' })),
+    ).resolves.toMatchObject({ decision: 'skip', reason: 'stale', family: 'lifecycle' });
+  });
+
+  it('reconciles a stale profile update instead of applying its payload', async () => {
+    findUniqueMock.mockResolvedValueOnce(watermark());
+
+    await expect(evaluateEventOrdering(input({}))).resolves.toMatchObject({
+      decision: 'reconcile',
+      reason: 'stale',
+      policy: 'reconcile',
+    });
+  });
+
+  it('defers a leave_end until its leave_start is applied, then gives up waiting', async () => {
+    findUniqueMock.mockResolvedValue(null);
+    eventLogFindFirstMock.mockResolvedValue({ id: 7 });
+    const leaveEnd = input({ eventType: 'residents.leave_end', leaveId: 42 });
+
+    await expect(evaluateEventOrdering(leaveEnd)).resolves.toMatchObject({
+      decision: 'defer',
+      reason: 'awaiting_leave_start',
+    });
+    await expect(
+      evaluateEventOrdering({ ...leaveEnd, deferCount: MAX_LEAVE_END_DEFERRALS }),
+    ).resolves.toMatchObject({ decision: 'apply', reason: 'leave_start_never_arrived' });
+
+    findUniqueMock.mockResolvedValue(
+      watermark({
+        eventFamily: 'leave',
+        lastEventType: 'residents.leave_start',
+        lastLeaveId: 42,
+        lastEventMessageDate: new Date('2026-01-19T09:00:00Z'),
+      }),
+    );
+    await expect(evaluateEventOrdering(leaveEnd)).resolves.toMatchObject({
+      decision: 'apply',
+      reason: 'in_order',
+    });
+  });
+
+  it('applies a leave_end right away when its leave_start is not on its way', async () => {
+    findUniqueMock.mockResolvedValue(null);
+    eventLogFindFirstMock.mockResolvedValue(null);
+
+    await expect(
+      evaluateEventOrdering(input({ eventType: 'residents.leave_end', leaveId: 42 })),
+    ).resolves.toMatchObject({ decision: 'apply', reason: 'first_event_for_family' });
+    expect(eventLogFindFirstMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          companyId: 10,
+          eventType: 'residents.leave_start',
+          residentId: 70508,
+          leaveId: 42,
+          status: { in: ['received', 'queued'] },
+        }),
+      }),
+    );
+  });
+
+  it('never moves the watermark backwards', async () => {
+    findUniqueMock.mockResolvedValueOnce(watermark());
+    await recordAppliedEvent(input({ eventMessageId: 'evt-old' }));
+    expect(updateMock).not.toHaveBeenCalled();
+
+    findUniqueMock.mockResolvedValueOnce(watermark());
+    await recordAppliedEvent(
+      input({ eventMessageId: 'evt-latest', eventMessageDate: '2026-01-19T10:10:00Z' }),
+    );
+    expect(updateMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ lastEventMessageId: 'evt-latest' }),
+      }),
+    );
+  });
+});
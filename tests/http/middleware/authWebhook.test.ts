@@ -0,0 +1,204 @@
+import type { NextFunction, Request, Response } from 'express';
+
+const findWebhookCredentialByCompanyKeyMock = jest.fn();
+const verifyPasswordMock = jest.fn();
+const mockEnv = {
+  WEBHOOK_BASIC_USER: 'test-user',
+  WEBHOOK_BASIC_PASS: 'test-pass',
+  WEBHOOK_GLOBAL_AUTH_FALLBACK: true,
+  ipAllowlist: [] as string[],
+};
+
+jest.mock('../../../src/config/env.js', () => ({
+  env: mockEnv,
+}));
+
+jest.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/admin/webhookCredentials.js', () => ({
+  findWebhookCredentialByCompanyKey: findWebhookCredentialByCompanyKeyMock,
+}));
+
+jest.mock('../../../src/security/passwordHash.js', () => {
+  const actual = jest.requireActual('../../../src/security/passwordHash.js');
+  verifyPasswordMock.mockImplementation(actual.verifyPassword);
+  return { ...actual, verifyPassword: verifyPasswordMock };
+});
+
+import { logger } from '../../../src/config/logger.js';
+import { authWebhook } from '../../../src/http/middleware/authWebhook.js';
+import { hashPassword } from '../../../src/security/passwordHash.js';
+
+function basicHeader(username: string, password: string): string {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+}
+
+function buildRequest(authorization: string | undefined, body: Record<string, unknown>): Request {
+  return {
+    headers: authorization ? { authorization } : {},
+    body,
+    ip: '127.0.0.1',
+  } as unknown as Request;
+}
+
+function buildResponse(): Response & { statusCode?: number } {
+  const res = {
+    locals: {} as Record<string, unknown>,
+    set: jest.fn(),
+    status: jest.fn(),
+    json: jest.fn(),
+  };
+  res.status.mockImplementation((code: number) => {
+    (res as unknown as { statusCode: number }).statusCode = code;
+    return res;
+  });
+  res.json.mockReturnValue(res);
+  res.set.mockReturnValue(res);
+  return res as unknown as Response & { statusCode?: number };
+}
+
+describe('authWebhook', () => {
+  const companyCredential = {
+    companyId: 10,
+    companyKey: 'appstoresandbox',
+    username: 'alis-appstoresandbox',
+    passwordHash: '',
+  };
+
+  beforeAll(async () => {
+    companyCredential.passwordHash = await hashPassword('company-secret');
+  });
+
+  beforeEach(() => {
+    mockEnv.WEBHOOK_GLOBAL_AUTH_FALLBACK = true;
+    findWebhookCredentialByCompanyKeyMock.mockImplementation(async (companyKey: string) =>
+      companyKey === companyCredential.companyKey ? companyCredential : null,
+    );
+  });
+
+  it('accepts the per-company credential for its own CompanyKey', async () => {
+    const req = buildRequest(basicHeader('alis-appstoresandbox', 'company-secret'), {
+      CompanyKey: 'appstoresandbox',
+    });
+    const res = buildResponse();
+    const next = jest.fn() as NextFunction;
+
+    await authWebhook(req, res, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(res.locals.webhookPrincipal).toEqual({
+      kind: 'company',
+      companyId: 10,
+      companyKey: 'appstoresandbox',
+      username: 'alis-appstoresandbox',
+    });
+  });
+
+  it('rejects a company credential presented for a different CompanyKey', async () => {
+    const req = buildRequest(basicHeader('alis-appstoresandbox', 'company-secret'), {
+      CompanyKey: 'othercompany',
+    });
+    const res = buildResponse();
+    const next = jest.fn() as NextFunction;
+
+    await authWebhook(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  it('rejects a wrong password for the company credential', async () => {
+    const req = buildRequest(basicHeader('alis-appstoresandbox', 'wrong'), {
+      CompanyKey: 'appstoresandbox',
+    });
+    const res = buildResponse();
+    const next = jest.fn() as NextFunction;
+
+    await authWebhook(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  it('still checks a password hash when the username is unknown', async () => {
+    const req = buildRequest(basicHeader('someone-else', 'company-secret'), {
+      CompanyKey: 'appstoresandbox',
+    });
+    const res = buildResponse();
+    const next = jest.fn() as NextFunction;
+    verifyPasswordMock.mockClear();
+
+    await authWebhook(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+    expect(verifyPasswordMock).toHaveBeenCalledTimes(1);
+    expect(verifyPasswordMock).not.toHaveBeenCalledWith(
+      'company-secret',
+      companyCredential.passwordHash,
+    );
+  });
+
+  it('falls back to the global credential pair for a company without its own credential', async () => {
+    const req = buildRequest(basicHeader('test-user', 'test-pass'), {
+      CompanyKey: 'othercompany',
+    });
+    const res = buildResponse();
+    const next = jest.fn() as NextFunction;
+
+    await authWebhook(req, res, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(res.locals.webhookPrincipal).toEqual({ kind: 'global', username: 'test-user' });
+  });
+
+  it('rejects the global credential pair for a company that has its own credential', async () => {
+    const req = buildRequest(basicHeader('test-user', 'test-pass'), {
+      CompanyKey: 'appstoresandbox',
+    });
+    const res = buildResponse();
+    const next = jest.fn() as NextFunction;
+
+    await authWebhook(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+    expect(logger.warn).toHaveBeenCalledWith(
+      { companyKey: 'appstoresandbox' },
+      'webhook_global_credentials_rejected_for_company_credential',
+    );
+  });
+
+  it('rejects the global credential pair once the fallback is disabled', async () => {
+    mockEnv.WEBHOOK_GLOBAL_AUTH_FALLBACK = false;
+    const req = buildRequest(basicHeader('test-user', 'test-pass'), {
+      CompanyKey: 'othercompany',
+    });
+    const res = buildResponse();
+    const next = jest.fn() as NextFunction;
+
+    await authWebhook(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  it('returns 401 when basic auth is missing', async () => {
+    const req = buildRequest(undefined, { CompanyKey: 'appstoresandbox' });
+    const res = buildResponse();
+    const next = jest.fn() as NextFunction;
+
+    await authWebhook(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+    expect(findWebhookCredentialByCompanyKeyMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,161 @@
+import type { NextFunction, Request, Response } from 'express';
+
+const findWebhookSigningSecretByCompanyKeyMock = jest.fn();
+const recordEventIssueMock = jest.fn();
+
+jest.mock('../../../src/config/env.js', () => ({
+  env: {
+    WEBHOOK_SIGNATURE_TOLERANCE_SECONDS: 300,
+  },
+}));
+
+jest.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/admin/webhookCredentials.js', () => ({
+  findWebhookSigningSecretByCompanyKey: findWebhookSigningSecretByCompanyKeyMock,
+}));
+
+jest.mock('../../../src/domains/eventIssues.js', () => ({
+  recordEventIssue: recordEventIssueMock,
+}));
+
+import {
+  computeWebhookSignature,
+  verifyWebhookSignature,
+} from '../../../src/http/middleware/verifyWebhookSignature.js';
+
+const SECRET = 'signing-secret';
+
+const payload = {
+  CompanyKey: 'appstoresandbox',
+  CommunityId: 321,
+  EventType: 'residents.move_in',
+  EventMessageId: 'evt-123',
+};
+
+function buildRequest(headers: Record<string, string>, rawBody?: string): Request {
+  const lowered = Object.fromEntries(
+    Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]),
+  );
+  return {
+    body: payload,
+    rawBody: rawBody === undefined ? undefined : Buffer.from(rawBody),
+    ip: '127.0.0.1',
+    get: (name: string) => lowered[name.toLowerCase()],
+  } as unknown as Request;
+}
+
+function buildResponse(): Response & { statusCode?: number; body?: unknown } {
+  const res = {
+    status: jest.fn(),
+    json: jest.fn(),
+  };
+  res.status.mockImplementation((code: number) => {
+    (res as unknown as { statusCode: number }).statusCode = code;
+    return res;
+  });
+  res.json.mockImplementation((body: unknown) => {
+    (res as unknown as { body: unknown }).body = body;
+    return res;
+  });
+  return res as unknown as Response & { statusCode?: number; body?: unknown };
+}
+
+function signedHeaders(rawBody: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const ts = String(timestamp);
+  return {
+    'X-Alis-Timestamp': ts,
+    'X-Alis-Signature': `sha256=${computeWebhookSignature(SECRET, ts, rawBody)}`,
+  };
+}
+
+describe('verifyWebhookSignature', () => {
+  const rawBody = JSON.stringify(payload);
+
+  beforeEach(() => {
+    findWebhookSigningSecretByCompanyKeyMock.mockResolvedValue({
+      companyId: 10,
+      companyKey: 'appstoresandbox',
+      secret: SECRET,
+    });
+  });
+
+  it('passes through when the company has no signing secret', async () => {
+    findWebhookSigningSecretByCompanyKeyMock.mockResolvedValueOnce(null);
+    const next = jest.fn() as NextFunction;
+
+    await verifyWebhookSignature(buildRequest({}, rawBody), buildResponse(), next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(recordEventIssueMock).not.toHaveBeenCalled();
+  });
+
+  it('accepts a valid signature within the freshness window', async () => {
+    const next = jest.fn() as NextFunction;
+
+    await verifyWebhookSignature(
+      buildRequest(signedHeaders(rawBody), rawBody),
+      buildResponse(),
+      next,
+    );
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('rejects a signature computed over a different body and records an issue', async () => {
+    const res = buildResponse();
+    const next = jest.fn() as NextFunction;
+
+    await verifyWebhookSignature(
+      buildRequest(signedHeaders('{"tampered":true}'), rawBody),
+      res,
+      next,
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+    expect(res.body).toEqual({ error: 'Unauthorized', reason: 'signature_mismatch' });
+    expect(recordEventIssueMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        companyId: 10,
+        eventType: 'residents.move_in',
+        eventMessageId: 'evt-123',
+        stage: 'webhook_signature',
+        severity: 'error',
+        details: expect.objectContaining({ reason: 'signature_mismatch' }),
+      }),
+    );
+  });
+
+  it('rejects a replayed request outside the freshness window', async () => {
+    const res = buildResponse();
+    const next = jest.fn() as NextFunction;
+    const staleTimestamp = Math.floor(Date.now() / 1000) - 3600;
+
+    await verifyWebhookSignature(
+      buildRequest(signedHeaders(rawBody, staleTimestamp), rawBody),
+      res,
+      next,
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.body).toEqual({ error: 'Unauthorized', reason: 'stale_timestamp' });
+  });
+
+  it('rejects unsigned requests for companies with a signing secret', async () => {
+    const res = buildResponse();
+    const next = jest.fn() as NextFunction;
+
+    await verifyWebhookSignature(buildRequest({}, rawBody), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.body).toEqual({ error: 'Unauthorized', reason: 'missing_signature' });
+  });
+});
@@ -4,6 +4,7 @@ const queueAddMock = jest.fn();
 const recordIncomingEventMock = jest.fn();
 const markEventQueuedMock = jest.fn();
 const markEventIgnoredMock = jest.fn();
+const markEventFailedMock = jest.fn();
 
 jest.mock('../../src/workers/queue.js', () => ({
   processAlisEventQueue: {
@@ -11,10 +12,21 @@ jest.mock('../../src/workers/queue.js', () => ({
   },
 }));
 
+jest.mock('../../src/workers/residentSequencer.js', () => ({
+  registerResidentEvent: jest.fn().mockResolvedValue(undefined),
+  unregisterResidentEvent: jest.fn().mockResolvedValue(undefined),
+}));
+
 jest.mock('../../src/domains/events.js', () => ({
   recordIncomingEvent: recordIncomingEventMock,
   markEventQueued: markEventQueuedMock,
   markEventIgnored: markEventIgnoredMock,
+  markEventFailed: markEventFailedMock,
+}));
+
+jest.mock('../../src/admin/webhookCredentials.js', () => ({
+  findWebhookCredentialByCompanyKey: jest.fn().mockResolvedValue(null),
+  findWebhookSigningSecretByCompanyKey: jest.fn().mockResolvedValue(null),
 }));
 
 import { createApp } from '../../src/http/app.js';
@@ -140,4 +152,30 @@ describe('POST /webhook/alis', () => {
     );
     expect(queueAddMock).not.toHaveBeenCalled();
   });
+
+  it('rejects malformed NotificationData without enqueueing', async () => {
+    recordIncomingEventMock.mockResolvedValueOnce({
+      eventLog: { id: 124 },
+      company: { id: 10, companyKey: 'appstoresandbox' },
+      isDuplicate: false,
+    });
+
+    const payload = {
+      CompanyKey: 'appstoresandbox',
+      CommunityId: 321,
+      EventType: 'residents.leave_start',
+      EventMessageId: 'evt-malformed',
+      EventMessageDate: new Date().toISOString(),
+      NotificationData: { ResidentId: 456 },
+    };
+
+    const response = await request(app)
+      .post('/webhook/alis')
+      .set('Authorization', authHeader)
+      .send(payload);
+
+    expect(response.status).toBe(400);
+    expect(markEventFailedMock).toHaveBeenCalled();
+    expect(queueAddMock).not.toHaveBeenCalled();
+  });
 });
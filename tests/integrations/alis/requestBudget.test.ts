@@ -0,0 +1,50 @@
+import RedisMock from 'ioredis-mock';
+
+const redis = new RedisMock();
+
+jest.mock('../../../src/config/env.js', () => ({
+  env: {
+    ALIS_REQUEST_BUDGET_PER_SECOND: 2,
+  },
+}));
+
+jest.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/workers/connection.js', () => ({
+  getRedisConnection: () => redis,
+}));
+
+import { acquireAlisRequestSlot } from '../../../src/integrations/alis/requestBudget.js';
+
+describe('acquireAlisRequestSlot', () => {
+  beforeEach(async () => {
+    await redis.flushall();
+    jest.useFakeTimers({ now: 1_700_000_000_000, doNotFake: ['nextTick', 'setImmediate'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('holds a company to its per-second budget without affecting other companies', async () => {
+    const waits: number[] = [];
+    const calls = [1, 2, 3].map(() =>
+      acquireAlisRequestSlot('appstoresandbox').then((waited) => waits.push(waited)),
+    );
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(waits).toEqual([0, 0]);
+    expect(await acquireAlisRequestSlot('othercompany')).toBe(0);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await Promise.all(calls);
+    expect(waits).toEqual([0, 0, 1000]);
+  });
+});
@@ -0,0 +1,108 @@
+const issueFindFirstMock = jest.fn();
+const recordEventIssueMock = jest.fn();
+
+jest.mock('../../../src/db/prisma.js', () => ({
+  prisma: {
+    eventProcessingIssue: { findFirst: issueFindFirstMock },
+  },
+}));
+
+jest.mock('../../../src/domains/eventIssues.js', () => ({
+  recordEventIssue: recordEventIssueMock,
+}));
+
+jest.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import {
+  checkAlisResponse,
+  detectAlisSchemaDrift,
+} from '../../../src/integrations/alis/schemaDrift.js';
+
+describe('ALIS schema drift', () => {
+  beforeEach(() => {
+    issueFindFirstMock.mockResolvedValue(null);
+    recordEventIssueMock.mockResolvedValue(undefined);
+  });
+
+  it('accepts PascalCase and camelCase fields the mappers read', () => {
+    expect(
+      detectAlisSchemaDrift('getResident', {
+        ResidentId: 70508,
+        status: 'Active',
+        firstName: 'Ada',
+        Rooms: [{ RoomNumber: '101' }],
+        physicalMoveInDate: '2026-01-01',
+      }),
+    ).toBeNull();
+    expect(
+      detectAlisSchemaDrift('getResidentContacts', { Contacts: [{ homePhone: '555' }] }),
+    ).toBeNull();
+    // The diagnoses endpoint answers the flat-list call with its structured form.
+    expect(
+      detectAlisSchemaDrift('getResidentDiagnosesAndAllergies', {
+        primaryDiagnoses: 'Dementia',
+        structuredDiagnoses: [],
+      }),
+    ).toBeNull();
+  });
+
+  it('reports unknown, missing and mistyped fields with a redacted sample', () => {
+    const drift = detectAlisSchemaDrift('getResident', {
+      ResidentId: 70508,
+      ClassificationName: 'Memory Care',
+      Rooms: 'A-101',
+      SSN: '123-45-6789',
+    });
+
+    expect(drift).toEqual(
+      expect.objectContaining({
+        unknownFields: ['ClassificationName'],
+        missingFields: ['Status'],
+        invalidFields: ['Rooms'],
+        unexpectedShape: false,
+      }),
+    );
+    expect(drift?.sample).toEqual(expect.objectContaining({ SSN: '[REDACTED]' }));
+  });
+
+  it('flags list responses in an unexpected shape', () => {
+    expect(detectAlisSchemaDrift('getResidentLeaves', { Items: [] })).toEqual(
+      expect.objectContaining({ unexpectedShape: true }),
+    );
+  });
+
+  it('records a schema_drift issue once per company and drift', async () => {
+    const payload = { Leaves: [{ LeaveId: 5, LeaveReason: 'Hospital' }] };
+    const context = { companyId: 10, eventType: 'residents.leave_start', eventMessageId: 'evt-1' };
+
+    await checkAlisResponse('getResidentLeaves', payload, context);
+    await checkAlisResponse('getResidentLeaves', payload, context);
+    await checkAlisResponse('getResidentLeaves', payload, { companyId: 11 });
+
+    expect(recordEventIssueMock).toHaveBeenCalledTimes(2);
+    expect(recordEventIssueMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        companyId: 10,
+        eventMessageId: 'evt-1',
+        stage: 'schema_drift',
+        message: 'ALIS getResidentLeaves schema drift: unknown fields LeaveReason',
+        details: expect.objectContaining({ sample: { LeaveId: 5, LeaveReason: 'Hospital' } }),
+      }),
+    );
+  });
+
+  it('does not record drift another process already recorded', async () => {
+    issueFindFirstMock.mockResolvedValueOnce({ id: 3 });
+
+    await checkAlisResponse('getLeave', { LeaveId: 5, Extra: true }, { companyId: 12 });
+
+    expect(recordEventIssueMock).not.toHaveBeenCalled();
+  });
+});
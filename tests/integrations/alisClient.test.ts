@@ -0,0 +1,180 @@
+import { AxiosError, AxiosHeaders, type AxiosResponse } from 'axios';
+
+const httpGetMock = jest.fn();
+const acquireAlisRequestSlotMock = jest.fn();
+
+jest.mock('../../src/config/axios.js', () => ({
+  createHttpClient: () => ({ get: httpGetMock }),
+}));
+
+jest.mock('../../src/integrations/alis/requestBudget.js', () => ({
+  acquireAlisRequestSlot: acquireAlisRequestSlotMock,
+}));
+
+jest.mock('../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import {
+  AlisApiError,
+  createAlisClient,
+  createAlisRequestStats,
+  parseRetryAfterMs,
+} from '../../src/integrations/alisClient.js';
+
+const credentials = { username: 'alis-user', password: 'secret' };
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: new AxiosHeaders(), url: '/v1/integration/residents/70508' };
+  const response = {
+    status,
+    statusText: String(status),
+    headers,
+    config,
+    data: {},
+  } as AxiosResponse;
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR', config, {}, response);
+}
+
+describe('alisClient retries', () => {
+  beforeEach(() => {
+    acquireAlisRequestSlotMock.mockResolvedValue(0);
+  });
+
+  it('retries a 429 after Retry-After and counts the retry', async () => {
+    httpGetMock
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '0' }))
+      .mockResolvedValueOnce({ data: { ResidentId: 70508, Status: 'Active' } });
+    const requestStats = createAlisRequestStats();
+
+    const client = createAlisClient(credentials, { budgetKey: 'appstoresandbox', requestStats });
+    const resident = await client.getResident(70508);
+
+    expect(resident.ResidentId).toBe(70508);
+    expect(httpGetMock).toHaveBeenCalledTimes(2);
+    expect(acquireAlisRequestSlotMock).toHaveBeenCalledTimes(2);
+    expect(acquireAlisRequestSlotMock).toHaveBeenCalledWith('appstoresandbox');
+    expect(requestStats).toEqual({ requests: 2, retries: 1, budgetWaitMs: 0 });
+  });
+
+  it('gives up after ALIS_RETRY_MAX attempts with an AlisApiError', async () => {
+    httpGetMock.mockRejectedValue(httpError(503, { 'retry-after': '0' }));
+    const requestStats = createAlisRequestStats();
+
+    const client = createAlisClient(credentials, { requestStats });
+    const result = client.getResidentBasicInfo(70508);
+
+    await expect(result).rejects.toBeInstanceOf(AlisApiError);
+    await expect(result).rejects.toMatchObject({ status: 503 });
+    expect(httpGetMock).toHaveBeenCalledTimes(3);
+    expect(requestStats.retries).toBe(2);
+    expect(acquireAlisRequestSlotMock).toHaveBeenCalledWith('alis-user');
+  });
+
+  it('does not retry client errors', async () => {
+    httpGetMock.mockRejectedValueOnce(httpError(404));
+
+    await expect(createAlisClient(credentials).getLeave(5)).rejects.toMatchObject({
+      status: 404,
+    });
+    expect(httpGetMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('parses Retry-After as seconds or an HTTP date', () => {
+    expect(parseRetryAfterMs('2')).toBe(2000);
+    expect(parseRetryAfterMs(new Date(Date.now() + 5000).toUTCString())).toBeGreaterThan(3000);
+    expect(parseRetryAfterMs('soon')).toBeNull();
+    expect(parseRetryAfterMs(undefined)).toBeNull();
+  });
+});
+
+describe('alisClient iterateResidents', () => {
+  beforeEach(() => {
+    httpGetMock.mockReset();
+    acquireAlisRequestSlotMock.mockResolvedValue(0);
+  });
+
+  function residentsPage(ids: number[], page: number, totalPages: number) {
+    return {
+      data: {
+        Residents: ids.map((id) => ({ ResidentId: id, Status: 'CurrentResident' })),
+        Page: page,
+        TotalPages: totalPages,
+        TotalCount: 3,
+      },
+    };
+  }
+
+  it('walks every page and reports ALIS totals through onPage', async () => {
+    httpGetMock
+      .mockResolvedValueOnce(residentsPage([1, 2], 1, 2))
+      .mockResolvedValueOnce(residentsPage([3], 2, 2));
+    const onPage = jest.fn();
+
+    const ids: number[] = [];
+    for await (const resident of createAlisClient(credentials).iterateResidents({
+      communityId: 113,
+      status: 'CurrentResident',
+      pageSize: 2,
+      onPage,
+    })) {
+      ids.push(resident.ResidentId);
+    }
+
+    expect(ids).toEqual([1, 2, 3]);
+    expect(httpGetMock).toHaveBeenCalledTimes(2);
+    expect(httpGetMock.mock.calls[1][1].params).toEqual(
+      expect.objectContaining({ communityId: 113, status: 'CurrentResident', page: 2 }),
+    );
+    expect(onPage).toHaveBeenLastCalledWith(
+      {
+        page: 2,
+        fetched: 3,
+        totalPages: 2,
+        totalCount: 3,
+        stopReason: 'complete',
+      },
+      [expect.objectContaining({ ResidentId: 3 })],
+    );
+  });
+
+  it('stops when ALIS returns the same page again', async () => {
+    httpGetMock.mockResolvedValue({
+      data: [
+        { ResidentId: 1, Status: 'CurrentResident' },
+        { ResidentId: 2, Status: 'CurrentResident' },
+      ],
+    });
+
+    const iterator = createAlisClient(credentials).iterateResidents({ pageSize: 2 });
+    const ids: number[] = [];
+    let next = await iterator.next();
+    while (!next.done) {
+      ids.push(next.value.ResidentId);
+      next = await iterator.next();
+    }
+
+    expect(ids).toEqual([1, 2]);
+    expect(httpGetMock).toHaveBeenCalledTimes(2);
+    expect(next.value).toEqual(
+      expect.objectContaining({ stopReason: 'repeated_page', fetched: 2 }),
+    );
+  });
+
+  it('works when passed around unbound', async () => {
+    httpGetMock.mockResolvedValueOnce(residentsPage([1], 1, 1));
+    const { iterateResidents } = createAlisClient(credentials);
+
+    const ids: number[] = [];
+    for await (const resident of iterateResidents({ pageSize: 2 })) {
+      ids.push(resident.ResidentId);
+    }
+
+    expect(ids).toEqual([1]);
+  });
+});
@@ -0,0 +1,166 @@
+const mockAuthPost = jest.fn();
+const mockApiGet = jest.fn();
+const mockApiPost = jest.fn();
+const mockApiPut = jest.fn();
+const recordCaspioWriteMock = jest.fn();
+const currentCaspioWriteOriginMock = jest.fn();
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: {
+    isAxiosError: (error: unknown) =>
+      Boolean((error as { isAxiosError?: boolean } | undefined)?.isAxiosError),
+  },
+}));
+
+jest.mock('../../../src/config/axios.js', () => ({
+  createHttpClient: jest
+    .fn()
+    .mockImplementationOnce(() => ({ post: mockAuthPost }))
+    .mockImplementationOnce(() => ({ post: mockApiPost, put: mockApiPut, get: mockApiGet })),
+}));
+
+jest.mock('../../../src/config/env.js', () => ({
+  env: {
+    CASPIO_BASE_URL: 'https://c3aca270.caspio.com',
+    CASPIO_TOKEN_URL: 'https://c3aca270.caspio.com/oauth/token',
+    CASPIO_CLIENT_ID: 'test-client-id',
+    CASPIO_CLIENT_SECRET: 'test-client-secret',
+    CASPIO_TABLE_NAME: 'CarePatientTable_API_Temp',
+    CASPIO_COMMUNITY_TABLE_NAME: 'CommunityTable_API',
+    CASPIO_SERVICE_TABLE_NAME: 'Service_Table_API',
+    CASPIO_OFF_PREM_HISTORY_TABLE_NAME: 'PatientOffPremHistory_API',
+    CASPIO_TIMEOUT_MS: 10000,
+    CASPIO_RETRY_MAX: 3,
+  },
+}));
+
+jest.mock('../../../src/integrations/caspio/tokenStore.js', () => ({
+  getSharedCaspioToken: (mint: () => Promise<unknown>) => mint(),
+  clearSharedCaspioToken: jest.fn(),
+}));
+
+jest.mock('../../../src/integrations/caspio/requestBudget.js', () => ({
+  acquireCaspioRequestSlot: jest.fn().mockResolvedValue(0),
+  recordCaspioRequestOutcome: jest.fn(),
+}));
+
+jest.mock('../../../src/domains/caspioWriteAudit.js', () => ({
+  recordCaspioWrite: recordCaspioWriteMock,
+  currentCaspioWriteOrigin: currentCaspioWriteOriginMock,
+}));
+
+jest.mock('../../../src/domains/eventIssues.js', () => ({
+  recordEventIssue: jest.fn(),
+}));
+
+jest.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+import {
+  findRecordByFields,
+  findRecordsByFieldValues,
+  upsertByFields,
+} from '../../../src/integrations/caspio/caspioClient.js';
+import { CaspioColumnMappingSchema } from '../../../src/integrations/caspio/caspioColumnMapping.js';
+import { defaultCaspioClient } from '../../../src/integrations/caspio/caspioConnection.js';
+
+// The company has no connection of its own, so its writes run inside the env client.
+function inCompanyConnection<T>(operation: () => Promise<T>): Promise<T> {
+  return defaultCaspioClient().run(operation);
+}
+
+describe('caspioClient column mapping', () => {
+  const filters = [{ field: 'PatientNumber', value: '71620' }];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAuthPost.mockResolvedValue({
+      data: {
+        access_token: 'token-1',
+        expires_in: 3600,
+        token_type: 'Bearer',
+      },
+    });
+    currentCaspioWriteOriginMock.mockReturnValue({
+      source: 'event',
+      companyId: 10,
+      columnMapping: CaspioColumnMappingSchema.parse({
+        patient: {
+          rename: { RoomNumber: 'Room' },
+          drop: ['PatientSSN'],
+          defaults: { Status: 'Active' },
+        },
+      }),
+    });
+  });
+
+  it('inserts the record with the company column mapping applied', async () => {
+    mockApiGet.mockResolvedValueOnce({ data: { Result: [] } });
+    mockApiPost.mockResolvedValueOnce({ data: { PK_ID: 9 } });
+
+    await inCompanyConnection(() =>
+      upsertByFields('CarePatientTable_API_Temp', filters, {
+        PatientNumber: '71620',
+        PatientSSN: '123-45-6789',
+        RoomNumber: '101',
+      }),
+    );
+
+    expect(mockApiPost.mock.calls[0][1]).toEqual({
+      PatientNumber: '71620',
+      Room: '101',
+      Status: 'Active',
+    });
+    expect(recordCaspioWriteMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operation: 'insert',
+        patch: { PatientNumber: '71620', Room: '101', Status: 'Active' },
+      }),
+    );
+  });
+
+  it('compares the mapped patch with the company row before updating', async () => {
+    mockApiGet.mockResolvedValueOnce({
+      data: { Result: [{ PK_ID: 4, PatientNumber: '71620', Room: '101' }] },
+    });
+
+    await expect(
+      inCompanyConnection(() =>
+        upsertByFields('CarePatientTable_API_Temp', filters, {
+          PatientNumber: '71620',
+          RoomNumber: '101',
+        }),
+      ),
+    ).resolves.toEqual({ action: 'unchanged', id: '4' });
+    expect(mockApiPut).not.toHaveBeenCalled();
+  });
+
+  it('reads company rows back under the mapper column names', async () => {
+    mockApiGet.mockResolvedValue({
+      data: { Result: [{ PK_ID: 4, PatientNumber: '71620', Room: '101' }] },
+    });
+
+    await expect(
+      inCompanyConnection(() => findRecordByFields('CarePatientTable_API_Temp', filters)),
+    ).resolves.toEqual({
+      found: true,
+      id: '4',
+      record: { PK_ID: 4, PatientNumber: '71620', RoomNumber: '101' },
+    });
+    const { matches } = await inCompanyConnection(() =>
+      findRecordsByFieldValues('CarePatientTable_API_Temp', 'PatientNumber', ['71620']),
+    );
+    expect(matches.get('71620')?.record).toEqual({
+      PK_ID: 4,
+      PatientNumber: '71620',
+      RoomNumber: '101',
+    });
+  });
+});
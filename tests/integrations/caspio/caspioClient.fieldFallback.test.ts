@@ -1,6 +1,7 @@
 const mockAuthPost = jest.fn();
 const mockApiPost = jest.fn();
 const mockApiPut = jest.fn();
+const recordCaspioWriteMock = jest.fn();
 
 jest.mock('axios', () => ({
   __esModule: true,
@@ -32,6 +33,25 @@ jest.mock('../../../src/config/env.js', () => ({
   },
 }));
 
+jest.mock('../../../src/integrations/caspio/tokenStore.js', () => ({
+  getSharedCaspioToken: (mint: () => Promise<unknown>) => mint(),
+  clearSharedCaspioToken: jest.fn(),
+}));
+
+jest.mock('../../../src/integrations/caspio/requestBudget.js', () => ({
+  acquireCaspioRequestSlot: jest.fn().mockResolvedValue(0),
+  recordCaspioRequestOutcome: jest.fn(),
+}));
+
+jest.mock('../../../src/domains/caspioWriteAudit.js', () => ({
+  recordCaspioWrite: recordCaspioWriteMock,
+  currentCaspioWriteOrigin: jest.fn(),
+}));
+
+jest.mock('../../../src/domains/eventIssues.js', () => ({
+  recordEventIssue: jest.fn(),
+}));
+
 jest.mock('../../../src/config/logger.js', () => ({
   logger: {
     debug: jest.fn(),
@@ -87,6 +107,12 @@ describe('caspioClient FieldNotFound fallback', () => {
       PatientNumber: '71620',
       LastName: 'Doe',
     });
+    expect(recordCaspioWriteMock).toHaveBeenCalledWith({
+      tableName: 'CarePatientTable_API_Temp',
+      operation: 'insert',
+      patch: { PatientNumber: '71620', LastName: 'Doe' },
+      resultId: '9',
+    });
   });
 
   it('retries update without unsupported fields', async () => {
@@ -118,5 +144,13 @@ describe('caspioClient FieldNotFound fallback', () => {
       PatientNumber: '71620',
       FirstName: 'Jane',
     });
+    expect(recordCaspioWriteMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operation: 'update',
+        keyFilter: [{ field: 'PK_ID', value: 1 }],
+        patch: { PatientNumber: '71620', FirstName: 'Jane' },
+        resultId: '1',
+      }),
+    );
   });
 });
@@ -0,0 +1,131 @@
+const mockAuthPost = jest.fn();
+const mockApiGet = jest.fn();
+const mockApiPost = jest.fn();
+const mockApiPut = jest.fn();
+const recordCaspioWriteMock = jest.fn();
+const recordCaspioRequestOutcomeMock = jest.fn();
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: {
+    isAxiosError: (error: unknown) =>
+      Boolean((error as { isAxiosError?: boolean } | undefined)?.isAxiosError),
+  },
+}));
+
+jest.mock('../../../src/config/axios.js', () => ({
+  createHttpClient: jest
+    .fn()
+    .mockImplementationOnce(() => ({ post: mockAuthPost }))
+    .mockImplementationOnce(() => ({ post: mockApiPost, put: mockApiPut, get: mockApiGet })),
+}));
+
+jest.mock('../../../src/config/env.js', () => ({
+  env: {
+    CASPIO_BASE_URL: 'https://c3aca270.caspio.com',
+    CASPIO_TOKEN_URL: 'https://c3aca270.caspio.com/oauth/token',
+    CASPIO_CLIENT_ID: 'test-client-id',
+    CASPIO_CLIENT_SECRET: 'test-client-secret',
+    CASPIO_TABLE_NAME: 'CarePatientTable_API_Temp',
+    CASPIO_COMMUNITY_TABLE_NAME: 'CommunityTable_API',
+    CASPIO_SERVICE_TABLE_NAME: 'Service_Table_API',
+    CASPIO_OFF_PREM_HISTORY_TABLE_NAME: 'PatientOffPremHistory_API',
+    CASPIO_TIMEOUT_MS: 10000,
+    CASPIO_RETRY_MAX: 3,
+  },
+}));
+
+jest.mock('../../../src/integrations/caspio/tokenStore.js', () => ({
+  getSharedCaspioToken: (mint: () => Promise<unknown>) => mint(),
+  clearSharedCaspioToken: jest.fn(),
+}));
+
+jest.mock('../../../src/integrations/caspio/requestBudget.js', () => ({
+  acquireCaspioRequestSlot: jest.fn().mockResolvedValue(0),
+  recordCaspioRequestOutcome: recordCaspioRequestOutcomeMock,
+}));
+
+jest.mock('../../../src/domains/caspioWriteAudit.js', () => ({
+  recordCaspioWrite: recordCaspioWriteMock,
+  currentCaspioWriteOrigin: jest.fn(),
+}));
+
+jest.mock('../../../src/domains/eventIssues.js', () => ({
+  recordEventIssue: jest.fn(),
+}));
+
+jest.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+import { upsertByFields } from '../../../src/integrations/caspio/caspioClient.js';
+
+describe('caspioClient no-op updates', () => {
+  const filters = [{ field: 'PatientNumber', value: '71620' }];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAuthPost.mockResolvedValue({
+      data: {
+        access_token: 'token-1',
+        expires_in: 3600,
+        token_type: 'Bearer',
+      },
+    });
+    mockApiGet.mockResolvedValue({
+      data: {
+        Result: [
+          {
+            PK_ID: 4,
+            PatientNumber: '71620',
+            LastName: 'Doe ',
+            On_Prem: true,
+            Move_in_Date: '2026-01-19T13:00:00',
+          },
+        ],
+      },
+    });
+  });
+
+  it('skips the update when the existing row already holds the patch', async () => {
+    await expect(
+      upsertByFields('CarePatientTable_API_Temp', filters, {
+        PatientNumber: '71620',
+        LastName: 'Doe',
+        On_Prem: 'Yes',
+        Move_in_Date: '01/19/2026 13:00:00',
+      }),
+    ).resolves.toEqual({ action: 'unchanged', id: '4' });
+
+    expect(mockApiPut).not.toHaveBeenCalled();
+    expect(recordCaspioWriteMock).not.toHaveBeenCalled();
+    expect(recordCaspioRequestOutcomeMock).toHaveBeenCalledWith(
+      'CarePatientTable_API_Temp',
+      'unchanged',
+    );
+  });
+
+  it('sends the full patch when any column changed', async () => {
+    mockApiPut.mockResolvedValueOnce({ data: {} });
+
+    await expect(
+      upsertByFields('CarePatientTable_API_Temp', filters, {
+        PatientNumber: '71620',
+        LastName: 'Doe-Smith',
+        On_Prem: true,
+      }),
+    ).resolves.toEqual({ action: 'update', id: '4' });
+
+    expect(mockApiPut).toHaveBeenCalledTimes(1);
+    expect(mockApiPut.mock.calls[0][1]).toEqual({
+      PatientNumber: '71620',
+      LastName: 'Doe-Smith',
+      On_Prem: true,
+    });
+  });
+});
@@ -34,6 +34,25 @@ jest.mock('../../../src/config/env.js', () => ({
   },
 }));
 
+jest.mock('../../../src/integrations/caspio/tokenStore.js', () => ({
+  getSharedCaspioToken: (mint: () => Promise<unknown>) => mint(),
+  clearSharedCaspioToken: jest.fn(),
+}));
+
+jest.mock('../../../src/integrations/caspio/requestBudget.js', () => ({
+  acquireCaspioRequestSlot: jest.fn().mockResolvedValue(0),
+  recordCaspioRequestOutcome: jest.fn(),
+}));
+
+jest.mock('../../../src/domains/caspioWriteAudit.js', () => ({
+  recordCaspioWrite: jest.fn(),
+  currentCaspioWriteOrigin: jest.fn(),
+}));
+
+jest.mock('../../../src/domains/eventIssues.js', () => ({
+  recordEventIssue: jest.fn(),
+}));
+
 jest.mock('../../../src/config/logger.js', () => ({
   logger: {
     debug: jest.fn(),
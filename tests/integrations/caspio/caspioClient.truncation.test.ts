@@ -0,0 +1,222 @@
+const mockAuthPost = jest.fn();
+const mockApiGet = jest.fn();
+const recordEventIssueMock = jest.fn();
+const currentCaspioWriteOriginMock = jest.fn();
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: {
+    isAxiosError: (error: unknown) =>
+      Boolean((error as { isAxiosError?: boolean } | undefined)?.isAxiosError),
+  },
+}));
+
+jest.mock('../../../src/config/axios.js', () => ({
+  createHttpClient: jest
+    .fn()
+    .mockImplementationOnce(() => ({ post: mockAuthPost }))
+    .mockImplementationOnce(() => ({ get: mockApiGet, post: jest.fn(), put: jest.fn() })),
+}));
+
+jest.mock('../../../src/config/env.js', () => ({
+  env: {
+    CASPIO_BASE_URL: 'https://c3aca270.caspio.com',
+    CASPIO_TOKEN_URL: 'https://c3aca270.caspio.com/oauth/token',
+    CASPIO_CLIENT_ID: 'test-client-id',
+    CASPIO_CLIENT_SECRET: 'test-client-secret',
+    CASPIO_SERVICE_TABLE_NAME: 'Service_Table_API',
+    CASPIO_TIMEOUT_MS: 10000,
+    CASPIO_RETRY_MAX: 3,
+  },
+}));
+
+jest.mock('../../../src/integrations/caspio/tokenStore.js', () => ({
+  getSharedCaspioToken: (mint: () => Promise<unknown>) => mint(),
+  clearSharedCaspioToken: jest.fn(),
+}));
+
+jest.mock('../../../src/integrations/caspio/requestBudget.js', () => ({
+  acquireCaspioRequestSlot: jest.fn().mockResolvedValue(0),
+  recordCaspioRequestOutcome: jest.fn(),
+}));
+
+jest.mock('../../../src/domains/caspioWriteAudit.js', () => ({
+  recordCaspioWrite: jest.fn(),
+  currentCaspioWriteOrigin: currentCaspioWriteOriginMock,
+}));
+
+jest.mock('../../../src/domains/eventIssues.js', () => ({
+  recordEventIssue: recordEventIssueMock,
+}));
+
+jest.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+import {
+  caspioRequestWithRetry,
+  findActiveOrLatestServiceRow,
+  findRecordsByFieldValues,
+  streamCaspioRecords,
+} from '../../../src/integrations/caspio/caspioClient.js';
+import { defaultCaspioClient } from '../../../src/integrations/caspio/caspioConnection.js';
+import { acquireCaspioRequestSlot } from '../../../src/integrations/caspio/requestBudget.js';
+
+/** A full page of closed service rows, newest first across pages. */
+function servicePage(pageNumber: number) {
+  return {
+    data: {
+      Result: Array.from({ length: 200 }, (_, index) => {
+        const id = (pageNumber - 1) * 200 + index + 1;
+        return {
+          PK_ID: id,
+          PatientNumber: 'P-1',
+          CUID: 'C-259',
+          StartDate: new Date(Date.UTC(2026, 0, 1) - id * 86_400_000).toISOString(),
+          EndDate: '2026-01-01',
+        };
+      }),
+    },
+  };
+}
+
+function pageNumberOf(url: string): number {
+  return Number(new URL(url, 'https://caspio.invalid').searchParams.get('q.pageNumber'));
+}
+
+describe('caspioClient truncated queries', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    currentCaspioWriteOriginMock.mockReturnValue(undefined);
+    mockAuthPost.mockResolvedValue({
+      data: { access_token: 'token-1', expires_in: 3600, token_type: 'Bearer' },
+    });
+    mockApiGet.mockImplementation(async (url: string) => servicePage(pageNumberOf(url)));
+  });
+
+  it('flags a service lookup cut off by the page limit and records an issue', async () => {
+    currentCaspioWriteOriginMock.mockReturnValue({
+      source: 'event',
+      companyId: 10,
+      residentId: 1,
+      eventMessageId: 'evt-1',
+      eventType: 'residents.move_out',
+    });
+
+    // A company's lookups run inside its Caspio connection; this one has none of its own.
+    const result = await defaultCaspioClient().run(() =>
+      findActiveOrLatestServiceRow({ patientNumber: 'P-1', cuid: 'C-259' }),
+    );
+
+    expect(result).toEqual(expect.objectContaining({ found: true, id: '1', truncated: true }));
+    expect(mockApiGet).toHaveBeenCalledTimes(20);
+    expect(
+      new URL(mockApiGet.mock.calls[0][0], 'https://caspio.invalid').searchParams.get('q.orderBy'),
+    ).toBe('StartDate DESC');
+    expect(recordEventIssueMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        companyId: 10,
+        eventMessageId: 'evt-1',
+        eventType: 'residents.move_out',
+        stage: 'caspio_query',
+        severity: 'warning',
+        details: expect.objectContaining({ tableName: 'Service_Table_API', rowsRead: 4000 }),
+      }),
+    );
+  });
+
+  it('stops reading service rows at the newest open one', async () => {
+    mockApiGet.mockImplementation(async (url: string) => {
+      const page = servicePage(pageNumberOf(url));
+      page.data.Result[3].EndDate = '';
+      return page;
+    });
+
+    const result = await findActiveOrLatestServiceRow({ patientNumber: 'P-1', cuid: 'C-259' });
+
+    expect(result).toEqual({ found: true, id: '4', record: expect.any(Object) });
+    expect(mockApiGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a truncated query once per backfill job, and only when its operation succeeds', async () => {
+    currentCaspioWriteOriginMock.mockReturnValue({
+      source: 'backfill',
+      companyId: 10,
+      residentId: 1,
+      backfillJobId: 'backfill-acme-1-1',
+    });
+    const unauthorized = { isAxiosError: true, response: { status: 401 } };
+    let attempts = 0;
+
+    await defaultCaspioClient().run(async () => {
+      await expect(
+        caspioRequestWithRetry(async () => {
+          await findRecordsByFieldValues('Service_Table_API', 'PatientNumber', ['P-1']);
+          throw unauthorized;
+        }),
+      ).rejects.toBe(unauthorized);
+      expect(recordEventIssueMock).not.toHaveBeenCalled();
+
+      await caspioRequestWithRetry(async () => {
+        await findRecordsByFieldValues('Service_Table_API', 'PatientNumber', ['P-1']);
+        attempts += 1;
+        if (attempts === 1) {
+          throw unauthorized;
+        }
+      });
+      await expect(
+        findRecordsByFieldValues('Service_Table_API', 'PatientNumber', ['P-1']),
+      ).resolves.toEqual(expect.objectContaining({ truncated: true }));
+    });
+
+    expect(attempts).toBe(2);
+    expect(recordEventIssueMock).toHaveBeenCalledTimes(1);
+    expect(recordEventIssueMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventType: 'caspio.query',
+        eventMessageId: 'backfill-acme-1-1',
+        details: expect.objectContaining({ backfillJobId: 'backfill-acme-1-1' }),
+      }),
+    );
+  });
+
+  it('only logs truncation outside a company context', async () => {
+    await findActiveOrLatestServiceRow({ patientNumber: 'P-1', cuid: 'C-259' });
+
+    expect(recordEventIssueMock).not.toHaveBeenCalled();
+  });
+
+  it('streams rows and stops fetching when the caller stops', async () => {
+    const seen: unknown[] = [];
+    for await (const row of streamCaspioRecords('Service_Table_API', {
+      where: "PatientNumber='P-1'",
+      orderBy: 'StartDate DESC',
+    })) {
+      seen.push(row.PK_ID);
+      if (seen.length === 250) break;
+    }
+
+    expect(seen[0]).toBe(1);
+    expect(mockApiGet).toHaveBeenCalledTimes(2);
+    expect(recordEventIssueMock).not.toHaveBeenCalled();
+  });
+
+  it('takes one budget token per page of a paged query', async () => {
+    mockApiGet.mockImplementation(async (url: string) =>
+      pageNumberOf(url) < 3 ? servicePage(pageNumberOf(url)) : { data: { Result: [] } },
+    );
+
+    await expect(
+      findRecordsByFieldValues('Service_Table_API', 'PatientNumber', ['P-1']),
+    ).resolves.toEqual(expect.objectContaining({ truncated: false }));
+
+    expect(mockApiGet).toHaveBeenCalledTimes(3);
+    expect(acquireCaspioRequestSlot).toHaveBeenCalledTimes(3);
+    expect(acquireCaspioRequestSlot).toHaveBeenCalledWith('Service_Table_API');
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  applyCaspioColumnMapping,
+  canonicalCaspioRecord,
+  CaspioColumnMappingSchema,
+  mappedCaspioTableColumns,
+} from '../../../src/integrations/caspio/caspioColumnMapping.js';
+
+describe('caspioColumnMapping', () => {
+  const mapping = CaspioColumnMappingSchema.parse({
+    patient: {
+      rename: { RoomNumber: 'Room', Diagnosis1: 'PrimaryDx' },
+      drop: ['PatientSSN'],
+      defaults: { Status: 'Active', PrimaryDx: 'Unknown' },
+    },
+  });
+
+  it('renames, drops and defaults columns of an insert', () => {
+    expect(
+      applyCaspioColumnMapping(
+        mapping,
+        'patient',
+        { PatientNumber: '12345', PatientSSN: '123-45-6789', RoomNumber: '101', Diagnosis1: null },
+        'insert',
+      ),
+    ).toEqual({ PatientNumber: '12345', Room: '101', PrimaryDx: 'Unknown', Status: 'Active' });
+  });
+
+  it('only defaults the empty columns an update sets and leaves other tables alone', () => {
+    expect(
+      applyCaspioColumnMapping(
+        mapping,
+        'patient',
+        { Diagnosis1: ' ', LastName: 'Rivera' },
+        'update',
+      ),
+    ).toEqual({ PrimaryDx: 'Unknown', LastName: 'Rivera' });
+    expect(applyCaspioColumnMapping(mapping, 'service', { RoomNumber: '101' }, 'insert')).toEqual({
+      RoomNumber: '101',
+    });
+  });
+
+  it('reads renamed columns back under the mapper names', () => {
+    expect(
+      canonicalCaspioRecord(mapping, 'patient', {
+        PK_ID: 4,
+        PatientNumber: '12345',
+        Room: '101',
+        PrimaryDx: 'I10',
+        Status: 'Active',
+      }),
+    ).toEqual({
+      PK_ID: 4,
+      PatientNumber: '12345',
+      RoomNumber: '101',
+      Diagnosis1: 'I10',
+      Status: 'Active',
+    });
+  });
+
+  it('expects the renamed, kept and defaulted columns in the company table', () => {
+    const columns = mappedCaspioTableColumns(mapping, 'patient');
+
+    expect(columns).toEqual(
+      expect.objectContaining({ Room: 'write', PrimaryDx: 'write', Status: 'write' }),
+    );
+    expect(columns).not.toHaveProperty('RoomNumber');
+    expect(columns).not.toHaveProperty('PatientSSN');
+    expect(mappedCaspioTableColumns(mapping, 'service')).toHaveProperty('RoomNumber');
+  });
+
+  it('rejects lookup keys, legacy and unknown columns and clashing renames', () => {
+    const result = CaspioColumnMappingSchema.safeParse({
+      patient: {
+        rename: { PatientNumber: 'ResidentNumber', ApartmentNumber: 'Apt', LastName: 'FirstName' },
+        drop: ['NotAColumn'],
+      },
+      service: { drop: ['RoomNumber'], defaults: { RoomNumber: '0' } },
+    });
+
+    expect(result.success).toBe(false);
+    expect(
+      result.success ? [] : result.error.issues.map((issue) => issue.path.join('.')).sort(),
+    ).toEqual([
+      'patient.drop.0',
+      'patient.rename.ApartmentNumber',
+      'patient.rename.LastName',
+      'patient.rename.PatientNumber',
+      'service.defaults.RoomNumber',
+    ]);
+  });
+});
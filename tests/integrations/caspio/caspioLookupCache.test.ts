@@ -0,0 +1,89 @@
+const findRecordsByFieldValuesMock = jest.fn();
+
+jest.mock('../../../src/integrations/caspio/caspioClient.js', () => ({
+  findRecordsByFieldValues: findRecordsByFieldValuesMock,
+}));
+
+import { createCaspioLookupCache } from '../../../src/integrations/caspio/caspioLookupCache.js';
+
+describe('createCaspioLookupCache', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findRecordsByFieldValuesMock.mockResolvedValue({
+      matches: new Map([['12345', { id: '7', record: { PK_ID: 7, PatientNumber: '12345' } }]]),
+      truncated: false,
+    });
+  });
+
+  it('answers prefetched lookups and leaves the rest to the caller', async () => {
+    const cache = createCaspioLookupCache();
+    await cache.prefetch('CarePatientTable_API', 'PatientNumber', ['12345', 12346, '12345']);
+
+    expect(findRecordsByFieldValuesMock).toHaveBeenCalledWith(
+      'CarePatientTable_API',
+      'PatientNumber',
+      ['12345', '12346'],
+    );
+    expect(
+      cache.lookup('CarePatientTable_API', [{ field: 'PatientNumber', value: '12345' }]),
+    ).toEqual({ found: true, id: '7', record: { PK_ID: 7, PatientNumber: '12345' } });
+    expect(
+      cache.lookup('CarePatientTable_API', [{ field: 'PatientNumber', value: '12346' }]),
+    ).toEqual({ found: false });
+    expect(
+      cache.lookup('CarePatientTable_API', [{ field: 'PatientNumber', value: '99999' }]),
+    ).toBeUndefined();
+    expect(
+      cache.lookup('CarePatientTable_API', [
+        { field: 'PatientNumber', value: '12345' },
+        { field: 'CUID', value: '259' },
+      ]),
+    ).toBeUndefined();
+
+    await cache.prefetch('CarePatientTable_API', 'PatientNumber', ['12346']);
+    expect(findRecordsByFieldValuesMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves values a truncated prefetch did not find to the per-record lookup', async () => {
+    const cache = createCaspioLookupCache();
+    findRecordsByFieldValuesMock.mockResolvedValueOnce({
+      matches: new Map([['12345', { id: '7', record: { PK_ID: 7, PatientNumber: '12345' } }]]),
+      truncated: true,
+    });
+    await cache.prefetch('CarePatientTable_API', 'PatientNumber', ['12345', '12346']);
+
+    expect(
+      cache.lookup('CarePatientTable_API', [{ field: 'PatientNumber', value: '12345' }]),
+    ).toEqual(expect.objectContaining({ found: true, id: '7' }));
+    expect(
+      cache.lookup('CarePatientTable_API', [{ field: 'PatientNumber', value: '12346' }]),
+    ).toBeUndefined();
+  });
+
+  it('remembers inserted rows so the next upsert of the key updates them', async () => {
+    const cache = createCaspioLookupCache();
+    const filters = [{ field: 'CommunityID', value: '113' }];
+    findRecordsByFieldValuesMock.mockResolvedValueOnce({ matches: new Map(), truncated: false });
+    await cache.prefetch('CommunityTable_API', 'CommunityID', ['113']);
+
+    cache.remember(
+      'CommunityTable_API',
+      filters,
+      { action: 'insert', id: '31' },
+      {
+        CommunityID: '113',
+        CUID: '259',
+      },
+    );
+    expect(cache.lookup('CommunityTable_API', filters)).toEqual({
+      found: true,
+      id: '31',
+      record: { CommunityID: '113', CUID: '259' },
+    });
+
+    cache.remember('CommunityTable_API', filters, { action: 'insert' }, { CommunityID: '113' });
+    expect(cache.lookup('CommunityTable_API', filters)).toEqual(
+      expect.objectContaining({ id: '31' }),
+    );
+  });
+});
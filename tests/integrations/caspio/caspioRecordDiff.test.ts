@@ -0,0 +1,46 @@
+import {
+  findChangedCaspioFields,
+  isSameCaspioValue,
+} from '../../../src/integrations/caspio/caspioRecordDiff.js';
+
+describe('caspioRecordDiff', () => {
+  it('treats Caspio date formats for the same moment as equal', () => {
+    expect(isSameCaspioValue('01/19/2026 13:00:00', '2026-01-19T13:00:00')).toBe(true);
+    expect(isSameCaspioValue('2026-01-19', '2026-01-19T00:00:00')).toBe(true);
+    expect(isSameCaspioValue('2026-01-19T13:00:00.000Z', '2026-01-19T13:00:00')).toBe(true);
+    expect(isSameCaspioValue('01/19/2026 13:00:00', '2026-01-19T13:00:01')).toBe(false);
+  });
+
+  it('normalizes Yes/No values, numbers and whitespace', () => {
+    expect(isSameCaspioValue(true, 'Yes')).toBe(true);
+    expect(isSameCaspioValue(false, 0)).toBe(true);
+    expect(isSameCaspioValue(false, null)).toBe(false);
+    expect(isSameCaspioValue('101', 101)).toBe(true);
+    expect(isSameCaspioValue('Rivera  Lopez', ' Rivera Lopez ')).toBe(true);
+    expect(isSameCaspioValue('', null)).toBe(true);
+    expect(isSameCaspioValue('rivera', 'Rivera')).toBe(false);
+  });
+
+  it('lists the patched columns that differ, including ones the row does not return', () => {
+    const existing = {
+      PK_ID: 7,
+      PatientNumber: '12345',
+      LastName: 'Rivera',
+      On_Prem: true,
+      Move_in_Date: '2026-01-19T00:00:00',
+    };
+
+    expect(
+      findChangedCaspioFields(existing, {
+        PK_ID: 7,
+        PatientNumber: 12345,
+        LastName: 'Rivera ',
+        On_Prem: 'Yes',
+        Move_in_Date: '01/19/2026 00:00:00',
+      }),
+    ).toEqual([]);
+    expect(
+      findChangedCaspioFields(existing, { LastName: 'Rivera-Lopez', Diagnosis2: null }),
+    ).toEqual(['LastName', 'Diagnosis2']);
+  });
+});
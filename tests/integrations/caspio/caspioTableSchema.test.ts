@@ -0,0 +1,179 @@
+const fetchTableFieldsMock = jest.fn();
+const loggerErrorMock = jest.fn();
+const getCaspioClientForCompanyMock = jest.fn();
+const listCompanyIdsWithCaspioConnectionMock = jest.fn();
+const loadCaspioColumnMappingMock = jest.fn();
+
+jest.mock('../../../src/integrations/caspio/caspioClient.js', () => ({
+  fetchTableFields: fetchTableFieldsMock,
+}));
+
+jest.mock('../../../src/config/env.js', () => ({
+  env: {
+    CASPIO_TABLE_NAME: 'CarePatientTable_API',
+    CASPIO_COMMUNITY_TABLE_NAME: 'CommunityTable_API',
+    CASPIO_SERVICE_TABLE_NAME: 'Service_Table_API',
+    CASPIO_OFF_PREM_HISTORY_TABLE_NAME: 'PatientOffPremHistory_API',
+  },
+}));
+
+jest.mock('../../../src/integrations/caspio/companyCaspioClient.js', () => ({
+  caspioConnectionKeyFor: (companyId: number) => `company-${companyId}`,
+  getCaspioClientForCompany: getCaspioClientForCompanyMock,
+  listCompanyIdsWithCaspioConnection: listCompanyIdsWithCaspioConnectionMock,
+}));
+
+jest.mock('../../../src/domains/caspioColumnMappings.js', () => ({
+  loadCaspioColumnMapping: loadCaspioColumnMappingMock,
+}));
+
+jest.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: loggerErrorMock,
+    info: jest.fn(),
+  },
+}));
+
+import {
+  CARE_PATIENT_TABLE_COLUMNS,
+  COMMUNITY_TABLE_COLUMNS,
+  OFF_PREM_HISTORY_TABLE_COLUMNS,
+  SERVICE_TABLE_COLUMNS,
+} from '../../../src/integrations/caspio/caspioMapper.js';
+import { CaspioColumnMappingSchema } from '../../../src/integrations/caspio/caspioColumnMapping.js';
+import {
+  getAllCaspioSchemaValidations,
+  getCaspioSchemaValidation,
+} from '../../../src/integrations/caspio/caspioTableSchema.js';
+
+type FieldOverrides = Record<string, { Type?: string; omit?: boolean }>;
+
+function tableFields(columns: Record<string, string>, overrides: FieldOverrides = {}) {
+  const fields = Object.entries(columns)
+    .filter(([name, usage]) => usage !== 'legacy' && !overrides[name]?.omit)
+    .map(([name]) => ({ Name: name, Type: overrides[name]?.Type ?? 'STRING' }));
+  return [{ Name: 'PK_ID', Type: 'AUTONUMBER' }, ...fields];
+}
+
+function mockTables(overrides: Partial<Record<string, FieldOverrides | Error>> = {}): void {
+  const columnsByTable: Record<string, Record<string, string>> = {
+    CarePatientTable_API: CARE_PATIENT_TABLE_COLUMNS,
+    CommunityTable_API: COMMUNITY_TABLE_COLUMNS,
+    Service_Table_API: SERVICE_TABLE_COLUMNS,
+    PatientOffPremHistory_API: OFF_PREM_HISTORY_TABLE_COLUMNS,
+  };
+  fetchTableFieldsMock.mockImplementation(async (tableName: string) => {
+    const override = overrides[tableName];
+    if (override instanceof Error) throw override;
+    return tableFields(columnsByTable[tableName], override);
+  });
+}
+
+describe('caspioTableSchema', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('accepts tables that have every mapped column, legacy columns excepted', async () => {
+    mockTables();
+
+    const validation = await getCaspioSchemaValidation({ refresh: true });
+
+    expect(validation.status).toBe('ok');
+    expect(fetchTableFieldsMock.mock.calls.map(([tableName]) => tableName)).toEqual([
+      'CarePatientTable_API',
+      'CommunityTable_API',
+      'Service_Table_API',
+      'PatientOffPremHistory_API',
+    ]);
+    expect(validation.tables[0]).toEqual({
+      table: 'patient',
+      tableName: 'CarePatientTable_API',
+      status: 'ok',
+      missingColumns: [],
+      readOnlyColumns: [],
+      unmappedColumns: ['PK_ID'],
+    });
+    expect(loggerErrorMock).not.toHaveBeenCalled();
+  });
+
+  it('reports missing and read-only columns per table', async () => {
+    mockTables({
+      CarePatientTable_API: { DiagnosisCode: { omit: true } },
+      CommunityTable_API: { CUID: { Type: 'FORMULA' } },
+      Service_Table_API: { Service_ID: { Type: 'AUTONUMBER' } },
+    });
+
+    const validation = await getCaspioSchemaValidation({ refresh: true });
+
+    expect(validation.status).toBe('mismatch');
+    expect(validation.tables.map((report) => report.status)).toEqual([
+      'mismatch',
+      'mismatch',
+      'mismatch',
+      'ok',
+    ]);
+    expect(validation.tables[0].missingColumns).toEqual(['DiagnosisCode']);
+    expect(validation.tables[1].readOnlyColumns).toEqual(['CUID']);
+    expect(validation.tables[2].readOnlyColumns).toEqual(['Service_ID']);
+    expect(loggerErrorMock).toHaveBeenCalledWith(
+      expect.objectContaining({ tableName: 'Service_Table_API', readOnlyColumns: ['Service_ID'] }),
+      'caspio_schema_mismatch',
+    );
+  });
+
+  it('checks each company connection for its own tables and column mapping', async () => {
+    mockTables();
+    listCompanyIdsWithCaspioConnectionMock.mockResolvedValue([7]);
+    getCaspioClientForCompanyMock.mockResolvedValue({
+      key: 'company-7',
+      tables: {
+        patient: 'CarePatientTable_API',
+        community: 'CommunityTable_API',
+        service: 'Service_Table_API',
+        offPremHistory: 'PatientOffPremHistory_API',
+      },
+      run: (operation: () => Promise<unknown>) => operation(),
+    });
+    loadCaspioColumnMappingMock.mockResolvedValue(
+      CaspioColumnMappingSchema.parse({
+        patient: { rename: { RoomNumber: 'Room' }, drop: ['DiagnosisCode'] },
+      }),
+    );
+
+    const [env, company] = await getAllCaspioSchemaValidations({ refresh: true });
+
+    expect(env).toEqual(expect.objectContaining({ connection: 'default', status: 'ok' }));
+    expect(getCaspioClientForCompanyMock).toHaveBeenCalledWith(7);
+    expect(loadCaspioColumnMappingMock).toHaveBeenCalledWith(7);
+    expect(company.connection).toBe('company-7');
+    expect(company.tables[0]).toEqual(
+      expect.objectContaining({
+        status: 'mismatch',
+        missingColumns: ['Room'],
+        unmappedColumns: ['PK_ID', 'RoomNumber', 'DiagnosisCode'],
+      }),
+    );
+  });
+
+  it('caches the result until a refresh is requested', async () => {
+    mockTables({ PatientOffPremHistory_API: new Error('Request failed with status code 404') });
+
+    const first = await getCaspioSchemaValidation({ refresh: true });
+    expect(first.status).toBe('error');
+    expect(first.tables[3]).toEqual(
+      expect.objectContaining({ status: 'error', error: 'Request failed with status code 404' }),
+    );
+
+    await expect(getCaspioSchemaValidation()).resolves.toBe(first);
+    expect(fetchTableFieldsMock).toHaveBeenCalledTimes(4);
+
+    mockTables();
+    await expect(getCaspioSchemaValidation({ refresh: true })).resolves.toEqual(
+      expect.objectContaining({ status: 'ok' }),
+    );
+    expect(fetchTableFieldsMock).toHaveBeenCalledTimes(8);
+  });
+});
@@ -0,0 +1,101 @@
+const connectionFindUniqueMock = jest.fn();
+
+jest.mock('../../../src/db/prisma.js', () => ({
+  prisma: {
+    caspioConnection: { findUnique: connectionFindUniqueMock },
+  },
+}));
+
+jest.mock('../../../src/security/credentials.js', () => ({
+  decryptSecret: (ciphertext: string) => ciphertext.replace(/^enc:/, ''),
+}));
+
+jest.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import { runWithCaspioWriteOrigin } from '../../../src/domains/caspioWriteAudit.js';
+import {
+  caspioTableNames,
+  currentCaspioClient,
+  defaultCaspioClient,
+} from '../../../src/integrations/caspio/caspioConnection.js';
+import {
+  forgetCompanyCaspioClient,
+  getCaspioClientForCompany,
+  runWithCompanyCaspioClient,
+} from '../../../src/integrations/caspio/companyCaspioClient.js';
+
+function storedConnection(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    companyId: 11,
+    baseUrl: 'https://acme.caspio.com',
+    tokenUrl: 'https://acme.caspio.com/oauth/token',
+    clientId: 'acme-client',
+    clientSecretCiphertext: 'enc:acme-secret',
+    clientSecretIv: 'iv',
+    patientTableName: 'AcmePatients',
+    communityTableName: null,
+    serviceTableName: null,
+    offPremHistoryTableName: null,
+    createdAt: new Date('2026-10-19T16:00:00Z'),
+    updatedAt: new Date('2026-10-19T16:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('company Caspio clients', () => {
+  beforeEach(() => {
+    forgetCompanyCaspioClient(11);
+    forgetCompanyCaspioClient(12);
+  });
+
+  it('builds one client per stored connection and falls back to the env connection', async () => {
+    connectionFindUniqueMock.mockImplementation(async ({ where }) =>
+      where.companyId === 11 ? storedConnection() : null,
+    );
+
+    await expect(getCaspioClientForCompany(12)).resolves.toBe(defaultCaspioClient());
+
+    const client = await getCaspioClientForCompany(11);
+    expect(client).toEqual(
+      expect.objectContaining({
+        key: 'company-11',
+        baseUrl: 'https://acme.caspio.com',
+        tables: expect.objectContaining({
+          patient: 'AcmePatients',
+          community: process.env.CASPIO_COMMUNITY_TABLE_NAME ?? 'CommunityTable_API',
+        }),
+      }),
+    );
+    await expect(getCaspioClientForCompany(11)).resolves.toBe(client);
+    expect(connectionFindUniqueMock).toHaveBeenCalledTimes(2);
+
+    forgetCompanyCaspioClient(11);
+    connectionFindUniqueMock.mockResolvedValueOnce(
+      storedConnection({ updatedAt: new Date('2026-10-19T17:00:00Z') }),
+    );
+    await expect(getCaspioClientForCompany(11)).resolves.not.toBe(client);
+  });
+
+  it("refuses a company's Caspio work outside its connection instead of using the env one", async () => {
+    connectionFindUniqueMock.mockResolvedValue(null);
+    const origin = { source: 'event' as const, companyId: 12 };
+
+    await expect(
+      runWithCaspioWriteOrigin(origin, async () => currentCaspioClient()),
+    ).rejects.toThrow('outside its Caspio connection');
+    await expect(
+      runWithCaspioWriteOrigin(origin, () =>
+        runWithCompanyCaspioClient(12, async () => caspioTableNames()),
+      ),
+    ).resolves.toEqual(defaultCaspioClient().tables);
+    expect(currentCaspioClient()).toBe(defaultCaspioClient());
+  });
+});
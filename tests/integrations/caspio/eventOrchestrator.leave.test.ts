@@ -3,6 +3,7 @@ const findByPatientNumberMock = jest.fn();
 const findCommunityByIdAndRoomNumberMock = jest.fn();
 const findActiveOrLatestServiceRowMock = jest.fn();
 const findOpenOffPremEpisodeMock = jest.fn();
+const findOffPremEpisodeByEpisodeIdMock = jest.fn();
 const upsertByFieldsMock = jest.fn();
 const upsertOffPremEpisodeByEpisodeIdMock = jest.fn();
 const updateRecordByIdMock = jest.fn();
@@ -13,6 +14,7 @@ jest.mock('../../../src/integrations/caspio/caspioClient.js', () => ({
   findCommunityByIdAndRoomNumber: findCommunityByIdAndRoomNumberMock,
   findActiveOrLatestServiceRow: findActiveOrLatestServiceRowMock,
   findOpenOffPremEpisode: findOpenOffPremEpisodeMock,
+  findOffPremEpisodeByEpisodeId: findOffPremEpisodeByEpisodeIdMock,
   upsertByFields: upsertByFieldsMock,
   upsertOffPremEpisodeByEpisodeId: upsertOffPremEpisodeByEpisodeIdMock,
   updateRecordById: updateRecordByIdMock,
@@ -30,6 +32,7 @@ jest.mock('../../../src/integrations/alisClient.js', () => ({
     contacts: [],
   }),
   resolveAlisCredentials: jest.fn().mockResolvedValue({ username: 'u', password: 'p' }),
+  createAlisRequestStats: () => ({ requests: 0, retries: 0, budgetWaitMs: 0 }),
 }));
 
 jest.mock('../../../src/config/env.js', () => ({
@@ -49,7 +52,18 @@ jest.mock('../../../src/config/logger.js', () => ({
   },
 }));
 
-import { handleAlisEvent } from '../../../src/integrations/caspio/eventOrchestrator.js';
+import { handleAlisEvent as handleParsedAlisEvent } from '../../../src/integrations/caspio/eventOrchestrator.js';
+import { parseAlisNotificationEvent, type AlisEvent } from '../../../src/webhook/schemas.js';
+
+// Events reach the orchestrator already validated at ingest.
+async function handleAlisEvent(
+  event: AlisEvent,
+  ...rest: Parameters<typeof handleParsedAlisEvent> extends [unknown, ...infer R] ? R : never
+) {
+  const parsed = parseAlisNotificationEvent(event);
+  if (!parsed.success) throw parsed.error;
+  return handleParsedAlisEvent(parsed.data, ...rest);
+}
 
 describe('eventOrchestrator leave events with off-prem history', () => {
   beforeEach(() => {
@@ -70,6 +84,7 @@ describe('eventOrchestrator leave events with off-prem history', () => {
       id: 'ep-1',
       record: { OffPremStart: '2026-01-19T13:00:00' },
     });
+    findOffPremEpisodeByEpisodeIdMock.mockResolvedValue({ found: false });
   });
 
   const baseEvent = {
@@ -101,11 +116,16 @@ describe('eventOrchestrator leave events with off-prem history', () => {
 
     await handleAlisEvent(event, 10, 'appstoresandbox');
 
-    expect(updateRecordByIdMock).toHaveBeenCalledWith('CarePatientTable_API', '101', {
-      Off_Prem: true,
-      Off_Prem_Date: '2026-01-19T13:00:00',
-      On_Prem: false,
-    });
+    expect(updateRecordByIdMock).toHaveBeenCalledWith(
+      'CarePatientTable_API',
+      '101',
+      {
+        Off_Prem: true,
+        Off_Prem_Date: '2026-01-19T13:00:00',
+        On_Prem: false,
+      },
+      expect.anything(),
+    );
     expect(upsertOffPremEpisodeByEpisodeIdMock).toHaveBeenCalledWith(
       expect.objectContaining({
         PatientNumber: '70508',
@@ -158,11 +178,16 @@ describe('eventOrchestrator leave events with off-prem history', () => {
 
     await handleAlisEvent(event, 10, 'appstoresandbox');
 
-    expect(updateRecordByIdMock).toHaveBeenCalledWith('CarePatientTable_API', '103', {
-      On_Prem: true,
-      On_Prem_Date: '2026-01-19T15:00:00',
-      Off_Prem: false,
-    });
+    expect(updateRecordByIdMock).toHaveBeenCalledWith(
+      'CarePatientTable_API',
+      '103',
+      {
+        On_Prem: true,
+        On_Prem_Date: '2026-01-19T15:00:00',
+        Off_Prem: false,
+      },
+      expect.anything(),
+    );
     expect(updateRecordByIdMock).toHaveBeenCalledWith(
       'PatientOffPremHistory_API',
       'ep-1',
@@ -172,6 +197,7 @@ describe('eventOrchestrator leave events with off-prem history', () => {
         IsOpen: false,
         CloseReason: 'leave_end',
       }),
+      { priorRecord: expect.objectContaining({ OffPremStart: '2026-01-19T13:00:00' }) },
     );
   });
 
@@ -200,6 +226,92 @@ describe('eventOrchestrator leave events with off-prem history', () => {
     });
   });
 
+  it('leave_cancelled after start restores On_Prem and closes the episode as cancelled', async () => {
+    findRecordByFieldsMock.mockResolvedValueOnce({ found: true, id: '301', record: {} });
+    findOffPremEpisodeByEpisodeIdMock.mockResolvedValueOnce({
+      found: true,
+      id: 'ep-285',
+      record: {
+        Episode_ID: 'leave:70508:259:285',
+        OffPremStart: '2026-01-19T13:00:00',
+        IsOpen: true,
+      },
+    });
+
+    await handleAlisEvent(
+      { ...baseEvent, EventType: 'residents.leave_cancelled', EventMessageId: 'evt-3' },
+      10,
+      'appstoresandbox',
+    );
+
+    expect(findOffPremEpisodeByEpisodeIdMock).toHaveBeenCalledWith('leave:70508:259:285');
+    expect(updateRecordByIdMock).toHaveBeenCalledWith(
+      'CarePatientTable_API',
+      '301',
+      {
+        On_Prem: true,
+        Off_Prem: false,
+      },
+      expect.anything(),
+    );
+    expect(updateRecordByIdMock).toHaveBeenCalledWith(
+      'PatientOffPremHistory_API',
+      'ep-285',
+      expect.objectContaining({
+        OffPremEnd: '2026-01-19T19:23:35.2101857',
+        IsOpen: false,
+        CloseReason: 'leave_cancelled',
+      }),
+      expect.anything(),
+    );
+    expect(findOpenOffPremEpisodeMock).not.toHaveBeenCalled();
+  });
+
+  it('leave_cancelled before start records a voided episode and leaves patient flags alone', async () => {
+    findRecordByFieldsMock.mockResolvedValueOnce({ found: true, id: '302', record: {} });
+
+    await handleAlisEvent(
+      { ...baseEvent, EventType: 'residents.leave_cancelled', EventMessageId: 'evt-4' },
+      10,
+      'appstoresandbox',
+    );
+
+    expect(updateRecordByIdMock).not.toHaveBeenCalled();
+    expect(upsertOffPremEpisodeByEpisodeIdMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        Episode_ID: 'leave:70508:259:285',
+        Leave_ID: '285',
+        IsOpen: false,
+        CloseReason: 'leave_cancelled',
+      }),
+    );
+  });
+
+  it('leave_start arriving after its cancellation does not reopen the leave', async () => {
+    findRecordByFieldsMock.mockResolvedValueOnce({ found: true, id: '303', record: {} });
+    findOffPremEpisodeByEpisodeIdMock.mockResolvedValueOnce({
+      found: true,
+      id: 'ep-285',
+      record: { Episode_ID: 'leave:70508:259:285', IsOpen: false, CloseReason: 'leave_cancelled' },
+    });
+
+    await handleAlisEvent(
+      {
+        ...baseEvent,
+        EventType: 'residents.leave_start',
+        NotificationData: {
+          ...baseEvent.NotificationData,
+          StartDateTime: '2026-01-19T13:00:00',
+        },
+      },
+      10,
+      'appstoresandbox',
+    );
+
+    expect(updateRecordByIdMock).not.toHaveBeenCalled();
+    expect(upsertOffPremEpisodeByEpisodeIdMock).not.toHaveBeenCalled();
+  });
+
   it('move_out closes service and any open off-prem episode', async () => {
     findRecordByFieldsMock.mockResolvedValueOnce({
       found: true,
@@ -236,6 +348,7 @@ describe('eventOrchestrator leave events with off-prem history', () => {
         On_Prem: false,
         Off_Prem: false,
       }),
+      expect.anything(),
     );
 
     expect(updateRecordByIdMock).toHaveBeenCalledWith(
@@ -244,6 +357,7 @@ describe('eventOrchestrator leave events with off-prem history', () => {
       expect.objectContaining({
         EndDate: expect.any(String),
       }),
+      expect.anything(),
     );
 
     expect(updateRecordByIdMock).toHaveBeenCalledWith(
@@ -253,6 +367,7 @@ describe('eventOrchestrator leave events with off-prem history', () => {
         IsOpen: false,
         CloseReason: 'move_out',
       }),
+      expect.anything(),
     );
   });
 });
@@ -31,6 +31,7 @@ jest.mock('../../../src/integrations/caspio/caspioCommunityEnrichment.js', () =>
 jest.mock('../../../src/integrations/alisClient.js', () => ({
   fetchAllResidentData: fetchAllResidentDataMock,
   resolveAlisCredentials: resolveAlisCredentialsMock,
+  createAlisRequestStats: () => ({ requests: 0, retries: 0, budgetWaitMs: 0 }),
 }));
 
 jest.mock('../../../src/config/env.js', () => ({
@@ -55,7 +56,18 @@ jest.mock('../../../src/domains/eventIssues.js', () => ({
   recordEventIssue: recordEventIssueMock,
 }));
 
-import { handleAlisEvent } from '../../../src/integrations/caspio/eventOrchestrator.js';
+import { handleAlisEvent as handleParsedAlisEvent } from '../../../src/integrations/caspio/eventOrchestrator.js';
+import { parseAlisNotificationEvent, type AlisEvent } from '../../../src/webhook/schemas.js';
+
+// Events reach the orchestrator already validated at ingest.
+async function handleAlisEvent(
+  event: AlisEvent,
+  ...rest: Parameters<typeof handleParsedAlisEvent> extends [unknown, ...infer R] ? R : never
+) {
+  const parsed = parseAlisNotificationEvent(event);
+  if (!parsed.success) throw parsed.error;
+  return handleParsedAlisEvent(parsed.data, ...rest);
+}
 
 describe('eventOrchestrator service-table scenarios', () => {
   beforeEach(() => {
@@ -230,9 +242,14 @@ describe('eventOrchestrator service-table scenarios', () => {
     try {
       await handleAlisEvent(event, 10, 'appstoresandbox');
 
-      expect(updateRecordByIdMock).toHaveBeenCalledWith('Service_Table_API', 'svc-1', {
-        EndDate: '01/21/2026 14:00:00',
-      });
+      expect(updateRecordByIdMock).toHaveBeenCalledWith(
+        'Service_Table_API',
+        'svc-1',
+        {
+          EndDate: '01/21/2026 14:00:00',
+        },
+        expect.anything(),
+      );
       expect(upsertByFieldsMock).toHaveBeenCalledWith(
         'Service_Table_API',
         [
@@ -288,14 +305,24 @@ describe('eventOrchestrator service-table scenarios', () => {
 
     await handleAlisEvent(event, 10, 'appstoresandbox');
 
-    expect(updateRecordByIdMock).toHaveBeenCalledWith('CarePatientTable_API', 'patient-1', {
-      PatientNumber: '71840',
-      RoomNumber: 'Unassigned',
-    });
+    expect(updateRecordByIdMock).toHaveBeenCalledWith(
+      'CarePatientTable_API',
+      'patient-1',
+      {
+        PatientNumber: '71840',
+        RoomNumber: 'Unassigned',
+      },
+      expect.anything(),
+    );
 
-    expect(updateRecordByIdMock).toHaveBeenCalledWith('Service_Table_API', 'svc-1', {
-      EndDate: '05/30/2026 05:00:00',
-    });
+    expect(updateRecordByIdMock).toHaveBeenCalledWith(
+      'Service_Table_API',
+      'svc-1',
+      {
+        EndDate: '05/30/2026 05:00:00',
+      },
+      expect.anything(),
+    );
 
     const vacantCall = upsertByFieldsMock.mock.calls.find((call) => {
       if (call[0] !== 'Service_Table_API') return false;
@@ -353,9 +380,14 @@ describe('eventOrchestrator service-table scenarios', () => {
 
     await handleAlisEvent(event, 10, 'appstoresandbox');
 
-    expect(updateRecordByIdMock).toHaveBeenCalledWith('Service_Table_API', 'svc-old', {
-      EndDate: '01/22/2026 12:00:00',
-    });
+    expect(updateRecordByIdMock).toHaveBeenCalledWith(
+      'Service_Table_API',
+      'svc-old',
+      {
+        EndDate: '01/22/2026 12:00:00',
+      },
+      expect.anything(),
+    );
     expect(upsertByFieldsMock).toHaveBeenCalledWith(
       'Service_Table_API',
       expect.arrayContaining([
@@ -414,6 +446,7 @@ describe('eventOrchestrator service-table scenarios', () => {
       'CarePatientTable_API',
       'patient-1',
       expect.any(Object),
+      expect.anything(),
     );
   });
 
@@ -577,9 +610,14 @@ describe('eventOrchestrator service-table scenarios', () => {
 
     await handleAlisEvent(event, 10, 'appstoresandbox');
 
-    expect(updateRecordByIdMock).toHaveBeenCalledWith('Service_Table_API', 'svc-old', {
-      EndDate: '01/22/2026 12:00:00',
-    });
+    expect(updateRecordByIdMock).toHaveBeenCalledWith(
+      'Service_Table_API',
+      'svc-old',
+      {
+        EndDate: '01/22/2026 12:00:00',
+      },
+      expect.anything(),
+    );
     expect(upsertByFieldsMock).toHaveBeenCalledWith(
       'Service_Table_API',
       expect.any(Array),
@@ -629,9 +667,14 @@ describe('eventOrchestrator service-table scenarios', () => {
 
     await handleAlisEvent(event, 10, 'appstoresandbox');
 
-    expect(updateRecordByIdMock).toHaveBeenCalledWith('Service_Table_API', 'svc-default-enddate', {
-      EndDate: '01/22/2026 12:00:00',
-    });
+    expect(updateRecordByIdMock).toHaveBeenCalledWith(
+      'Service_Table_API',
+      'svc-default-enddate',
+      {
+        EndDate: '01/22/2026 12:00:00',
+      },
+      expect.anything(),
+    );
     expect(upsertByFieldsMock).toHaveBeenCalledWith(
       'Service_Table_API',
       expect.arrayContaining([
@@ -814,6 +857,7 @@ describe('eventOrchestrator service-table scenarios', () => {
       expect.objectContaining({
         RoomNumber: '303',
       }),
+      expect.anything(),
     );
     expect(recordEventIssueMock).not.toHaveBeenCalledWith(
       expect.objectContaining({
@@ -980,6 +1024,7 @@ describe('eventOrchestrator service-table scenarios', () => {
       expect.objectContaining({
         RoomNumber: '111B',
       }),
+      expect.anything(),
     );
     expect(recordEventIssueMock).not.toHaveBeenCalledWith(
       expect.objectContaining({
@@ -1158,6 +1203,7 @@ describe('eventOrchestrator service-table scenarios', () => {
       expect.objectContaining({
         RoomNumber: '2A',
       }),
+      expect.anything(),
     );
     expect(findCommunityByIdAndRoomNumberMock).toHaveBeenCalledWith(113, '2A', 'Test Community');
   });
@@ -1213,9 +1259,14 @@ describe('eventOrchestrator service-table scenarios', () => {
 
     await handleAlisEvent(event, 10, 'appstoresandbox');
 
-    expect(updateRecordByIdMock).toHaveBeenCalledWith('Service_Table_API', 'svc-old-cuid', {
-      EndDate: '01/22/2026 15:00:00',
-    });
+    expect(updateRecordByIdMock).toHaveBeenCalledWith(
+      'Service_Table_API',
+      'svc-old-cuid',
+      {
+        EndDate: '01/22/2026 15:00:00',
+      },
+      expect.anything(),
+    );
     expect(upsertByFieldsMock).toHaveBeenCalledWith(
       'Service_Table_API',
       [
@@ -1244,6 +1295,71 @@ describe('eventOrchestrator service-table scenarios', () => {
     );
   });
 
+  it('a reconcile that finds the resident in a new room moves the service line off the old CUID', async () => {
+    findRecordByFieldsMock.mockResolvedValueOnce({ found: false });
+    findByPatientNumberMock.mockResolvedValueOnce({
+      found: true,
+      id: 'patient-1',
+      raw: { PatientNumber: '70508', CUID: '111', RoomNumber: '1' },
+    });
+    getCommunityEnrichmentMock.mockImplementation((_communityId: number, room?: string | null) =>
+      Promise.resolve(
+        room === '1'
+          ? { CUID: '111', CommunityName: 'Old Wing' }
+          : { CUID: '222', CommunityName: 'New Wing' },
+      ),
+    );
+    fetchAllResidentDataMock.mockResolvedValueOnce({
+      resident: {
+        Classification: 'Assisted Living',
+        ProductType: 'Assisted Living',
+        PhysicalMoveInDate: '2026-01-10',
+      },
+      basicInfo: {},
+      insurance: [],
+      roomAssignments: [{ RoomNumber: '2', IsPrimary: true, IsActiveAssignment: true }],
+      diagnosesAndAllergies: [],
+      contacts: [],
+      community: null,
+    });
+    findActiveOrLatestServiceRowMock.mockResolvedValue({
+      found: true,
+      id: 'svc-old-cuid',
+      record: { ServiceType: 'Assisted Living', StartDate: '2026-01-10' },
+    });
+
+    // processAlisEvent rewrites a stale room event to this before handing it over.
+    await handleAlisEvent(
+      {
+        CompanyKey: 'appstoresandbox',
+        CommunityId: 113,
+        EventType: 'residents.basic_info_updated',
+        EventMessageId: 'evt-room-reconcile',
+        EventMessageDate: '2026-01-22T15:00:00Z',
+        NotificationData: { ResidentId: 70508 },
+      },
+      10,
+      'appstoresandbox',
+    );
+
+    expect(updateRecordByIdMock).toHaveBeenCalledWith(
+      'Service_Table_API',
+      'svc-old-cuid',
+      { EndDate: '01/22/2026 15:00:00' },
+      expect.anything(),
+    );
+    expect(upsertByFieldsMock).toHaveBeenCalledWith(
+      'Service_Table_API',
+      expect.arrayContaining([{ field: 'CUID', value: '111' }]),
+      expect.objectContaining({ CUID: '111', ServiceType: 'Vacant' }),
+    );
+    expect(upsertByFieldsMock).toHaveBeenCalledWith(
+      'Service_Table_API',
+      expect.arrayContaining([{ field: 'CUID', value: '222' }]),
+      expect.objectContaining({ PatientNumber: '70508', CUID: '222' }),
+    );
+  });
+
   it('resident.room_changed resolves old CUID from UnassignedRoom and new CUID from AssignedRoom', async () => {
     findRecordByFieldsMock.mockResolvedValueOnce({ found: false });
     findByPatientNumberMock.mockResolvedValueOnce({
@@ -1334,11 +1450,13 @@ describe('eventOrchestrator service-table scenarios', () => {
         RoomNumber: '53',
         CUID: '222',
       }),
+      expect.anything(),
     );
     expect(updateRecordByIdMock).toHaveBeenCalledWith(
       'Service_Table_API',
       'svc-old-cuid',
       expect.objectContaining({ EndDate: expect.any(String) }),
+      expect.anything(),
     );
     const vacantUpsert = upsertByFieldsMock.mock.calls.find(
       (c) =>
@@ -1469,9 +1587,14 @@ describe('eventOrchestrator service-table scenarios', () => {
         StartDate: boundaryDate,
       }),
     );
-    expect(updateRecordByIdMock).toHaveBeenCalledWith('Service_Table_API', 'svc-destination-vacant', {
-      EndDate: boundaryDate,
-    });
+    expect(updateRecordByIdMock).toHaveBeenCalledWith(
+      'Service_Table_API',
+      'svc-destination-vacant',
+      {
+        EndDate: boundaryDate,
+      },
+      expect.anything(),
+    );
   });
 
   it('resident.room_changed still applies service transfer when Caspio row has move-out date fields (stale)', async () => {
@@ -1554,6 +1677,7 @@ describe('eventOrchestrator service-table scenarios', () => {
       'Service_Table_API',
       'svc-old-cuid',
       expect.objectContaining({ EndDate: expect.any(String) }),
+      expect.anything(),
     );
     expect(upsertByFieldsMock).toHaveBeenCalledWith(
       'Service_Table_API',
@@ -1570,6 +1694,132 @@ describe('eventOrchestrator service-table scenarios', () => {
     );
   });
 
+  it('resident.room_assigned to the same room keeps the service line and writes no Vacant row', async () => {
+    findRecordByFieldsMock.mockResolvedValueOnce({
+      found: true,
+      id: 'patient-1',
+      record: { PatientNumber: '70508', CUID: '259', RoomNumber: '101' },
+    });
+
+    const event = {
+      CompanyKey: 'appstoresandbox',
+      CommunityId: 113,
+      EventType: 'resident.room_assigned',
+      EventMessageId: 'evt-same-room',
+      EventMessageDate: '2026-01-22T12:00:00Z',
+      NotificationData: {
+        ResidentId: 70508,
+        RoomNumber: '101',
+      },
+    };
+
+    await handleAlisEvent(event, 10, 'appstoresandbox');
+
+    expect(updateRecordByIdMock).toHaveBeenCalledWith(
+      'CarePatientTable_API',
+      'patient-1',
+      expect.objectContaining({ RoomNumber: '101', CUID: '259' }),
+      expect.anything(),
+    );
+    expect(
+      updateRecordByIdMock.mock.calls.filter((call) => call[0] === 'Service_Table_API'),
+    ).toHaveLength(0);
+    expect(
+      upsertByFieldsMock.mock.calls.filter((call) => call[0] === 'Service_Table_API'),
+    ).toHaveLength(0);
+  });
+
+  it('resident.room_changed between beds on the same CUID only updates the patient room', async () => {
+    findRecordByFieldsMock.mockResolvedValueOnce({
+      found: true,
+      id: 'patient-1',
+      record: { PatientNumber: '70508', CUID: '259', RoomNumber: '101A' },
+    });
+
+    const event = {
+      CompanyKey: 'appstoresandbox',
+      CommunityId: 113,
+      EventType: 'resident.room_changed',
+      EventMessageId: 'evt-bed-change',
+      EventMessageDate: '2026-01-22T12:00:00Z',
+      NotificationData: {
+        ResidentId: 70508,
+        AssignedRoom: '101B',
+        UnassignedRoom: '101A',
+      },
+    };
+
+    await handleAlisEvent(event, 10, 'appstoresandbox');
+
+    expect(updateRecordByIdMock).toHaveBeenCalledWith(
+      'CarePatientTable_API',
+      'patient-1',
+      expect.objectContaining({ RoomNumber: '101B', CUID: '259' }),
+      expect.anything(),
+    );
+    expect(
+      updateRecordByIdMock.mock.calls.filter((call) => call[0] === 'Service_Table_API'),
+    ).toHaveLength(0);
+    const vacantUpsert = upsertByFieldsMock.mock.calls.find(
+      (call) =>
+        call[0] === 'Service_Table_API' &&
+        (call[2] as Record<string, unknown>)?.ServiceType === 'Vacant',
+    );
+    expect(vacantUpsert).toBeUndefined();
+  });
+
+  it('resident.room_assigned with no prior room opens the first line and closes the Vacant row', async () => {
+    findRecordByFieldsMock.mockResolvedValueOnce({
+      found: true,
+      id: 'patient-1',
+      record: { PatientNumber: '70508' },
+    });
+    findActiveOrLatestServiceRowMock.mockResolvedValueOnce({ found: false });
+    findOpenServiceRowByCuidAndServiceTypeMock.mockResolvedValueOnce({
+      found: true,
+      id: 'svc-vacant',
+      record: { CUID: '259', ServiceType: 'Vacant', StartDate: '01/01/2026 00:00:00' },
+    });
+
+    const event = {
+      CompanyKey: 'appstoresandbox',
+      CommunityId: 113,
+      EventType: 'resident.room_assigned',
+      EventMessageId: 'evt-first-room',
+      EventMessageDate: '2026-01-22T12:00:00Z',
+      NotificationData: {
+        ResidentId: 70508,
+        RoomNumber: '101',
+      },
+    };
+
+    await handleAlisEvent(event, 10, 'appstoresandbox');
+
+    expect(upsertByFieldsMock).toHaveBeenCalledWith(
+      'Service_Table_API',
+      expect.arrayContaining([
+        { field: 'CUID', value: '259' },
+        { field: 'PatientNumber', value: '70508' },
+        { field: 'ServiceType', value: 'Assisted Living' },
+      ]),
+      expect.objectContaining({ PatientNumber: '70508', CUID: '259' }),
+    );
+    expect(updateRecordByIdMock).toHaveBeenCalledWith(
+      'Service_Table_API',
+      'svc-vacant',
+      {
+        EndDate: '01/22/2026 12:00:00',
+      },
+      expect.anything(),
+    );
+    const vacantUpsert = upsertByFieldsMock.mock.calls.find(
+      (call) =>
+        call[0] === 'Service_Table_API' &&
+        (call[2] as Record<string, unknown>)?.ServiceType === 'Vacant',
+    );
+    expect(vacantUpsert).toBeUndefined();
+  });
+
   it('does not overwrite On_Prem/Off_Prem from API when an open off-prem episode exists', async () => {
     findOpenOffPremEpisodeMock.mockResolvedValueOnce({
       found: true,
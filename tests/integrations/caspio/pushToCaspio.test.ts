@@ -1,6 +1,9 @@
 const upsertByFieldsMock = jest.fn();
 const caspioRequestWithRetryMock = jest.fn(async (operation: () => Promise<unknown>) => operation());
 const getCommunityEnrichmentMock = jest.fn();
+const runWithCompanyCaspioClientMock = jest.fn(
+  (_companyId: number, operation: () => Promise<unknown>) => operation(),
+);
 
 jest.mock('../../../src/integrations/caspio/caspioClient.js', () => ({
   upsertByFields: upsertByFieldsMock,
@@ -20,6 +23,10 @@ jest.mock('../../../src/config/env.js', () => ({
   },
 }));
 
+jest.mock('../../../src/integrations/caspio/companyCaspioClient.js', () => ({
+  runWithCompanyCaspioClient: runWithCompanyCaspioClientMock,
+}));
+
 jest.mock('../../../src/config/logger.js', () => ({
   logger: {
     debug: jest.fn(),
@@ -29,6 +36,7 @@ jest.mock('../../../src/config/logger.js', () => ({
   },
 }));
 
+import { createCaspioClient } from '../../../src/integrations/caspio/caspioConnection.js';
 import { pushToCaspio } from '../../../src/integrations/caspio/pushToCaspio.js';
 import { SERVICE_LINE_UNASSIGNED_CLASSIFICATION } from '../../../src/integrations/caspio/serviceLineTypes.js';
 import type { AlisPayload } from '../../../src/integrations/alis/types.js';
@@ -159,6 +167,32 @@ describe('pushToCaspio new-table routing', () => {
     );
   });
 
+  it("writes to the tables of the company's Caspio connection", async () => {
+    const acme = createCaspioClient({
+      key: 'company-11',
+      baseUrl: 'https://acme.caspio.com',
+      tokenUrl: 'https://acme.caspio.com/oauth/token',
+      tables: {
+        patient: 'AcmePatients',
+        community: 'AcmeCommunities',
+        service: 'AcmeServices',
+        offPremHistory: 'AcmeLeaves',
+      },
+    });
+    runWithCompanyCaspioClientMock.mockImplementationOnce((_companyId, operation) =>
+      acme.run(operation),
+    );
+
+    await pushToCaspio(buildPayload(), { companyId: 11 });
+
+    expect(runWithCompanyCaspioClientMock).toHaveBeenCalledWith(11, expect.any(Function));
+    expect(upsertByFieldsMock.mock.calls.map(([tableName]) => tableName)).toEqual([
+      'AcmeCommunities',
+      'AcmePatients',
+      'AcmeServices',
+    ]);
+  });
+
   it('continues with patient upsert when community upsert hits CUID uniqueness conflict', async () => {
     upsertByFieldsMock.mockImplementation(
       async (tableName: string) => {
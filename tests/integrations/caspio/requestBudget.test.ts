@@ -0,0 +1,118 @@
+import RedisMock from 'ioredis-mock';
+
+const redis = new RedisMock();
+
+jest.mock('../../../src/config/env.js', () => ({
+  env: {
+    CASPIO_REQUEST_BUDGET_PER_SECOND: 2,
+    CASPIO_REQUEST_BUDGET_BURST: 2,
+    CASPIO_REQUEST_BUDGET_LIVE_RESERVE: 1,
+  },
+}));
+
+jest.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/workers/connection.js', () => ({
+  getRedisConnection: () => redis,
+}));
+
+import { createCaspioClient } from '../../../src/integrations/caspio/caspioConnection.js';
+import {
+  acquireCaspioRequestSlot,
+  getCaspioRequestMetrics,
+  recordCaspioRequestOutcome,
+  runWithCaspioRequestPriority,
+} from '../../../src/integrations/caspio/requestBudget.js';
+
+describe('acquireCaspioRequestSlot', () => {
+  beforeEach(async () => {
+    await redis.flushall();
+    jest.useFakeTimers({ now: 1_700_000_000_000, doNotFake: ['nextTick', 'setImmediate'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('keeps the reserved tokens for live requests while a backfill waits', async () => {
+    const bulkWaits: number[] = [];
+    const backfill = runWithCaspioRequestPriority('bulk', async () => {
+      bulkWaits.push(await acquireCaspioRequestSlot('CarePatientTable_API'));
+      bulkWaits.push(await acquireCaspioRequestSlot('CarePatientTable_API'));
+    });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(bulkWaits).toEqual([0]);
+
+    expect(await acquireCaspioRequestSlot('Service_Table_API')).toBe(0);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await backfill;
+    expect(bulkWaits).toEqual([0, 1000]);
+  });
+
+  it('counts requests per table', async () => {
+    await runWithCaspioRequestPriority('bulk', () =>
+      acquireCaspioRequestSlot('CarePatientTable_API'),
+    );
+    await acquireCaspioRequestSlot('Service_Table_API');
+    await recordCaspioRequestOutcome('CarePatientTable_API', 'retry');
+    await recordCaspioRequestOutcome('CarePatientTable_API', 'failure');
+    await recordCaspioRequestOutcome('CarePatientTable_API', 'unchanged');
+
+    await expect(getCaspioRequestMetrics()).resolves.toEqual([
+      {
+        connection: 'default',
+        table: 'CarePatientTable_API',
+        requests: 1,
+        liveRequests: 0,
+        bulkRequests: 1,
+        throttledRequests: 0,
+        throttleWaitMs: 0,
+        retries: 1,
+        failures: 1,
+        unchangedUpdates: 1,
+      },
+      expect.objectContaining({ table: 'Service_Table_API', requests: 1, liveRequests: 1 }),
+    ]);
+  });
+
+  it('keeps the counters of each Caspio connection apart', async () => {
+    const companyClient = createCaspioClient({
+      key: 'company-11',
+      baseUrl: 'https://acme.caspio.com',
+      tokenUrl: 'https://acme.caspio.com/oauth/token',
+      tables: {
+        patient: 'CarePatientTable_API',
+        community: 'CommunityTable_API',
+        service: 'Service_Table_API',
+        offPremHistory: 'PatientOffPremHistory_API',
+      },
+    });
+
+    await acquireCaspioRequestSlot('CarePatientTable_API');
+    await companyClient.run(() => acquireCaspioRequestSlot('CarePatientTable_API'));
+    await companyClient.run(() => recordCaspioRequestOutcome('CarePatientTable_API', 'retry'));
+
+    await expect(getCaspioRequestMetrics()).resolves.toEqual([
+      expect.objectContaining({
+        connection: 'default',
+        table: 'CarePatientTable_API',
+        requests: 1,
+        retries: 0,
+      }),
+      expect.objectContaining({
+        connection: 'company-11',
+        table: 'CarePatientTable_API',
+        requests: 1,
+        retries: 1,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import RedisMock from 'ioredis-mock';
+
+const redis = new RedisMock();
+
+jest.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/workers/connection.js', () => ({
+  getRedisConnection: () => redis,
+}));
+
+import {
+  clearSharedCaspioToken,
+  discardSharedCaspioToken,
+  getSharedCaspioToken,
+} from '../../../src/integrations/caspio/tokenStore.js';
+
+describe('shared Caspio token', () => {
+  beforeEach(async () => {
+    await redis.flushall();
+  });
+
+  it('mints one token for concurrent callers and reuses it', async () => {
+    let minted = 0;
+    const mint = jest.fn(async () => {
+      minted += 1;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return { token: `token-${minted}`, expiresAt: Date.now() + 3_600_000 };
+    });
+
+    const [first, second] = await Promise.all([
+      getSharedCaspioToken(mint, 60_000),
+      getSharedCaspioToken(mint, 60_000),
+    ]);
+    const third = await getSharedCaspioToken(mint, 60_000);
+
+    expect(mint).toHaveBeenCalledTimes(1);
+    expect([first.token, second.token, third.token]).toEqual(['token-1', 'token-1', 'token-1']);
+  });
+
+  it('only clears the token that was rejected', async () => {
+    const mint = jest
+      .fn()
+      .mockResolvedValueOnce({ token: 'token-1', expiresAt: Date.now() + 3_600_000 })
+      .mockResolvedValueOnce({ token: 'token-2', expiresAt: Date.now() + 3_600_000 });
+
+    await getSharedCaspioToken(mint, 60_000);
+    await clearSharedCaspioToken('token-1');
+    await expect(getSharedCaspioToken(mint, 60_000)).resolves.toEqual(
+      expect.objectContaining({ token: 'token-2' }),
+    );
+
+    await clearSharedCaspioToken('token-1');
+    await expect(getSharedCaspioToken(mint, 60_000)).resolves.toEqual(
+      expect.objectContaining({ token: 'token-2' }),
+    );
+    expect(mint).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps a separate token per connection', async () => {
+    await getSharedCaspioToken(
+      async () => ({ token: 'env', expiresAt: Date.now() + 3_600_000 }),
+      60_000,
+    );
+    await getSharedCaspioToken(
+      async () => ({ token: 'acme', expiresAt: Date.now() + 3_600_000 }),
+      60_000,
+      'company-11',
+    );
+
+    await expect(redis.hget('caspio:oauth:token', 'token')).resolves.toBe('env');
+    await expect(redis.hget('caspio:oauth:token:company-11', 'token')).resolves.toBe('acme');
+
+    await discardSharedCaspioToken('company-11');
+    await expect(redis.exists('caspio:oauth:token:company-11')).resolves.toBe(0);
+    await expect(redis.exists('caspio:oauth:token')).resolves.toBe(1);
+  });
+
+  it('refreshes a token that expires within the threshold', async () => {
+    await getSharedCaspioToken(
+      async () => ({ token: 'expiring', expiresAt: Date.now() + 30_000 }),
+      60_000,
+    );
+
+    await expect(
+      getSharedCaspioToken(
+        async () => ({ token: 'fresh', expiresAt: Date.now() + 3_600_000 }),
+        60_000,
+      ),
+    ).resolves.toEqual(expect.objectContaining({ token: 'fresh' }));
+  });
+});
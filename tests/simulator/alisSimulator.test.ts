@@ -0,0 +1,177 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+
+import express from 'express';
+import request from 'supertest';
+
+const acquireAlisRequestSlotMock = jest.fn();
+const loggerWarnMock = jest.fn();
+let mockSimulatorUrl: string | undefined;
+
+// The ALIS client reads its base URL from env; send it to the simulator instead.
+jest.mock('../../src/config/axios.js', () => {
+  const axios = jest.requireActual('axios');
+  return {
+    createHttpClient: (config: Record<string, unknown> = {}) =>
+      axios.create({ ...config, baseURL: mockSimulatorUrl }),
+  };
+});
+
+jest.mock('../../src/integrations/alis/requestBudget.js', () => ({
+  acquireAlisRequestSlot: acquireAlisRequestSlotMock,
+}));
+
+jest.mock('../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: loggerWarnMock,
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import { computeWebhookSignature } from '../../src/http/middleware/verifyWebhookSignature.js';
+import { createAlisClient, fetchAllResidentData } from '../../src/integrations/alisClient.js';
+import { createAlisFixtureStore } from '../../src/simulator/alisFixtures.js';
+import { createAlisSimulatorApp } from '../../src/simulator/alisSimulator.js';
+import { runAlisScenario, type AlisWebhookTarget } from '../../src/simulator/alisScenarios.js';
+
+const credentials = { username: 'sim-user', password: 'sim-pass' };
+
+function listen(app: express.Express): Promise<{ server: Server; url: string }> {
+  return new Promise((resolve) => {
+    const server = app.listen(0, () => {
+      resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` });
+    });
+  });
+}
+
+function close(server: Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+describe('ALIS simulator', () => {
+  const store = createAlisFixtureStore();
+  const received: Array<{ headers: Record<string, unknown>; body: Record<string, unknown> }> = [];
+  let simulator: Server;
+  let webhookReceiver: Server;
+  let webhookTarget: AlisWebhookTarget;
+
+  beforeAll(async () => {
+    const receiverApp = express();
+    receiverApp.use(express.json());
+    receiverApp.post('/webhook/alis', (req, res) => {
+      received.push({ headers: req.headers, body: req.body });
+      res.status(202).json({ status: 'queued' });
+    });
+    const receiver = await listen(receiverApp);
+    webhookReceiver = receiver.server;
+    webhookTarget = {
+      url: `${receiver.url}/webhook/alis`,
+      username: 'hook-user',
+      password: 'hook-pass',
+      signingSecret: 'sim-secret',
+    };
+
+    const started = await listen(createAlisSimulatorApp(store, { ...credentials, webhookTarget }));
+    simulator = started.server;
+    mockSimulatorUrl = started.url;
+  });
+
+  afterAll(async () => {
+    await close(simulator);
+    await close(webhookReceiver);
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+    acquireAlisRequestSlotMock.mockResolvedValue(0);
+  });
+
+  it('serves every endpoint the client reads without schema drift', async () => {
+    const data = await fetchAllResidentData(credentials, 70501);
+
+    expect(data.resident).toEqual(expect.objectContaining({ ResidentId: 70501, FirstName: 'Ada' }));
+    expect(data.basicInfo.ResidentId).toBe(70501);
+    expect(data.insurance).toHaveLength(1);
+    expect(data.roomAssignments).toHaveLength(1);
+    expect(data.diagnosesAndAllergiesFull?.MedicalAllergies).toBe('Penicillin');
+    expect(data.contacts).toHaveLength(1);
+    expect(data.community?.CommunityName).toBe('Simulator Gardens');
+    expect(data.errors).toBeUndefined();
+    expect(loggerWarnMock).not.toHaveBeenCalledWith(expect.anything(), 'alis_schema_drift');
+  });
+
+  it('pages resident listings and rejects unknown credentials', async () => {
+    const client = createAlisClient(credentials);
+    const ids: number[] = [];
+    for await (const resident of client.iterateResidents({ pageSize: 2 })) {
+      ids.push(resident.ResidentId);
+    }
+    expect(ids).toEqual([70501, 70502, 70503]);
+
+    await expect(
+      createAlisClient({ username: 'someone', password: 'else' }).getResident(70501),
+    ).rejects.toMatchObject({ status: 401 });
+  });
+
+  it('changes the fixtures and posts signed webhooks for a leave', async () => {
+    const result = await runAlisScenario('leave', store, webhookTarget);
+
+    expect(result.events.map((event) => [event.eventType, event.status])).toEqual([
+      ['residents.leave_start', 202],
+      ['residents.leave_end', 202],
+    ]);
+
+    const [start, end] = received;
+    expect(start.body).toEqual(
+      expect.objectContaining({
+        CompanyKey: 'simulator',
+        CommunityId: 113,
+        EventType: 'residents.leave_start',
+        NotificationData: expect.objectContaining({ ResidentId: result.residentId }),
+      }),
+    );
+    expect(Date.parse(String(start.body.EventMessageDate))).toBeLessThan(
+      Date.parse(String(end.body.EventMessageDate)),
+    );
+    expect(start.headers['x-alis-signature']).toBe(
+      `sha256=${computeWebhookSignature(
+        'sim-secret',
+        String(start.headers['x-alis-timestamp']),
+        JSON.stringify(start.body),
+      )}`,
+    );
+
+    const client = createAlisClient(credentials);
+    const leaveId = Number((start.body.NotificationData as Record<string, unknown>).LeaveId);
+    await expect(client.getLeave(leaveId)).resolves.toEqual(
+      expect.objectContaining({ ResidentId: result.residentId, Status: 'Completed' }),
+    );
+    await expect(client.getResident(result.residentId)).resolves.toEqual(
+      expect.objectContaining({ IsOnLeave: false }),
+    );
+  });
+
+  it('runs a move-in through the control endpoint', async () => {
+    const response = await request(simulator)
+      .post('/simulator/scenarios/move-in')
+      .auth(credentials.username, credentials.password)
+      .send({});
+
+    expect(response.status).toBe(200);
+    expect(received.map(({ body }) => body.EventType)).toEqual([
+      'residents.created',
+      'residents.move_in',
+      'resident.room_assigned',
+    ]);
+    expect(store.residents.get(response.body.residentId)?.resident).toEqual(
+      expect.objectContaining({ Status: 'CurrentResident', Rooms: [expect.anything()] }),
+    );
+
+    const unknown = await request(simulator)
+      .post('/simulator/scenarios/eviction')
+      .auth(credentials.username, credentials.password);
+    expect(unknown.status).toBe(404);
+  });
+});
@@ -0,0 +1,208 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+
+import type express from 'express';
+import RedisMock from 'ioredis-mock';
+import request from 'supertest';
+
+const redis = new RedisMock();
+let mockSimulatorUrl: string | undefined;
+
+// The Caspio clients are built at import time with absolute Caspio URLs; send them to the
+// simulator instead.
+jest.mock('../../src/config/axios.js', () => {
+  const axios = jest.requireActual('axios');
+  return {
+    createHttpClient: (config: Record<string, unknown> = {}) => {
+      const instance = axios.create(config);
+      instance.interceptors.request.use((req: { baseURL?: string; url?: string }) => {
+        const url = new URL(req.url ?? '/', 'http://caspio.invalid');
+        return { ...req, baseURL: mockSimulatorUrl, url: `${url.pathname}${url.search}` };
+      });
+      return instance;
+    },
+  };
+});
+
+jest.mock('../../src/workers/connection.js', () => ({
+  getRedisConnection: () => redis,
+}));
+
+jest.mock('../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import { env } from '../../src/config/env.js';
+import {
+  findCommunityById,
+  findRecordByFields,
+  findRecordsByFieldValues,
+  upsertByFields,
+} from '../../src/integrations/caspio/caspioClient.js';
+import {
+  createCaspioSimulator,
+  type CaspioSimulator,
+} from '../../src/simulator/caspioSimulator.js';
+import {
+  createCaspioTableStore,
+  getCaspioTable,
+  insertCaspioRow,
+} from '../../src/simulator/caspioTables.js';
+
+function listen(app: express.Express): Promise<{ server: Server; url: string }> {
+  return new Promise((resolve) => {
+    const server = app.listen(0, () => {
+      resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` });
+    });
+  });
+}
+
+function close(server: Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+describe('Caspio simulator', () => {
+  let simulator: CaspioSimulator;
+  let server: Server;
+
+  beforeAll(async () => {
+    simulator = createCaspioSimulator(createCaspioTableStore(), {
+      clientId: env.CASPIO_CLIENT_ID,
+      clientSecret: env.CASPIO_CLIENT_SECRET,
+    });
+    const started = await listen(simulator.app);
+    server = started.server;
+    mockSimulatorUrl = started.url;
+  });
+
+  afterAll(async () => {
+    await close(server);
+  });
+
+  beforeEach(async () => {
+    await redis.flushall();
+    simulator.failures.length = 0;
+    simulator.requests.length = 0;
+  });
+
+  it('pages through community rows with q.where', async () => {
+    const communityTable = getCaspioTable(simulator.store, env.CASPIO_COMMUNITY_TABLE_NAME);
+    for (let room = 1; room <= 250; room += 1) {
+      insertCaspioRow(communityTable, { CUID: `SIM-900-${room}`, CommunityID: '900' });
+    }
+
+    const result = await findCommunityById(900);
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        found: true,
+        record: expect.objectContaining({ CommunityID: '900' }),
+      }),
+    );
+    expect(
+      simulator.requests
+        .filter((entry) => entry.query['q.where'] === 'CommunityID=900')
+        .map((entry) => entry.query['q.pageNumber']),
+    ).toEqual(['1', '2']);
+  });
+
+  it('inserts and then updates a care patient row', async () => {
+    const filters = [{ field: 'PatientNumber', value: 'SIM-70501' }];
+
+    await expect(
+      upsertByFields(env.CASPIO_TABLE_NAME, filters, {
+        PatientNumber: 'SIM-70501',
+        LastName: 'Rivera',
+        On_Prem: true,
+      }),
+    ).resolves.toEqual(expect.objectContaining({ action: 'insert' }));
+    await expect(
+      upsertByFields(env.CASPIO_TABLE_NAME, filters, {
+        PatientNumber: 'SIM-70501',
+        LastName: 'Rivera-Lopez',
+      }),
+    ).resolves.toEqual({ action: 'update', id: '1' });
+
+    expect(getCaspioTable(simulator.store, env.CASPIO_TABLE_NAME).rows).toEqual([
+      expect.objectContaining({ PK_ID: 1, LastName: 'Rivera-Lopez', On_Prem: true }),
+    ]);
+  });
+
+  it('looks up many patients with one IN query', async () => {
+    const patientTable = getCaspioTable(simulator.store, env.CASPIO_TABLE_NAME);
+    insertCaspioRow(patientTable, { PatientNumber: 'SIM-70601', LastName: 'Ng' });
+    insertCaspioRow(patientTable, { PatientNumber: 'SIM-70602', LastName: "O'Hara" });
+
+    const { matches } = await findRecordsByFieldValues(env.CASPIO_TABLE_NAME, 'PatientNumber', [
+      'SIM-70601',
+      'SIM-70602',
+      'SIM-70699',
+    ]);
+
+    expect([...matches.keys()].sort()).toEqual(['SIM-70601', 'SIM-70602']);
+    expect(matches.get('SIM-70602')?.record).toEqual(
+      expect.objectContaining({ LastName: "O'Hara" }),
+    );
+    expect(simulator.requests.map((entry) => entry.query['q.where'])).toEqual([
+      "PatientNumber IN ('SIM-70601','SIM-70602','SIM-70699')",
+    ]);
+  });
+
+  it('gets a new token after an injected 401 and retries an injected 429', async () => {
+    const lookup = () =>
+      findRecordByFields(env.CASPIO_SERVICE_TABLE_NAME, [{ field: 'CUID', value: 'none' }]);
+
+    simulator.failures.push({ kind: 'unauthorized', method: 'GET' });
+    await expect(lookup()).resolves.toEqual({ found: false });
+    simulator.failures.push({ kind: 'rate_limited', method: 'GET' });
+    await expect(lookup()).resolves.toEqual({ found: false });
+
+    expect(simulator.requests.map((entry) => entry.status)).toEqual([401, 200, 429, 200]);
+    expect(simulator.failures).toEqual([]);
+  });
+
+  it('retries an insert without the fields Caspio reports missing', async () => {
+    simulator.failures.push({ kind: 'field_not_found', method: 'POST', fields: ['Diagnosis2'] });
+
+    await upsertByFields(env.CASPIO_TABLE_NAME, [{ field: 'PatientNumber', value: 'SIM-70502' }], {
+      PatientNumber: 'SIM-70502',
+      Diagnosis2: 'Hypertension',
+    });
+
+    const row = getCaspioTable(simulator.store, env.CASPIO_TABLE_NAME).rows.find(
+      (candidate) => candidate.PatientNumber === 'SIM-70502',
+    );
+    expect(row).toEqual(expect.objectContaining({ Diagnosis2: null }));
+  });
+
+  it('rejects unknown columns and queues failures over HTTP', async () => {
+    const token = await request(simulator.app).post('/oauth/token').type('form').send({
+      grant_type: 'client_credentials',
+      client_id: env.CASPIO_CLIENT_ID,
+      client_secret: env.CASPIO_CLIENT_SECRET,
+    });
+    const auth = `Bearer ${token.body.access_token}`;
+
+    const rejected = await request(simulator.app)
+      .post(`/integrations/rest/v3/tables/${env.CASPIO_SERVICE_TABLE_NAME}/records`)
+      .set('Authorization', auth)
+      .send({ CUID: 'SIM-113-101', NotAColumn: 'x' });
+    expect(rejected.status).toBe(400);
+    expect(rejected.body.Code).toBe('FieldNotFound');
+
+    await request(simulator.app)
+      .post('/simulator/failures')
+      .send({ kind: 'server_error', status: 503, times: 2 })
+      .expect(201);
+    const failed = await request(simulator.app)
+      .get(`/integrations/rest/v3/tables/${env.CASPIO_SERVICE_TABLE_NAME}/fields`)
+      .set('Authorization', auth);
+    expect(failed.status).toBe(503);
+    expect(simulator.failures).toEqual([expect.objectContaining({ times: 1 })]);
+  });
+});
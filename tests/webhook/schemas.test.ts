@@ -1,4 +1,7 @@
-import { isSupportedEventType } from '../../src/webhook/schemas.js';
+import {
+  isSupportedEventType,
+  parseAlisNotificationEvent,
+} from '../../src/webhook/schemas.js';
 
 describe('webhook schema supported event types', () => {
   it('supports additional resident lifecycle event types observed from ALIS', () => {
@@ -8,3 +11,77 @@ describe('webhook schema supported event types', () => {
     expect(isSupportedEventType('resident.room_changed')).toBe(true);
   });
 });
+
+describe('typed NotificationData schemas', () => {
+  const envelope = {
+    CompanyKey: 'appstoresandbox',
+    CommunityId: 113,
+    EventMessageId: 'evt-1',
+    EventMessageDate: '2026-01-19T19:23:35.2101857',
+  };
+
+  it('coerces string ids and camelCase keys for resident events', () => {
+    const result = parseAlisNotificationEvent({
+      ...envelope,
+      EventType: 'residents.move_in',
+      NotificationData: { residentId: '70508', RoomNumber: 101 },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.NotificationData.ResidentId).toBe(70508);
+      expect(result.data.NotificationData.RoomNumber).toBe('101');
+    }
+  });
+
+  it('types room-list entries with camelCase keys', () => {
+    const result = parseAlisNotificationEvent({
+      ...envelope,
+      EventType: 'resident.room_assigned',
+      NotificationData: { ResidentId: 70508, roomsAssigned: [{ roomNumber: 204 }] },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.NotificationData.RoomsAssigned).toEqual([
+        expect.objectContaining({ RoomNumber: '204' }),
+      ]);
+    }
+  });
+
+  it('requires ResidentId for every resident event', () => {
+    const result = parseAlisNotificationEvent({
+      ...envelope,
+      EventType: 'resident.room_changed',
+      NotificationData: { AssignedRoom: '12' },
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('requires LeaveId and a valid StartDateTime for leave_start', () => {
+    const missingLeave = parseAlisNotificationEvent({
+      ...envelope,
+      EventType: 'residents.leave_start',
+      NotificationData: { ResidentId: 70508, StartDateTime: '2026-01-19T13:00:00' },
+    });
+    const badDate = parseAlisNotificationEvent({
+      ...envelope,
+      EventType: 'residents.leave_start',
+      NotificationData: { ResidentId: 70508, LeaveId: 285, StartDateTime: 'not-a-date' },
+    });
+
+    expect(missingLeave.success).toBe(false);
+    expect(badDate.success).toBe(false);
+  });
+
+  it('allows leave_end without LeaveId', () => {
+    const result = parseAlisNotificationEvent({
+      ...envelope,
+      EventType: 'residents.leave_end',
+      NotificationData: { ResidentId: 70508, EndDateTime: '2026-01-19T16:00:00' },
+    });
+
+    expect(result.success).toBe(true);
+  });
+});
@@ -0,0 +1,237 @@
+import type { Job } from 'bullmq';
+
+const issueFindManyMock = jest.fn();
+const deadLetterUpsertMock = jest.fn();
+const deadLetterFindUniqueMock = jest.fn();
+const deadLetterFindManyMock = jest.fn();
+const deadLetterCountMock = jest.fn();
+const deadLetterUpdateMock = jest.fn();
+const queueGetJobMock = jest.fn();
+const enqueueProcessAlisEventMock = jest.fn();
+const markEventQueuedMock = jest.fn();
+
+jest.mock('../../src/db/prisma.js', () => ({
+  prisma: {
+    eventProcessingIssue: { findMany: issueFindManyMock },
+    deadLetterJob: {
+      upsert: deadLetterUpsertMock,
+      findUnique: deadLetterFindUniqueMock,
+      findMany: deadLetterFindManyMock,
+      count: deadLetterCountMock,
+      update: deadLetterUpdateMock,
+    },
+  },
+}));
+
+jest.mock('../../src/workers/queue.js', () => ({
+  PROCESS_ALIS_EVENT_QUEUE: 'process-alis-event',
+  processAlisEventQueue: {
+    getJob: queueGetJobMock,
+  },
+}));
+
+jest.mock('../../src/workers/enqueueEvent.js', () => ({
+  enqueueProcessAlisEvent: enqueueProcessAlisEventMock,
+}));
+
+jest.mock('../../src/domains/events.js', () => ({
+  markEventQueued: markEventQueuedMock,
+}));
+
+jest.mock('../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import {
+  DeadLetterError,
+  deadLetterJob,
+  discardDeadLetter,
+  redriveDeadLetter,
+  redriveDeadLetters,
+} from '../../src/workers/deadLetter.js';
+import type { ProcessAlisEventJobData } from '../../src/workers/types.js';
+
+const jobData: ProcessAlisEventJobData = {
+  eventMessageId: 'evt-1',
+  eventType: 'residents.move_in',
+  companyKey: 'appstoresandbox',
+  companyId: 10,
+  communityId: 113,
+  residentId: 70508,
+  notificationData: { ResidentId: 70508 },
+  eventMessageDate: '2026-01-19T10:00:00Z',
+  deferCount: 2,
+};
+
+function deadLetterRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 7,
+    companyId: 10,
+    queueName: 'process-alis-event',
+    jobId: 'event-residents.move_in-evt-1',
+    eventType: 'residents.move_in',
+    eventMessageId: 'evt-1',
+    jobData,
+    lastError: 'Caspio unavailable',
+    attemptsMade: 5,
+    issueHistory: [],
+    status: 'dead',
+    redriveCount: 0,
+    deadLetteredAt: new Date(),
+    resolvedAt: null,
+    ...overrides,
+  };
+}
+
+describe('deadLetter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queueGetJobMock.mockResolvedValue(null);
+  });
+
+  it('captures job data, last error and issue history for an exhausted job', async () => {
+    issueFindManyMock.mockResolvedValueOnce([
+      {
+        id: 1,
+        stage: 'caspio_processing',
+        severity: 'error',
+        message: 'Caspio unavailable',
+        retryable: true,
+        createdAt: new Date('2026-01-19T10:01:00Z'),
+      },
+    ]);
+    const job = {
+      id: 'event-residents.move_in-evt-1',
+      data: jobData,
+      attemptsMade: 4,
+    } as unknown as Job<ProcessAlisEventJobData>;
+
+    await deadLetterJob(job, new Error('Caspio unavailable'));
+
+    expect(deadLetterUpsertMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          queueName_jobId: {
+            queueName: 'process-alis-event',
+            jobId: 'event-residents.move_in-evt-1',
+          },
+        },
+        create: expect.objectContaining({
+          jobData,
+          lastError: 'Caspio unavailable',
+          attemptsMade: 5,
+          status: 'dead',
+          issueHistory: [
+            expect.objectContaining({
+              stage: 'caspio_processing',
+              createdAt: '2026-01-19T10:01:00.000Z',
+            }),
+          ],
+        }),
+      }),
+    );
+  });
+
+  it('does not throw when the dead-letter write fails', async () => {
+    issueFindManyMock.mockRejectedValueOnce(new Error('db down'));
+    const job = {
+      id: 'job-1',
+      data: jobData,
+      attemptsMade: 4,
+    } as unknown as Job<ProcessAlisEventJobData>;
+
+    await expect(deadLetterJob(job, new Error('boom'))).resolves.toBeUndefined();
+  });
+
+  it('re-drives under the original jobId with the deferral count reset', async () => {
+    const failedJob = { remove: jest.fn() };
+    deadLetterFindUniqueMock.mockResolvedValueOnce(deadLetterRow());
+    queueGetJobMock.mockResolvedValueOnce(failedJob);
+
+    await expect(redriveDeadLetter(7)).resolves.toEqual({
+      id: 7,
+      jobId: 'event-residents.move_in-evt-1',
+    });
+
+    expect(failedJob.remove).toHaveBeenCalled();
+    expect(enqueueProcessAlisEventMock).toHaveBeenCalledWith(
+      { ...jobData, deferCount: 0 },
+      'event-residents.move_in-evt-1',
+    );
+    expect(markEventQueuedMock).toHaveBeenCalledWith({
+      companyId: 10,
+      eventType: 'residents.move_in',
+      eventMessageId: 'evt-1',
+    });
+    expect(deadLetterUpdateMock).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: expect.objectContaining({ status: 'redriven', redriveCount: { increment: 1 } }),
+    });
+  });
+
+  it('rejects actions on jobs that were already re-driven or discarded', async () => {
+    deadLetterFindUniqueMock.mockResolvedValueOnce(deadLetterRow({ status: 'discarded' }));
+
+    const result = discardDeadLetter(7);
+    await expect(result).rejects.toBeInstanceOf(DeadLetterError);
+    await expect(result).rejects.toMatchObject({ status: 409 });
+    expect(deadLetterUpdateMock).not.toHaveBeenCalled();
+  });
+
+  it('bulk re-drive filters by company and event type and reports per-job results', async () => {
+    deadLetterCountMock.mockResolvedValueOnce(2);
+    deadLetterFindManyMock.mockResolvedValueOnce([deadLetterRow(), deadLetterRow({ id: 8 })]);
+    deadLetterFindUniqueMock.mockResolvedValueOnce(deadLetterRow()).mockResolvedValueOnce(null);
+
+    const results = await redriveDeadLetters({
+      companyKey: 'appstoresandbox',
+      eventType: 'residents.move_in',
+    });
+
+    expect(deadLetterFindManyMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          queueName: 'process-alis-event',
+          status: 'dead',
+          company: { companyKey: 'appstoresandbox' },
+          eventType: 'residents.move_in',
+        },
+      }),
+    );
+    expect(results).toEqual([
+      { id: 7, success: true, jobId: 'event-residents.move_in-evt-1' },
+      { id: 8, success: false, error: 'Dead-lettered job 8 not found.' },
+    ]);
+  });
+
+  it('bulk re-drive pages through every matching job as earlier pages leave the dead set', async () => {
+    const rows = new Map(
+      Array.from({ length: 250 }, (_, index) => [index + 1, deadLetterRow({ id: index + 1 })]),
+    );
+    // Honours Prisma's cursor and skip too, so paging that relies on them is caught.
+    deadLetterFindManyMock.mockImplementation(async ({ where, take, cursor, skip }) => {
+      const after = where.AND?.[1].id.gt ?? 0;
+      return [...rows.values()]
+        .filter((row) => row.status === 'dead' && row.id > after && row.id >= (cursor?.id ?? 0))
+        .slice(skip ?? 0, (skip ?? 0) + take)
+        .map((row) => ({ id: row.id }));
+    });
+    deadLetterFindUniqueMock.mockImplementation(async ({ where }) => rows.get(where.id));
+    deadLetterUpdateMock.mockImplementation(async ({ where, data }) => {
+      rows.set(where.id, { ...rows.get(where.id)!, status: data.status });
+    });
+
+    const results = await redriveDeadLetters({ eventType: 'residents.move_in', limit: 10 });
+
+    expect(results.map((result) => result.id)).toEqual([...rows.keys()]);
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(deadLetterFindManyMock).toHaveBeenCalledTimes(3);
+    expect(enqueueProcessAlisEventMock).toHaveBeenCalledTimes(250);
+    expect([...rows.values()].every((row) => row.status === 'redriven')).toBe(true);
+  });
+});
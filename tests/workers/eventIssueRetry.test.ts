@@ -0,0 +1,161 @@
+const issueFindUniqueMock = jest.fn();
+const issueFindManyMock = jest.fn();
+const issueUpdateManyMock = jest.fn();
+const queueGetJobMock = jest.fn();
+const queueAddMock = jest.fn();
+const registerResidentEventMock = jest.fn();
+const markEventQueuedMock = jest.fn();
+
+jest.mock('../../src/db/prisma.js', () => ({
+  prisma: {
+    eventProcessingIssue: {
+      findUnique: issueFindUniqueMock,
+      findMany: issueFindManyMock,
+      updateMany: issueUpdateManyMock,
+    },
+  },
+}));
+
+jest.mock('../../src/workers/queue.js', () => ({
+  processAlisEventQueue: {
+    getJob: queueGetJobMock,
+    add: queueAddMock,
+  },
+}));
+
+jest.mock('../../src/workers/residentSequencer.js', () => ({
+  registerResidentEvent: registerResidentEventMock,
+  unregisterResidentEvent: jest.fn(),
+}));
+
+jest.mock('../../src/domains/events.js', () => ({
+  markEventQueued: markEventQueuedMock,
+}));
+
+jest.mock('../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import {
+  EventIssueRetryError,
+  retryEventIssue,
+  retryEventIssues,
+} from '../../src/workers/eventIssueRetry.js';
+
+function eventLog(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 31,
+    companyId: 10,
+    communityId: 113,
+    eventType: 'residents.move_in',
+    eventMessageId: 'evt-1',
+    payload: {
+      CompanyKey: 'appstoresandbox',
+      CommunityId: 113,
+      EventType: 'residents.move_in',
+      EventMessageId: 'evt-1',
+      EventMessageDate: '2026-01-19T10:00:00Z',
+      NotificationData: { ResidentId: 70508 },
+    },
+    receivedAt: new Date(),
+    processedAt: null,
+    status: 'failed',
+    error: 'Caspio unavailable',
+    ...overrides,
+  };
+}
+
+function issue(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 5,
+    eventLogId: 31,
+    companyId: 10,
+    eventType: 'residents.move_in',
+    eventMessageId: 'evt-1',
+    stage: 'caspio_processing',
+    retryable: true,
+    resolvedAt: null,
+    retryRequestedAt: null,
+    retryJobId: null,
+    eventLog: eventLog(),
+    ...overrides,
+  };
+}
+
+describe('eventIssueRetry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queueGetJobMock.mockResolvedValue(null);
+  });
+
+  it('re-enqueues the event from its EventLog payload under a new job id', async () => {
+    issueFindUniqueMock.mockResolvedValueOnce(issue());
+
+    const result = await retryEventIssue(5);
+
+    expect(result.jobId).toMatch(/^event-residents\.move_in-evt-1-retry-\d+$/);
+    expect(queueAddMock).toHaveBeenCalledWith(
+      'process-alis-event',
+      expect.objectContaining({
+        eventMessageId: 'evt-1',
+        companyKey: 'appstoresandbox',
+        companyId: 10,
+        residentId: 70508,
+        eventMessageDate: '2026-01-19T10:00:00Z',
+      }),
+      expect.objectContaining({ jobId: result.jobId }),
+    );
+    expect(registerResidentEventMock).toHaveBeenCalledWith(expect.anything(), result.jobId);
+    expect(markEventQueuedMock).toHaveBeenCalledWith({
+      companyId: 10,
+      eventType: 'residents.move_in',
+      eventMessageId: 'evt-1',
+    });
+    expect(issueUpdateManyMock).toHaveBeenCalledWith({
+      where: { id: { in: [5] } },
+      data: expect.objectContaining({ retryJobId: result.jobId }),
+    });
+  });
+
+  it('rejects issues that are not retryable', async () => {
+    issueFindUniqueMock.mockResolvedValueOnce(issue({ retryable: false }));
+
+    const result = retryEventIssue(5);
+    await expect(result).rejects.toBeInstanceOf(EventIssueRetryError);
+    await expect(result).rejects.toMatchObject({ status: 409 });
+    expect(queueAddMock).not.toHaveBeenCalled();
+  });
+
+  it('does not enqueue a second job while the original one is still retrying', async () => {
+    issueFindUniqueMock.mockResolvedValueOnce(issue());
+    queueGetJobMock.mockResolvedValueOnce({ getState: jest.fn().mockResolvedValue('delayed') });
+
+    await expect(retryEventIssue(5)).rejects.toMatchObject({ status: 409 });
+    expect(queueAddMock).not.toHaveBeenCalled();
+  });
+
+  it('bulk retry enqueues one job per event', async () => {
+    issueFindManyMock.mockResolvedValueOnce([
+      issue({ id: 5 }),
+      issue({ id: 6, stage: 'alis_full_data_fetch' }),
+      issue({
+        id: 7,
+        eventLogId: 32,
+        eventLog: eventLog({ id: 32, payload: { EventType: 'residents.move_in' } }),
+      }),
+    ]);
+
+    const results = await retryEventIssues({ companyKey: 'appstoresandbox' });
+
+    expect(queueAddMock).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([
+      expect.objectContaining({ eventLogId: 31, issueIds: [5, 6], success: true }),
+      expect.objectContaining({ eventLogId: 32, issueIds: [7], success: false }),
+    ]);
+  });
+});
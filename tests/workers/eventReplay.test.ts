@@ -0,0 +1,159 @@
+const eventLogFindManyMock = jest.fn();
+const eventLogCountMock = jest.fn();
+const queueAddMock = jest.fn();
+const registerResidentEventMock = jest.fn();
+const markEventQueuedMock = jest.fn();
+let mockWorkerProcessor: ((job: unknown) => Promise<unknown>) | undefined;
+
+jest.mock('bullmq', () => ({
+  Worker: jest.fn().mockImplementation((_queueName, processor) => {
+    mockWorkerProcessor = processor;
+    return { on: jest.fn() };
+  }),
+}));
+
+jest.mock('../../src/db/prisma.js', () => ({
+  prisma: {
+    eventLog: { findMany: eventLogFindManyMock, count: eventLogCountMock },
+  },
+}));
+
+jest.mock('../../src/workers/connection.js', () => ({
+  getRedisConnection: jest.fn(),
+}));
+
+jest.mock('../../src/workers/queue.js', () => ({
+  EVENT_REPLAY_QUEUE: 'event-replay',
+  processAlisEventQueue: { add: queueAddMock },
+}));
+
+jest.mock('../../src/workers/residentSequencer.js', () => ({
+  eventSequenceScore: (value: string) => Date.parse(value),
+  registerResidentEvent: registerResidentEventMock,
+  unregisterResidentEvent: jest.fn(),
+}));
+
+jest.mock('../../src/domains/events.js', () => ({
+  markEventQueued: markEventQueuedMock,
+}));
+
+jest.mock('../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import { buildEventReplayWhere, startEventReplayWorker } from '../../src/workers/eventReplay.js';
+
+function eventLog(
+  id: number,
+  eventMessageId: string,
+  eventMessageDate: string,
+  eventType = 'residents.move_in',
+) {
+  return {
+    id,
+    companyId: 10,
+    communityId: 113,
+    eventType,
+    eventMessageId,
+    payload: {
+      CompanyKey: 'appstoresandbox',
+      CommunityId: 113,
+      EventType: eventType,
+      EventMessageId: eventMessageId,
+      EventMessageDate: eventMessageDate,
+      NotificationData: { ResidentId: 70508 },
+    },
+    receivedAt: new Date('2026-01-20T00:00:00Z'),
+    processedAt: null,
+    status: 'processed',
+    error: null,
+  };
+}
+
+describe('eventReplay', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockWorkerProcessor = undefined;
+  });
+
+  it('builds an EventLog filter over company, type, status, community and receive time', () => {
+    expect(
+      buildEventReplayWhere({
+        companyKey: 'appstoresandbox',
+        eventType: 'residents.move_in',
+        statuses: ['processed', 'failed'],
+        communityId: 113,
+        receivedFrom: '2026-01-13T00:00:00.000Z',
+        receivedTo: '2026-01-14T00:00:00.000Z',
+      }),
+    ).toEqual({
+      company: { companyKey: 'appstoresandbox' },
+      eventType: 'residents.move_in',
+      status: { in: ['processed', 'failed'] },
+      communityId: 113,
+      receivedAt: {
+        gte: new Date('2026-01-13T00:00:00.000Z'),
+        lte: new Date('2026-01-14T00:00:00.000Z'),
+      },
+    });
+  });
+
+  it('enqueues matching events in EventMessageDate order and tracks progress', async () => {
+    eventLogCountMock.mockResolvedValueOnce(3);
+    eventLogFindManyMock.mockResolvedValueOnce([
+      eventLog(1, 'evt-late', '2026-01-13T12:00:00Z'),
+      eventLog(2, 'evt-early', '2026-01-13T09:00:00Z'),
+      eventLog(3, 'evt-test', '2026-01-13T10:00:00Z', 'test.event'),
+    ]);
+    const updateProgress = jest.fn();
+
+    startEventReplayWorker();
+    const summary = await mockWorkerProcessor?.({
+      id: 'replay-1',
+      data: { filter: { companyKey: 'appstoresandbox' }, ratePerSecond: 0 },
+      updateProgress,
+    });
+
+    expect(queueAddMock.mock.calls.map(([, , options]) => options.jobId)).toEqual([
+      'event-residents.move_in-evt-early-replay-replay-1',
+      'event-residents.move_in-evt-late-replay-replay-1',
+    ]);
+    expect(markEventQueuedMock).toHaveBeenCalledTimes(2);
+    expect(summary).toEqual(
+      expect.objectContaining({ total: 3, enqueued: 2, skipped: 1, failed: 0 }),
+    );
+    expect(updateProgress).toHaveBeenLastCalledWith(summary);
+  });
+
+  it('replays each page of events before loading the next', async () => {
+    const firstPage = Array.from({ length: 500 }, (_, index) =>
+      eventLog(index + 1, `evt-${index + 1}`, '2026-01-13T09:00:00Z'),
+    );
+    const enqueuedBeforePage: number[] = [];
+    eventLogCountMock.mockResolvedValueOnce(501);
+    eventLogFindManyMock.mockImplementation(async ({ where }) => {
+      enqueuedBeforePage.push(queueAddMock.mock.calls.length);
+      const lastId = where.AND[1].id.gt;
+      return lastId === 0
+        ? firstPage
+        : lastId === 500
+          ? [eventLog(501, 'evt-501', '2026-01-13T08:00:00Z')]
+          : [];
+    });
+
+    startEventReplayWorker();
+    const summary = await mockWorkerProcessor?.({
+      id: 'replay-2',
+      data: { filter: { companyKey: 'appstoresandbox' }, ratePerSecond: 0 },
+      updateProgress: jest.fn(),
+    });
+
+    expect(enqueuedBeforePage).toEqual([0, 500]);
+    expect(summary).toEqual(expect.objectContaining({ total: 501, enqueued: 501 }));
+  });
+});
@@ -9,15 +9,29 @@ const normalizeResidentMock = jest.fn();
 const recordEventIssueMock = jest.fn();
 const markEventProcessedMock = jest.fn();
 const markEventFailedMock = jest.fn();
+const markEventIgnoredMock = jest.fn();
+const evaluateEventOrderingMock = jest.fn();
+const recordAppliedEventMock = jest.fn();
 const upsertResidentMock = jest.fn();
+const deadLetterJobMock = jest.fn();
 const mockWorkerOn = jest.fn();
-let mockWorkerProcessor: ((job: { data: Record<string, unknown> }) => Promise<void>) | undefined;
+let mockWorkerProcessor:
+  | ((job: {
+      id?: string;
+      data: Record<string, unknown>;
+      attemptsMade?: number;
+      opts?: { attempts?: number };
+      updateData?: (data: Record<string, unknown>) => Promise<void>;
+      moveToDelayed?: (timestamp: number, token?: string) => Promise<void>;
+    }) => Promise<void>)
+  | undefined;
 
 jest.mock('bullmq', () => ({
   Worker: jest.fn().mockImplementation((_queueName, processor) => {
     mockWorkerProcessor = processor;
     return { on: mockWorkerOn };
   }),
+  DelayedError: class DelayedError extends Error {},
 }));
 
 jest.mock('../../src/config/env.js', () => ({
@@ -29,6 +43,16 @@ jest.mock('../../src/config/env.js', () => ({
   },
 }));
 
+// Companies without a stored connection run inside the env client.
+jest.mock('../../src/integrations/caspio/companyCaspioClient.js', () => ({
+  runWithCompanyCaspioClient: jest.fn((_companyId: number, operation: () => Promise<unknown>) =>
+    jest
+      .requireActual('../../src/integrations/caspio/caspioConnection.js')
+      .defaultCaspioClient()
+      .run(operation),
+  ),
+}));
+
 jest.mock('../../src/config/logger.js', () => ({
   logger: {
     info: jest.fn(),
@@ -51,10 +75,15 @@ jest.mock('../../src/integrations/caspio/caspioCommunityEnrichment.js', () => ({
   getCommunityEnrichment: getCommunityEnrichmentMock,
 }));
 
+jest.mock('../../src/integrations/caspio/caspioTableSchema.js', () => ({
+  getAllCaspioSchemaValidations: jest.fn().mockResolvedValue([]),
+}));
+
 jest.mock('../../src/integrations/alisClient.js', () => ({
   resolveAlisCredentials: resolveAlisCredentialsMock,
   createAlisClient: createAlisClientMock,
   fetchAllResidentData: fetchAllResidentDataMock,
+  createAlisRequestStats: () => ({ requests: 0, retries: 0, budgetWaitMs: 0 }),
 }));
 
 jest.mock('../../src/integrations/mappers.js', () => ({
@@ -66,9 +95,23 @@ jest.mock('../../src/domains/eventIssues.js', () => ({
   recordEventIssue: recordEventIssueMock,
 }));
 
+jest.mock('../../src/domains/caspioColumnMappings.js', () => ({
+  loadCaspioColumnMapping: jest.fn().mockResolvedValue(null),
+}));
+
 jest.mock('../../src/domains/events.js', () => ({
   markEventProcessed: markEventProcessedMock,
   markEventFailed: markEventFailedMock,
+  markEventIgnored: markEventIgnoredMock,
+}));
+
+jest.mock('../../src/domains/eventOrdering.js', () => ({
+  evaluateEventOrdering: evaluateEventOrderingMock,
+  recordAppliedEvent: recordAppliedEventMock,
+}));
+
+jest.mock('../../src/workers/deadLetter.js', () => ({
+  deadLetterJob: deadLetterJobMock,
 }));
 
 jest.mock('../../src/domains/residents.js', () => ({
@@ -81,9 +124,22 @@ jest.mock('../../src/workers/connection.js', () => ({
 
 jest.mock('../../src/workers/queue.js', () => ({
   PROCESS_ALIS_EVENT_QUEUE: 'process-alis-event',
+  processAlisEventQueue: { getJob: jest.fn() },
+}));
+
+jest.mock('../../src/workers/residentSequencer.js', () => ({
+  acquireResidentTurn: jest.fn().mockResolvedValue({ acquired: true }),
+  completeResidentTurn: jest.fn().mockResolvedValue(undefined),
+  releaseResidentTurn: jest.fn().mockResolvedValue(undefined),
+  unregisterResidentEvent: jest.fn().mockResolvedValue(undefined),
 }));
 
 import { startProcessAlisEventWorker } from '../../src/workers/processAlisEvent.js';
+import {
+  completeResidentTurn,
+  releaseResidentTurn,
+  unregisterResidentEvent,
+} from '../../src/workers/residentSequencer.js';
 
 describe('processAlisEvent worker', () => {
   beforeEach(() => {
@@ -110,6 +166,90 @@ describe('processAlisEvent worker', () => {
     markEventProcessedMock.mockResolvedValue(undefined);
     markEventFailedMock.mockResolvedValue(undefined);
     recordEventIssueMock.mockResolvedValue(undefined);
+    evaluateEventOrderingMock.mockResolvedValue({
+      decision: 'apply',
+      reason: 'in_order',
+      family: 'profile',
+      policy: 'reconcile',
+      watermark: null,
+    });
+    recordAppliedEventMock.mockResolvedValue(undefined);
+  });
+
+  const staleWatermark = {
+    lastEventMessageDate: new Date('2026-04-28T13:00:00Z'),
+    lastEventMessageId: 'evt-newer',
+    lastEventType: 'residents.basic_info_updated',
+    lastLeaveId: null,
+  };
+
+  it('skips stale events when the policy is skip and records the decision', async () => {
+    evaluateEventOrderingMock.mockResolvedValueOnce({
+      decision: 'skip',
+      reason: 'stale',
+      family: 'lifecycle',
+      policy: 'skip',
+      watermark: staleWatermark,
+    });
+
+    startProcessAlisEventWorker();
+    await mockWorkerProcessor?.({
+      data: {
+        eventMessageId: 'evt-old-move-in',
+        eventType: 'residents.move_in',
+        companyKey: 'appstoresandbox',
+        companyId: 10,
+        communityId: 113,
+        notificationData: { ResidentId: 70508 },
+        eventMessageDate: '2026-04-28T12:00:00Z',
+      },
+    });
+
+    expect(handleAlisEventMock).not.toHaveBeenCalled();
+    expect(recordAppliedEventMock).not.toHaveBeenCalled();
+    expect(markEventIgnoredMock).toHaveBeenCalled();
+    expect(recordEventIssueMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        stage: 'event_ordering',
+        severity: 'warning',
+        details: expect.objectContaining({ decision: 'skip', reason: 'stale' }),
+      }),
+    );
+  });
+
+  it('reconciles stale events from fresh ALIS data instead of the stale payload', async () => {
+    evaluateEventOrderingMock.mockResolvedValueOnce({
+      decision: 'reconcile',
+      reason: 'stale',
+      family: 'room',
+      policy: 'reconcile',
+      watermark: staleWatermark,
+    });
+
+    startProcessAlisEventWorker();
+    await mockWorkerProcessor?.({
+      data: {
+        eventMessageId: 'evt-old-room',
+        eventType: 'resident.room_changed',
+        companyKey: 'appstoresandbox',
+        companyId: 10,
+        communityId: 113,
+        notificationData: { ResidentId: 70508, AssignedRoom: '12' },
+        eventMessageDate: '2026-04-28T12:00:00Z',
+      },
+    });
+
+    expect(handleAlisEventMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        EventType: 'residents.basic_info_updated',
+        NotificationData: { ResidentId: 70508 },
+      }),
+      10,
+      'appstoresandbox',
+      expect.objectContaining({ residentId: 70508, communityId: 113 }),
+    );
+    expect(recordAppliedEventMock).toHaveBeenCalled();
+    expect(markEventProcessedMock).toHaveBeenCalled();
   });
 
   it('falls back to patient-number lookup for contact events when the community CUID misses', async () => {
@@ -148,6 +288,7 @@ describe('processAlisEvent worker', () => {
       }),
       10,
       'appstoresandbox',
+      expect.objectContaining({ residentId: 70508, communityId: 113 }),
     );
     expect(recordEventIssueMock).not.toHaveBeenCalledWith(
       expect.objectContaining({
@@ -156,4 +297,146 @@ describe('processAlisEvent worker', () => {
       }),
     );
   });
+
+  it('fetches the resident from ALIS once and hands the same snapshot to the orchestrator', async () => {
+    const snapshot = {
+      resident: { ResidentId: 70508 },
+      basicInfo: { FirstName: 'Ada' },
+      insurance: [],
+      roomAssignments: [],
+      diagnosesAndAllergies: [],
+      contacts: [],
+      community: null,
+    };
+    fetchAllResidentDataMock.mockResolvedValueOnce(snapshot);
+    handleAlisEventMock.mockImplementationOnce(
+      async (_event, _companyId, _companyKey, residentData) => {
+        await expect(residentData.getResidentData()).resolves.toBe(snapshot);
+      },
+    );
+
+    startProcessAlisEventWorker();
+    await mockWorkerProcessor?.({
+      data: {
+        eventMessageId: 'evt-basic-info',
+        eventType: 'residents.basic_info_updated',
+        companyKey: 'appstoresandbox',
+        companyId: 10,
+        communityId: 113,
+        notificationData: { ResidentId: 70508 },
+        eventMessageDate: '2026-04-28T12:00:00Z',
+      },
+    });
+
+    expect(handleAlisEventMock).toHaveBeenCalledTimes(1);
+    expect(fetchAllResidentDataMock).toHaveBeenCalledTimes(1);
+    expect(createAlisClientMock).not.toHaveBeenCalled();
+    expect(normalizeResidentMock).toHaveBeenCalledWith({
+      detail: snapshot.resident,
+      basicInfo: snapshot.basicInfo,
+    });
+  });
+
+  it('fetches only the resident profile when the event has no Caspio work', async () => {
+    getCommunityEnrichmentMock.mockResolvedValue({ CUID: 'community-cuid' });
+    findRecordByFieldsMock.mockResolvedValueOnce({ found: false });
+    findByPatientNumberMock.mockResolvedValueOnce({ found: false });
+
+    startProcessAlisEventWorker();
+    await mockWorkerProcessor?.({
+      data: {
+        eventMessageId: 'evt-contact-unknown-resident',
+        eventType: 'resident.contact.updated',
+        companyKey: 'appstoresandbox',
+        companyId: 10,
+        communityId: 113,
+        notificationData: { ResidentId: 70508 },
+        eventMessageDate: '2026-04-28T12:00:00Z',
+      },
+    });
+
+    expect(handleAlisEventMock).not.toHaveBeenCalled();
+    expect(fetchAllResidentDataMock).not.toHaveBeenCalled();
+    expect(normalizeResidentMock).toHaveBeenCalledWith({
+      detail: { ResidentId: 70508 },
+      basicInfo: { FirstName: 'Ada' },
+    });
+    expect(upsertResidentMock).toHaveBeenCalledWith(10, { residentId: 70508 });
+    expect(markEventProcessedMock).toHaveBeenCalled();
+  });
+
+  it('records the ALIS retries a job needed in its issue details', async () => {
+    fetchAllResidentDataMock.mockImplementationOnce(
+      async (_credentials, _residentId, _communityId, options) => {
+        options.requestStats.requests += 3;
+        options.requestStats.retries += 2;
+        throw new Error('ALIS API error (503): Service Unavailable');
+      },
+    );
+
+    startProcessAlisEventWorker();
+    await expect(
+      mockWorkerProcessor?.({
+        data: {
+          eventMessageId: 'evt-throttled',
+          eventType: 'residents.basic_info_updated',
+          companyKey: 'appstoresandbox',
+          companyId: 10,
+          communityId: 113,
+          notificationData: { ResidentId: 70508 },
+          eventMessageDate: '2026-04-28T12:00:00Z',
+        },
+        attemptsMade: 0,
+        opts: { attempts: 5 },
+      }),
+    ).rejects.toThrow('Service Unavailable');
+
+    expect(fetchAllResidentDataMock).toHaveBeenCalledWith(
+      expect.anything(),
+      70508,
+      113,
+      expect.objectContaining({ budgetKey: 'appstoresandbox' }),
+    );
+    expect(recordEventIssueMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        stage: 'event_processing',
+        details: expect.objectContaining({
+          alisRequests: { requests: 3, retries: 2, budgetWaitMs: 0 },
+        }),
+      }),
+    );
+  });
+
+  it('takes a deferred leave_end out of the resident sequence while it waits', async () => {
+    evaluateEventOrderingMock.mockResolvedValueOnce({
+      decision: 'defer',
+      reason: 'awaiting_leave_start',
+      family: 'leave',
+      policy: 'defer',
+      watermark: null,
+    });
+    const updateData = jest.fn().mockResolvedValue(undefined);
+    const moveToDelayed = jest.fn().mockResolvedValue(undefined);
+    const data = {
+      eventMessageId: 'evt-leave-end',
+      eventType: 'residents.leave_end',
+      companyKey: 'appstoresandbox',
+      companyId: 10,
+      communityId: 113,
+      notificationData: { ResidentId: 70508, LeaveId: 42 },
+      eventMessageDate: '2026-04-28T12:00:00Z',
+    };
+
+    startProcessAlisEventWorker();
+    await expect(
+      mockWorkerProcessor?.({ id: 'job-leave-end', data, updateData, moveToDelayed }),
+    ).rejects.toThrow();
+
+    expect(handleAlisEventMock).not.toHaveBeenCalled();
+    expect(unregisterResidentEvent).toHaveBeenCalledWith(data, 'job-leave-end');
+    expect(releaseResidentTurn).toHaveBeenCalledWith(data, 'job-leave-end');
+    expect(completeResidentTurn).not.toHaveBeenCalled();
+    expect(updateData).toHaveBeenCalledWith(expect.objectContaining({ deferCount: 1 }));
+    expect(moveToDelayed).toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,144 @@
+import RedisMock from 'ioredis-mock';
+
+const redis = new RedisMock();
+
+jest.mock('../../src/config/env.js', () => ({
+  env: {
+    RESIDENT_EVENT_LOCK_TTL_MS: 60000,
+  },
+}));
+
+jest.mock('../../src/config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/workers/connection.js', () => ({
+  getRedisConnection: () => redis,
+}));
+
+import {
+  acquireResidentTurn,
+  completeResidentTurn,
+  registerResidentEvent,
+  releaseResidentTurn,
+} from '../../src/workers/residentSequencer.js';
+import type { ProcessAlisEventJobData } from '../../src/workers/types.js';
+
+function jobData(overrides: Partial<ProcessAlisEventJobData>): ProcessAlisEventJobData {
+  return {
+    eventMessageId: 'evt',
+    eventType: 'residents.basic_info_updated',
+    companyKey: 'appstoresandbox',
+    companyId: 10,
+    communityId: 113,
+    residentId: 70508,
+    notificationData: { ResidentId: 70508 },
+    eventMessageDate: '2026-01-19T10:00:00',
+    ...overrides,
+  };
+}
+
+describe('residentSequencer', () => {
+  const pending = jest.fn(async (_jobId: string) => true);
+
+  beforeEach(async () => {
+    await redis.flushall();
+    pending.mockResolvedValue(true);
+  });
+
+  it('runs events for the same resident in EventMessageDate order', async () => {
+    const roomChanged = jobData({
+      eventType: 'resident.room_changed',
+      eventMessageDate: '2026-01-19T10:05:00',
+    });
+    const moveIn = jobData({
+      eventType: 'residents.move_in',
+      eventMessageDate: '2026-01-19T10:00:00',
+    });
+
+    // Arrives first but is newer
+    await registerResidentEvent(roomChanged, 'job-room');
+    await registerResidentEvent(moveIn, 'job-move-in');
+
+    await expect(acquireResidentTurn(roomChanged, 'job-room', pending)).resolves.toEqual({
+      acquired: false,
+      reason: 'not_head',
+      headJobId: 'job-move-in',
+    });
+    await expect(acquireResidentTurn(moveIn, 'job-move-in', pending)).resolves.toEqual({
+      acquired: true,
+    });
+
+    await completeResidentTurn(moveIn, 'job-move-in');
+
+    await expect(acquireResidentTurn(roomChanged, 'job-room', pending)).resolves.toEqual({
+      acquired: true,
+    });
+  });
+
+  it('blocks an older event that arrives while a newer one holds the resident lock', async () => {
+    const newer = jobData({ eventMessageDate: '2026-01-19T10:05:00' });
+    const older = jobData({ eventMessageDate: '2026-01-19T10:00:00' });
+
+    await registerResidentEvent(newer, 'job-newer');
+    await expect(acquireResidentTurn(newer, 'job-newer', pending)).resolves.toEqual({
+      acquired: true,
+    });
+
+    await registerResidentEvent(older, 'job-older');
+    await expect(acquireResidentTurn(older, 'job-older', pending)).resolves.toEqual({
+      acquired: false,
+      reason: 'locked',
+      headJobId: 'job-newer',
+    });
+  });
+
+  it('keeps a failing job first in line until it completes', async () => {
+    const first = jobData({ eventMessageDate: '2026-01-19T10:00:00' });
+    const second = jobData({ eventMessageDate: '2026-01-19T10:05:00' });
+    await registerResidentEvent(first, 'job-1');
+    await registerResidentEvent(second, 'job-2');
+
+    await acquireResidentTurn(first, 'job-1', pending);
+    await releaseResidentTurn(first, 'job-1');
+
+    await expect(acquireResidentTurn(second, 'job-2', pending)).resolves.toMatchObject({
+      acquired: false,
+      reason: 'not_head',
+    });
+    await expect(acquireResidentTurn(first, 'job-1', pending)).resolves.toEqual({
+      acquired: true,
+    });
+  });
+
+  it('does not serialize different residents', async () => {
+    const residentA = jobData({ residentId: 1, notificationData: { ResidentId: 1 } });
+    const residentB = jobData({ residentId: 2, notificationData: { ResidentId: 2 } });
+    await registerResidentEvent(residentA, 'job-a');
+    await registerResidentEvent(residentB, 'job-b');
+
+    await expect(acquireResidentTurn(residentA, 'job-a', pending)).resolves.toEqual({
+      acquired: true,
+    });
+    await expect(acquireResidentTurn(residentB, 'job-b', pending)).resolves.toEqual({
+      acquired: true,
+    });
+  });
+
+  it('drops heads whose jobs no longer exist', async () => {
+    const lost = jobData({ eventMessageDate: '2026-01-19T09:00:00' });
+    const current = jobData({ eventMessageDate: '2026-01-19T10:00:00' });
+    await registerResidentEvent(lost, 'job-lost');
+    await registerResidentEvent(current, 'job-current');
+    pending.mockImplementation(async (jobId: string) => jobId !== 'job-lost');
+
+    await expect(acquireResidentTurn(current, 'job-current', pending)).resolves.toEqual({
+      acquired: true,
+    });
+  });
+});